@@ -0,0 +1,558 @@
+CREATE TYPE "public"."battery_health" AS ENUM('Good', 'Overheat', 'Dead', 'Over voltage', 'Failure', 'Unknown');--> statement-breakpoint
+CREATE TYPE "public"."battery_status" AS ENUM('Charging', 'Discharging', 'Full', 'Not charging', 'Unknown');--> statement-breakpoint
+CREATE TYPE "public"."block_device_type" AS ENUM('emmc', 'sdcard', 'zram', 'loop', 'other');--> statement-breakpoint
+CREATE TYPE "public"."charge_type" AS ENUM('Fast', 'Trickle', 'Standard', 'Unknown');--> statement-breakpoint
+CREATE TYPE "public"."network_interface_type" AS ENUM('wifi', 'cellular', 'usb', 'loopback', 'other');--> statement-breakpoint
+CREATE TYPE "public"."otlp_metric_kind" AS ENUM('gauge', 'sum', 'histogram', 'exponential_histogram', 'summary');--> statement-breakpoint
+CREATE TYPE "public"."reading_source" AS ENUM('client', 'otlp');--> statement-breakpoint
+CREATE TYPE "public"."rfkill_type" AS ENUM('bluetooth', 'wifi', 'wwan');--> statement-breakpoint
+CREATE TYPE "public"."rollup_resolution" AS ENUM('1m', '1h', '1d');--> statement-breakpoint
+CREATE TYPE "public"."telemetry_frequency" AS ENUM('high', 'medium', 'low');--> statement-breakpoint
+CREATE TYPE "public"."usb_type" AS ENUM('Unknown', 'SDP', 'DCP', 'CDP', 'ACA', 'C', 'PD', 'PD_DRP', 'PD_PPS', 'BrickID');--> statement-breakpoint
+CREATE TABLE "battery_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"capacity" integer NOT NULL,
+	"status" "battery_status" NOT NULL,
+	"voltage" real NOT NULL,
+	"current" real NOT NULL,
+	"temperature" real NOT NULL,
+	"charge_full" integer NOT NULL,
+	"charge_full_design" integer NOT NULL,
+	"health" "battery_health" NOT NULL,
+	"present" boolean NOT NULL,
+	"charge_type" charge_type NOT NULL,
+	"energy_full_design" real NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cooling_device_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"device_index" integer NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"current_state" integer NOT NULL,
+	"max_state" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cpu_frequency_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"cpu" integer NOT NULL,
+	"current_freq" integer NOT NULL,
+	"min_freq" integer NOT NULL,
+	"max_freq" integer NOT NULL,
+	"hardware_min_freq" integer NOT NULL,
+	"hardware_max_freq" integer NOT NULL,
+	"governor" varchar(50) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cpu_frequency_stats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"cpu" integer NOT NULL,
+	"time_in_state" json NOT NULL,
+	"total_transitions" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cpu_idle_stats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"cpu" integer NOT NULL,
+	"states" json NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cpu_load_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"load1" real NOT NULL,
+	"load5" real NOT NULL,
+	"load15" real NOT NULL,
+	"running_processes" integer NOT NULL,
+	"total_processes" integer NOT NULL,
+	"uptime" real NOT NULL,
+	"idle_time" real NOT NULL,
+	"online_cpus" json NOT NULL,
+	"offline_cpus" json NOT NULL,
+	CONSTRAINT "cpu_load_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "cpu_time_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"cpu" varchar(20) NOT NULL,
+	"user_time" bigint NOT NULL,
+	"nice_time" bigint NOT NULL,
+	"system_time" bigint NOT NULL,
+	"idle_time" bigint NOT NULL,
+	"iowait_time" bigint NOT NULL,
+	"irq_time" bigint NOT NULL,
+	"softirq_time" bigint NOT NULL,
+	"steal_time" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "device_clock_skew" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"received_at" timestamp with time zone NOT NULL,
+	"device_timestamp_ms" bigint NOT NULL,
+	"skew_ms" bigint NOT NULL,
+	"uptime" real,
+	"boot_epoch_ms" bigint,
+	"readings" integer NOT NULL,
+	"suspect_readings" integer NOT NULL,
+	"corrected_readings" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "device_credentials" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"token_prefix" varchar(16) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_used_at" timestamp with time zone,
+	"expires_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	CONSTRAINT "device_credentials_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "device_process_state" (
+	"device_id" integer PRIMARY KEY NOT NULL,
+	"boot" integer NOT NULL,
+	"snapshot_at" timestamp with time zone NOT NULL,
+	"processes_created" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "device_processes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"boot" integer NOT NULL,
+	"pid" integer NOT NULL,
+	"start_time" real NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"cmdline" text NOT NULL,
+	"first_seen_at" timestamp with time zone NOT NULL,
+	"last_seen_at" timestamp with time zone NOT NULL,
+	"last_cpu_time_ms" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "devices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" varchar(255) NOT NULL,
+	"name" varchar(255),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "devices_device_id_unique" UNIQUE("device_id")
+);
+--> statement-breakpoint
+CREATE TABLE "display_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"brightness" integer NOT NULL,
+	"max_brightness" integer NOT NULL,
+	"brightness_percent" real NOT NULL,
+	"power" boolean NOT NULL,
+	CONSTRAINT "display_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "gpu_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"current_freq" integer NOT NULL,
+	"target_freq" integer NOT NULL,
+	"min_freq" integer NOT NULL,
+	"max_freq" integer NOT NULL,
+	"governor" varchar(50) NOT NULL,
+	"available_frequencies" json NOT NULL,
+	"polling_interval_ms" integer NOT NULL,
+	"transition_stats" json,
+	"total_transitions" integer,
+	CONSTRAINT "gpu_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "led_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"brightness" integer NOT NULL,
+	"max_brightness" integer NOT NULL,
+	"trigger" varchar(100) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "memory_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"total" bigint NOT NULL,
+	"free" bigint NOT NULL,
+	"available" bigint NOT NULL,
+	"buffers" bigint NOT NULL,
+	"cached" bigint NOT NULL,
+	"swap_total" bigint NOT NULL,
+	"swap_free" bigint NOT NULL,
+	"swap_used" bigint NOT NULL,
+	"active" bigint NOT NULL,
+	"inactive" bigint NOT NULL,
+	"active_anon" bigint NOT NULL,
+	"inactive_anon" bigint NOT NULL,
+	"active_file" bigint NOT NULL,
+	"inactive_file" bigint NOT NULL,
+	"dirty" bigint NOT NULL,
+	"writeback" bigint NOT NULL,
+	"anon_pages" bigint NOT NULL,
+	"mapped" bigint NOT NULL,
+	"shmem" bigint NOT NULL,
+	"slab" bigint NOT NULL,
+	"s_reclaimable" bigint NOT NULL,
+	"s_unreclaim" bigint NOT NULL,
+	"used_percent" real NOT NULL,
+	"swap_used_percent" real NOT NULL,
+	CONSTRAINT "memory_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "network_interface_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"address" varchar(100) NOT NULL,
+	"carrier" boolean NOT NULL,
+	"carrier_changes" integer NOT NULL,
+	"operstate" varchar(50) NOT NULL,
+	"mtu" integer NOT NULL,
+	"type" "network_interface_type" NOT NULL,
+	"rx_bytes" bigint NOT NULL,
+	"tx_bytes" bigint NOT NULL,
+	"rx_packets" bigint NOT NULL,
+	"tx_packets" bigint NOT NULL,
+	"rx_errors" bigint NOT NULL,
+	"tx_errors" bigint NOT NULL,
+	"rx_dropped" bigint NOT NULL,
+	"tx_dropped" bigint NOT NULL,
+	"rx_fifo" bigint NOT NULL,
+	"tx_fifo" bigint NOT NULL,
+	"rx_frame" bigint NOT NULL,
+	"tx_carrier" bigint NOT NULL,
+	"collisions" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "network_summary_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"total_rx_bytes" bigint NOT NULL,
+	"total_tx_bytes" bigint NOT NULL,
+	"wifi_signal_strength" integer,
+	"wifi_link_quality" integer,
+	"wifi_noise_level" integer,
+	"wifi_ssid" varchar(255),
+	"wifi_frequency" integer,
+	"wifi_bitrate" real,
+	CONSTRAINT "network_summary_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "otlp_metric_points" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"unit" varchar(64),
+	"kind" "otlp_metric_kind" NOT NULL,
+	"monotonic" boolean,
+	"scope" varchar(255),
+	"start_timestamp" timestamp with time zone,
+	"value" double precision,
+	"count" bigint,
+	"sum" double precision,
+	"attributes" json,
+	"details" json
+);
+--> statement-breakpoint
+CREATE TABLE "process_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"process_id" integer,
+	"pid" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"state" varchar(10) NOT NULL,
+	"ppid" integer NOT NULL,
+	"pgrp" integer NOT NULL,
+	"session" integer NOT NULL,
+	"user_time_ms" bigint NOT NULL,
+	"system_time_ms" bigint NOT NULL,
+	"total_cpu_time_ms" bigint NOT NULL,
+	"cpu_percent" real,
+	"vsize" bigint NOT NULL,
+	"rss" bigint NOT NULL,
+	"rss_limit" bigint NOT NULL,
+	"memory_percent" real NOT NULL,
+	"num_threads" integer NOT NULL,
+	"nice" integer NOT NULL,
+	"priority" integer NOT NULL,
+	"start_time" real NOT NULL,
+	"cmdline" text NOT NULL,
+	"oom_score" integer NOT NULL,
+	"read_bytes" bigint,
+	"write_bytes" bigint
+);
+--> statement-breakpoint
+CREATE TABLE "process_summary_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"total" integer NOT NULL,
+	"running" integer NOT NULL,
+	"sleeping" integer NOT NULL,
+	"zombie" integer NOT NULL,
+	"stopped" integer NOT NULL,
+	"total_cpu_time" bigint NOT NULL,
+	"context_switches" bigint NOT NULL,
+	"processes_created" bigint NOT NULL,
+	CONSTRAINT "process_summary_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "rfkill_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"type" "rfkill_type" NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"soft_blocked" boolean NOT NULL,
+	"hard_blocked" boolean NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sensor_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"illuminance_raw" real NOT NULL,
+	"illuminance_scale" real NOT NULL,
+	"illuminance_lux" real NOT NULL,
+	"proximity_raw" real NOT NULL,
+	"proximity_scale" real NOT NULL,
+	"near_level" real NOT NULL,
+	"is_near" boolean NOT NULL,
+	"accel_raw_x" real NOT NULL,
+	"accel_raw_y" real NOT NULL,
+	"accel_raw_z" real NOT NULL,
+	"accel_scale" real NOT NULL,
+	"accel_x" real NOT NULL,
+	"accel_y" real NOT NULL,
+	"accel_z" real NOT NULL,
+	"accel_magnitude" real NOT NULL,
+	"gyro_raw_x" real NOT NULL,
+	"gyro_raw_y" real NOT NULL,
+	"gyro_raw_z" real NOT NULL,
+	"gyro_scale" real NOT NULL,
+	"gyro_x" real NOT NULL,
+	"gyro_y" real NOT NULL,
+	"gyro_z" real NOT NULL,
+	"gyro_magnitude" real NOT NULL,
+	"mag_raw_x" real NOT NULL,
+	"mag_raw_y" real NOT NULL,
+	"mag_raw_z" real NOT NULL,
+	"mag_scale" real NOT NULL,
+	"mag_x" real NOT NULL,
+	"mag_y" real NOT NULL,
+	"mag_z" real NOT NULL,
+	"mag_heading" real NOT NULL,
+	"adc_channels" json NOT NULL,
+	CONSTRAINT "sensor_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "storage_device_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"parent_device_id" integer,
+	"name" varchar(100) NOT NULL,
+	"type" "block_device_type" NOT NULL,
+	"size" bigint NOT NULL,
+	"bytes_read" bigint NOT NULL,
+	"bytes_written" bigint NOT NULL,
+	"reads_completed" bigint NOT NULL,
+	"reads_merged" bigint NOT NULL,
+	"sectors_read" bigint NOT NULL,
+	"read_time_ms" bigint NOT NULL,
+	"writes_completed" bigint NOT NULL,
+	"writes_merged" bigint NOT NULL,
+	"sectors_written" bigint NOT NULL,
+	"write_time_ms" bigint NOT NULL,
+	"ios_in_progress" integer NOT NULL,
+	"io_time_ms" bigint NOT NULL,
+	"weighted_io_time_ms" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "storage_summary_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"total_bytes_read" bigint NOT NULL,
+	"total_bytes_written" bigint NOT NULL,
+	"total_io_time_ms" bigint NOT NULL,
+	CONSTRAINT "storage_summary_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "system_wakeup_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"wakeup_count" integer NOT NULL,
+	CONSTRAINT "system_wakeup_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "telemetry_archive" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"timestamp_ms" bigint NOT NULL,
+	"frequency" "telemetry_frequency" NOT NULL,
+	"document_version" integer NOT NULL,
+	"received_at" timestamp with time zone NOT NULL,
+	"size" integer NOT NULL,
+	"payload" "bytea" NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "telemetry_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"timestamp_ms" bigint NOT NULL,
+	"frequency" "telemetry_frequency" NOT NULL,
+	"source" "reading_source" DEFAULT 'client' NOT NULL,
+	"idempotency_key" varchar(255),
+	"schema_version" integer DEFAULT 1 NOT NULL,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"clock_suspect" boolean DEFAULT false NOT NULL,
+	"clock_offset_ms" bigint,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "telemetry_rollups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"resolution" "rollup_resolution" NOT NULL,
+	"bucket_start" timestamp with time zone NOT NULL,
+	"metric" varchar(64) NOT NULL,
+	"count" integer NOT NULL,
+	"sum" double precision NOT NULL,
+	"min" double precision NOT NULL,
+	"max" double precision NOT NULL,
+	"last" double precision NOT NULL,
+	"last_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "thermal_summary_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"battery_temp" real NOT NULL,
+	"cpu_temp" real NOT NULL,
+	"gpu_temp" real NOT NULL,
+	CONSTRAINT "thermal_summary_readings_reading_id_unique" UNIQUE("reading_id")
+);
+--> statement-breakpoint
+CREATE TABLE "thermal_zone_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"zone" integer NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"temperature" real NOT NULL,
+	"trip_points" json
+);
+--> statement-breakpoint
+CREATE TABLE "typec_port_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"data_role" varchar(50) NOT NULL,
+	"power_role" varchar(50) NOT NULL,
+	"orientation" varchar(50) NOT NULL,
+	"power_operation_mode" varchar(50) NOT NULL,
+	"vconn_source" boolean NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "usb_input_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"present" boolean NOT NULL,
+	"health" "battery_health" NOT NULL,
+	"input_current_limit" real NOT NULL,
+	"input_voltage_limit" real NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "usb_pd_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reading_id" integer NOT NULL,
+	"online" boolean NOT NULL,
+	"voltage" real NOT NULL,
+	"voltage_min" real NOT NULL,
+	"voltage_max" real NOT NULL,
+	"current" real NOT NULL,
+	"current_max" real NOT NULL,
+	"usb_type" "usb_type" NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "battery_readings" ADD CONSTRAINT "battery_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cooling_device_readings" ADD CONSTRAINT "cooling_device_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" ADD CONSTRAINT "cpu_frequency_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_stats" ADD CONSTRAINT "cpu_frequency_stats_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_idle_stats" ADD CONSTRAINT "cpu_idle_stats_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_load_readings" ADD CONSTRAINT "cpu_load_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_time_readings" ADD CONSTRAINT "cpu_time_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_clock_skew" ADD CONSTRAINT "device_clock_skew_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_credentials" ADD CONSTRAINT "device_credentials_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_process_state" ADD CONSTRAINT "device_process_state_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_processes" ADD CONSTRAINT "device_processes_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "display_readings" ADD CONSTRAINT "display_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gpu_readings" ADD CONSTRAINT "gpu_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "led_readings" ADD CONSTRAINT "led_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "memory_readings" ADD CONSTRAINT "memory_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ADD CONSTRAINT "network_interface_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "network_summary_readings" ADD CONSTRAINT "network_summary_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "otlp_metric_points" ADD CONSTRAINT "otlp_metric_points_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "process_readings" ADD CONSTRAINT "process_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "process_readings" ADD CONSTRAINT "process_readings_process_id_device_processes_id_fk" FOREIGN KEY ("process_id") REFERENCES "public"."device_processes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "process_summary_readings" ADD CONSTRAINT "process_summary_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rfkill_readings" ADD CONSTRAINT "rfkill_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sensor_readings" ADD CONSTRAINT "sensor_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "storage_device_readings" ADD CONSTRAINT "storage_device_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "storage_summary_readings" ADD CONSTRAINT "storage_summary_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_wakeup_readings" ADD CONSTRAINT "system_wakeup_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "telemetry_archive" ADD CONSTRAINT "telemetry_archive_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "telemetry_readings" ADD CONSTRAINT "telemetry_readings_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "telemetry_rollups" ADD CONSTRAINT "telemetry_rollups_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "thermal_summary_readings" ADD CONSTRAINT "thermal_summary_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "thermal_zone_readings" ADD CONSTRAINT "thermal_zone_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "typec_port_readings" ADD CONSTRAINT "typec_port_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "usb_input_readings" ADD CONSTRAINT "usb_input_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "usb_pd_readings" ADD CONSTRAINT "usb_pd_readings_reading_id_telemetry_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."telemetry_readings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "battery_readings_reading_id_idx" ON "battery_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cooling_device_readings_reading_id_idx" ON "cooling_device_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_frequency_readings_reading_id_idx" ON "cpu_frequency_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_frequency_stats_reading_id_idx" ON "cpu_frequency_stats" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_idle_stats_reading_id_idx" ON "cpu_idle_stats" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_load_readings_reading_id_idx" ON "cpu_load_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_time_readings_reading_id_idx" ON "cpu_time_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "device_clock_skew_device_received_idx" ON "device_clock_skew" USING btree ("device_id","received_at");--> statement-breakpoint
+CREATE INDEX "device_credentials_device_id_idx" ON "device_credentials" USING btree ("device_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "device_processes_identity_idx" ON "device_processes" USING btree ("device_id","boot","pid","start_time","name");--> statement-breakpoint
+CREATE INDEX "device_processes_device_last_seen_idx" ON "device_processes" USING btree ("device_id","last_seen_at");--> statement-breakpoint
+CREATE INDEX "devices_device_id_idx" ON "devices" USING btree ("device_id");--> statement-breakpoint
+CREATE INDEX "display_readings_reading_id_idx" ON "display_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "gpu_readings_reading_id_idx" ON "gpu_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "led_readings_reading_id_idx" ON "led_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "memory_readings_reading_id_idx" ON "memory_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "network_interface_readings_reading_id_idx" ON "network_interface_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "network_summary_readings_reading_id_idx" ON "network_summary_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "otlp_metric_points_reading_id_idx" ON "otlp_metric_points" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "otlp_metric_points_name_idx" ON "otlp_metric_points" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "process_readings_reading_id_idx" ON "process_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "process_readings_process_id_idx" ON "process_readings" USING btree ("process_id");--> statement-breakpoint
+CREATE INDEX "process_summary_readings_reading_id_idx" ON "process_summary_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "rfkill_readings_reading_id_idx" ON "rfkill_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "sensor_readings_reading_id_idx" ON "sensor_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "storage_device_readings_reading_id_idx" ON "storage_device_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "storage_summary_readings_reading_id_idx" ON "storage_summary_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "system_wakeup_readings_reading_id_idx" ON "system_wakeup_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_archive_natural_key_idx" ON "telemetry_archive" USING btree ("device_id","timestamp_ms","frequency");--> statement-breakpoint
+CREATE INDEX "telemetry_archive_received_at_idx" ON "telemetry_archive" USING btree ("received_at");--> statement-breakpoint
+CREATE INDEX "telemetry_readings_device_id_idx" ON "telemetry_readings" USING btree ("device_id");--> statement-breakpoint
+CREATE INDEX "telemetry_readings_timestamp_idx" ON "telemetry_readings" USING btree ("timestamp");--> statement-breakpoint
+CREATE INDEX "telemetry_readings_frequency_idx" ON "telemetry_readings" USING btree ("frequency");--> statement-breakpoint
+CREATE INDEX "telemetry_readings_received_at_idx" ON "telemetry_readings" USING btree ("received_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_readings_natural_key_idx" ON "telemetry_readings" USING btree ("device_id","timestamp_ms","frequency");--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_readings_idempotency_key_idx" ON "telemetry_readings" USING btree ("device_id","idempotency_key");--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_rollups_bucket_idx" ON "telemetry_rollups" USING btree ("device_id","metric","resolution","bucket_start");--> statement-breakpoint
+CREATE INDEX "telemetry_rollups_bucket_start_idx" ON "telemetry_rollups" USING btree ("bucket_start");--> statement-breakpoint
+CREATE INDEX "thermal_summary_readings_reading_id_idx" ON "thermal_summary_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "thermal_zone_readings_reading_id_idx" ON "thermal_zone_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "typec_port_readings_reading_id_idx" ON "typec_port_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "usb_input_readings_reading_id_idx" ON "usb_input_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "usb_pd_readings_reading_id_idx" ON "usb_pd_readings" USING btree ("reading_id");
\ No newline at end of file
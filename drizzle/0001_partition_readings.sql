@@ -0,0 +1,843 @@
+-- Rebuild telemetry_readings and its child tables as tables partitioned by
+-- month of the reading's sample time. Child rows get a copy of that time
+-- (reading_timestamp) so they are partitioned alongside their reading.
+--
+-- The old tables are moved aside, their rows copied into the new ones and
+-- then dropped, so this needs room for a second copy of the data for a while.
+-- Monthly partitions are created for the months that hold data (at most the
+-- last three years) up to three months ahead; older or far-future rows land
+-- in the default partitions. src/lib/server/telemetry/partitions.ts keeps
+-- creating months ahead from then on.
+
+-- Move the old tables aside and free their constraint and index names
+ALTER TABLE "usb_pd_readings" DROP CONSTRAINT "usb_pd_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "usb_input_readings" DROP CONSTRAINT "usb_input_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "typec_port_readings" DROP CONSTRAINT "typec_port_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "thermal_zone_readings" DROP CONSTRAINT "thermal_zone_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "thermal_summary_readings" DROP CONSTRAINT "thermal_summary_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "system_wakeup_readings" DROP CONSTRAINT "system_wakeup_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "storage_summary_readings" DROP CONSTRAINT "storage_summary_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "storage_device_readings" DROP CONSTRAINT "storage_device_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "sensor_readings" DROP CONSTRAINT "sensor_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "rfkill_readings" DROP CONSTRAINT "rfkill_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "process_summary_readings" DROP CONSTRAINT "process_summary_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "process_readings" DROP CONSTRAINT "process_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "process_readings" DROP CONSTRAINT "process_readings_process_id_device_processes_id_fk";--> statement-breakpoint
+ALTER TABLE "otlp_metric_points" DROP CONSTRAINT "otlp_metric_points_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "network_summary_readings" DROP CONSTRAINT "network_summary_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "network_interface_readings" DROP CONSTRAINT "network_interface_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "memory_readings" DROP CONSTRAINT "memory_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "led_readings" DROP CONSTRAINT "led_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "gpu_readings" DROP CONSTRAINT "gpu_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "display_readings" DROP CONSTRAINT "display_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "cpu_time_readings" DROP CONSTRAINT "cpu_time_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "cpu_load_readings" DROP CONSTRAINT "cpu_load_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "cpu_idle_stats" DROP CONSTRAINT "cpu_idle_stats_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "cpu_frequency_stats" DROP CONSTRAINT "cpu_frequency_stats_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" DROP CONSTRAINT "cpu_frequency_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "cooling_device_readings" DROP CONSTRAINT "cooling_device_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "battery_readings" DROP CONSTRAINT "battery_readings_reading_id_telemetry_readings_id_fk";--> statement-breakpoint
+ALTER TABLE "telemetry_readings" DROP CONSTRAINT "telemetry_readings_device_id_devices_id_fk";--> statement-breakpoint
+ALTER TABLE "telemetry_readings" RENAME TO "telemetry_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "telemetry_readings_id_seq" RENAME TO "telemetry_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "telemetry_readings_unpartitioned" DROP CONSTRAINT "telemetry_readings_pkey";--> statement-breakpoint
+DROP INDEX "telemetry_readings_device_id_idx";--> statement-breakpoint
+DROP INDEX "telemetry_readings_timestamp_idx";--> statement-breakpoint
+DROP INDEX "telemetry_readings_frequency_idx";--> statement-breakpoint
+DROP INDEX "telemetry_readings_received_at_idx";--> statement-breakpoint
+DROP INDEX "telemetry_readings_natural_key_idx";--> statement-breakpoint
+DROP INDEX "telemetry_readings_idempotency_key_idx";--> statement-breakpoint
+ALTER TABLE "battery_readings" RENAME TO "battery_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "battery_readings_id_seq" RENAME TO "battery_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "battery_readings_unpartitioned" DROP CONSTRAINT "battery_readings_pkey";--> statement-breakpoint
+DROP INDEX "battery_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "cooling_device_readings" RENAME TO "cooling_device_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "cooling_device_readings_id_seq" RENAME TO "cooling_device_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "cooling_device_readings_unpartitioned" DROP CONSTRAINT "cooling_device_readings_pkey";--> statement-breakpoint
+DROP INDEX "cooling_device_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" RENAME TO "cpu_frequency_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "cpu_frequency_readings_id_seq" RENAME TO "cpu_frequency_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings_unpartitioned" DROP CONSTRAINT "cpu_frequency_readings_pkey";--> statement-breakpoint
+DROP INDEX "cpu_frequency_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "cpu_frequency_stats" RENAME TO "cpu_frequency_stats_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "cpu_frequency_stats_id_seq" RENAME TO "cpu_frequency_stats_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "cpu_frequency_stats_unpartitioned" DROP CONSTRAINT "cpu_frequency_stats_pkey";--> statement-breakpoint
+DROP INDEX "cpu_frequency_stats_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "cpu_idle_stats" RENAME TO "cpu_idle_stats_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "cpu_idle_stats_id_seq" RENAME TO "cpu_idle_stats_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "cpu_idle_stats_unpartitioned" DROP CONSTRAINT "cpu_idle_stats_pkey";--> statement-breakpoint
+DROP INDEX "cpu_idle_stats_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "cpu_load_readings" RENAME TO "cpu_load_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "cpu_load_readings_id_seq" RENAME TO "cpu_load_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "cpu_load_readings_unpartitioned" DROP CONSTRAINT "cpu_load_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "cpu_load_readings_unpartitioned" DROP CONSTRAINT "cpu_load_readings_pkey";--> statement-breakpoint
+DROP INDEX "cpu_load_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "cpu_time_readings" RENAME TO "cpu_time_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "cpu_time_readings_id_seq" RENAME TO "cpu_time_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "cpu_time_readings_unpartitioned" DROP CONSTRAINT "cpu_time_readings_pkey";--> statement-breakpoint
+DROP INDEX "cpu_time_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "display_readings" RENAME TO "display_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "display_readings_id_seq" RENAME TO "display_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "display_readings_unpartitioned" DROP CONSTRAINT "display_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "display_readings_unpartitioned" DROP CONSTRAINT "display_readings_pkey";--> statement-breakpoint
+DROP INDEX "display_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "gpu_readings" RENAME TO "gpu_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "gpu_readings_id_seq" RENAME TO "gpu_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "gpu_readings_unpartitioned" DROP CONSTRAINT "gpu_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "gpu_readings_unpartitioned" DROP CONSTRAINT "gpu_readings_pkey";--> statement-breakpoint
+DROP INDEX "gpu_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "led_readings" RENAME TO "led_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "led_readings_id_seq" RENAME TO "led_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "led_readings_unpartitioned" DROP CONSTRAINT "led_readings_pkey";--> statement-breakpoint
+DROP INDEX "led_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "memory_readings" RENAME TO "memory_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "memory_readings_id_seq" RENAME TO "memory_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "memory_readings_unpartitioned" DROP CONSTRAINT "memory_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "memory_readings_unpartitioned" DROP CONSTRAINT "memory_readings_pkey";--> statement-breakpoint
+DROP INDEX "memory_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "network_interface_readings" RENAME TO "network_interface_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "network_interface_readings_id_seq" RENAME TO "network_interface_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "network_interface_readings_unpartitioned" DROP CONSTRAINT "network_interface_readings_pkey";--> statement-breakpoint
+DROP INDEX "network_interface_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "network_summary_readings" RENAME TO "network_summary_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "network_summary_readings_id_seq" RENAME TO "network_summary_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "network_summary_readings_unpartitioned" DROP CONSTRAINT "network_summary_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "network_summary_readings_unpartitioned" DROP CONSTRAINT "network_summary_readings_pkey";--> statement-breakpoint
+DROP INDEX "network_summary_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "otlp_metric_points" RENAME TO "otlp_metric_points_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "otlp_metric_points_id_seq" RENAME TO "otlp_metric_points_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "otlp_metric_points_unpartitioned" DROP CONSTRAINT "otlp_metric_points_pkey";--> statement-breakpoint
+DROP INDEX "otlp_metric_points_reading_id_idx";--> statement-breakpoint
+DROP INDEX "otlp_metric_points_name_idx";--> statement-breakpoint
+ALTER TABLE "process_readings" RENAME TO "process_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "process_readings_id_seq" RENAME TO "process_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "process_readings_unpartitioned" DROP CONSTRAINT "process_readings_pkey";--> statement-breakpoint
+DROP INDEX "process_readings_reading_id_idx";--> statement-breakpoint
+DROP INDEX "process_readings_process_id_idx";--> statement-breakpoint
+ALTER TABLE "process_summary_readings" RENAME TO "process_summary_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "process_summary_readings_id_seq" RENAME TO "process_summary_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "process_summary_readings_unpartitioned" DROP CONSTRAINT "process_summary_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "process_summary_readings_unpartitioned" DROP CONSTRAINT "process_summary_readings_pkey";--> statement-breakpoint
+DROP INDEX "process_summary_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "rfkill_readings" RENAME TO "rfkill_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "rfkill_readings_id_seq" RENAME TO "rfkill_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "rfkill_readings_unpartitioned" DROP CONSTRAINT "rfkill_readings_pkey";--> statement-breakpoint
+DROP INDEX "rfkill_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "sensor_readings" RENAME TO "sensor_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "sensor_readings_id_seq" RENAME TO "sensor_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "sensor_readings_unpartitioned" DROP CONSTRAINT "sensor_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "sensor_readings_unpartitioned" DROP CONSTRAINT "sensor_readings_pkey";--> statement-breakpoint
+DROP INDEX "sensor_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "storage_device_readings" RENAME TO "storage_device_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "storage_device_readings_id_seq" RENAME TO "storage_device_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "storage_device_readings_unpartitioned" DROP CONSTRAINT "storage_device_readings_pkey";--> statement-breakpoint
+DROP INDEX "storage_device_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "storage_summary_readings" RENAME TO "storage_summary_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "storage_summary_readings_id_seq" RENAME TO "storage_summary_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "storage_summary_readings_unpartitioned" DROP CONSTRAINT "storage_summary_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "storage_summary_readings_unpartitioned" DROP CONSTRAINT "storage_summary_readings_pkey";--> statement-breakpoint
+DROP INDEX "storage_summary_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "system_wakeup_readings" RENAME TO "system_wakeup_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "system_wakeup_readings_id_seq" RENAME TO "system_wakeup_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "system_wakeup_readings_unpartitioned" DROP CONSTRAINT "system_wakeup_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "system_wakeup_readings_unpartitioned" DROP CONSTRAINT "system_wakeup_readings_pkey";--> statement-breakpoint
+DROP INDEX "system_wakeup_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "thermal_summary_readings" RENAME TO "thermal_summary_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "thermal_summary_readings_id_seq" RENAME TO "thermal_summary_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "thermal_summary_readings_unpartitioned" DROP CONSTRAINT "thermal_summary_readings_reading_id_unique";--> statement-breakpoint
+ALTER TABLE "thermal_summary_readings_unpartitioned" DROP CONSTRAINT "thermal_summary_readings_pkey";--> statement-breakpoint
+DROP INDEX "thermal_summary_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "thermal_zone_readings" RENAME TO "thermal_zone_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "thermal_zone_readings_id_seq" RENAME TO "thermal_zone_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "thermal_zone_readings_unpartitioned" DROP CONSTRAINT "thermal_zone_readings_pkey";--> statement-breakpoint
+DROP INDEX "thermal_zone_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "typec_port_readings" RENAME TO "typec_port_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "typec_port_readings_id_seq" RENAME TO "typec_port_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "typec_port_readings_unpartitioned" DROP CONSTRAINT "typec_port_readings_pkey";--> statement-breakpoint
+DROP INDEX "typec_port_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "usb_input_readings" RENAME TO "usb_input_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "usb_input_readings_id_seq" RENAME TO "usb_input_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "usb_input_readings_unpartitioned" DROP CONSTRAINT "usb_input_readings_pkey";--> statement-breakpoint
+DROP INDEX "usb_input_readings_reading_id_idx";--> statement-breakpoint
+ALTER TABLE "usb_pd_readings" RENAME TO "usb_pd_readings_unpartitioned";--> statement-breakpoint
+ALTER SEQUENCE "usb_pd_readings_id_seq" RENAME TO "usb_pd_readings_unpartitioned_id_seq";--> statement-breakpoint
+ALTER TABLE "usb_pd_readings_unpartitioned" DROP CONSTRAINT "usb_pd_readings_pkey";--> statement-breakpoint
+DROP INDEX "usb_pd_readings_reading_id_idx";--> statement-breakpoint
+
+-- Partitioned tables
+CREATE TABLE "telemetry_readings" (
+	"id" serial NOT NULL,
+	"device_id" integer NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"timestamp_ms" bigint NOT NULL,
+	"frequency" "telemetry_frequency" NOT NULL,
+	"source" "reading_source" DEFAULT 'client' NOT NULL,
+	"idempotency_key" varchar(255),
+	"schema_version" integer DEFAULT 1 NOT NULL,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"clock_suspect" boolean DEFAULT false NOT NULL,
+	"clock_offset_ms" bigint,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "telemetry_readings_pkey" PRIMARY KEY("id","timestamp")
+) PARTITION BY RANGE ("timestamp");--> statement-breakpoint
+CREATE TABLE "battery_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"capacity" integer NOT NULL,
+	"status" "battery_status" NOT NULL,
+	"voltage" real NOT NULL,
+	"current" real NOT NULL,
+	"temperature" real NOT NULL,
+	"charge_full" integer NOT NULL,
+	"charge_full_design" integer NOT NULL,
+	"health" "battery_health" NOT NULL,
+	"present" boolean NOT NULL,
+	"charge_type" charge_type NOT NULL,
+	"energy_full_design" real NOT NULL,
+	CONSTRAINT "battery_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "cooling_device_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"device_index" integer NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"current_state" integer NOT NULL,
+	"max_state" integer NOT NULL,
+	CONSTRAINT "cooling_device_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "cpu_frequency_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"cpu" integer NOT NULL,
+	"current_freq" integer NOT NULL,
+	"min_freq" integer NOT NULL,
+	"max_freq" integer NOT NULL,
+	"hardware_min_freq" integer NOT NULL,
+	"hardware_max_freq" integer NOT NULL,
+	"governor" varchar(50) NOT NULL,
+	CONSTRAINT "cpu_frequency_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "cpu_frequency_stats" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"cpu" integer NOT NULL,
+	"time_in_state" json NOT NULL,
+	"total_transitions" integer NOT NULL,
+	CONSTRAINT "cpu_frequency_stats_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "cpu_idle_stats" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"cpu" integer NOT NULL,
+	"states" json NOT NULL,
+	CONSTRAINT "cpu_idle_stats_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "cpu_load_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"load1" real NOT NULL,
+	"load5" real NOT NULL,
+	"load15" real NOT NULL,
+	"running_processes" integer NOT NULL,
+	"total_processes" integer NOT NULL,
+	"uptime" real NOT NULL,
+	"idle_time" real NOT NULL,
+	"online_cpus" json NOT NULL,
+	"offline_cpus" json NOT NULL,
+	CONSTRAINT "cpu_load_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "cpu_load_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "cpu_time_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"cpu" varchar(20) NOT NULL,
+	"user_time" bigint NOT NULL,
+	"nice_time" bigint NOT NULL,
+	"system_time" bigint NOT NULL,
+	"idle_time" bigint NOT NULL,
+	"iowait_time" bigint NOT NULL,
+	"irq_time" bigint NOT NULL,
+	"softirq_time" bigint NOT NULL,
+	"steal_time" bigint NOT NULL,
+	CONSTRAINT "cpu_time_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "display_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"brightness" integer NOT NULL,
+	"max_brightness" integer NOT NULL,
+	"brightness_percent" real NOT NULL,
+	"power" boolean NOT NULL,
+	CONSTRAINT "display_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "display_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "gpu_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"current_freq" integer NOT NULL,
+	"target_freq" integer NOT NULL,
+	"min_freq" integer NOT NULL,
+	"max_freq" integer NOT NULL,
+	"governor" varchar(50) NOT NULL,
+	"available_frequencies" json NOT NULL,
+	"polling_interval_ms" integer NOT NULL,
+	"transition_stats" json,
+	"total_transitions" integer,
+	CONSTRAINT "gpu_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "gpu_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "led_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"brightness" integer NOT NULL,
+	"max_brightness" integer NOT NULL,
+	"trigger" varchar(100) NOT NULL,
+	CONSTRAINT "led_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "memory_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"total" bigint NOT NULL,
+	"free" bigint NOT NULL,
+	"available" bigint NOT NULL,
+	"buffers" bigint NOT NULL,
+	"cached" bigint NOT NULL,
+	"swap_total" bigint NOT NULL,
+	"swap_free" bigint NOT NULL,
+	"swap_used" bigint NOT NULL,
+	"active" bigint NOT NULL,
+	"inactive" bigint NOT NULL,
+	"active_anon" bigint NOT NULL,
+	"inactive_anon" bigint NOT NULL,
+	"active_file" bigint NOT NULL,
+	"inactive_file" bigint NOT NULL,
+	"dirty" bigint NOT NULL,
+	"writeback" bigint NOT NULL,
+	"anon_pages" bigint NOT NULL,
+	"mapped" bigint NOT NULL,
+	"shmem" bigint NOT NULL,
+	"slab" bigint NOT NULL,
+	"s_reclaimable" bigint NOT NULL,
+	"s_unreclaim" bigint NOT NULL,
+	"used_percent" real NOT NULL,
+	"swap_used_percent" real NOT NULL,
+	CONSTRAINT "memory_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "memory_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "network_interface_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"address" varchar(100) NOT NULL,
+	"carrier" boolean NOT NULL,
+	"carrier_changes" integer NOT NULL,
+	"operstate" varchar(50) NOT NULL,
+	"mtu" integer NOT NULL,
+	"type" "network_interface_type" NOT NULL,
+	"rx_bytes" bigint NOT NULL,
+	"tx_bytes" bigint NOT NULL,
+	"rx_packets" bigint NOT NULL,
+	"tx_packets" bigint NOT NULL,
+	"rx_errors" bigint NOT NULL,
+	"tx_errors" bigint NOT NULL,
+	"rx_dropped" bigint NOT NULL,
+	"tx_dropped" bigint NOT NULL,
+	"rx_fifo" bigint NOT NULL,
+	"tx_fifo" bigint NOT NULL,
+	"rx_frame" bigint NOT NULL,
+	"tx_carrier" bigint NOT NULL,
+	"collisions" bigint NOT NULL,
+	CONSTRAINT "network_interface_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "network_summary_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"total_rx_bytes" bigint NOT NULL,
+	"total_tx_bytes" bigint NOT NULL,
+	"wifi_signal_strength" integer,
+	"wifi_link_quality" integer,
+	"wifi_noise_level" integer,
+	"wifi_ssid" varchar(255),
+	"wifi_frequency" integer,
+	"wifi_bitrate" real,
+	CONSTRAINT "network_summary_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "network_summary_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "otlp_metric_points" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"unit" varchar(64),
+	"kind" "otlp_metric_kind" NOT NULL,
+	"monotonic" boolean,
+	"scope" varchar(255),
+	"start_timestamp" timestamp with time zone,
+	"value" double precision,
+	"count" bigint,
+	"sum" double precision,
+	"attributes" json,
+	"details" json,
+	CONSTRAINT "otlp_metric_points_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "process_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"process_id" integer,
+	"pid" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"state" varchar(10) NOT NULL,
+	"ppid" integer NOT NULL,
+	"pgrp" integer NOT NULL,
+	"session" integer NOT NULL,
+	"user_time_ms" bigint NOT NULL,
+	"system_time_ms" bigint NOT NULL,
+	"total_cpu_time_ms" bigint NOT NULL,
+	"cpu_percent" real,
+	"vsize" bigint NOT NULL,
+	"rss" bigint NOT NULL,
+	"rss_limit" bigint NOT NULL,
+	"memory_percent" real NOT NULL,
+	"num_threads" integer NOT NULL,
+	"nice" integer NOT NULL,
+	"priority" integer NOT NULL,
+	"start_time" real NOT NULL,
+	"cmdline" text NOT NULL,
+	"oom_score" integer NOT NULL,
+	"read_bytes" bigint,
+	"write_bytes" bigint,
+	CONSTRAINT "process_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "process_summary_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"total" integer NOT NULL,
+	"running" integer NOT NULL,
+	"sleeping" integer NOT NULL,
+	"zombie" integer NOT NULL,
+	"stopped" integer NOT NULL,
+	"total_cpu_time" bigint NOT NULL,
+	"context_switches" bigint NOT NULL,
+	"processes_created" bigint NOT NULL,
+	CONSTRAINT "process_summary_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "process_summary_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "rfkill_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"type" "rfkill_type" NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"soft_blocked" boolean NOT NULL,
+	"hard_blocked" boolean NOT NULL,
+	CONSTRAINT "rfkill_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "sensor_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"illuminance_raw" real NOT NULL,
+	"illuminance_scale" real NOT NULL,
+	"illuminance_lux" real NOT NULL,
+	"proximity_raw" real NOT NULL,
+	"proximity_scale" real NOT NULL,
+	"near_level" real NOT NULL,
+	"is_near" boolean NOT NULL,
+	"accel_raw_x" real NOT NULL,
+	"accel_raw_y" real NOT NULL,
+	"accel_raw_z" real NOT NULL,
+	"accel_scale" real NOT NULL,
+	"accel_x" real NOT NULL,
+	"accel_y" real NOT NULL,
+	"accel_z" real NOT NULL,
+	"accel_magnitude" real NOT NULL,
+	"gyro_raw_x" real NOT NULL,
+	"gyro_raw_y" real NOT NULL,
+	"gyro_raw_z" real NOT NULL,
+	"gyro_scale" real NOT NULL,
+	"gyro_x" real NOT NULL,
+	"gyro_y" real NOT NULL,
+	"gyro_z" real NOT NULL,
+	"gyro_magnitude" real NOT NULL,
+	"mag_raw_x" real NOT NULL,
+	"mag_raw_y" real NOT NULL,
+	"mag_raw_z" real NOT NULL,
+	"mag_scale" real NOT NULL,
+	"mag_x" real NOT NULL,
+	"mag_y" real NOT NULL,
+	"mag_z" real NOT NULL,
+	"mag_heading" real NOT NULL,
+	"adc_channels" json NOT NULL,
+	CONSTRAINT "sensor_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "sensor_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "storage_device_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"parent_device_id" integer,
+	"name" varchar(100) NOT NULL,
+	"type" "block_device_type" NOT NULL,
+	"size" bigint NOT NULL,
+	"bytes_read" bigint NOT NULL,
+	"bytes_written" bigint NOT NULL,
+	"reads_completed" bigint NOT NULL,
+	"reads_merged" bigint NOT NULL,
+	"sectors_read" bigint NOT NULL,
+	"read_time_ms" bigint NOT NULL,
+	"writes_completed" bigint NOT NULL,
+	"writes_merged" bigint NOT NULL,
+	"sectors_written" bigint NOT NULL,
+	"write_time_ms" bigint NOT NULL,
+	"ios_in_progress" integer NOT NULL,
+	"io_time_ms" bigint NOT NULL,
+	"weighted_io_time_ms" bigint NOT NULL,
+	CONSTRAINT "storage_device_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "storage_summary_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"total_bytes_read" bigint NOT NULL,
+	"total_bytes_written" bigint NOT NULL,
+	"total_io_time_ms" bigint NOT NULL,
+	CONSTRAINT "storage_summary_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "storage_summary_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "system_wakeup_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"wakeup_count" integer NOT NULL,
+	CONSTRAINT "system_wakeup_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "system_wakeup_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "thermal_summary_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"battery_temp" real NOT NULL,
+	"cpu_temp" real NOT NULL,
+	"gpu_temp" real NOT NULL,
+	CONSTRAINT "thermal_summary_readings_pkey" PRIMARY KEY("id","reading_timestamp"),
+	CONSTRAINT "thermal_summary_readings_reading_id_unique" UNIQUE("reading_id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "thermal_zone_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"zone" integer NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"temperature" real NOT NULL,
+	"trip_points" json,
+	CONSTRAINT "thermal_zone_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "typec_port_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"data_role" varchar(50) NOT NULL,
+	"power_role" varchar(50) NOT NULL,
+	"orientation" varchar(50) NOT NULL,
+	"power_operation_mode" varchar(50) NOT NULL,
+	"vconn_source" boolean NOT NULL,
+	CONSTRAINT "typec_port_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "usb_input_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"present" boolean NOT NULL,
+	"health" "battery_health" NOT NULL,
+	"input_current_limit" real NOT NULL,
+	"input_voltage_limit" real NOT NULL,
+	CONSTRAINT "usb_input_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+CREATE TABLE "usb_pd_readings" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"online" boolean NOT NULL,
+	"voltage" real NOT NULL,
+	"voltage_min" real NOT NULL,
+	"voltage_max" real NOT NULL,
+	"current" real NOT NULL,
+	"current_max" real NOT NULL,
+	"usb_type" "usb_type" NOT NULL,
+	CONSTRAINT "usb_pd_readings_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");--> statement-breakpoint
+ALTER TABLE "telemetry_readings" ADD CONSTRAINT "telemetry_readings_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "battery_readings" ADD CONSTRAINT "battery_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cooling_device_readings" ADD CONSTRAINT "cooling_device_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" ADD CONSTRAINT "cpu_frequency_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_stats" ADD CONSTRAINT "cpu_frequency_stats_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_idle_stats" ADD CONSTRAINT "cpu_idle_stats_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_load_readings" ADD CONSTRAINT "cpu_load_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cpu_time_readings" ADD CONSTRAINT "cpu_time_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "display_readings" ADD CONSTRAINT "display_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gpu_readings" ADD CONSTRAINT "gpu_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "led_readings" ADD CONSTRAINT "led_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "memory_readings" ADD CONSTRAINT "memory_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ADD CONSTRAINT "network_interface_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "network_summary_readings" ADD CONSTRAINT "network_summary_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "otlp_metric_points" ADD CONSTRAINT "otlp_metric_points_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "process_readings" ADD CONSTRAINT "process_readings_process_id_device_processes_id_fk" FOREIGN KEY ("process_id") REFERENCES "public"."device_processes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "process_readings" ADD CONSTRAINT "process_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "process_summary_readings" ADD CONSTRAINT "process_summary_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rfkill_readings" ADD CONSTRAINT "rfkill_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sensor_readings" ADD CONSTRAINT "sensor_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "storage_device_readings" ADD CONSTRAINT "storage_device_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "storage_summary_readings" ADD CONSTRAINT "storage_summary_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_wakeup_readings" ADD CONSTRAINT "system_wakeup_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "thermal_summary_readings" ADD CONSTRAINT "thermal_summary_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "thermal_zone_readings" ADD CONSTRAINT "thermal_zone_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "typec_port_readings" ADD CONSTRAINT "typec_port_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "usb_input_readings" ADD CONSTRAINT "usb_input_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "usb_pd_readings" ADD CONSTRAINT "usb_pd_readings_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "telemetry_readings_device_id_idx" ON "telemetry_readings" USING btree ("device_id");--> statement-breakpoint
+CREATE INDEX "telemetry_readings_timestamp_idx" ON "telemetry_readings" USING btree ("timestamp");--> statement-breakpoint
+CREATE INDEX "telemetry_readings_frequency_idx" ON "telemetry_readings" USING btree ("frequency");--> statement-breakpoint
+CREATE INDEX "telemetry_readings_received_at_idx" ON "telemetry_readings" USING btree ("received_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_readings_natural_key_idx" ON "telemetry_readings" USING btree ("device_id","timestamp_ms","frequency","timestamp");--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_readings_idempotency_key_idx" ON "telemetry_readings" USING btree ("device_id","idempotency_key","timestamp");--> statement-breakpoint
+CREATE INDEX "battery_readings_reading_id_idx" ON "battery_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cooling_device_readings_reading_id_idx" ON "cooling_device_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_frequency_readings_reading_id_idx" ON "cpu_frequency_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_frequency_stats_reading_id_idx" ON "cpu_frequency_stats" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_idle_stats_reading_id_idx" ON "cpu_idle_stats" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_load_readings_reading_id_idx" ON "cpu_load_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "cpu_time_readings_reading_id_idx" ON "cpu_time_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "display_readings_reading_id_idx" ON "display_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "gpu_readings_reading_id_idx" ON "gpu_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "led_readings_reading_id_idx" ON "led_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "memory_readings_reading_id_idx" ON "memory_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "network_interface_readings_reading_id_idx" ON "network_interface_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "network_summary_readings_reading_id_idx" ON "network_summary_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "otlp_metric_points_reading_id_idx" ON "otlp_metric_points" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "otlp_metric_points_name_idx" ON "otlp_metric_points" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "process_readings_reading_id_idx" ON "process_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "process_readings_process_id_idx" ON "process_readings" USING btree ("process_id");--> statement-breakpoint
+CREATE INDEX "process_summary_readings_reading_id_idx" ON "process_summary_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "rfkill_readings_reading_id_idx" ON "rfkill_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "sensor_readings_reading_id_idx" ON "sensor_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "storage_device_readings_reading_id_idx" ON "storage_device_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "storage_summary_readings_reading_id_idx" ON "storage_summary_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "system_wakeup_readings_reading_id_idx" ON "system_wakeup_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "thermal_summary_readings_reading_id_idx" ON "thermal_summary_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "thermal_zone_readings_reading_id_idx" ON "thermal_zone_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "typec_port_readings_reading_id_idx" ON "typec_port_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "usb_input_readings_reading_id_idx" ON "usb_input_readings" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "usb_pd_readings_reading_id_idx" ON "usb_pd_readings" USING btree ("reading_id");--> statement-breakpoint
+
+-- Monthly partitions (UTC months) and a default partition per table
+DO $$
+DECLARE
+	tables text[] := ARRAY['telemetry_readings', 'battery_readings', 'cooling_device_readings', 'cpu_frequency_readings', 'cpu_frequency_stats', 'cpu_idle_stats', 'cpu_load_readings', 'cpu_time_readings', 'display_readings', 'gpu_readings', 'led_readings', 'memory_readings', 'network_interface_readings', 'network_summary_readings', 'otlp_metric_points', 'process_readings', 'process_summary_readings', 'rfkill_readings', 'sensor_readings', 'storage_device_readings', 'storage_summary_readings', 'system_wakeup_readings', 'thermal_summary_readings', 'thermal_zone_readings', 'typec_port_readings', 'usb_input_readings', 'usb_pd_readings'];
+	tbl text;
+	first_month timestamp;
+	last_month timestamp := date_trunc('month', now() AT TIME ZONE 'UTC') + interval '3 months';
+	month timestamp;
+BEGIN
+	SELECT greatest(
+		date_trunc('month', min("timestamp") AT TIME ZONE 'UTC'),
+		date_trunc('month', now() AT TIME ZONE 'UTC') - interval '3 years'
+	)
+	INTO first_month
+	FROM "telemetry_readings_unpartitioned";
+	first_month := least(coalesce(first_month, last_month), date_trunc('month', now() AT TIME ZONE 'UTC'));
+
+	FOREACH tbl IN ARRAY tables LOOP
+		EXECUTE format('CREATE TABLE %I PARTITION OF %I DEFAULT', tbl || '_default', tbl);
+		month := first_month;
+		WHILE month <= last_month LOOP
+			EXECUTE format(
+				'CREATE TABLE %I PARTITION OF %I FOR VALUES FROM (%L) TO (%L)',
+				tbl || to_char(month, '"_y"YYYY"m"MM'),
+				tbl,
+				month AT TIME ZONE 'UTC',
+				(month + interval '1 month') AT TIME ZONE 'UTC'
+			);
+			month := month + interval '1 month';
+		END LOOP;
+	END LOOP;
+END $$;--> statement-breakpoint
+
+-- Copy the rows, keeping their ids
+INSERT INTO "telemetry_readings" ("id", "device_id", "timestamp", "timestamp_ms", "frequency", "source", "idempotency_key", "schema_version", "received_at", "clock_suspect", "clock_offset_ms", "created_at")
+SELECT "id", "device_id", "timestamp", "timestamp_ms", "frequency", "source", "idempotency_key", "schema_version", "received_at", "clock_suspect", "clock_offset_ms", "created_at" FROM "telemetry_readings_unpartitioned";--> statement-breakpoint
+SELECT setval('"telemetry_readings_id_seq"', coalesce((SELECT max("id") FROM "telemetry_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "battery_readings" ("id", "reading_id", "capacity", "status", "voltage", "current", "temperature", "charge_full", "charge_full_design", "health", "present", "charge_type", "energy_full_design", "reading_timestamp")
+SELECT c."id", c."reading_id", c."capacity", c."status", c."voltage", c."current", c."temperature", c."charge_full", c."charge_full_design", c."health", c."present", c."charge_type", c."energy_full_design", r."timestamp"
+FROM "battery_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"battery_readings_id_seq"', coalesce((SELECT max("id") FROM "battery_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "cooling_device_readings" ("id", "reading_id", "device_index", "type", "current_state", "max_state", "reading_timestamp")
+SELECT c."id", c."reading_id", c."device_index", c."type", c."current_state", c."max_state", r."timestamp"
+FROM "cooling_device_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"cooling_device_readings_id_seq"', coalesce((SELECT max("id") FROM "cooling_device_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "cpu_frequency_readings" ("id", "reading_id", "cpu", "current_freq", "min_freq", "max_freq", "hardware_min_freq", "hardware_max_freq", "governor", "reading_timestamp")
+SELECT c."id", c."reading_id", c."cpu", c."current_freq", c."min_freq", c."max_freq", c."hardware_min_freq", c."hardware_max_freq", c."governor", r."timestamp"
+FROM "cpu_frequency_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"cpu_frequency_readings_id_seq"', coalesce((SELECT max("id") FROM "cpu_frequency_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "cpu_frequency_stats" ("id", "reading_id", "cpu", "time_in_state", "total_transitions", "reading_timestamp")
+SELECT c."id", c."reading_id", c."cpu", c."time_in_state", c."total_transitions", r."timestamp"
+FROM "cpu_frequency_stats_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"cpu_frequency_stats_id_seq"', coalesce((SELECT max("id") FROM "cpu_frequency_stats"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "cpu_idle_stats" ("id", "reading_id", "cpu", "states", "reading_timestamp")
+SELECT c."id", c."reading_id", c."cpu", c."states", r."timestamp"
+FROM "cpu_idle_stats_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"cpu_idle_stats_id_seq"', coalesce((SELECT max("id") FROM "cpu_idle_stats"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "cpu_load_readings" ("id", "reading_id", "load1", "load5", "load15", "running_processes", "total_processes", "uptime", "idle_time", "online_cpus", "offline_cpus", "reading_timestamp")
+SELECT c."id", c."reading_id", c."load1", c."load5", c."load15", c."running_processes", c."total_processes", c."uptime", c."idle_time", c."online_cpus", c."offline_cpus", r."timestamp"
+FROM "cpu_load_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"cpu_load_readings_id_seq"', coalesce((SELECT max("id") FROM "cpu_load_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "cpu_time_readings" ("id", "reading_id", "cpu", "user_time", "nice_time", "system_time", "idle_time", "iowait_time", "irq_time", "softirq_time", "steal_time", "reading_timestamp")
+SELECT c."id", c."reading_id", c."cpu", c."user_time", c."nice_time", c."system_time", c."idle_time", c."iowait_time", c."irq_time", c."softirq_time", c."steal_time", r."timestamp"
+FROM "cpu_time_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"cpu_time_readings_id_seq"', coalesce((SELECT max("id") FROM "cpu_time_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "display_readings" ("id", "reading_id", "brightness", "max_brightness", "brightness_percent", "power", "reading_timestamp")
+SELECT c."id", c."reading_id", c."brightness", c."max_brightness", c."brightness_percent", c."power", r."timestamp"
+FROM "display_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"display_readings_id_seq"', coalesce((SELECT max("id") FROM "display_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "gpu_readings" ("id", "reading_id", "current_freq", "target_freq", "min_freq", "max_freq", "governor", "available_frequencies", "polling_interval_ms", "transition_stats", "total_transitions", "reading_timestamp")
+SELECT c."id", c."reading_id", c."current_freq", c."target_freq", c."min_freq", c."max_freq", c."governor", c."available_frequencies", c."polling_interval_ms", c."transition_stats", c."total_transitions", r."timestamp"
+FROM "gpu_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"gpu_readings_id_seq"', coalesce((SELECT max("id") FROM "gpu_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "led_readings" ("id", "reading_id", "name", "brightness", "max_brightness", "trigger", "reading_timestamp")
+SELECT c."id", c."reading_id", c."name", c."brightness", c."max_brightness", c."trigger", r."timestamp"
+FROM "led_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"led_readings_id_seq"', coalesce((SELECT max("id") FROM "led_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "memory_readings" ("id", "reading_id", "total", "free", "available", "buffers", "cached", "swap_total", "swap_free", "swap_used", "active", "inactive", "active_anon", "inactive_anon", "active_file", "inactive_file", "dirty", "writeback", "anon_pages", "mapped", "shmem", "slab", "s_reclaimable", "s_unreclaim", "used_percent", "swap_used_percent", "reading_timestamp")
+SELECT c."id", c."reading_id", c."total", c."free", c."available", c."buffers", c."cached", c."swap_total", c."swap_free", c."swap_used", c."active", c."inactive", c."active_anon", c."inactive_anon", c."active_file", c."inactive_file", c."dirty", c."writeback", c."anon_pages", c."mapped", c."shmem", c."slab", c."s_reclaimable", c."s_unreclaim", c."used_percent", c."swap_used_percent", r."timestamp"
+FROM "memory_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"memory_readings_id_seq"', coalesce((SELECT max("id") FROM "memory_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "network_interface_readings" ("id", "reading_id", "name", "address", "carrier", "carrier_changes", "operstate", "mtu", "type", "rx_bytes", "tx_bytes", "rx_packets", "tx_packets", "rx_errors", "tx_errors", "rx_dropped", "tx_dropped", "rx_fifo", "tx_fifo", "rx_frame", "tx_carrier", "collisions", "reading_timestamp")
+SELECT c."id", c."reading_id", c."name", c."address", c."carrier", c."carrier_changes", c."operstate", c."mtu", c."type", c."rx_bytes", c."tx_bytes", c."rx_packets", c."tx_packets", c."rx_errors", c."tx_errors", c."rx_dropped", c."tx_dropped", c."rx_fifo", c."tx_fifo", c."rx_frame", c."tx_carrier", c."collisions", r."timestamp"
+FROM "network_interface_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"network_interface_readings_id_seq"', coalesce((SELECT max("id") FROM "network_interface_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "network_summary_readings" ("id", "reading_id", "total_rx_bytes", "total_tx_bytes", "wifi_signal_strength", "wifi_link_quality", "wifi_noise_level", "wifi_ssid", "wifi_frequency", "wifi_bitrate", "reading_timestamp")
+SELECT c."id", c."reading_id", c."total_rx_bytes", c."total_tx_bytes", c."wifi_signal_strength", c."wifi_link_quality", c."wifi_noise_level", c."wifi_ssid", c."wifi_frequency", c."wifi_bitrate", r."timestamp"
+FROM "network_summary_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"network_summary_readings_id_seq"', coalesce((SELECT max("id") FROM "network_summary_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "otlp_metric_points" ("id", "reading_id", "name", "unit", "kind", "monotonic", "scope", "start_timestamp", "value", "count", "sum", "attributes", "details", "reading_timestamp")
+SELECT c."id", c."reading_id", c."name", c."unit", c."kind", c."monotonic", c."scope", c."start_timestamp", c."value", c."count", c."sum", c."attributes", c."details", r."timestamp"
+FROM "otlp_metric_points_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"otlp_metric_points_id_seq"', coalesce((SELECT max("id") FROM "otlp_metric_points"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "process_readings" ("id", "reading_id", "process_id", "pid", "name", "state", "ppid", "pgrp", "session", "user_time_ms", "system_time_ms", "total_cpu_time_ms", "cpu_percent", "vsize", "rss", "rss_limit", "memory_percent", "num_threads", "nice", "priority", "start_time", "cmdline", "oom_score", "read_bytes", "write_bytes", "reading_timestamp")
+SELECT c."id", c."reading_id", c."process_id", c."pid", c."name", c."state", c."ppid", c."pgrp", c."session", c."user_time_ms", c."system_time_ms", c."total_cpu_time_ms", c."cpu_percent", c."vsize", c."rss", c."rss_limit", c."memory_percent", c."num_threads", c."nice", c."priority", c."start_time", c."cmdline", c."oom_score", c."read_bytes", c."write_bytes", r."timestamp"
+FROM "process_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"process_readings_id_seq"', coalesce((SELECT max("id") FROM "process_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "process_summary_readings" ("id", "reading_id", "total", "running", "sleeping", "zombie", "stopped", "total_cpu_time", "context_switches", "processes_created", "reading_timestamp")
+SELECT c."id", c."reading_id", c."total", c."running", c."sleeping", c."zombie", c."stopped", c."total_cpu_time", c."context_switches", c."processes_created", r."timestamp"
+FROM "process_summary_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"process_summary_readings_id_seq"', coalesce((SELECT max("id") FROM "process_summary_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "rfkill_readings" ("id", "reading_id", "type", "name", "soft_blocked", "hard_blocked", "reading_timestamp")
+SELECT c."id", c."reading_id", c."type", c."name", c."soft_blocked", c."hard_blocked", r."timestamp"
+FROM "rfkill_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"rfkill_readings_id_seq"', coalesce((SELECT max("id") FROM "rfkill_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "sensor_readings" ("id", "reading_id", "illuminance_raw", "illuminance_scale", "illuminance_lux", "proximity_raw", "proximity_scale", "near_level", "is_near", "accel_raw_x", "accel_raw_y", "accel_raw_z", "accel_scale", "accel_x", "accel_y", "accel_z", "accel_magnitude", "gyro_raw_x", "gyro_raw_y", "gyro_raw_z", "gyro_scale", "gyro_x", "gyro_y", "gyro_z", "gyro_magnitude", "mag_raw_x", "mag_raw_y", "mag_raw_z", "mag_scale", "mag_x", "mag_y", "mag_z", "mag_heading", "adc_channels", "reading_timestamp")
+SELECT c."id", c."reading_id", c."illuminance_raw", c."illuminance_scale", c."illuminance_lux", c."proximity_raw", c."proximity_scale", c."near_level", c."is_near", c."accel_raw_x", c."accel_raw_y", c."accel_raw_z", c."accel_scale", c."accel_x", c."accel_y", c."accel_z", c."accel_magnitude", c."gyro_raw_x", c."gyro_raw_y", c."gyro_raw_z", c."gyro_scale", c."gyro_x", c."gyro_y", c."gyro_z", c."gyro_magnitude", c."mag_raw_x", c."mag_raw_y", c."mag_raw_z", c."mag_scale", c."mag_x", c."mag_y", c."mag_z", c."mag_heading", c."adc_channels", r."timestamp"
+FROM "sensor_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"sensor_readings_id_seq"', coalesce((SELECT max("id") FROM "sensor_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "storage_device_readings" ("id", "reading_id", "parent_device_id", "name", "type", "size", "bytes_read", "bytes_written", "reads_completed", "reads_merged", "sectors_read", "read_time_ms", "writes_completed", "writes_merged", "sectors_written", "write_time_ms", "ios_in_progress", "io_time_ms", "weighted_io_time_ms", "reading_timestamp")
+SELECT c."id", c."reading_id", c."parent_device_id", c."name", c."type", c."size", c."bytes_read", c."bytes_written", c."reads_completed", c."reads_merged", c."sectors_read", c."read_time_ms", c."writes_completed", c."writes_merged", c."sectors_written", c."write_time_ms", c."ios_in_progress", c."io_time_ms", c."weighted_io_time_ms", r."timestamp"
+FROM "storage_device_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"storage_device_readings_id_seq"', coalesce((SELECT max("id") FROM "storage_device_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "storage_summary_readings" ("id", "reading_id", "total_bytes_read", "total_bytes_written", "total_io_time_ms", "reading_timestamp")
+SELECT c."id", c."reading_id", c."total_bytes_read", c."total_bytes_written", c."total_io_time_ms", r."timestamp"
+FROM "storage_summary_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"storage_summary_readings_id_seq"', coalesce((SELECT max("id") FROM "storage_summary_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "system_wakeup_readings" ("id", "reading_id", "wakeup_count", "reading_timestamp")
+SELECT c."id", c."reading_id", c."wakeup_count", r."timestamp"
+FROM "system_wakeup_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"system_wakeup_readings_id_seq"', coalesce((SELECT max("id") FROM "system_wakeup_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "thermal_summary_readings" ("id", "reading_id", "battery_temp", "cpu_temp", "gpu_temp", "reading_timestamp")
+SELECT c."id", c."reading_id", c."battery_temp", c."cpu_temp", c."gpu_temp", r."timestamp"
+FROM "thermal_summary_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"thermal_summary_readings_id_seq"', coalesce((SELECT max("id") FROM "thermal_summary_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "thermal_zone_readings" ("id", "reading_id", "zone", "type", "temperature", "trip_points", "reading_timestamp")
+SELECT c."id", c."reading_id", c."zone", c."type", c."temperature", c."trip_points", r."timestamp"
+FROM "thermal_zone_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"thermal_zone_readings_id_seq"', coalesce((SELECT max("id") FROM "thermal_zone_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "typec_port_readings" ("id", "reading_id", "data_role", "power_role", "orientation", "power_operation_mode", "vconn_source", "reading_timestamp")
+SELECT c."id", c."reading_id", c."data_role", c."power_role", c."orientation", c."power_operation_mode", c."vconn_source", r."timestamp"
+FROM "typec_port_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"typec_port_readings_id_seq"', coalesce((SELECT max("id") FROM "typec_port_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "usb_input_readings" ("id", "reading_id", "present", "health", "input_current_limit", "input_voltage_limit", "reading_timestamp")
+SELECT c."id", c."reading_id", c."present", c."health", c."input_current_limit", c."input_voltage_limit", r."timestamp"
+FROM "usb_input_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"usb_input_readings_id_seq"', coalesce((SELECT max("id") FROM "usb_input_readings"), 0) + 1, false);--> statement-breakpoint
+INSERT INTO "usb_pd_readings" ("id", "reading_id", "online", "voltage", "voltage_min", "voltage_max", "current", "current_max", "usb_type", "reading_timestamp")
+SELECT c."id", c."reading_id", c."online", c."voltage", c."voltage_min", c."voltage_max", c."current", c."current_max", c."usb_type", r."timestamp"
+FROM "usb_pd_readings_unpartitioned" c
+JOIN "telemetry_readings_unpartitioned" r ON r."id" = c."reading_id";--> statement-breakpoint
+SELECT setval('"usb_pd_readings_id_seq"', coalesce((SELECT max("id") FROM "usb_pd_readings"), 0) + 1, false);--> statement-breakpoint
+
+-- Drop the old tables
+DROP TABLE "battery_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "cooling_device_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "cpu_frequency_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "cpu_frequency_stats_unpartitioned";--> statement-breakpoint
+DROP TABLE "cpu_idle_stats_unpartitioned";--> statement-breakpoint
+DROP TABLE "cpu_load_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "cpu_time_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "display_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "gpu_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "led_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "memory_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "network_interface_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "network_summary_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "otlp_metric_points_unpartitioned";--> statement-breakpoint
+DROP TABLE "process_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "process_summary_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "rfkill_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "sensor_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "storage_device_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "storage_summary_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "system_wakeup_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "thermal_summary_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "thermal_zone_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "typec_port_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "usb_input_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "usb_pd_readings_unpartitioned";--> statement-breakpoint
+DROP TABLE "telemetry_readings_unpartitioned";
@@ -0,0 +1,39 @@
+-- counter_rates is a child table of telemetry_readings and partitioned the
+-- same way: it gets a partition for every partition telemetry_readings has,
+-- with the same bounds.
+
+CREATE TABLE "counter_rates" (
+	"id" serial NOT NULL,
+	"reading_id" integer NOT NULL,
+	"reading_timestamp" timestamp with time zone NOT NULL,
+	"device_id" integer NOT NULL,
+	"counter" varchar(64) NOT NULL,
+	"instance" varchar(100) DEFAULT '' NOT NULL,
+	"value" double precision NOT NULL,
+	"delta" double precision,
+	"interval_ms" integer,
+	"reset" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "counter_rates_pkey" PRIMARY KEY("id","reading_timestamp")
+) PARTITION BY RANGE ("reading_timestamp");
+--> statement-breakpoint
+ALTER TABLE "counter_rates" ADD CONSTRAINT "counter_rates_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "counter_rates" ADD CONSTRAINT "counter_rates_reading_fk" FOREIGN KEY ("reading_id","reading_timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "counter_rates_reading_id_idx" ON "counter_rates" USING btree ("reading_id");--> statement-breakpoint
+CREATE INDEX "counter_rates_series_idx" ON "counter_rates" USING btree ("device_id","counter","instance","reading_timestamp");--> statement-breakpoint
+DO $$
+DECLARE
+	part record;
+BEGIN
+	FOR part IN
+		SELECT child.relname AS name, pg_get_expr(child.relpartbound, child.oid) AS bound
+		FROM pg_inherits
+		JOIN pg_class child ON child.oid = pg_inherits.inhrelid
+		WHERE pg_inherits.inhparent = 'telemetry_readings'::regclass
+	LOOP
+		EXECUTE format(
+			'CREATE TABLE %I PARTITION OF "counter_rates" %s',
+			replace(part.name, 'telemetry_readings', 'counter_rates'),
+			part.bound
+		);
+	END LOOP;
+END $$;
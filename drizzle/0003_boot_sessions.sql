@@ -0,0 +1,62 @@
+CREATE TYPE "public"."boot_end_reason" AS ENUM('battery', 'restart', 'shutdown');--> statement-breakpoint
+CREATE TABLE "boot_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"booted_at" timestamp with time zone NOT NULL,
+	"first_reading_at" timestamp with time zone NOT NULL,
+	"last_reading_at" timestamp with time zone NOT NULL,
+	"last_uptime" real NOT NULL,
+	"readings" integer NOT NULL,
+	"first_battery_capacity" integer,
+	"last_battery_capacity" integer,
+	"last_battery_status" "battery_status",
+	"end_reason" "boot_end_reason"
+);
+--> statement-breakpoint
+ALTER TABLE "boot_sessions" ADD CONSTRAINT "boot_sessions_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "boot_sessions_device_booted_idx" ON "boot_sessions" USING btree ("device_id","booted_at");--> statement-breakpoint
+-- Sessions of the readings stored so far, the same way src/lib/server/telemetry/boots.ts
+-- assigns new readings: boot times within 2 minutes of each other are one boot.
+INSERT INTO "boot_sessions" (
+	"device_id", "booted_at", "first_reading_at", "last_reading_at", "last_uptime", "readings",
+	"first_battery_capacity", "last_battery_capacity", "last_battery_status", "end_reason"
+)
+WITH samples AS (
+	SELECT r."device_id", r."timestamp", l."uptime", b."capacity", b."status",
+		date_trunc('milliseconds', r."timestamp" - l."uptime" * interval '1 second') AS "booted_at"
+	FROM "telemetry_readings" r
+	JOIN "cpu_load_readings" l ON l."reading_id" = r."id" AND l."reading_timestamp" = r."timestamp"
+	LEFT JOIN "battery_readings" b ON b."reading_id" = r."id" AND b."reading_timestamp" = r."timestamp"
+	WHERE r."frequency" = 'high' AND l."uptime" >= 0
+), starts AS (
+	SELECT *,
+		CASE WHEN "booted_at" - lag("booted_at") OVER (PARTITION BY "device_id" ORDER BY "booted_at")
+			<= interval '2 minutes' THEN 0 ELSE 1 END AS "new_boot"
+	FROM samples
+), numbered AS (
+	SELECT *,
+		sum("new_boot") OVER (PARTITION BY "device_id" ORDER BY "booted_at" ROWS UNBOUNDED PRECEDING) AS "boot"
+	FROM starts
+), sessions AS (
+	SELECT "device_id",
+		min("booted_at") AS "booted_at",
+		min("timestamp") AS "first_reading_at",
+		max("timestamp") AS "last_reading_at",
+		(array_agg("uptime" ORDER BY "timestamp" DESC))[1] AS "last_uptime",
+		count(*)::integer AS "readings",
+		(array_agg("capacity" ORDER BY "timestamp"))[1] AS "first_battery_capacity",
+		(array_agg("capacity" ORDER BY "timestamp" DESC))[1] AS "last_battery_capacity",
+		(array_agg("status" ORDER BY "timestamp" DESC))[1] AS "last_battery_status",
+		lead(min("booted_at")) OVER (PARTITION BY "device_id" ORDER BY min("booted_at")) AS "next_booted_at"
+	FROM numbered
+	GROUP BY "device_id", "boot"
+)
+SELECT "device_id", "booted_at", "first_reading_at", "last_reading_at", "last_uptime", "readings",
+	"first_battery_capacity", "last_battery_capacity", "last_battery_status",
+	CASE
+		WHEN "next_booted_at" IS NULL THEN NULL
+		WHEN "last_battery_status" = 'Discharging' AND "last_battery_capacity" <= 3 THEN 'battery'
+		WHEN "next_booted_at" - "last_reading_at" <= interval '5 minutes' THEN 'restart'
+		ELSE 'shutdown'
+	END::"boot_end_reason"
+FROM sessions;
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."metadata_source" AS ENUM('client', 'admin');--> statement-breakpoint
+CREATE TABLE "device_metadata_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"field" varchar(32) NOT NULL,
+	"previous_value" varchar(255),
+	"value" varchar(255),
+	"source" "metadata_source" NOT NULL,
+	"changed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "devices" ADD COLUMN "description" text;--> statement-breakpoint
+ALTER TABLE "devices" ADD COLUMN "hardware_revision" varchar(255);--> statement-breakpoint
+ALTER TABLE "devices" ADD COLUMN "os" varchar(255);--> statement-breakpoint
+ALTER TABLE "devices" ADD COLUMN "kernel_version" varchar(255);--> statement-breakpoint
+ALTER TABLE "devices" ADD COLUMN "client_version" varchar(255);--> statement-breakpoint
+ALTER TABLE "devices" ADD COLUMN "modem_firmware" varchar(255);--> statement-breakpoint
+ALTER TABLE "devices" ADD COLUMN "owner" varchar(255);--> statement-breakpoint
+ALTER TABLE "devices" ADD COLUMN "archived_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "device_metadata_changes" ADD CONSTRAINT "device_metadata_changes_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "device_metadata_changes_device_changed_idx" ON "device_metadata_changes" USING btree ("device_id","changed_at");
\ No newline at end of file
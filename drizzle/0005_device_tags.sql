@@ -0,0 +1,9 @@
+CREATE TABLE "device_tags" (
+	"device_id" integer NOT NULL,
+	"tag" varchar(64) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "device_tags_pkey" PRIMARY KEY("device_id","tag")
+);
+--> statement-breakpoint
+ALTER TABLE "device_tags" ADD CONSTRAINT "device_tags_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "device_tags_tag_idx" ON "device_tags" USING btree ("tag");
\ No newline at end of file
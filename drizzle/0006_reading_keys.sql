@@ -0,0 +1,29 @@
+-- The natural key (device, device timestamp, frequency) and the idempotency
+-- key of readings move to an unpartitioned table with real unique indexes;
+-- those of the partitioned readings table had to include the corrected
+-- timestamp and did not guarantee anything across months.
+--
+-- Key rows are written before their reading in the same transaction, so the
+-- foreign key is checked at commit. Existing readings get their keys, oldest
+-- first; readings that duplicate an older one keep no key.
+
+CREATE TABLE "telemetry_reading_keys" (
+	"reading_id" integer PRIMARY KEY NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"device_id" integer NOT NULL,
+	"timestamp_ms" bigint NOT NULL,
+	"frequency" "telemetry_frequency" NOT NULL,
+	"idempotency_key" varchar(255)
+);
+--> statement-breakpoint
+DROP INDEX "telemetry_readings_natural_key_idx";--> statement-breakpoint
+DROP INDEX "telemetry_readings_idempotency_key_idx";--> statement-breakpoint
+ALTER TABLE "telemetry_reading_keys" ADD CONSTRAINT "telemetry_reading_keys_reading_fk" FOREIGN KEY ("reading_id","timestamp") REFERENCES "public"."telemetry_readings"("id","timestamp") ON DELETE cascade ON UPDATE no action DEFERRABLE INITIALLY DEFERRED;--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_reading_keys_natural_key_idx" ON "telemetry_reading_keys" USING btree ("device_id","timestamp_ms","frequency");--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_reading_keys_idempotency_key_idx" ON "telemetry_reading_keys" USING btree ("device_id","idempotency_key");--> statement-breakpoint
+CREATE INDEX "telemetry_reading_keys_timestamp_idx" ON "telemetry_reading_keys" USING btree ("timestamp");--> statement-breakpoint
+CREATE INDEX "telemetry_readings_device_timestamp_ms_idx" ON "telemetry_readings" USING btree ("device_id","timestamp_ms");;--> statement-breakpoint
+INSERT INTO "telemetry_reading_keys" ("reading_id", "timestamp", "device_id", "timestamp_ms", "frequency", "idempotency_key")
+SELECT "id", "timestamp", "device_id", "timestamp_ms", "frequency", "idempotency_key" FROM "telemetry_readings"
+ORDER BY "id"
+ON CONFLICT DO NOTHING;
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Signed requests are keyed with a key derived from the token instead of the
+-- stored token hash, so a leaked database no longer lets anyone sign requests.
+-- The key is stored encrypted with CREDENTIAL_ENCRYPTION_KEY. The tokens of
+-- existing credentials are not stored, so those credentials have no signing key:
+-- devices that sign their requests have to rotate their token once.
+ALTER TABLE "device_credentials" ADD COLUMN "signing_secret" text;
@@ -0,0 +1,5 @@
+-- Uploads of readings buffered while offline no longer measure clock skew:
+-- their newest reading is old, which looks like a clock running behind. Past
+-- samples more than the default window (2 minutes) behind are cleared likewise.
+ALTER TABLE "device_clock_skew" ALTER COLUMN "skew_ms" DROP NOT NULL;--> statement-breakpoint
+UPDATE "device_clock_skew" SET "skew_ms" = NULL WHERE "skew_ms" < -120000;
@@ -0,0 +1,79 @@
+-- Rebuild the sessions 0003_boot_sessions.sql built from older readings. It
+-- compared each boot time with the previous one, so boot times drifting by a
+-- little per reading chained into one session; src/lib/server/telemetry/boots.ts
+-- compares them with the boot time of the session instead, and so does this.
+-- Going through the boot times of a device in order, one more than 2 minutes
+-- after the boot time of the running session starts the next session. Session
+-- ids change.
+CREATE TEMPORARY TABLE "boot_starts" (
+	"device_id" integer NOT NULL,
+	"booted_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+DO $$
+DECLARE
+	sample record;
+	session_device integer;
+	session_booted_at timestamp with time zone;
+BEGIN
+	FOR sample IN
+		SELECT r."device_id",
+			date_trunc('milliseconds', r."timestamp" - l."uptime" * interval '1 second') AS "booted_at"
+		FROM "telemetry_readings" r
+		JOIN "cpu_load_readings" l ON l."reading_id" = r."id" AND l."reading_timestamp" = r."timestamp"
+		WHERE r."frequency" = 'high' AND l."uptime" >= 0
+		ORDER BY 1, 2
+	LOOP
+		IF session_device IS DISTINCT FROM sample."device_id"
+			OR sample."booted_at" - session_booted_at > interval '2 minutes' THEN
+			session_device := sample."device_id";
+			session_booted_at := sample."booted_at";
+			INSERT INTO "boot_starts" VALUES (session_device, session_booted_at);
+		END IF;
+	END LOOP;
+END $$;
+--> statement-breakpoint
+DELETE FROM "boot_sessions";
+--> statement-breakpoint
+INSERT INTO "boot_sessions" (
+	"device_id", "booted_at", "first_reading_at", "last_reading_at", "last_uptime", "readings",
+	"first_battery_capacity", "last_battery_capacity", "last_battery_status", "end_reason"
+)
+WITH samples AS (
+	SELECT r."device_id", r."timestamp", l."uptime", b."capacity", b."status",
+		date_trunc('milliseconds', r."timestamp" - l."uptime" * interval '1 second') AS "booted_at"
+	FROM "telemetry_readings" r
+	JOIN "cpu_load_readings" l ON l."reading_id" = r."id" AND l."reading_timestamp" = r."timestamp"
+	LEFT JOIN "battery_readings" b ON b."reading_id" = r."id" AND b."reading_timestamp" = r."timestamp"
+	WHERE r."frequency" = 'high' AND l."uptime" >= 0
+), numbered AS (
+	SELECT s.*, (
+		SELECT max(st."booted_at") FROM "boot_starts" st
+		WHERE st."device_id" = s."device_id" AND st."booted_at" <= s."booted_at"
+	) AS "boot"
+	FROM samples s
+), sessions AS (
+	SELECT "device_id",
+		"boot" AS "booted_at",
+		min("timestamp") AS "first_reading_at",
+		max("timestamp") AS "last_reading_at",
+		(array_agg("uptime" ORDER BY "timestamp" DESC))[1] AS "last_uptime",
+		count(*)::integer AS "readings",
+		(array_agg("capacity" ORDER BY "timestamp"))[1] AS "first_battery_capacity",
+		(array_agg("capacity" ORDER BY "timestamp" DESC))[1] AS "last_battery_capacity",
+		(array_agg("status" ORDER BY "timestamp" DESC))[1] AS "last_battery_status",
+		lead("boot") OVER (PARTITION BY "device_id" ORDER BY "boot") AS "next_booted_at"
+	FROM numbered
+	GROUP BY "device_id", "boot"
+)
+SELECT "device_id", "booted_at", "first_reading_at", "last_reading_at", "last_uptime", "readings",
+	"first_battery_capacity", "last_battery_capacity", "last_battery_status",
+	CASE
+		WHEN "next_booted_at" IS NULL THEN NULL
+		WHEN "last_battery_status" = 'Discharging' AND "last_battery_capacity" <= 3 THEN 'battery'
+		WHEN "next_booted_at" - "last_reading_at" <= interval '5 minutes' THEN 'restart'
+		ELSE 'shutdown'
+	END::"boot_end_reason"
+FROM sessions;
+--> statement-breakpoint
+DROP TABLE "boot_starts";
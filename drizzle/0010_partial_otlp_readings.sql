@@ -0,0 +1,59 @@
+-- OTLP readings (see /v1/metrics) are mapped onto these tables with only what the
+-- collector reported; the rest stays null. Client readings still fill every column.
+ALTER TABLE "battery_readings" ALTER COLUMN "status" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "voltage" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "current" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "temperature" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "charge_full" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "charge_full_design" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "health" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "present" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "charge_type" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "battery_readings" ALTER COLUMN "energy_full_design" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" ALTER COLUMN "min_freq" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" ALTER COLUMN "max_freq" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" ALTER COLUMN "hardware_min_freq" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" ALTER COLUMN "hardware_max_freq" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "cpu_frequency_readings" ALTER COLUMN "governor" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "free" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "available" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "buffers" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "cached" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "swap_total" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "swap_free" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "swap_used" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "active" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "inactive" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "active_anon" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "inactive_anon" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "active_file" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "inactive_file" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "dirty" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "writeback" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "anon_pages" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "mapped" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "shmem" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "slab" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "s_reclaimable" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "s_unreclaim" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "used_percent" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "memory_readings" ALTER COLUMN "swap_used_percent" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "address" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "carrier" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "carrier_changes" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "operstate" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "mtu" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "type" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "rx_bytes" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "tx_bytes" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "rx_packets" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "tx_packets" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "rx_errors" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "tx_errors" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "rx_dropped" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "tx_dropped" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "rx_fifo" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "tx_fifo" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "rx_frame" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "tx_carrier" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "network_interface_readings" ALTER COLUMN "collisions" DROP NOT NULL;
\ No newline at end of file
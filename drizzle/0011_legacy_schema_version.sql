@@ -0,0 +1,7 @@
+-- Payloads without a schemaVersion are version 0 (see
+-- src/lib/server/telemetry/versions.ts), but readings stored before were
+-- recorded as version 1 by the column default. Clients only started sending a
+-- version with version 1, so readings recorded as 1 are counted as
+-- unversioned.
+ALTER TABLE "telemetry_readings" ALTER COLUMN "schema_version" SET DEFAULT 0;--> statement-breakpoint
+UPDATE "telemetry_readings" SET "schema_version" = 0 WHERE "schema_version" = 1;
@@ -0,0 +1,8 @@
+-- OTLP readings get natural keys of their own, so a collector and the client
+-- reporting the same device at the same millisecond no longer collide.
+DROP INDEX "telemetry_reading_keys_natural_key_idx";--> statement-breakpoint
+ALTER TABLE "telemetry_reading_keys" ADD COLUMN "source" "reading_source" DEFAULT 'client' NOT NULL;--> statement-breakpoint
+UPDATE "telemetry_reading_keys" k SET "source" = 'otlp'
+FROM "telemetry_readings" r
+WHERE r."id" = k."reading_id" AND r."timestamp" = k."timestamp" AND r."source" = 'otlp';--> statement-breakpoint
+CREATE UNIQUE INDEX "telemetry_reading_keys_natural_key_idx" ON "telemetry_reading_keys" USING btree ("device_id","timestamp_ms","frequency","source");
@@ -0,0 +1,4 @@
+-- Process boots follow boot sessions (see
+-- src/lib/server/telemetry/processes.ts). Existing state starts without a
+-- session; the next snapshot of each device records the one it falls in.
+ALTER TABLE "device_process_state" ADD COLUMN "booted_at" timestamp with time zone;
@@ -0,0 +1,338 @@
+/**
+ * Ingestion throughput benchmark.
+ *
+ * Writes the same synthetic offline-buffer flush twice against a real database:
+ *   - per-row:  one transaction per payload and one INSERT per row, which is
+ *               how processTelemetryBatch behaved before the bulk pipeline
+ *   - bulk:     the whole batch grouped per table with multi-row INSERTs
+ *
+ * Usage: DATABASE_URL=postgres://... bun run bench:ingest [payloads]
+ * The rows written are removed again afterwards.
+ */
+
+import { drizzle } from 'drizzle-orm/postgres-js';
+import { eq, inArray } from 'drizzle-orm';
+import postgres from 'postgres';
+import * as schema from '../src/lib/server/db/schema';
+import { writeTelemetryBatch } from '../src/lib/server/telemetry/bulk';
+import type {
+	TelemetryPayload,
+	HighFrequencyTelemetry,
+	MediumFrequencyTelemetry,
+	LowFrequencyTelemetry,
+	BlockDeviceTelemetry
+} from '../src/lib/server/telemetry/types';
+
+if (!process.env.DATABASE_URL) throw new Error('DATABASE_URL is not set');
+
+const payloadCount = parseInt(process.argv[2] ?? '300', 10);
+
+let statements = 0;
+const client = postgres(process.env.DATABASE_URL, { max: 1 });
+const db = drizzle(client, {
+	schema,
+	logger: {
+		logQuery() {
+			statements++;
+		}
+	}
+});
+
+const range = <T>(n: number, fn: (i: number) => T): T[] => Array.from({ length: n }, (_, i) => fn(i));
+
+function highFrequency(i: number): HighFrequencyTelemetry {
+	return {
+		power: {
+			battery: {
+				capacity: 80 - (i % 50),
+				status: 'Discharging',
+				voltage: 3.9,
+				current: -0.4,
+				temperature: 31.5,
+				chargeFull: 2900000,
+				chargeFullDesign: 3000000,
+				health: 'Good',
+				present: true,
+				chargeType: 'Unknown',
+				energyFullDesign: 11.4
+			},
+			usbInput: { present: false, health: 'Good', inputCurrentLimit: 0.5, inputVoltageLimit: 4.5 },
+			usbCPd: {
+				online: false,
+				voltage: 0,
+				voltageMin: 5,
+				voltageMax: 5,
+				current: 0,
+				currentMax: 0,
+				usbType: 'C'
+			},
+			typeCPort: {
+				dataRole: '[device]',
+				powerRole: '[sink]',
+				orientation: 'normal',
+				powerOperationMode: 'default',
+				vconnSource: false
+			}
+		},
+		thermal: {
+			zones: range(6, (zone) => ({ zone, type: `zone${zone}`, temperature: 40 + zone })),
+			coolingDevices: range(4, (index) => ({ index, type: 'thermal-cpufreq', currentState: 0, maxState: 10 })),
+			batteryTemp: 31.5,
+			cpuTemp: 45,
+			gpuTemp: 43
+		},
+		cpu: {
+			frequencies: range(6, (cpu) => ({
+				cpu,
+				currentFreq: 1416000,
+				minFreq: 408000,
+				maxFreq: 1800000,
+				hardwareMinFreq: 408000,
+				hardwareMaxFreq: 1800000,
+				governor: 'schedutil'
+			})),
+			cpuTimes: range(7, (cpu) => ({
+				cpu: cpu === 0 ? 'cpu' : `cpu${cpu - 1}`,
+				user: 1000 + i,
+				nice: 10,
+				system: 500 + i,
+				idle: 90000 + i,
+				iowait: 20,
+				irq: 0,
+				softirq: 5,
+				steal: 0
+			})),
+			loadAverage: { load1: 0.5, load5: 0.4, load15: 0.3, runningProcesses: 1, totalProcesses: 180 },
+			uptime: 3600 + i * 30,
+			idleTime: 20000,
+			onlineCpus: [0, 1, 2, 3, 4, 5],
+			offlineCpus: []
+		},
+		memory: {
+			total: 3900000,
+			free: 900000,
+			available: 2100000,
+			buffers: 50000,
+			cached: 1100000,
+			swapTotal: 1900000,
+			swapFree: 1800000,
+			swapUsed: 100000,
+			active: 1200000,
+			inactive: 900000,
+			activeAnon: 700000,
+			inactiveAnon: 100000,
+			activeFile: 500000,
+			inactiveFile: 800000,
+			dirty: 100,
+			writeback: 0,
+			anonPages: 750000,
+			mapped: 300000,
+			shmem: 40000,
+			slab: 120000,
+			sReclaimable: 60000,
+			sUnreclaim: 60000,
+			usedPercent: 46,
+			swapUsedPercent: 5
+		},
+		network: {
+			interfaces: range(4, (n) => ({
+				name: `if${n}`,
+				address: '00:00:00:00:00:00',
+				carrier: true,
+				carrierChanges: 2,
+				operstate: 'up',
+				mtu: 1500,
+				type: 'wifi',
+				stats: {
+					rxBytes: 1000 * i,
+					txBytes: 500 * i,
+					rxPackets: i,
+					txPackets: i,
+					rxErrors: 0,
+					txErrors: 0,
+					rxDropped: 0,
+					txDropped: 0,
+					rxFifo: 0,
+					txFifo: 0,
+					rxFrame: 0,
+					txCarrier: 0,
+					collisions: 0
+				}
+			})),
+			wifi: { signalStrength: -60, linkQuality: 50, ssid: 'lab' },
+			totalRxBytes: 4000 * i,
+			totalTxBytes: 2000 * i
+		}
+	};
+}
+
+function blockDevice(name: string, partitions: number): BlockDeviceTelemetry {
+	return {
+		name,
+		type: 'emmc',
+		size: 64e9,
+		bytesRead: 1e9,
+		bytesWritten: 5e8,
+		stats: {
+			readsCompleted: 1000,
+			readsMerged: 10,
+			sectorsRead: 2e6,
+			readTimeMs: 1000,
+			writesCompleted: 500,
+			writesMerged: 5,
+			sectorsWritten: 1e6,
+			writeTimeMs: 800,
+			iosInProgress: 0,
+			ioTimeMs: 1500,
+			weightedIoTimeMs: 1800
+		},
+		partitions: partitions > 0 ? range(partitions, (p) => blockDevice(`${name}p${p + 1}`, 0)) : undefined
+	};
+}
+
+function mediumFrequency(): MediumFrequencyTelemetry {
+	return {
+		cpuStats: {
+			frequencyStats: range(6, (cpu) => ({
+				cpu,
+				timeInState: range(8, (f) => ({ frequency: 408000 + f * 200000, timeMs: 1000 * f })),
+				totalTransitions: 1234
+			})),
+			idleStats: range(6, (cpu) => ({
+				cpu,
+				states: range(3, (index) => ({
+					index,
+					name: `state${index}`,
+					description: '',
+					usage: 100,
+					timeUs: 1000,
+					latencyUs: 10
+				}))
+			}))
+		},
+		gpu: {
+			frequency: {
+				currentFreq: 200000000,
+				targetFreq: 200000000,
+				minFreq: 200000000,
+				maxFreq: 800000000,
+				governor: 'simple_ondemand',
+				availableFrequencies: [200000000, 300000000, 400000000, 600000000, 800000000],
+				pollingIntervalMs: 50
+			}
+		},
+		storage: {
+			devices: [blockDevice('mmcblk2', 3), blockDevice('mmcblk1', 1), blockDevice('zram0', 0)],
+			totalBytesRead: 3e9,
+			totalBytesWritten: 1.5e9,
+			totalIoTimeMs: 4500
+		},
+		processes: {
+			processes: range(150, (pid) => ({
+				pid: pid + 1,
+				name: `proc${pid}`,
+				state: 'S',
+				ppid: 1,
+				pgrp: pid + 1,
+				session: pid + 1,
+				userTimeMs: 100,
+				systemTimeMs: 50,
+				totalCpuTimeMs: 150,
+				vsize: 1e8,
+				rss: 1e7,
+				rssLimit: 18446744073709551615,
+				memoryPercent: 0.3,
+				numThreads: 4,
+				nice: 0,
+				priority: 20,
+				startTime: 12.5,
+				cmdline: `/usr/bin/proc${pid} --flag value`,
+				oomScore: 600
+			})),
+			summary: { total: 150, running: 1, sleeping: 149, zombie: 0, stopped: 0 },
+			totalCpuTime: 100000,
+			contextSwitches: 1e7,
+			processesCreated: 20000
+		}
+	};
+}
+
+function lowFrequency(): LowFrequencyTelemetry {
+	const vector = { x: 0, y: 0, z: 9.8 };
+	return {
+		sensors: {
+			ambientLight: { illuminanceRaw: 100, illuminanceScale: 1, illuminanceLux: 100 },
+			proximity: { proximityRaw: 0, proximityScale: 1, nearLevel: 100, isNear: false },
+			accelerometer: { raw: vector, scale: 1, acceleration: vector, magnitude: 9.8 },
+			gyroscope: { raw: vector, scale: 1, angularVelocity: vector, magnitude: 0 },
+			magnetometer: { raw: vector, scale: 1, magneticField: vector, heading: 0 },
+			adcChannels: range(4, (channel) => ({ channel, raw: 100, scale: 1, voltage: 1.8 }))
+		},
+		system: {
+			display: { brightness: 100, maxBrightness: 1000, brightnessPercent: 10, power: true },
+			leds: range(3, (n) => ({ name: `led${n}`, brightness: 0, maxBrightness: 255, trigger: 'none' })),
+			rfkill: [
+				{ type: 'wifi', name: 'phy0', softBlocked: false, hardBlocked: false },
+				{ type: 'bluetooth', name: 'hci0', softBlocked: true, hardBlocked: false }
+			],
+			wakeupCount: 42
+		}
+	};
+}
+
+/** Roughly the mix of an offline buffer: mostly high, some medium and low */
+function generatePayloads(deviceId: string, count: number): TelemetryPayload[] {
+	const start = Date.now() - count * 30_000;
+	return range(count, (i) => {
+		const timestampMs = start + i * 30_000;
+		const frequency = i % 30 === 0 ? 'low' : i % 10 === 0 ? 'medium' : 'high';
+		const data =
+			frequency === 'high' ? highFrequency(i) : frequency === 'medium' ? mediumFrequency() : lowFrequency();
+		return { deviceId, timestamp: new Date(timestampMs).toISOString(), timestampMs, frequency, data };
+	});
+}
+
+async function cleanup(deviceIds: string[]): Promise<void> {
+	await db.delete(schema.devices).where(inArray(schema.devices.deviceId, deviceIds));
+}
+
+async function run(name: string, deviceId: string, write: (payloads: TelemetryPayload[]) => Promise<unknown>) {
+	const payloads = generatePayloads(deviceId, payloadCount);
+	statements = 0;
+	const started = performance.now();
+	await write(payloads);
+	const seconds = (performance.now() - started) / 1000;
+
+	const [device] = await db.select().from(schema.devices).where(eq(schema.devices.deviceId, deviceId));
+	if (!device) throw new Error(`${name}: nothing was written`);
+
+	return {
+		mode: name,
+		payloads: payloadCount,
+		statements,
+		seconds: Number(seconds.toFixed(2)),
+		'payloads/s': Math.round(payloadCount / seconds)
+	};
+}
+
+const suffix = Date.now();
+const perRowDevice = `bench-per-row-${suffix}`;
+const bulkDevice = `bench-bulk-${suffix}`;
+
+try {
+	const results = [
+		await run('per-row', perRowDevice, async (payloads) => {
+			for (const payload of payloads) {
+				await db.transaction((tx) => writeTelemetryBatch(tx, [payload], { maxRowsPerInsert: 1 }));
+			}
+		}),
+		await run('bulk', bulkDevice, (payloads) =>
+			db.transaction((tx) => writeTelemetryBatch(tx, payloads))
+		)
+	];
+	console.table(results);
+	console.log(`speedup: ${(results[1]['payloads/s'] / results[0]['payloads/s']).toFixed(1)}x`);
+} finally {
+	await cleanup([perRowDevice, bulkDevice]);
+	await client.end();
+}
@@ -0,0 +1,46 @@
+/**
+ * Record the baseline migration (drizzle/0000_baseline.sql) as applied on a
+ * database whose schema was created with `db:push`, so that `db:migrate` can
+ * take over from there. The schema has to be the one of the baseline, i.e.
+ * pushed before the reading tables were partitioned.
+ *
+ * Usage: DATABASE_URL=postgres://... bun run db:baseline
+ */
+
+import postgres from 'postgres';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+
+if (!process.env.DATABASE_URL) throw new Error('DATABASE_URL is not set');
+
+const [baseline] = readMigrationFiles({ migrationsFolder: './drizzle' });
+const sql = postgres(process.env.DATABASE_URL, { max: 1 });
+
+try {
+	const [{ pushed }] = await sql`
+		SELECT to_regclass('public.telemetry_readings') IS NOT NULL AS pushed
+	`;
+	if (!pushed) {
+		console.log('The database has no schema yet; run db:migrate');
+	} else {
+		await sql`CREATE SCHEMA IF NOT EXISTS drizzle`;
+		await sql`
+			CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (
+				id SERIAL PRIMARY KEY,
+				hash text NOT NULL,
+				created_at bigint
+			)
+		`;
+		const recorded = await sql`SELECT 1 FROM drizzle.__drizzle_migrations LIMIT 1`;
+		if (recorded.length > 0) {
+			console.log('Migrations are already recorded; nothing to do');
+		} else {
+			await sql`
+				INSERT INTO drizzle.__drizzle_migrations (hash, created_at)
+				VALUES (${baseline.hash}, ${baseline.folderMillis})
+			`;
+			console.log('Baseline recorded; run db:migrate to apply the later migrations');
+		}
+	}
+} finally {
+	await sql.end();
+}
@@ -0,0 +1,79 @@
+/**
+ * Rebuild the normalized readings of a device from the raw payload archive,
+ * e.g. after fixing how a field is mapped or adding a column for it.
+ *
+ * Usage: DATABASE_URL=postgres://... bun run archive:reprocess <deviceId> [options]
+ *   --from <time>      first device timestamp to rebuild (ISO 8601)
+ *   --until <time>     rebuild device timestamps before this (ISO 8601)
+ *   --batch <n>        archived payloads per transaction (default 500)
+ *   --dry-run          only check that the archived payloads still validate
+ *
+ * Clock checks use the CLOCK_* settings from the environment, like the server.
+ */
+
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import { parseArgs } from 'node:util';
+import * as schema from '../src/lib/server/db/schema';
+import { reprocessArchive } from '../src/lib/server/telemetry/archive';
+
+if (!process.env.DATABASE_URL) throw new Error('DATABASE_URL is not set');
+
+const { values, positionals } = parseArgs({
+	allowPositionals: true,
+	options: {
+		from: { type: 'string' },
+		until: { type: 'string' },
+		batch: { type: 'string' },
+		'dry-run': { type: 'boolean', default: false }
+	}
+});
+
+const [deviceId] = positionals;
+if (!deviceId)
+	throw new Error('Usage: reprocess-archive <deviceId> [--from] [--until] [--batch] [--dry-run]');
+
+function parseTime(value: string | undefined, name: string): Date | undefined {
+	if (value === undefined) return undefined;
+	const time = new Date(value);
+	if (Number.isNaN(time.getTime())) throw new Error(`--${name} is not a valid time: ${value}`);
+	return time;
+}
+
+const tolerance = Number(process.env.CLOCK_SKEW_TOLERANCE_SECONDS);
+const minValid = Date.parse(process.env.CLOCK_MIN_VALID_TIME ?? '');
+const correction = process.env.CLOCK_CORRECTION?.trim().toLowerCase();
+
+const client = postgres(process.env.DATABASE_URL, { max: 1 });
+const db = drizzle(client, { schema });
+
+try {
+	const summary = await reprocessArchive(db, {
+		deviceId,
+		from: parseTime(values.from, 'from'),
+		until: parseTime(values.until, 'until'),
+		batchSize: values.batch ? parseInt(values.batch, 10) : undefined,
+		dryRun: values['dry-run'],
+		clock: {
+			toleranceMs: Number.isFinite(tolerance) && tolerance > 0 ? tolerance * 1000 : undefined,
+			minValidTimeMs: Number.isNaN(minValid) ? undefined : minValid,
+			correct: correction ? ['true', '1', 'yes', 'on'].includes(correction) : undefined
+		},
+		onProgress: (progress) => console.log(`${progress.reprocessed}/${progress.archived} payloads`)
+	});
+
+	if (!summary) {
+		console.error(`Unknown device: ${deviceId}`);
+		process.exitCode = 1;
+	} else {
+		for (const { timestampMs, frequency, errors } of summary.invalid) {
+			console.warn(`Skipped ${frequency} payload at ${timestampMs}: ${errors.join('; ')}`);
+		}
+		const verb = values['dry-run'] ? 'Would rebuild' : 'Rebuilt';
+		console.log(
+			`${verb} ${summary.reprocessed} of ${summary.archived} archived payloads, ${summary.invalid.length} invalid`
+		);
+	}
+} finally {
+	await client.end();
+}
@@ -0,0 +1,14 @@
+import type { ServerInit } from '@sveltejs/kit';
+import { startPartitionJob, startRetentionJob, startSpoolWorker } from '$lib/server/telemetry';
+
+/**
+ * Start background jobs once the server is up
+ */
+export const init: ServerInit = async () => {
+	// Drains the ingestion spool when INGEST_MODE=async
+	await startSpoolWorker();
+	// Creates the reading partitions of the coming months
+	startPartitionJob();
+	// Prunes expired telemetry when RETENTION_ENABLED=true
+	startRetentionJob();
+};
@@ -0,0 +1,2 @@
+export * from './service';
+export { computeSignature, signingKey } from './tokens';
@@ -0,0 +1,501 @@
+/**
+ * Device authentication - enrollment, token rotation and request verification
+ */
+
+import { json } from '@sveltejs/kit';
+import { db } from '../db';
+import * as schema from '../db/schema';
+import { and, eq, gt, isNull, or } from 'drizzle-orm';
+import { envFlag, envNumber, envString } from '../config';
+import type { ApiResponse } from '../telemetry/types';
+import {
+	SIGNATURE_MAX_AGE_MS,
+	generateToken,
+	hashToken,
+	openSecret,
+	sealSecret,
+	signingKey,
+	tokenPrefix,
+	verifySignature,
+	secretMatches
+} from './tokens';
+
+export interface AuthenticatedDevice {
+	/** Database id */
+	id: number;
+	deviceId: string;
+	credentialId: number;
+}
+
+export type DeviceAuthResult =
+	| { ok: true; device: AuthenticatedDevice | null }
+	| { ok: false; status: 401 | 403; error: string };
+
+export interface IssuedCredential {
+	deviceId: string;
+	credentialId: number;
+	token: string;
+}
+
+export type EnrollResult =
+	| { ok: true; credential: IssuedCredential }
+	| { ok: false; status: 409; error: string };
+
+export interface CredentialInfo {
+	id: number;
+	tokenPrefix: string;
+	createdAt: Date;
+	lastUsedAt: Date | null;
+	expiresAt: Date | null;
+	revokedAt: Date | null;
+	active: boolean;
+}
+
+/** Reject telemetry without credentials, even from devices that never enrolled */
+function deviceAuthRequired(): boolean {
+	return envFlag('DEVICE_AUTH_REQUIRED', false);
+}
+
+/** Create devices on first contact (when false, devices must be enrolled) */
+function autoRegisterDevices(): boolean {
+	return envFlag('AUTO_REGISTER_DEVICES', true);
+}
+
+/** How long a rotated-out token keeps working */
+function rotationGraceMs(): number {
+	return envNumber('CREDENTIAL_ROTATION_GRACE_SECONDS', 24 * 60 * 60) * 1000;
+}
+
+/** How long credential lookups are used before they are reloaded (0 disables the cache) */
+function authCacheMs(): number {
+	return Math.max(0, envNumber('AUTH_CACHE_SECONDS', 60)) * 1000;
+}
+
+/** Server secret request signing keys are stored encrypted with; signed requests need it */
+function credentialEncryptionKey(): string | undefined {
+	return envString('CREDENTIAL_ENCRYPTION_KEY');
+}
+
+/** Most cached lookups; the oldest go first */
+const MAX_CACHED_LOOKUPS = 10_000;
+
+interface CachedCredential {
+	id: number;
+	expiresAt: Date | null;
+	/** Decrypted request signing key; null when the credential cannot sign */
+	signingKey: string | null;
+}
+
+interface CachedDevice {
+	id: number;
+	deviceId: string;
+	/** Credentials that were active when the device was loaded */
+	credentials: CachedCredential[];
+}
+
+interface CachedToken {
+	credential: CachedCredential;
+	device: { id: number; deviceId: string };
+}
+
+/**
+ * Credential lookups by token hash and device id. An entry older than
+ * AUTH_CACHE_SECONDS is still used once while it is reloaded in the
+ * background, so uploads are authenticated without the database, e.g. to
+ * spool them in async mode while it is down. Credential changes in this
+ * process clear the cache; those made by other processes take effect within
+ * AUTH_CACHE_SECONDS.
+ */
+const lookups = new Map<string, { value: unknown; loadedAt: number }>();
+const reloading = new Set<string>();
+
+function remember(key: string, value: unknown): void {
+	lookups.delete(key);
+	lookups.set(key, { value, loadedAt: Date.now() });
+	if (lookups.size > MAX_CACHED_LOOKUPS) lookups.delete(lookups.keys().next().value!);
+}
+
+async function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+	const ttl = authCacheMs();
+	const entry = ttl > 0 ? lookups.get(key) : undefined;
+	if (entry) {
+		if (Date.now() - entry.loadedAt >= ttl && !reloading.has(key)) {
+			reloading.add(key);
+			load()
+				.then((value) => remember(key, value))
+				.catch(() => {})
+				.finally(() => reloading.delete(key));
+		}
+		return entry.value as T;
+	}
+
+	const value = await load();
+	if (ttl > 0) remember(key, value);
+	return value;
+}
+
+/**
+ * Forget cached credential lookups, e.g. after credentials changed
+ */
+export function clearCredentialCache(): void {
+	lookups.clear();
+}
+
+function isActive(credential: CachedCredential): boolean {
+	return credential.expiresAt === null || credential.expiresAt.getTime() > Date.now();
+}
+
+function findToken(token: string): Promise<CachedToken | null> {
+	const tokenHash = hashToken(token);
+	return cached(`token:${tokenHash}`, async () => {
+		const credential = await db.query.deviceCredentials.findFirst({
+			where: and(eq(schema.deviceCredentials.tokenHash, tokenHash), activeCredential()),
+			with: { device: true }
+		});
+		if (!credential) return null;
+		return {
+			credential: { id: credential.id, expiresAt: credential.expiresAt, signingKey: null },
+			device: { id: credential.device.id, deviceId: credential.device.deviceId }
+		};
+	});
+}
+
+function findDevice(deviceId: string): Promise<CachedDevice | null> {
+	return cached(`device:${deviceId}`, async () => {
+		const device = await db.query.devices.findFirst({
+			where: eq(schema.devices.deviceId, deviceId),
+			with: {
+				credentials: {
+					where: activeCredential(),
+					columns: { id: true, expiresAt: true, signingSecret: true }
+				}
+			}
+		});
+		if (!device) return null;
+		const key = credentialEncryptionKey();
+		return {
+			id: device.id,
+			deviceId: device.deviceId,
+			credentials: device.credentials.map((c) => ({
+				id: c.id,
+				expiresAt: c.expiresAt,
+				signingKey: key && c.signingSecret ? openSecret(c.signingSecret, key) : null
+			}))
+		};
+	});
+}
+
+/**
+ * Credentials that are neither revoked nor past their rotation grace period
+ */
+function activeCredential() {
+	return and(
+		isNull(schema.deviceCredentials.revokedAt),
+		or(isNull(schema.deviceCredentials.expiresAt), gt(schema.deviceCredentials.expiresAt, new Date()))
+	);
+}
+
+/**
+ * Signatures accepted within their SIGNATURE_MAX_AGE_MS window, by device,
+ * timestamp and signature, with the time they leave it. A signed request can
+ * only be used once; this process is the only one checking signatures.
+ */
+const usedSignatures = new Map<string, number>();
+
+/** Remember a signature as used; false when it already was */
+function claimSignature(deviceId: string, timestamp: string, signature: string): boolean {
+	const now = Date.now();
+	// Signatures arrive roughly in timestamp order, so the expired ones are first
+	for (const [key, expiresAt] of usedSignatures) {
+		if (expiresAt > now) break;
+		usedSignatures.delete(key);
+	}
+
+	const key = `${deviceId}|${timestamp}|${signature}`;
+	if (usedSignatures.has(key)) return false;
+	usedSignatures.set(key, Number(timestamp) + SIGNATURE_MAX_AGE_MS);
+	return true;
+}
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export function bearerToken(request: Request): string | null {
+	const header = request.headers.get('authorization');
+	if (!header?.toLowerCase().startsWith('bearer ')) return null;
+	return header.slice(7).trim() || null;
+}
+
+/** Record when a credential was last used, without holding up the request */
+function markUsed(credentialId: number): void {
+	db.update(schema.deviceCredentials)
+		.set({ lastUsedAt: new Date() })
+		.where(eq(schema.deviceCredentials.id, credentialId))
+		.catch((error) => console.warn('Could not record credential use:', error));
+}
+
+/**
+ * Authenticate a telemetry request.
+ *
+ * Devices either send `Authorization: Bearer <token>`, or sign the body as
+ * sent (before any Content-Encoding is removed) with `X-Device-Id`,
+ * `X-Signature-Timestamp` (unix ms) and `X-Signature: sha256=<hex>` (see
+ * signingKey and computeSignature). Each signature is accepted once. Requests
+ * without any credentials pass with `device: null`; authorizeDevices decides
+ * whether that is acceptable.
+ */
+export async function authenticateDevice(
+	request: Request,
+	body: string | Uint8Array
+): Promise<DeviceAuthResult> {
+	const token = bearerToken(request);
+	if (token) {
+		const found = await findToken(token);
+		if (!found || !isActive(found.credential)) {
+			return { ok: false, status: 401, error: 'Invalid or revoked device token' };
+		}
+		markUsed(found.credential.id);
+		return {
+			ok: true,
+			device: { ...found.device, credentialId: found.credential.id }
+		};
+	}
+
+	const signature = request.headers.get('x-signature');
+	if (signature) {
+		const deviceId = request.headers.get('x-device-id');
+		const timestamp = request.headers.get('x-signature-timestamp');
+		if (!deviceId || !timestamp) {
+			return {
+				ok: false,
+				status: 401,
+				error: 'Signed requests need X-Device-Id and X-Signature-Timestamp headers'
+			};
+		}
+		if (!(Math.abs(Date.now() - Number(timestamp)) <= SIGNATURE_MAX_AGE_MS)) {
+			return { ok: false, status: 401, error: 'Signature timestamp is outside the allowed window' };
+		}
+		if (!credentialEncryptionKey()) {
+			return {
+				ok: false,
+				status: 401,
+				error: 'Signed requests are not enabled; use a bearer token'
+			};
+		}
+
+		const device = await findDevice(deviceId);
+		const credential = device?.credentials.find(
+			(c) =>
+				isActive(c) && c.signingKey && verifySignature(c.signingKey, signature, timestamp, body)
+		);
+		if (!device || !credential) {
+			return { ok: false, status: 401, error: 'Invalid request signature' };
+		}
+		if (!claimSignature(device.deviceId, timestamp, signature)) {
+			return { ok: false, status: 401, error: 'Request signature was already used' };
+		}
+		markUsed(credential.id);
+		return {
+			ok: true,
+			device: { id: device.id, deviceId: device.deviceId, credentialId: credential.id }
+		};
+	}
+
+	return { ok: true, device: null };
+}
+
+/**
+ * Check that a request may submit telemetry for the given device ids.
+ * Returns null when allowed, or the status and reason to reject the request.
+ */
+export async function authorizeDevices(
+	device: AuthenticatedDevice | null,
+	deviceIds: string[]
+): Promise<{ status: 401 | 403; error: string } | null> {
+	const unique = [...new Set(deviceIds)];
+
+	if (device) {
+		const foreign = unique.find((id) => id !== device.deviceId);
+		if (foreign) {
+			return { status: 403, error: `Token is not valid for device ${foreign}` };
+		}
+		return null;
+	}
+
+	if (deviceAuthRequired()) {
+		return { status: 401, error: 'Device authentication required' };
+	}
+
+	if (unique.length === 0) return null;
+
+	const known = (await Promise.all(unique.map(findDevice))).filter((d) => d !== null);
+
+	// Enrolled devices must always authenticate, so nobody can impersonate them
+	const enrolled = known.find((d) => d.credentials.some(isActive));
+	if (enrolled) {
+		return { status: 401, error: `Device ${enrolled.deviceId} requires authentication` };
+	}
+
+	if (!autoRegisterDevices()) {
+		const knownIds = new Set(known.map((d) => d.deviceId));
+		const unknown = unique.find((id) => !knownIds.has(id));
+		if (unknown) {
+			return { status: 403, error: `Unknown device ${unknown}; enroll it first` };
+		}
+	}
+
+	return null;
+}
+
+async function issueCredential(deviceDbId: number, deviceId: string): Promise<IssuedCredential> {
+	const token = generateToken();
+	const key = credentialEncryptionKey();
+	const [credential] = await db
+		.insert(schema.deviceCredentials)
+		.values({
+			deviceId: deviceDbId,
+			tokenHash: hashToken(token),
+			tokenPrefix: tokenPrefix(token),
+			signingSecret: key ? sealSecret(signingKey(token), key) : null
+		})
+		.returning({ id: schema.deviceCredentials.id });
+	clearCredentialCache();
+	return { deviceId, credentialId: credential.id, token };
+}
+
+/**
+ * Enroll a device: register it if needed and issue its first token.
+ * Devices that already hold an active token have to rotate instead.
+ */
+export async function enrollDevice(deviceId: string, name?: string): Promise<EnrollResult> {
+	const [device] = await db
+		.insert(schema.devices)
+		.values({ deviceId, name: name ?? deviceId })
+		.onConflictDoUpdate({ target: schema.devices.deviceId, set: { lastSeenAt: new Date() } })
+		.returning({ id: schema.devices.id });
+
+	const existing = await db.query.deviceCredentials.findFirst({
+		where: and(eq(schema.deviceCredentials.deviceId, device.id), activeCredential())
+	});
+	if (existing) {
+		return { ok: false, status: 409, error: `Device ${deviceId} is already enrolled` };
+	}
+
+	return { ok: true, credential: await issueCredential(device.id, deviceId) };
+}
+
+/**
+ * Issue a new token for a device. Tokens that were active keep working for
+ * the rotation grace period (CREDENTIAL_ROTATION_GRACE_SECONDS).
+ */
+export async function rotateCredentials(deviceId: string): Promise<IssuedCredential | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	await db
+		.update(schema.deviceCredentials)
+		.set({ expiresAt: new Date(Date.now() + rotationGraceMs()) })
+		.where(
+			and(
+				eq(schema.deviceCredentials.deviceId, device.id),
+				isNull(schema.deviceCredentials.revokedAt),
+				isNull(schema.deviceCredentials.expiresAt)
+			)
+		);
+
+	return issueCredential(device.id, deviceId);
+}
+
+/**
+ * Revoke one credential, or all credentials of the device.
+ * Returns the number of credentials revoked, or null for an unknown device.
+ */
+export async function revokeCredentials(
+	deviceId: string,
+	credentialId?: number
+): Promise<number | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const revoked = await db
+		.update(schema.deviceCredentials)
+		.set({ revokedAt: new Date() })
+		.where(
+			and(
+				eq(schema.deviceCredentials.deviceId, device.id),
+				isNull(schema.deviceCredentials.revokedAt),
+				credentialId !== undefined ? eq(schema.deviceCredentials.id, credentialId) : undefined
+			)
+		)
+		.returning({ id: schema.deviceCredentials.id });
+	clearCredentialCache();
+
+	return revoked.length;
+}
+
+/**
+ * List a device's credentials (never the tokens themselves)
+ */
+export async function listCredentials(deviceId: string): Promise<CredentialInfo[] | null> {
+	const device = await db.query.devices.findFirst({
+		where: eq(schema.devices.deviceId, deviceId),
+		with: { credentials: true }
+	});
+	if (!device) return null;
+
+	const now = Date.now();
+	return device.credentials.map((c) => ({
+		id: c.id,
+		tokenPrefix: c.tokenPrefix,
+		createdAt: c.createdAt,
+		lastUsedAt: c.lastUsedAt,
+		expiresAt: c.expiresAt,
+		revokedAt: c.revokedAt,
+		active: c.revokedAt === null && (c.expiresAt === null || c.expiresAt.getTime() > now)
+	}));
+}
+
+/**
+ * True when the request carries the ADMIN_TOKEN as bearer token
+ */
+export function isAdminRequest(request: Request): boolean {
+	return secretMatches(bearerToken(request), envString('ADMIN_TOKEN'));
+}
+
+/**
+ * True when the request may scrape /metrics: anyone while METRICS_TOKEN is
+ * unset, otherwise clients presenting it (or the ADMIN_TOKEN) as bearer token
+ */
+export function canScrapeMetrics(request: Request): boolean {
+	const secret = envString('METRICS_TOKEN');
+	if (!secret) return true;
+	return secretMatches(bearerToken(request), secret) || isAdminRequest(request);
+}
+
+/**
+ * True when the request may enroll devices: admins, or clients presenting
+ * the shared ENROLLMENT_SECRET in `X-Enrollment-Secret`
+ */
+export function canEnroll(request: Request): boolean {
+	return (
+		isAdminRequest(request) ||
+		secretMatches(request.headers.get('x-enrollment-secret'), envString('ENROLLMENT_SECRET'))
+	);
+}
+
+/**
+ * Guard for admin endpoints. Returns an error response to send, or null when
+ * the request is authorized.
+ */
+export function requireAdmin(request: Request): Response | null {
+	if (isAdminRequest(request)) return null;
+
+	const response: ApiResponse = {
+		success: false,
+		error: envString('ADMIN_TOKEN')
+			? 'Admin token required'
+			: 'Admin API is disabled; set ADMIN_TOKEN to enable it',
+		timestamp: new Date().toISOString()
+	};
+	return json(response, { status: envString('ADMIN_TOKEN') ? 401 : 403 });
+}
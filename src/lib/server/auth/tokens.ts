@@ -0,0 +1,116 @@
+/**
+ * Token generation, hashing and request signature checks
+ */
+
+import {
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	createHmac,
+	randomBytes,
+	timingSafeEqual
+} from 'node:crypto';
+
+const TOKEN_PREFIX = 'ppp_';
+
+/** Label the request signing key is derived from the token with */
+const SIGNING_KEY_LABEL = 'ppp-request-signing';
+
+/** Signed requests older or newer than this are rejected to limit replays */
+export const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Generate a new device token (`ppp_` + 32 random bytes, base64url)
+ */
+export function generateToken(): string {
+	return TOKEN_PREFIX + randomBytes(32).toString('base64url');
+}
+
+/**
+ * SHA-256 of a token, hex encoded. Tokens are random, so no salt is needed.
+ */
+export function hashToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Short, non-secret token prefix used to identify credentials in listings
+ */
+export function tokenPrefix(token: string): string {
+	return token.slice(0, TOKEN_PREFIX.length + 6);
+}
+
+function safeEqual(a: string, b: string): boolean {
+	const left = Buffer.from(a);
+	const right = Buffer.from(b);
+	return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Key devices sign requests with: `hex(HMAC-SHA256(token, "ppp-request-signing"))`.
+ * It is derived from the token, which the server does not keep, so the server
+ * stores it encrypted (see sealSecret) rather than derivable from the token hash.
+ */
+export function signingKey(token: string): string {
+	return createHmac('sha256', token).update(SIGNING_KEY_LABEL).digest('hex');
+}
+
+/**
+ * Compute the request signature for HMAC authentication: the HMAC of
+ * `<timestamp>.<body>`, keyed with the signing key of the token.
+ */
+export function computeSignature(
+	key: string,
+	timestamp: string,
+	body: string | Uint8Array
+): string {
+	return createHmac('sha256', key).update(`${timestamp}.`).update(body).digest('hex');
+}
+
+/**
+ * Check a `sha256=<hex>` signature header against a credential's signing key
+ */
+export function verifySignature(
+	key: string,
+	signature: string,
+	timestamp: string,
+	body: string | Uint8Array
+): boolean {
+	const expected = `sha256=${computeSignature(key, timestamp, body)}`;
+	return safeEqual(expected, signature);
+}
+
+/**
+ * Encrypt a secret for storage with AES-256-GCM, as `<iv>.<tag>.<ciphertext>`
+ * in base64url. `key` is any server secret; its SHA-256 is the AES key.
+ */
+export function sealSecret(secret: string, key: string): string {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv('aes-256-gcm', createHash('sha256').update(key).digest(), iv);
+	const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+	return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a secret sealed with sealSecret; null when it was sealed with
+ * another key or is damaged
+ */
+export function openSecret(sealed: string, key: string): string | null {
+	const [iv, tag, ciphertext] = sealed.split('.').map((part) => Buffer.from(part, 'base64url'));
+	if (!iv || !tag || !ciphertext) return null;
+	try {
+		const decipher = createDecipheriv('aes-256-gcm', createHash('sha256').update(key).digest(), iv);
+		decipher.setAuthTag(tag);
+		return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Constant-time comparison for shared secrets from the environment
+ */
+export function secretMatches(provided: string | null, secret: string | undefined): boolean {
+	if (!provided || !secret) return false;
+	return safeEqual(provided, secret);
+}
@@ -0,0 +1,32 @@
+/**
+ * Runtime settings read from the environment
+ */
+
+import { env } from '$env/dynamic/private';
+
+/**
+ * Read a boolean setting; accepts true/false, 1/0, yes/no
+ */
+export function envFlag(name: string, fallback: boolean): boolean {
+	const value = env[name]?.trim().toLowerCase();
+	if (!value) return fallback;
+	return ['true', '1', 'yes', 'on'].includes(value);
+}
+
+/**
+ * Read a numeric setting, falling back when unset or not a number
+ */
+export function envNumber(name: string, fallback: number): number {
+	const value = env[name]?.trim();
+	if (!value) return fallback;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Read a string setting, treating empty values as unset
+ */
+export function envString(name: string): string | undefined {
+	const value = env[name]?.trim();
+	return value ? value : undefined;
+}
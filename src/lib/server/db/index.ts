@@ -6,3 +6,11 @@ import { env } from '$env/dynamic/private';
 const client = postgres(env.DATABASE_URL);
 
 export const db = drizzle(client, { schema });
+
+export type Database = typeof db;
+
+/** Transaction handle passed to the callback of `db.transaction` */
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/** Anything queries can be issued against: the pool or an open transaction */
+export type DbExecutor = Database | Transaction;
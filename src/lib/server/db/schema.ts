@@ -4,13 +4,20 @@ import {
 	integer,
 	timestamp,
 	real,
+	doublePrecision,
 	text,
 	boolean,
 	bigint,
 	varchar,
 	pgEnum,
 	json,
-	index
+	index,
+	uniqueIndex,
+	unique,
+	primaryKey,
+	foreignKey,
+	customType,
+	type AnyPgColumn
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
@@ -70,94 +77,417 @@ export const blockDeviceTypeEnum = pgEnum('block_device_type', [
 
 export const rfKillTypeEnum = pgEnum('rfkill_type', ['bluetooth', 'wifi', 'wwan']);
 
+export const readingSourceEnum = pgEnum('reading_source', ['client', 'otlp']);
+
+export const otlpMetricKindEnum = pgEnum('otlp_metric_kind', [
+	'gauge',
+	'sum',
+	'histogram',
+	'exponential_histogram',
+	'summary'
+]);
+
+export const rollupResolutionEnum = pgEnum('rollup_resolution', ['1m', '1h', '1d']);
+
+export const bootEndReasonEnum = pgEnum('boot_end_reason', ['battery', 'restart', 'shutdown']);
+
+export const metadataSourceEnum = pgEnum('metadata_source', ['client', 'admin']);
+
+// ============================================================================
+// Custom Types
+// ============================================================================
+
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+	dataType() {
+		return 'bytea';
+	}
+});
+
 // ============================================================================
 // Core Tables
 // ============================================================================
 
-/** Registered devices sending telemetry */
+/**
+ * Registered devices sending telemetry, with their current metadata as
+ * reported by the client or set by admins (changes are kept in
+ * device_metadata_changes). Archived devices keep their data but are hidden
+ * from listings.
+ */
 export const devices = pgTable(
 	'devices',
 	{
 		id: serial('id').primaryKey(),
 		deviceId: varchar('device_id', { length: 255 }).notNull().unique(),
 		name: varchar('name', { length: 255 }),
+		description: text('description'),
+		hardwareRevision: varchar('hardware_revision', { length: 255 }),
+		os: varchar('os', { length: 255 }),
+		kernelVersion: varchar('kernel_version', { length: 255 }),
+		clientVersion: varchar('client_version', { length: 255 }),
+		modemFirmware: varchar('modem_firmware', { length: 255 }),
+		owner: varchar('owner', { length: 255 }),
 		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-		lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull()
+		lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
+		archivedAt: timestamp('archived_at', { withTimezone: true })
 	},
 	(table) => [index('devices_device_id_idx').on(table.deviceId)]
 );
 
-/** Main telemetry reading entry - each API call creates one */
+/**
+ * Changes of device metadata, one row per changed field, to tell e.g. when a
+ * device got a new kernel. `value` is null when the field was cleared.
+ */
+export const deviceMetadataChanges = pgTable(
+	'device_metadata_changes',
+	{
+		id: serial('id').primaryKey(),
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		field: varchar('field', { length: 32 }).notNull(),
+		previousValue: varchar('previous_value', { length: 255 }),
+		value: varchar('value', { length: 255 }),
+		source: metadataSourceEnum('source').notNull(),
+		changedAt: timestamp('changed_at', { withTimezone: true }).defaultNow().notNull()
+	},
+	(table) => [
+		index('device_metadata_changes_device_changed_idx').on(table.deviceId, table.changedAt)
+	]
+);
+
+/** Tags of devices, e.g. a kernel branch or test rig; a tag groups the devices carrying it */
+export const deviceTags = pgTable(
+	'device_tags',
+	{
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		tag: varchar('tag', { length: 64 }).notNull(),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+	},
+	(table) => [
+		primaryKey({ name: 'device_tags_pkey', columns: [table.deviceId, table.tag] }),
+		index('device_tags_tag_idx').on(table.tag)
+	]
+);
+
+/**
+ * Device credentials. Only a SHA-256 hash of each token is stored, plus the
+ * key derived from it for signed requests, encrypted with
+ * CREDENTIAL_ENCRYPTION_KEY. Rotation keeps the previous token valid until
+ * `expires_at` so devices can switch over.
+ */
+export const deviceCredentials = pgTable(
+	'device_credentials',
+	{
+		id: serial('id').primaryKey(),
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+		// First characters of the token, to tell credentials apart in listings
+		tokenPrefix: varchar('token_prefix', { length: 16 }).notNull(),
+		// Sealed request signing key; null when issued without CREDENTIAL_ENCRYPTION_KEY
+		signingSecret: text('signing_secret'),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+		lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+		expiresAt: timestamp('expires_at', { withTimezone: true }),
+		revokedAt: timestamp('revoked_at', { withTimezone: true })
+	},
+	(table) => [index('device_credentials_device_id_idx').on(table.deviceId)]
+);
+
+/**
+ * Device clock skew, sampled once per upload: the newest device timestamp in
+ * the upload minus the server receive time. Uploads are sent after sampling,
+ * so a sample is a lower bound of how far the device clock is ahead. Uploads
+ * of buffered readings (newest older than CLOCK_SKEW_SAMPLE_WINDOW_SECONDS)
+ * have no skew.
+ */
+export const deviceClockSkew = pgTable(
+	'device_clock_skew',
+	{
+		id: serial('id').primaryKey(),
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		receivedAt: timestamp('received_at', { withTimezone: true }).notNull(),
+		deviceTimestampMs: bigint('device_timestamp_ms', { mode: 'number' }).notNull(),
+		skewMs: bigint('skew_ms', { mode: 'number' }),
+		// From the newest high-frequency reading, when the upload had one
+		uptime: real('uptime'),
+		// Boot time according to the device clock (timestamp - uptime)
+		bootEpochMs: bigint('boot_epoch_ms', { mode: 'number' }),
+		readings: integer('readings').notNull(),
+		suspectReadings: integer('suspect_readings').notNull(),
+		correctedReadings: integer('corrected_readings').notNull()
+	},
+	(table) => [index('device_clock_skew_device_received_idx').on(table.deviceId, table.receivedAt)]
+);
+
+/**
+ * Main telemetry reading entry - each API call creates one.
+ *
+ * Partitioned by month of `timestamp` together with its child tables (see
+ * drizzle/0001_partition_readings.sql and telemetry/partitions.ts), which is
+ * why every key includes the timestamp. The natural and idempotency keys are
+ * therefore enforced by telemetry_reading_keys.
+ */
 export const telemetryReadings = pgTable(
 	'telemetry_readings',
 	{
-		id: serial('id').primaryKey(),
+		id: serial('id'),
 		deviceId: integer('device_id')
 			.references(() => devices.id, { onDelete: 'cascade' })
 			.notNull(),
+		// Sample time; corrected when the device clock was found to be off
 		timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
+		// Sample time as reported by the device clock, never corrected
 		timestampMs: bigint('timestamp_ms', { mode: 'number' }).notNull(),
 		frequency: telemetryFrequencyEnum('frequency').notNull(),
+		// `otlp` readings only carry what an OTLP collector reported (see /v1/metrics)
+		source: readingSourceEnum('source').default('client').notNull(),
+		// Optional client-supplied key for retried uploads
+		idempotencyKey: varchar('idempotency_key', { length: 255 }),
+		// Payload schema version the client sent; data is stored in the current shape
+		schemaVersion: integer('schema_version').default(0).notNull(),
+		// Server time the upload arrived
+		receivedAt: timestamp('received_at', { withTimezone: true }).defaultNow().notNull(),
+		// The device timestamp is implausible (far in the future or before the device could have run)
+		clockSuspect: boolean('clock_suspect').default(false).notNull(),
+		// Device time minus `timestamp` when the timestamp was corrected
+		clockOffsetMs: bigint('clock_offset_ms', { mode: 'number' }),
 		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
 	},
 	(table) => [
+		primaryKey({ name: 'telemetry_readings_pkey', columns: [table.id, table.timestamp] }),
 		index('telemetry_readings_device_id_idx').on(table.deviceId),
 		index('telemetry_readings_timestamp_idx').on(table.timestamp),
-		index('telemetry_readings_frequency_idx').on(table.frequency)
+		index('telemetry_readings_frequency_idx').on(table.frequency),
+		// Latest readings per device for the Prometheus exposition
+		index('telemetry_readings_received_at_idx').on(table.receivedAt),
+		// Readings by device timestamp, e.g. when rebuilding them from the archive
+		index('telemetry_readings_device_timestamp_ms_idx').on(table.deviceId, table.timestampMs)
+	]
+);
+
+/**
+ * Keys of the stored readings, unpartitioned so they are unique across
+ * months: a device cannot report the same sample twice nor reuse an
+ * idempotency key. A key row is inserted before its reading in the same
+ * transaction (see telemetry/bulk.ts), so its foreign key is deferred to the
+ * end of the transaction (see drizzle/0006_reading_keys.sql); it goes with its
+ * reading.
+ */
+export const telemetryReadingKeys = pgTable(
+	'telemetry_reading_keys',
+	{
+		readingId: integer('reading_id').primaryKey(),
+		// The reading's sample time, part of its primary key
+		timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
+		deviceId: integer('device_id').notNull(),
+		timestampMs: bigint('timestamp_ms', { mode: 'number' }).notNull(),
+		frequency: telemetryFrequencyEnum('frequency').notNull(),
+		// Client and OTLP readings have separate natural keys
+		source: readingSourceEnum('source').default('client').notNull(),
+		idempotencyKey: varchar('idempotency_key', { length: 255 })
+	},
+	(table) => [
+		foreignKey({
+			name: 'telemetry_reading_keys_reading_fk',
+			columns: [table.readingId, table.timestamp],
+			foreignColumns: [telemetryReadings.id, telemetryReadings.timestamp]
+		}).onDelete('cascade'),
+		uniqueIndex('telemetry_reading_keys_natural_key_idx').on(
+			table.deviceId,
+			table.timestampMs,
+			table.frequency,
+			table.source
+		),
+		uniqueIndex('telemetry_reading_keys_idempotency_key_idx').on(
+			table.deviceId,
+			table.idempotencyKey
+		),
+		// Keys of a month go before its readings partition is detached
+		index('telemetry_reading_keys_timestamp_idx').on(table.timestamp)
+	]
+);
+
+/**
+ * Columns linking a child row to its reading. The reading's timestamp is
+ * repeated so child tables can be partitioned by the same month ranges.
+ */
+function readingColumns() {
+	return {
+		readingId: integer('reading_id').notNull(),
+		readingTimestamp: timestamp('reading_timestamp', { withTimezone: true }).notNull()
+	};
+}
+
+/** Primary key and reading foreign key of a child table */
+function readingKeys(
+	name: string,
+	table: { id: AnyPgColumn; readingId: AnyPgColumn; readingTimestamp: AnyPgColumn }
+) {
+	return [
+		primaryKey({ name: `${name}_pkey`, columns: [table.id, table.readingTimestamp] }),
+		foreignKey({
+			name: `${name}_reading_fk`,
+			columns: [table.readingId, table.readingTimestamp],
+			foreignColumns: [telemetryReadings.id, telemetryReadings.timestamp]
+		}).onDelete('cascade')
+	];
+}
+
+/**
+ * Every accepted payload, gzip-compressed JSON exactly as it was stored, so the
+ * normalized tables can be rebuilt after a schema or mapping fix (see
+ * scripts/reprocess-archive.ts). Keyed like telemetry_readings; re-sent
+ * payloads are not archived again.
+ */
+export const telemetryArchive = pgTable(
+	'telemetry_archive',
+	{
+		id: serial('id').primaryKey(),
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		timestampMs: bigint('timestamp_ms', { mode: 'number' }).notNull(),
+		frequency: telemetryFrequencyEnum('frequency').notNull(),
+		// Schema version of the archived document's structure, which is the
+		// structure at the time it was stored; the client's version is in the document
+		documentVersion: integer('document_version').notNull(),
+		receivedAt: timestamp('received_at', { withTimezone: true }).notNull(),
+		// Uncompressed JSON size
+		size: integer('size').notNull(),
+		payload: bytea('payload').notNull()
+	},
+	(table) => [
+		uniqueIndex('telemetry_archive_natural_key_idx').on(
+			table.deviceId,
+			table.timestampMs,
+			table.frequency
+		),
+		index('telemetry_archive_received_at_idx').on(table.receivedAt)
 	]
 );
 
+/**
+ * Per-device time-bucket aggregates of key metrics at 1-minute, 1-hour and
+ * 1-day resolution, updated as readings are stored (see telemetry/rollups.ts).
+ * They outlive the raw readings and back long-range history queries.
+ */
+export const telemetryRollups = pgTable(
+	'telemetry_rollups',
+	{
+		id: serial('id').primaryKey(),
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		resolution: rollupResolutionEnum('resolution').notNull(),
+		bucketStart: timestamp('bucket_start', { withTimezone: true }).notNull(),
+		metric: varchar('metric', { length: 64 }).notNull(),
+		count: integer('count').notNull(),
+		// Average is sum / count
+		sum: doublePrecision('sum').notNull(),
+		min: doublePrecision('min').notNull(),
+		max: doublePrecision('max').notNull(),
+		// Latest sample in the bucket and its time
+		last: doublePrecision('last').notNull(),
+		lastAt: timestamp('last_at', { withTimezone: true }).notNull()
+	},
+	(table) => [
+		uniqueIndex('telemetry_rollups_bucket_idx').on(
+			table.deviceId,
+			table.metric,
+			table.resolution,
+			table.bucketStart
+		),
+		index('telemetry_rollups_bucket_start_idx').on(table.bucketStart)
+	]
+);
+
+/**
+ * Boots of a device, told apart by the boot time (sample time minus uptime)
+ * of its high-frequency readings (see telemetry/boots.ts). A session ends with
+ * its last reading; why it ended is inferred once a later boot shows up.
+ */
+export const bootSessions = pgTable(
+	'boot_sessions',
+	{
+		id: serial('id').primaryKey(),
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		bootedAt: timestamp('booted_at', { withTimezone: true }).notNull(),
+		firstReadingAt: timestamp('first_reading_at', { withTimezone: true }).notNull(),
+		lastReadingAt: timestamp('last_reading_at', { withTimezone: true }).notNull(),
+		// Uptime at the last reading, in seconds
+		lastUptime: real('last_uptime').notNull(),
+		readings: integer('readings').notNull(),
+		firstBatteryCapacity: integer('first_battery_capacity'),
+		lastBatteryCapacity: integer('last_battery_capacity'),
+		lastBatteryStatus: batteryStatusEnum('last_battery_status'),
+		// Null for the latest boot
+		endReason: bootEndReasonEnum('end_reason')
+	},
+	(table) => [index('boot_sessions_device_booted_idx').on(table.deviceId, table.bootedAt)]
+);
+
 // ============================================================================
 // Battery & Power Tables
 // ============================================================================
 
-/** Primary battery telemetry (RK818) */
+/**
+ * Primary battery telemetry (RK818). Columns after capacity are null for OTLP
+ * readings that do not report them.
+ */
 export const batteryReadings = pgTable(
 	'battery_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		capacity: integer('capacity').notNull(),
-		status: batteryStatusEnum('status').notNull(),
-		voltage: real('voltage').notNull(),
-		current: real('current').notNull(),
-		temperature: real('temperature').notNull(),
-		chargeFull: integer('charge_full').notNull(),
-		chargeFullDesign: integer('charge_full_design').notNull(),
-		health: batteryHealthEnum('health').notNull(),
-		present: boolean('present').notNull(),
-		chargeType: chargeTypeEnum('charge_type').notNull(),
-		energyFullDesign: real('energy_full_design').notNull()
+		status: batteryStatusEnum('status'),
+		voltage: real('voltage'),
+		current: real('current'),
+		temperature: real('temperature'),
+		chargeFull: integer('charge_full'),
+		chargeFullDesign: integer('charge_full_design'),
+		health: batteryHealthEnum('health'),
+		present: boolean('present'),
+		chargeType: chargeTypeEnum('charge_type'),
+		energyFullDesign: real('energy_full_design')
 	},
-	(table) => [index('battery_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('battery_readings', table),
+		index('battery_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** USB input power telemetry */
 export const usbInputReadings = pgTable(
 	'usb_input_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		present: boolean('present').notNull(),
 		health: batteryHealthEnum('health').notNull(),
 		inputCurrentLimit: real('input_current_limit').notNull(),
 		inputVoltageLimit: real('input_voltage_limit').notNull()
 	},
-	(table) => [index('usb_input_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('usb_input_readings', table),
+		index('usb_input_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** USB-C Power Delivery telemetry */
 export const usbPdReadings = pgTable(
 	'usb_pd_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		online: boolean('online').notNull(),
 		voltage: real('voltage').notNull(),
 		voltageMin: real('voltage_min').notNull(),
@@ -166,24 +496,28 @@ export const usbPdReadings = pgTable(
 		currentMax: real('current_max').notNull(),
 		usbType: usbTypeEnum('usb_type').notNull()
 	},
-	(table) => [index('usb_pd_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('usb_pd_readings', table),
+		index('usb_pd_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** USB Type-C port status */
 export const typeCPortReadings = pgTable(
 	'typec_port_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		dataRole: varchar('data_role', { length: 50 }).notNull(),
 		powerRole: varchar('power_role', { length: 50 }).notNull(),
 		orientation: varchar('orientation', { length: 50 }).notNull(),
 		powerOperationMode: varchar('power_operation_mode', { length: 50 }).notNull(),
 		vconnSource: boolean('vconn_source').notNull()
 	},
-	(table) => [index('typec_port_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('typec_port_readings', table),
+		index('typec_port_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
@@ -194,81 +528,89 @@ export const typeCPortReadings = pgTable(
 export const thermalZoneReadings = pgTable(
 	'thermal_zone_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		zone: integer('zone').notNull(),
 		type: varchar('type', { length: 100 }).notNull(),
 		temperature: real('temperature').notNull(),
 		tripPoints: json('trip_points')
 	},
-	(table) => [index('thermal_zone_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('thermal_zone_readings', table),
+		index('thermal_zone_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** Cooling device readings */
 export const coolingDeviceReadings = pgTable(
 	'cooling_device_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		deviceIndex: integer('device_index').notNull(),
 		type: varchar('type', { length: 100 }).notNull(),
 		currentState: integer('current_state').notNull(),
 		maxState: integer('max_state').notNull()
 	},
-	(table) => [index('cooling_device_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('cooling_device_readings', table),
+		index('cooling_device_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** Thermal summary (convenience fields extracted from zones) */
 export const thermalSummaryReadings = pgTable(
 	'thermal_summary_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		batteryTemp: real('battery_temp').notNull(),
 		cpuTemp: real('cpu_temp').notNull(),
 		gpuTemp: real('gpu_temp').notNull()
 	},
-	(table) => [index('thermal_summary_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('thermal_summary_readings', table),
+		unique('thermal_summary_readings_reading_id_unique').on(
+			table.readingId,
+			table.readingTimestamp
+		),
+		index('thermal_summary_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
 // CPU Tables
 // ============================================================================
 
-/** Per-CPU frequency telemetry */
+/**
+ * Per-CPU frequency telemetry. Limits and governor are null for OTLP readings
+ * that do not report them.
+ */
 export const cpuFrequencyReadings = pgTable(
 	'cpu_frequency_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		cpu: integer('cpu').notNull(),
 		currentFreq: integer('current_freq').notNull(),
-		minFreq: integer('min_freq').notNull(),
-		maxFreq: integer('max_freq').notNull(),
-		hardwareMinFreq: integer('hardware_min_freq').notNull(),
-		hardwareMaxFreq: integer('hardware_max_freq').notNull(),
-		governor: varchar('governor', { length: 50 }).notNull()
+		minFreq: integer('min_freq'),
+		maxFreq: integer('max_freq'),
+		hardwareMinFreq: integer('hardware_min_freq'),
+		hardwareMaxFreq: integer('hardware_max_freq'),
+		governor: varchar('governor', { length: 50 })
 	},
-	(table) => [index('cpu_frequency_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('cpu_frequency_readings', table),
+		index('cpu_frequency_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** CPU time statistics */
 export const cpuTimeReadings = pgTable(
 	'cpu_time_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		cpu: varchar('cpu', { length: 20 }).notNull(),
 		user: bigint('user_time', { mode: 'number' }).notNull(),
 		nice: bigint('nice_time', { mode: 'number' }).notNull(),
@@ -279,18 +621,18 @@ export const cpuTimeReadings = pgTable(
 		softirq: bigint('softirq_time', { mode: 'number' }).notNull(),
 		steal: bigint('steal_time', { mode: 'number' }).notNull()
 	},
-	(table) => [index('cpu_time_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('cpu_time_readings', table),
+		index('cpu_time_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** CPU load average and uptime */
 export const cpuLoadReadings = pgTable(
 	'cpu_load_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		load1: real('load1').notNull(),
 		load5: real('load5').notNull(),
 		load15: real('load15').notNull(),
@@ -301,125 +643,136 @@ export const cpuLoadReadings = pgTable(
 		onlineCpus: json('online_cpus').notNull(),
 		offlineCpus: json('offline_cpus').notNull()
 	},
-	(table) => [index('cpu_load_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('cpu_load_readings', table),
+		unique('cpu_load_readings_reading_id_unique').on(table.readingId, table.readingTimestamp),
+		index('cpu_load_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** CPU frequency time-in-state statistics (medium frequency) */
 export const cpuFrequencyStats = pgTable(
 	'cpu_frequency_stats',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		cpu: integer('cpu').notNull(),
 		timeInState: json('time_in_state').notNull(),
 		totalTransitions: integer('total_transitions').notNull()
 	},
-	(table) => [index('cpu_frequency_stats_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('cpu_frequency_stats', table),
+		index('cpu_frequency_stats_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** CPU idle state statistics (medium frequency) */
 export const cpuIdleStats = pgTable(
 	'cpu_idle_stats',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		cpu: integer('cpu').notNull(),
 		states: json('states').notNull()
 	},
-	(table) => [index('cpu_idle_stats_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('cpu_idle_stats', table),
+		index('cpu_idle_stats_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
 // Memory Tables
 // ============================================================================
 
-/** System memory telemetry */
+/**
+ * System memory telemetry. Columns after total are null for OTLP readings that
+ * neither report them nor report what they follow from.
+ */
 export const memoryReadings = pgTable(
 	'memory_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		total: bigint('total', { mode: 'number' }).notNull(),
-		free: bigint('free', { mode: 'number' }).notNull(),
-		available: bigint('available', { mode: 'number' }).notNull(),
-		buffers: bigint('buffers', { mode: 'number' }).notNull(),
-		cached: bigint('cached', { mode: 'number' }).notNull(),
-		swapTotal: bigint('swap_total', { mode: 'number' }).notNull(),
-		swapFree: bigint('swap_free', { mode: 'number' }).notNull(),
-		swapUsed: bigint('swap_used', { mode: 'number' }).notNull(),
-		active: bigint('active', { mode: 'number' }).notNull(),
-		inactive: bigint('inactive', { mode: 'number' }).notNull(),
-		activeAnon: bigint('active_anon', { mode: 'number' }).notNull(),
-		inactiveAnon: bigint('inactive_anon', { mode: 'number' }).notNull(),
-		activeFile: bigint('active_file', { mode: 'number' }).notNull(),
-		inactiveFile: bigint('inactive_file', { mode: 'number' }).notNull(),
-		dirty: bigint('dirty', { mode: 'number' }).notNull(),
-		writeback: bigint('writeback', { mode: 'number' }).notNull(),
-		anonPages: bigint('anon_pages', { mode: 'number' }).notNull(),
-		mapped: bigint('mapped', { mode: 'number' }).notNull(),
-		shmem: bigint('shmem', { mode: 'number' }).notNull(),
-		slab: bigint('slab', { mode: 'number' }).notNull(),
-		sReclaimable: bigint('s_reclaimable', { mode: 'number' }).notNull(),
-		sUnreclaim: bigint('s_unreclaim', { mode: 'number' }).notNull(),
-		usedPercent: real('used_percent').notNull(),
-		swapUsedPercent: real('swap_used_percent').notNull()
-	},
-	(table) => [index('memory_readings_reading_id_idx').on(table.readingId)]
+		free: bigint('free', { mode: 'number' }),
+		available: bigint('available', { mode: 'number' }),
+		buffers: bigint('buffers', { mode: 'number' }),
+		cached: bigint('cached', { mode: 'number' }),
+		swapTotal: bigint('swap_total', { mode: 'number' }),
+		swapFree: bigint('swap_free', { mode: 'number' }),
+		swapUsed: bigint('swap_used', { mode: 'number' }),
+		active: bigint('active', { mode: 'number' }),
+		inactive: bigint('inactive', { mode: 'number' }),
+		activeAnon: bigint('active_anon', { mode: 'number' }),
+		inactiveAnon: bigint('inactive_anon', { mode: 'number' }),
+		activeFile: bigint('active_file', { mode: 'number' }),
+		inactiveFile: bigint('inactive_file', { mode: 'number' }),
+		dirty: bigint('dirty', { mode: 'number' }),
+		writeback: bigint('writeback', { mode: 'number' }),
+		anonPages: bigint('anon_pages', { mode: 'number' }),
+		mapped: bigint('mapped', { mode: 'number' }),
+		shmem: bigint('shmem', { mode: 'number' }),
+		slab: bigint('slab', { mode: 'number' }),
+		sReclaimable: bigint('s_reclaimable', { mode: 'number' }),
+		sUnreclaim: bigint('s_unreclaim', { mode: 'number' }),
+		usedPercent: real('used_percent'),
+		swapUsedPercent: real('swap_used_percent')
+	},
+	(table) => [
+		...readingKeys('memory_readings', table),
+		unique('memory_readings_reading_id_unique').on(table.readingId, table.readingTimestamp),
+		index('memory_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
 // Network Tables
 // ============================================================================
 
-/** Network interface telemetry */
+/**
+ * Network interface telemetry. Columns after name are null for OTLP readings
+ * that do not report them.
+ */
 export const networkInterfaceReadings = pgTable(
 	'network_interface_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		name: varchar('name', { length: 100 }).notNull(),
-		address: varchar('address', { length: 100 }).notNull(),
-		carrier: boolean('carrier').notNull(),
-		carrierChanges: integer('carrier_changes').notNull(),
-		operstate: varchar('operstate', { length: 50 }).notNull(),
-		mtu: integer('mtu').notNull(),
-		type: networkInterfaceTypeEnum('type').notNull(),
+		address: varchar('address', { length: 100 }),
+		carrier: boolean('carrier'),
+		carrierChanges: integer('carrier_changes'),
+		operstate: varchar('operstate', { length: 50 }),
+		mtu: integer('mtu'),
+		type: networkInterfaceTypeEnum('type'),
 		// Stats embedded
-		rxBytes: bigint('rx_bytes', { mode: 'number' }).notNull(),
-		txBytes: bigint('tx_bytes', { mode: 'number' }).notNull(),
-		rxPackets: bigint('rx_packets', { mode: 'number' }).notNull(),
-		txPackets: bigint('tx_packets', { mode: 'number' }).notNull(),
-		rxErrors: bigint('rx_errors', { mode: 'number' }).notNull(),
-		txErrors: bigint('tx_errors', { mode: 'number' }).notNull(),
-		rxDropped: bigint('rx_dropped', { mode: 'number' }).notNull(),
-		txDropped: bigint('tx_dropped', { mode: 'number' }).notNull(),
-		rxFifo: bigint('rx_fifo', { mode: 'number' }).notNull(),
-		txFifo: bigint('tx_fifo', { mode: 'number' }).notNull(),
-		rxFrame: bigint('rx_frame', { mode: 'number' }).notNull(),
-		txCarrier: bigint('tx_carrier', { mode: 'number' }).notNull(),
-		collisions: bigint('collisions', { mode: 'number' }).notNull()
-	},
-	(table) => [index('network_interface_readings_reading_id_idx').on(table.readingId)]
+		rxBytes: bigint('rx_bytes', { mode: 'number' }),
+		txBytes: bigint('tx_bytes', { mode: 'number' }),
+		rxPackets: bigint('rx_packets', { mode: 'number' }),
+		txPackets: bigint('tx_packets', { mode: 'number' }),
+		rxErrors: bigint('rx_errors', { mode: 'number' }),
+		txErrors: bigint('tx_errors', { mode: 'number' }),
+		rxDropped: bigint('rx_dropped', { mode: 'number' }),
+		txDropped: bigint('tx_dropped', { mode: 'number' }),
+		rxFifo: bigint('rx_fifo', { mode: 'number' }),
+		txFifo: bigint('tx_fifo', { mode: 'number' }),
+		rxFrame: bigint('rx_frame', { mode: 'number' }),
+		txCarrier: bigint('tx_carrier', { mode: 'number' }),
+		collisions: bigint('collisions', { mode: 'number' })
+	},
+	(table) => [
+		...readingKeys('network_interface_readings', table),
+		index('network_interface_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** Network totals and wifi */
 export const networkSummaryReadings = pgTable(
 	'network_summary_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		totalRxBytes: bigint('total_rx_bytes', { mode: 'number' }).notNull(),
 		totalTxBytes: bigint('total_tx_bytes', { mode: 'number' }).notNull(),
 		// WiFi (optional)
@@ -430,7 +783,14 @@ export const networkSummaryReadings = pgTable(
 		wifiFrequency: integer('wifi_frequency'),
 		wifiBitrate: real('wifi_bitrate')
 	},
-	(table) => [index('network_summary_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('network_summary_readings', table),
+		unique('network_summary_readings_reading_id_unique').on(
+			table.readingId,
+			table.readingTimestamp
+		),
+		index('network_summary_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
@@ -441,11 +801,8 @@ export const networkSummaryReadings = pgTable(
 export const gpuReadings = pgTable(
 	'gpu_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		currentFreq: integer('current_freq').notNull(),
 		targetFreq: integer('target_freq').notNull(),
 		minFreq: integer('min_freq').notNull(),
@@ -456,7 +813,11 @@ export const gpuReadings = pgTable(
 		transitionStats: json('transition_stats'),
 		totalTransitions: integer('total_transitions')
 	},
-	(table) => [index('gpu_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('gpu_readings', table),
+		unique('gpu_readings_reading_id_unique').on(table.readingId, table.readingTimestamp),
+		index('gpu_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
@@ -467,10 +828,8 @@ export const gpuReadings = pgTable(
 export const storageDeviceReadings = pgTable(
 	'storage_device_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		parentDeviceId: integer('parent_device_id'),
 		name: varchar('name', { length: 100 }).notNull(),
 		type: blockDeviceTypeEnum('type').notNull(),
@@ -490,37 +849,95 @@ export const storageDeviceReadings = pgTable(
 		ioTimeMs: bigint('io_time_ms', { mode: 'number' }).notNull(),
 		weightedIoTimeMs: bigint('weighted_io_time_ms', { mode: 'number' }).notNull()
 	},
-	(table) => [index('storage_device_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('storage_device_readings', table),
+		index('storage_device_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** Storage totals */
 export const storageSummaryReadings = pgTable(
 	'storage_summary_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		totalBytesRead: bigint('total_bytes_read', { mode: 'number' }).notNull(),
 		totalBytesWritten: bigint('total_bytes_written', { mode: 'number' }).notNull(),
 		totalIoTimeMs: bigint('total_io_time_ms', { mode: 'number' }).notNull()
 	},
-	(table) => [index('storage_summary_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('storage_summary_readings', table),
+		unique('storage_summary_readings_reading_id_unique').on(
+			table.readingId,
+			table.readingTimestamp
+		),
+		index('storage_summary_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
 // Process Tables
 // ============================================================================
 
+/**
+ * Process identities: one row per process of a device, identified across
+ * snapshots by pid, start time (seconds since boot) and name within a boot
+ */
+export const deviceProcesses = pgTable(
+	'device_processes',
+	{
+		id: serial('id').primaryKey(),
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		// Boot number of the device (see device_process_state)
+		boot: integer('boot').notNull(),
+		pid: integer('pid').notNull(),
+		startTime: real('start_time').notNull(),
+		name: varchar('name', { length: 255 }).notNull(),
+		cmdline: text('cmdline').notNull(),
+		firstSeenAt: timestamp('first_seen_at', { withTimezone: true }).notNull(),
+		lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).notNull(),
+		// CPU time at last_seen_at, for the CPU % of the next snapshot
+		lastCpuTimeMs: bigint('last_cpu_time_ms', { mode: 'number' }).notNull()
+	},
+	(table) => [
+		uniqueIndex('device_processes_identity_idx').on(
+			table.deviceId,
+			table.boot,
+			table.pid,
+			table.startTime,
+			table.name
+		),
+		index('device_processes_device_last_seen_idx').on(table.deviceId, table.lastSeenAt)
+	]
+);
+
+/**
+ * Latest process snapshot per device. The boot number advances when a
+ * snapshot falls in a later boot session, or when the kernel's process
+ * creation counter goes backwards between snapshots.
+ */
+export const deviceProcessState = pgTable('device_process_state', {
+	deviceId: integer('device_id')
+		.primaryKey()
+		.references(() => devices.id, { onDelete: 'cascade' }),
+	boot: integer('boot').notNull(),
+	// Boot session of the latest snapshot; null if it was not known
+	bootedAt: timestamp('booted_at', { withTimezone: true }),
+	snapshotAt: timestamp('snapshot_at', { withTimezone: true }).notNull(),
+	processesCreated: bigint('processes_created', { mode: 'number' }).notNull()
+});
+
 /** Individual process telemetry */
 export const processReadings = pgTable(
 	'process_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
+		processId: integer('process_id').references(() => deviceProcesses.id, {
+			onDelete: 'set null'
+		}),
 		pid: integer('pid').notNull(),
 		name: varchar('name', { length: 255 }).notNull(),
 		state: varchar('state', { length: 10 }).notNull(),
@@ -544,18 +961,19 @@ export const processReadings = pgTable(
 		readBytes: bigint('read_bytes', { mode: 'number' }),
 		writeBytes: bigint('write_bytes', { mode: 'number' })
 	},
-	(table) => [index('process_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('process_readings', table),
+		index('process_readings_reading_id_idx').on(table.readingId),
+		index('process_readings_process_id_idx').on(table.processId)
+	]
 );
 
 /** Process summary */
 export const processSummaryReadings = pgTable(
 	'process_summary_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		total: integer('total').notNull(),
 		running: integer('running').notNull(),
 		sleeping: integer('sleeping').notNull(),
@@ -565,7 +983,14 @@ export const processSummaryReadings = pgTable(
 		contextSwitches: bigint('context_switches', { mode: 'number' }).notNull(),
 		processesCreated: bigint('processes_created', { mode: 'number' }).notNull()
 	},
-	(table) => [index('process_summary_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('process_summary_readings', table),
+		unique('process_summary_readings_reading_id_unique').on(
+			table.readingId,
+			table.readingTimestamp
+		),
+		index('process_summary_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
@@ -576,11 +1001,8 @@ export const processSummaryReadings = pgTable(
 export const sensorReadings = pgTable(
 	'sensor_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		// Ambient light
 		illuminanceRaw: real('illuminance_raw').notNull(),
 		illuminanceScale: real('illuminance_scale').notNull(),
@@ -620,7 +1042,11 @@ export const sensorReadings = pgTable(
 		// ADC channels stored as JSON array
 		adcChannels: json('adc_channels').notNull()
 	},
-	(table) => [index('sensor_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('sensor_readings', table),
+		unique('sensor_readings_reading_id_unique').on(table.readingId, table.readingTimestamp),
+		index('sensor_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 // ============================================================================
@@ -631,63 +1057,142 @@ export const sensorReadings = pgTable(
 export const displayReadings = pgTable(
 	'display_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		brightness: integer('brightness').notNull(),
 		maxBrightness: integer('max_brightness').notNull(),
 		brightnessPercent: real('brightness_percent').notNull(),
 		power: boolean('power').notNull()
 	},
-	(table) => [index('display_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('display_readings', table),
+		unique('display_readings_reading_id_unique').on(table.readingId, table.readingTimestamp),
+		index('display_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** LED state readings */
 export const ledReadings = pgTable(
 	'led_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		name: varchar('name', { length: 100 }).notNull(),
 		brightness: integer('brightness').notNull(),
 		maxBrightness: integer('max_brightness').notNull(),
 		trigger: varchar('trigger', { length: 100 }).notNull()
 	},
-	(table) => [index('led_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('led_readings', table),
+		index('led_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** RF kill state readings */
 export const rfKillReadings = pgTable(
 	'rfkill_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull(),
+		id: serial('id'),
+		...readingColumns(),
 		type: rfKillTypeEnum('type').notNull(),
 		name: varchar('name', { length: 100 }).notNull(),
 		softBlocked: boolean('soft_blocked').notNull(),
 		hardBlocked: boolean('hard_blocked').notNull()
 	},
-	(table) => [index('rfkill_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('rfkill_readings', table),
+		index('rfkill_readings_reading_id_idx').on(table.readingId)
+	]
 );
 
 /** System wakeup count */
 export const systemWakeupReadings = pgTable(
 	'system_wakeup_readings',
 	{
-		id: serial('id').primaryKey(),
-		readingId: integer('reading_id')
-			.references(() => telemetryReadings.id, { onDelete: 'cascade' })
-			.notNull()
-			.unique(),
+		id: serial('id'),
+		...readingColumns(),
 		wakeupCount: integer('wakeup_count').notNull()
 	},
-	(table) => [index('system_wakeup_readings_reading_id_idx').on(table.readingId)]
+	(table) => [
+		...readingKeys('system_wakeup_readings', table),
+		unique('system_wakeup_readings_reading_id_unique').on(table.readingId, table.readingTimestamp),
+		index('system_wakeup_readings_reading_id_idx').on(table.readingId)
+	]
+);
+
+// ============================================================================
+// OTLP Tables
+// ============================================================================
+
+/**
+ * OTLP data points as reported, including those also mapped onto the reading
+ * tables. Histogram buckets and summary quantiles are kept in `details`.
+ */
+export const otlpMetricPoints = pgTable(
+	'otlp_metric_points',
+	{
+		id: serial('id'),
+		...readingColumns(),
+		name: varchar('name', { length: 255 }).notNull(),
+		unit: varchar('unit', { length: 64 }),
+		kind: otlpMetricKindEnum('kind').notNull(),
+		// Sums only
+		monotonic: boolean('monotonic'),
+		// Instrumentation scope that produced the metric
+		scope: varchar('scope', { length: 255 }),
+		startTimestamp: timestamp('start_timestamp', { withTimezone: true }),
+		// Gauges and sums
+		value: doublePrecision('value'),
+		// Histograms and summaries
+		count: bigint('count', { mode: 'number' }),
+		sum: doublePrecision('sum'),
+		attributes: json('attributes'),
+		details: json('details')
+	},
+	(table) => [
+		...readingKeys('otlp_metric_points', table),
+		index('otlp_metric_points_reading_id_idx').on(table.readingId),
+		index('otlp_metric_points_name_idx').on(table.name)
+	]
+);
+
+// ============================================================================
+// Derived Tables
+// ============================================================================
+
+/**
+ * Cumulative counters of a reading with their increase since the previous
+ * sample of the same counter (see telemetry/counters.ts). `instance` tells
+ * apart per-interface and per-disk counters; it is empty for device-wide ones.
+ */
+export const counterRates = pgTable(
+	'counter_rates',
+	{
+		id: serial('id'),
+		...readingColumns(),
+		deviceId: integer('device_id')
+			.references(() => devices.id, { onDelete: 'cascade' })
+			.notNull(),
+		counter: varchar('counter', { length: 64 }).notNull(),
+		instance: varchar('instance', { length: 100 }).notNull().default(''),
+		// Raw counter value
+		value: doublePrecision('value').notNull(),
+		// Increase since the previous sample; null without a usable previous sample
+		delta: doublePrecision('delta'),
+		intervalMs: integer('interval_ms'),
+		// The counter started over (reboot) since the previous sample
+		reset: boolean('reset').notNull().default(false)
+	},
+	(table) => [
+		...readingKeys('counter_rates', table),
+		index('counter_rates_reading_id_idx').on(table.readingId),
+		index('counter_rates_series_idx').on(
+			table.deviceId,
+			table.counter,
+			table.instance,
+			table.readingTimestamp
+		)
+	]
 );
 
 // ============================================================================
@@ -695,7 +1200,65 @@ export const systemWakeupReadings = pgTable(
 // ============================================================================
 
 export const devicesRelations = relations(devices, ({ many }) => ({
-	telemetryReadings: many(telemetryReadings)
+	telemetryReadings: many(telemetryReadings),
+	credentials: many(deviceCredentials),
+	clockSkew: many(deviceClockSkew),
+	archive: many(telemetryArchive),
+	rollups: many(telemetryRollups),
+	processes: many(deviceProcesses),
+	counterRates: many(counterRates),
+	bootSessions: many(bootSessions),
+	metadataChanges: many(deviceMetadataChanges),
+	tags: many(deviceTags)
+}));
+
+export const deviceTagsRelations = relations(deviceTags, ({ one }) => ({
+	device: one(devices, {
+		fields: [deviceTags.deviceId],
+		references: [devices.id]
+	})
+}));
+
+export const deviceCredentialsRelations = relations(deviceCredentials, ({ one }) => ({
+	device: one(devices, {
+		fields: [deviceCredentials.deviceId],
+		references: [devices.id]
+	})
+}));
+
+export const deviceMetadataChangesRelations = relations(deviceMetadataChanges, ({ one }) => ({
+	device: one(devices, {
+		fields: [deviceMetadataChanges.deviceId],
+		references: [devices.id]
+	})
+}));
+
+export const deviceClockSkewRelations = relations(deviceClockSkew, ({ one }) => ({
+	device: one(devices, {
+		fields: [deviceClockSkew.deviceId],
+		references: [devices.id]
+	})
+}));
+
+export const telemetryArchiveRelations = relations(telemetryArchive, ({ one }) => ({
+	device: one(devices, {
+		fields: [telemetryArchive.deviceId],
+		references: [devices.id]
+	})
+}));
+
+export const telemetryRollupsRelations = relations(telemetryRollups, ({ one }) => ({
+	device: one(devices, {
+		fields: [telemetryRollups.deviceId],
+		references: [devices.id]
+	})
+}));
+
+export const bootSessionsRelations = relations(bootSessions, ({ one }) => ({
+	device: one(devices, {
+		fields: [bootSessions.deviceId],
+		references: [devices.id]
+	})
 }));
 
 export const telemetryReadingsRelations = relations(telemetryReadings, ({ one, many }) => ({
@@ -737,180 +1300,214 @@ export const telemetryReadingsRelations = relations(telemetryReadings, ({ one, m
 	display: one(displayReadings),
 	ledReadings: many(ledReadings),
 	rfKillReadings: many(rfKillReadings),
-	systemWakeup: one(systemWakeupReadings)
+	systemWakeup: one(systemWakeupReadings),
+	// OTLP
+	otlpMetricPoints: many(otlpMetricPoints),
+	// Derived
+	counterRates: many(counterRates)
 }));
 
 export const batteryReadingsRelations = relations(batteryReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [batteryReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [batteryReadings.readingId, batteryReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const usbInputReadingsRelations = relations(usbInputReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [usbInputReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [usbInputReadings.readingId, usbInputReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const usbPdReadingsRelations = relations(usbPdReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [usbPdReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [usbPdReadings.readingId, usbPdReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const typeCPortReadingsRelations = relations(typeCPortReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [typeCPortReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [typeCPortReadings.readingId, typeCPortReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const thermalZoneReadingsRelations = relations(thermalZoneReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [thermalZoneReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [thermalZoneReadings.readingId, thermalZoneReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const coolingDeviceReadingsRelations = relations(coolingDeviceReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [coolingDeviceReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [coolingDeviceReadings.readingId, coolingDeviceReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const thermalSummaryReadingsRelations = relations(thermalSummaryReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [thermalSummaryReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [thermalSummaryReadings.readingId, thermalSummaryReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const cpuFrequencyReadingsRelations = relations(cpuFrequencyReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [cpuFrequencyReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [cpuFrequencyReadings.readingId, cpuFrequencyReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const cpuTimeReadingsRelations = relations(cpuTimeReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [cpuTimeReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [cpuTimeReadings.readingId, cpuTimeReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const cpuLoadReadingsRelations = relations(cpuLoadReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [cpuLoadReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [cpuLoadReadings.readingId, cpuLoadReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const cpuFrequencyStatsRelations = relations(cpuFrequencyStats, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [cpuFrequencyStats.readingId],
-		references: [telemetryReadings.id]
+		fields: [cpuFrequencyStats.readingId, cpuFrequencyStats.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const cpuIdleStatsRelations = relations(cpuIdleStats, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [cpuIdleStats.readingId],
-		references: [telemetryReadings.id]
+		fields: [cpuIdleStats.readingId, cpuIdleStats.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const memoryReadingsRelations = relations(memoryReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [memoryReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [memoryReadings.readingId, memoryReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const networkInterfaceReadingsRelations = relations(networkInterfaceReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [networkInterfaceReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [networkInterfaceReadings.readingId, networkInterfaceReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const networkSummaryReadingsRelations = relations(networkSummaryReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [networkSummaryReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [networkSummaryReadings.readingId, networkSummaryReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const gpuReadingsRelations = relations(gpuReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [gpuReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [gpuReadings.readingId, gpuReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const storageDeviceReadingsRelations = relations(storageDeviceReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [storageDeviceReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [storageDeviceReadings.readingId, storageDeviceReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const storageSummaryReadingsRelations = relations(storageSummaryReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [storageSummaryReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [storageSummaryReadings.readingId, storageSummaryReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
+export const deviceProcessesRelations = relations(deviceProcesses, ({ one, many }) => ({
+	device: one(devices, {
+		fields: [deviceProcesses.deviceId],
+		references: [devices.id]
+	}),
+	readings: many(processReadings)
+}));
+
 export const processReadingsRelations = relations(processReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [processReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [processReadings.readingId, processReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
+	}),
+	process: one(deviceProcesses, {
+		fields: [processReadings.processId],
+		references: [deviceProcesses.id]
 	})
 }));
 
 export const processSummaryReadingsRelations = relations(processSummaryReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [processSummaryReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [processSummaryReadings.readingId, processSummaryReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const sensorReadingsRelations = relations(sensorReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [sensorReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [sensorReadings.readingId, sensorReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const displayReadingsRelations = relations(displayReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [displayReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [displayReadings.readingId, displayReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const ledReadingsRelations = relations(ledReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [ledReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [ledReadings.readingId, ledReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const rfKillReadingsRelations = relations(rfKillReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [rfKillReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [rfKillReadings.readingId, rfKillReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
 	})
 }));
 
 export const systemWakeupReadingsRelations = relations(systemWakeupReadings, ({ one }) => ({
 	reading: one(telemetryReadings, {
-		fields: [systemWakeupReadings.readingId],
-		references: [telemetryReadings.id]
+		fields: [systemWakeupReadings.readingId, systemWakeupReadings.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
+	})
+}));
+
+export const otlpMetricPointsRelations = relations(otlpMetricPoints, ({ one }) => ({
+	reading: one(telemetryReadings, {
+		fields: [otlpMetricPoints.readingId, otlpMetricPoints.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
+	})
+}));
+
+export const counterRatesRelations = relations(counterRates, ({ one }) => ({
+	reading: one(telemetryReadings, {
+		fields: [counterRates.readingId, counterRates.readingTimestamp],
+		references: [telemetryReadings.id, telemetryReadings.timestamp]
+	}),
+	device: one(devices, {
+		fields: [counterRates.deviceId],
+		references: [devices.id]
 	})
 }));
@@ -0,0 +1,159 @@
+/**
+ * Raw payload archive - reads archived payloads back and rebuilds the
+ * normalized tables from them after a schema or mapping fix.
+ *
+ * Payloads are archived by the bulk pipeline (see ./bulk) in the transaction
+ * that stores them. Like ./bulk this module only depends on the schema, so
+ * scripts can drive it with their own database connection.
+ */
+
+import { gunzipSync } from 'node:zlib';
+import * as schema from '../db/schema';
+import { and, asc, eq, gt, gte, inArray, lt } from 'drizzle-orm';
+import type { Database } from '../db';
+import { writeTelemetryBatch } from './bulk';
+import type { ClockOptions } from './clock';
+import { formatValidationIssues, validateTelemetryPayload } from './validation';
+import type { TelemetryFrequency, TelemetryPayload } from './types';
+
+export interface ReprocessOptions {
+	/** Client-side device id */
+	deviceId: string;
+	/** Device timestamps from (inclusive) */
+	from?: Date;
+	/** Device timestamps until (exclusive) */
+	until?: Date;
+	/** Archived payloads per transaction */
+	batchSize?: number;
+	/** Clock check settings; the receive time of each archived upload is used */
+	clock?: Omit<ClockOptions, 'receivedAt'>;
+	/** Only decode and validate, without touching the stored readings */
+	dryRun?: boolean;
+	/** Called after each batch */
+	onProgress?: (summary: ReprocessSummary) => void;
+}
+
+export interface ReprocessSummary {
+	/** Archived payloads in the range */
+	archived: number;
+	/** Payloads whose readings were rebuilt (or would be, in a dry run) */
+	reprocessed: number;
+	/** Payloads that no longer pass validation; their readings are left alone */
+	invalid: { timestampMs: number; frequency: TelemetryFrequency; errors: string[] }[];
+}
+
+type ArchiveRow = typeof schema.telemetryArchive.$inferSelect;
+
+/**
+ * Decode an archived payload and bring it into the current structure.
+ * Upgraders registered since the payload was archived are applied, while the
+ * schema version the client sent is kept.
+ */
+export function decodeArchivedPayload(
+	row: ArchiveRow
+): { ok: true; payload: TelemetryPayload } | { ok: false; errors: string[] } {
+	const document = JSON.parse(gunzipSync(row.payload).toString('utf8')) as Record<string, unknown>;
+	const validation = validateTelemetryPayload({ ...document, schemaVersion: row.documentVersion });
+	if (!validation.success) {
+		return { ok: false, errors: formatValidationIssues(validation.issues) };
+	}
+
+	const payload = validation.value;
+	if (document.schemaVersion === undefined) delete payload.schemaVersion;
+	else payload.schemaVersion = document.schemaVersion as number;
+	return { ok: true, payload };
+}
+
+/**
+ * Rebuild the readings of a device in a range of device timestamps from the
+ * archive. Each batch deletes the readings of its archived payloads (child
+ * rows cascade) and writes them again, in one transaction. Readings without
+ * an archived payload are not touched.
+ *
+ * Returns null for an unknown device.
+ */
+export async function reprocessArchive(
+	db: Database,
+	options: ReprocessOptions
+): Promise<ReprocessSummary | null> {
+	const device = await db.query.devices.findFirst({
+		where: eq(schema.devices.deviceId, options.deviceId)
+	});
+	if (!device) return null;
+
+	const archive = schema.telemetryArchive;
+	const batchSize = Math.max(1, options.batchSize ?? 500);
+	const summary: ReprocessSummary = { archived: 0, reprocessed: 0, invalid: [] };
+
+	let lastId = 0;
+	for (;;) {
+		const rows = await db
+			.select()
+			.from(archive)
+			.where(
+				and(
+					eq(archive.deviceId, device.id),
+					gt(archive.id, lastId),
+					options.from ? gte(archive.timestampMs, options.from.getTime()) : undefined,
+					options.until ? lt(archive.timestampMs, options.until.getTime()) : undefined
+				)
+			)
+			.orderBy(asc(archive.id))
+			.limit(batchSize);
+		if (rows.length === 0) break;
+		lastId = rows[rows.length - 1].id;
+		summary.archived += rows.length;
+
+		// Payloads of one upload share a receive time and are assessed together
+		const uploads = new Map<number, TelemetryPayload[]>();
+		for (const row of rows) {
+			const decoded = decodeArchivedPayload(row);
+			if (!decoded.ok) {
+				summary.invalid.push({
+					timestampMs: row.timestampMs,
+					frequency: row.frequency,
+					errors: decoded.errors
+				});
+				continue;
+			}
+			const time = row.receivedAt.getTime();
+			const upload = uploads.get(time) ?? [];
+			upload.push(decoded.payload);
+			uploads.set(time, upload);
+		}
+
+		const payloads = [...uploads.values()].flat();
+		if (!options.dryRun && payloads.length > 0) {
+			await db.transaction(async (tx) => {
+				const readings = schema.telemetryReadings;
+				for (const frequency of ['high', 'medium', 'low'] as const) {
+					const timestamps = payloads
+						.filter((p) => p.frequency === frequency)
+						.map((p) => p.timestampMs);
+					if (timestamps.length === 0) continue;
+					await tx
+						.delete(readings)
+						.where(
+							and(
+								eq(readings.deviceId, device.id),
+								eq(readings.frequency, frequency),
+								eq(readings.source, 'client'),
+								inArray(readings.timestampMs, timestamps)
+							)
+						);
+				}
+
+				for (const [time, upload] of uploads) {
+					await writeTelemetryBatch(tx, upload, {
+						reprocess: true,
+						clock: { ...options.clock, receivedAt: new Date(time) }
+					});
+				}
+			});
+		}
+		summary.reprocessed += payloads.length;
+		options.onProgress?.(summary);
+	}
+
+	return summary;
+}
@@ -0,0 +1,173 @@
+/**
+ * Boot sessions - assigns the high-frequency readings of a batch to the boot
+ * of the device they were taken in.
+ *
+ * A reading's boot time is its sample time minus its uptime, which stays put
+ * for the whole boot (uptime keeps counting through suspend), so readings
+ * whose boot times are within BOOT_TOLERANCE_MS of the session's boot time
+ * belong to it. Uptime going backwards therefore starts a new session, while
+ * gaps do not: a device that was suspended or offline kept running. Counter
+ * resets are no boot signal either, as interfaces and disks reset theirs when
+ * they come and go. Late readings join the session they were taken in or
+ * start an earlier one.
+ *
+ * Why a session ended is inferred from the next one: it ran out of battery if
+ * it was last seen discharging at BATTERY_EMPTY_PERCENT or less, restarted if
+ * the next boot followed within RESTART_GAP_MS, and was shut down otherwise.
+ * drizzle/0009_rebuild_boot_sessions.sql built the sessions of older readings the same way.
+ *
+ * Like ./bulk this module only depends on the schema.
+ */
+
+import * as schema from '../db/schema';
+import { and, asc, desc, eq, gte, lt } from 'drizzle-orm';
+import type { DbExecutor } from '../db';
+import type { TelemetryInsertResult } from './bulk';
+import type { BootEndReason, HighFrequencyTelemetry, TelemetryPayload } from './types';
+
+/** Boot times of one boot differ by clock adjustments and uptime rounding */
+const BOOT_TOLERANCE_MS = 2 * 60 * 1000;
+
+/** Longest time from the last reading of a session to the next boot for a restart */
+const RESTART_GAP_MS = 5 * 60 * 1000;
+
+const BATTERY_EMPTY_PERCENT = 3;
+
+type SessionRow = typeof schema.bootSessions.$inferInsert;
+
+interface BootReading {
+	time: Date;
+	bootedAt: Date;
+	uptime: number;
+	capacity: number;
+	status: SessionRow['lastBatteryStatus'];
+}
+
+function endReason(session: SessionRow, next: SessionRow): BootEndReason {
+	if (
+		session.lastBatteryStatus === 'Discharging' &&
+		session.lastBatteryCapacity != null &&
+		session.lastBatteryCapacity <= BATTERY_EMPTY_PERCENT
+	) {
+		return 'battery';
+	}
+	return next.bootedAt.getTime() - session.lastReadingAt.getTime() <= RESTART_GAP_MS
+		? 'restart'
+		: 'shutdown';
+}
+
+/** Add a reading to the session it was taken in, or start one */
+function assign(sessions: SessionRow[], deviceId: number, reading: BootReading): SessionRow {
+	const { time, bootedAt, uptime, capacity, status } = reading;
+	let session = sessions.find(
+		(candidate) => Math.abs(candidate.bootedAt.getTime() - bootedAt.getTime()) <= BOOT_TOLERANCE_MS
+	);
+	if (!session) {
+		session = {
+			deviceId,
+			bootedAt,
+			firstReadingAt: time,
+			lastReadingAt: time,
+			lastUptime: uptime,
+			readings: 0,
+			firstBatteryCapacity: capacity,
+			lastBatteryCapacity: capacity,
+			lastBatteryStatus: status,
+			endReason: null
+		};
+		sessions.push(session);
+		sessions.sort((a, b) => a.bootedAt.getTime() - b.bootedAt.getTime());
+	}
+
+	session.readings = (session.readings ?? 0) + 1;
+	if (time < session.firstReadingAt) {
+		session.firstReadingAt = time;
+		session.firstBatteryCapacity = capacity;
+	}
+	if (time >= session.lastReadingAt) {
+		session.lastReadingAt = time;
+		session.lastUptime = uptime;
+		session.lastBatteryCapacity = capacity;
+		session.lastBatteryStatus = status;
+	}
+	return session;
+}
+
+/**
+ * Assign the new high-frequency readings of a batch to boot sessions.
+ * `readings` are the insert results in payload order; duplicates are skipped.
+ */
+export async function updateBootSessions(
+	tx: DbExecutor,
+	payloads: TelemetryPayload[],
+	readings: TelemetryInsertResult[]
+): Promise<void> {
+	const byDevice = new Map<number, BootReading[]>();
+	payloads.forEach((payload, index) => {
+		const { deviceId, duplicate, timestamp } = readings[index];
+		if (payload.frequency !== 'high' || duplicate || !timestamp) return;
+		const { cpu, power } = payload.data as HighFrequencyTelemetry;
+		if (!Number.isFinite(cpu.uptime) || cpu.uptime < 0) return;
+		byDevice.set(deviceId, [
+			...(byDevice.get(deviceId) ?? []),
+			{
+				time: timestamp,
+				bootedAt: new Date(timestamp.getTime() - cpu.uptime * 1000),
+				uptime: cpu.uptime,
+				capacity: power.battery.capacity,
+				status: power.battery.status
+			}
+		]);
+	});
+
+	const boots = schema.bootSessions;
+	for (const [deviceId, list] of byDevice) {
+		list.sort((a, b) => a.time.getTime() - b.time.getTime());
+		const earliest = new Date(
+			Math.min(...list.map((reading) => reading.bootedAt.getTime())) - BOOT_TOLERANCE_MS
+		);
+
+		// The sessions the readings may belong to and the one before, whose end they may tell
+		const sessions: SessionRow[] = await tx
+			.select()
+			.from(boots)
+			.where(and(eq(boots.deviceId, deviceId), gte(boots.bootedAt, earliest)))
+			.orderBy(asc(boots.bootedAt));
+		const [before] = await tx
+			.select()
+			.from(boots)
+			.where(and(eq(boots.deviceId, deviceId), lt(boots.bootedAt, earliest)))
+			.orderBy(desc(boots.bootedAt))
+			.limit(1);
+		if (before) sessions.unshift(before);
+
+		const changed = new Set(list.map((reading) => assign(sessions, deviceId, reading)));
+		sessions.forEach((session, index) => {
+			const next = sessions[index + 1];
+			const reason = next ? endReason(session, next) : null;
+			if (reason !== session.endReason) {
+				session.endReason = reason;
+				changed.add(session);
+			}
+		});
+
+		const created = [...changed].filter((session) => session.id === undefined);
+		if (created.length > 0) await tx.insert(boots).values(created);
+		for (const session of changed) {
+			if (session.id === undefined) continue;
+			await tx
+				.update(boots)
+				.set({
+					firstReadingAt: session.firstReadingAt,
+					lastReadingAt: session.lastReadingAt,
+					lastUptime: session.lastUptime,
+					readings: session.readings,
+					firstBatteryCapacity: session.firstBatteryCapacity,
+					lastBatteryCapacity: session.lastBatteryCapacity,
+					lastBatteryStatus: session.lastBatteryStatus,
+					endReason: session.endReason
+				})
+				.where(eq(boots.id, session.id));
+		}
+	}
+}
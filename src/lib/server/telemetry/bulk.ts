@@ -0,0 +1,959 @@
+/**
+ * Bulk ingestion pipeline - groups the rows of many payloads per target table
+ * and writes them with multi-row INSERT statements.
+ *
+ * This module only depends on the schema so it can be driven by scripts that
+ * bring their own database connection (see scripts/bench-ingest.ts).
+ */
+
+import { gzipSync } from 'node:zlib';
+import * as schema from '../db/schema';
+import { and, eq, inArray, or, sql } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import type { DbExecutor } from '../db';
+import { assessClocks, type ClockOptions, type ClockSkewSample, type ReadingClock } from './clock';
+import { updateBootSessions } from './boots';
+import { deriveCounterRates } from './counters';
+import { trackProcesses } from './processes';
+import { updateRollups } from './rollups';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION } from './versions';
+import type {
+	TelemetryPayload,
+	HighFrequencyTelemetry,
+	MediumFrequencyTelemetry,
+	LowFrequencyTelemetry,
+	BlockDeviceTelemetry
+} from './types';
+
+export interface TelemetryInsertResult {
+	readingId: number;
+	deviceId: number;
+	/** The payload was already stored; `readingId` is the original reading */
+	duplicate: boolean;
+	/** Sample time the new reading was stored with (after clock correction); unset for duplicates */
+	timestamp?: Date;
+}
+
+export interface BulkWriteOptions {
+	/**
+	 * Upper bound on rows per INSERT statement. Statements are also capped by
+	 * the Postgres limit of 65535 bind parameters. Setting this to 1 reproduces
+	 * the old one-INSERT-per-row behaviour, which the benchmark uses as baseline.
+	 */
+	maxRowsPerInsert?: number;
+	/** Device clock checks (see ./clock) */
+	clock?: ClockOptions;
+	/**
+	 * The payloads are being rebuilt from the archive: they are not archived
+	 * again and add no clock skew samples. Rollups already hold them from the
+	 * original upload and are left alone, as are boot sessions; counter rates
+	 * are derived again.
+	 */
+	reprocess?: boolean;
+}
+
+/** Postgres wire protocol limit on bind parameters per statement */
+const MAX_BIND_PARAMETERS = 65535;
+
+const DEFAULT_MAX_ROWS_PER_INSERT = 5000;
+
+type Insert<T extends PgTable> = T['$inferInsert'];
+
+/**
+ * Child rows of a batch, grouped by target table.
+ * Storage devices are kept apart because partitions need their parent's id.
+ */
+interface RowSets {
+	battery: Insert<typeof schema.batteryReadings>[];
+	usbInput: Insert<typeof schema.usbInputReadings>[];
+	usbPd: Insert<typeof schema.usbPdReadings>[];
+	typeCPort: Insert<typeof schema.typeCPortReadings>[];
+	thermalZones: Insert<typeof schema.thermalZoneReadings>[];
+	coolingDevices: Insert<typeof schema.coolingDeviceReadings>[];
+	thermalSummary: Insert<typeof schema.thermalSummaryReadings>[];
+	cpuFrequencies: Insert<typeof schema.cpuFrequencyReadings>[];
+	cpuTimes: Insert<typeof schema.cpuTimeReadings>[];
+	cpuLoad: Insert<typeof schema.cpuLoadReadings>[];
+	memory: Insert<typeof schema.memoryReadings>[];
+	networkInterfaces: Insert<typeof schema.networkInterfaceReadings>[];
+	networkSummary: Insert<typeof schema.networkSummaryReadings>[];
+	cpuFrequencyStats: Insert<typeof schema.cpuFrequencyStats>[];
+	cpuIdleStats: Insert<typeof schema.cpuIdleStats>[];
+	gpu: Insert<typeof schema.gpuReadings>[];
+	storageSummary: Insert<typeof schema.storageSummaryReadings>[];
+	processes: Insert<typeof schema.processReadings>[];
+	processSummary: Insert<typeof schema.processSummaryReadings>[];
+	sensors: Insert<typeof schema.sensorReadings>[];
+	display: Insert<typeof schema.displayReadings>[];
+	leds: Insert<typeof schema.ledReadings>[];
+	rfKill: Insert<typeof schema.rfKillReadings>[];
+	systemWakeup: Insert<typeof schema.systemWakeupReadings>[];
+}
+
+/**
+ * The reading a child row belongs to. Child tables are partitioned by the
+ * reading's timestamp, so rows carry both.
+ */
+export interface ReadingRef {
+	readingId: number;
+	readingTimestamp: Date;
+}
+
+/** A block device waiting for its parent row id */
+interface PendingStorageDevice {
+	reading: ReadingRef;
+	device: BlockDeviceTelemetry;
+	parentIndex: number | null;
+}
+
+function emptyRowSets(): RowSets {
+	return {
+		battery: [],
+		usbInput: [],
+		usbPd: [],
+		typeCPort: [],
+		thermalZones: [],
+		coolingDevices: [],
+		thermalSummary: [],
+		cpuFrequencies: [],
+		cpuTimes: [],
+		cpuLoad: [],
+		memory: [],
+		networkInterfaces: [],
+		networkSummary: [],
+		cpuFrequencyStats: [],
+		cpuIdleStats: [],
+		gpu: [],
+		storageSummary: [],
+		processes: [],
+		processSummary: [],
+		sensors: [],
+		display: [],
+		leds: [],
+		rfKill: [],
+		systemWakeup: []
+	};
+}
+
+// Linux reports RLIM_INFINITY as ~18446744073709551615 (2^64 - 1) for unlimited rss_limit
+// JavaScript can't precisely represent integers > Number.MAX_SAFE_INTEGER (9007199254740991)
+// Use MAX_SAFE_INTEGER as the cap since it fits in PostgreSQL bigint and is safely representable
+function clampToBigint(value: number): number {
+	return value > Number.MAX_SAFE_INTEGER ? Number.MAX_SAFE_INTEGER : value;
+}
+
+/**
+ * Collect high-frequency rows
+ */
+function collectHighFrequencyRows(
+	rows: RowSets,
+	reading: ReadingRef,
+	data: HighFrequencyTelemetry
+): void {
+	const { power, thermal, cpu, memory, network } = data;
+
+	rows.battery.push({
+		...reading,
+		capacity: power.battery.capacity,
+		status: power.battery.status,
+		voltage: power.battery.voltage,
+		current: power.battery.current,
+		temperature: power.battery.temperature,
+		chargeFull: power.battery.chargeFull,
+		chargeFullDesign: power.battery.chargeFullDesign,
+		health: power.battery.health,
+		present: power.battery.present,
+		chargeType: power.battery.chargeType,
+		energyFullDesign: power.battery.energyFullDesign
+	});
+
+	rows.usbInput.push({
+		...reading,
+		present: power.usbInput.present,
+		health: power.usbInput.health,
+		inputCurrentLimit: power.usbInput.inputCurrentLimit,
+		inputVoltageLimit: power.usbInput.inputVoltageLimit
+	});
+
+	rows.usbPd.push({
+		...reading,
+		online: power.usbCPd.online,
+		voltage: power.usbCPd.voltage,
+		voltageMin: power.usbCPd.voltageMin,
+		voltageMax: power.usbCPd.voltageMax,
+		current: power.usbCPd.current,
+		currentMax: power.usbCPd.currentMax,
+		usbType: power.usbCPd.usbType
+	});
+
+	rows.typeCPort.push({
+		...reading,
+		dataRole: power.typeCPort.dataRole,
+		powerRole: power.typeCPort.powerRole,
+		orientation: power.typeCPort.orientation,
+		powerOperationMode: power.typeCPort.powerOperationMode,
+		vconnSource: power.typeCPort.vconnSource
+	});
+
+	for (const zone of thermal.zones) {
+		rows.thermalZones.push({
+			...reading,
+			zone: zone.zone,
+			type: zone.type,
+			temperature: zone.temperature,
+			tripPoints: zone.tripPoints ?? null
+		});
+	}
+
+	for (const device of thermal.coolingDevices) {
+		rows.coolingDevices.push({
+			...reading,
+			deviceIndex: device.index,
+			type: device.type,
+			currentState: device.currentState,
+			maxState: device.maxState
+		});
+	}
+
+	rows.thermalSummary.push({
+		...reading,
+		batteryTemp: thermal.batteryTemp,
+		cpuTemp: thermal.cpuTemp,
+		gpuTemp: thermal.gpuTemp
+	});
+
+	for (const freq of cpu.frequencies) {
+		rows.cpuFrequencies.push({
+			...reading,
+			cpu: freq.cpu,
+			currentFreq: freq.currentFreq,
+			minFreq: freq.minFreq,
+			maxFreq: freq.maxFreq,
+			hardwareMinFreq: freq.hardwareMinFreq,
+			hardwareMaxFreq: freq.hardwareMaxFreq,
+			governor: freq.governor
+		});
+	}
+
+	for (const time of cpu.cpuTimes) {
+		rows.cpuTimes.push({
+			...reading,
+			cpu: time.cpu,
+			user: time.user,
+			nice: time.nice,
+			system: time.system,
+			idle: time.idle,
+			iowait: time.iowait,
+			irq: time.irq,
+			softirq: time.softirq,
+			steal: time.steal
+		});
+	}
+
+	rows.cpuLoad.push({
+		...reading,
+		load1: cpu.loadAverage.load1,
+		load5: cpu.loadAverage.load5,
+		load15: cpu.loadAverage.load15,
+		runningProcesses: cpu.loadAverage.runningProcesses,
+		totalProcesses: cpu.loadAverage.totalProcesses,
+		uptime: cpu.uptime,
+		idleTime: cpu.idleTime,
+		onlineCpus: cpu.onlineCpus,
+		offlineCpus: cpu.offlineCpus
+	});
+
+	rows.memory.push({
+		...reading,
+		total: memory.total,
+		free: memory.free,
+		available: memory.available,
+		buffers: memory.buffers,
+		cached: memory.cached,
+		swapTotal: memory.swapTotal,
+		swapFree: memory.swapFree,
+		swapUsed: memory.swapUsed,
+		active: memory.active,
+		inactive: memory.inactive,
+		activeAnon: memory.activeAnon,
+		inactiveAnon: memory.inactiveAnon,
+		activeFile: memory.activeFile,
+		inactiveFile: memory.inactiveFile,
+		dirty: memory.dirty,
+		writeback: memory.writeback,
+		anonPages: memory.anonPages,
+		mapped: memory.mapped,
+		shmem: memory.shmem,
+		slab: memory.slab,
+		sReclaimable: memory.sReclaimable,
+		sUnreclaim: memory.sUnreclaim,
+		usedPercent: memory.usedPercent,
+		swapUsedPercent: memory.swapUsedPercent
+	});
+
+	for (const iface of network.interfaces) {
+		rows.networkInterfaces.push({
+			...reading,
+			name: iface.name,
+			address: iface.address,
+			carrier: iface.carrier,
+			carrierChanges: iface.carrierChanges,
+			operstate: iface.operstate,
+			mtu: iface.mtu,
+			type: iface.type,
+			rxBytes: iface.stats.rxBytes,
+			txBytes: iface.stats.txBytes,
+			rxPackets: iface.stats.rxPackets,
+			txPackets: iface.stats.txPackets,
+			rxErrors: iface.stats.rxErrors,
+			txErrors: iface.stats.txErrors,
+			rxDropped: iface.stats.rxDropped,
+			txDropped: iface.stats.txDropped,
+			rxFifo: iface.stats.rxFifo,
+			txFifo: iface.stats.txFifo,
+			rxFrame: iface.stats.rxFrame,
+			txCarrier: iface.stats.txCarrier,
+			collisions: iface.stats.collisions
+		});
+	}
+
+	rows.networkSummary.push({
+		...reading,
+		totalRxBytes: network.totalRxBytes,
+		totalTxBytes: network.totalTxBytes,
+		wifiSignalStrength: network.wifi?.signalStrength ?? null,
+		wifiLinkQuality: network.wifi?.linkQuality ?? null,
+		wifiNoiseLevel: network.wifi?.noiseLevel ?? null,
+		wifiSsid: network.wifi?.ssid ?? null,
+		wifiFrequency: network.wifi?.frequency ?? null,
+		wifiBitrate: network.wifi?.bitrate ?? null
+	});
+}
+
+/**
+ * Collect medium-frequency rows. Storage devices go to `storageDevices` since
+ * partitions can only be written once their parent has an id.
+ */
+function collectMediumFrequencyRows(
+	rows: RowSets,
+	storageDevices: PendingStorageDevice[],
+	reading: ReadingRef,
+	data: MediumFrequencyTelemetry
+): void {
+	const { cpuStats, gpu, storage, processes } = data;
+
+	for (const stat of cpuStats.frequencyStats ?? []) {
+		rows.cpuFrequencyStats.push({
+			...reading,
+			cpu: stat.cpu,
+			timeInState: stat.timeInState,
+			totalTransitions: stat.totalTransitions
+		});
+	}
+
+	for (const stat of cpuStats.idleStats ?? []) {
+		rows.cpuIdleStats.push({
+			...reading,
+			cpu: stat.cpu,
+			states: stat.states
+		});
+	}
+
+	rows.gpu.push({
+		...reading,
+		currentFreq: gpu.frequency.currentFreq,
+		targetFreq: gpu.frequency.targetFreq,
+		minFreq: gpu.frequency.minFreq,
+		maxFreq: gpu.frequency.maxFreq,
+		governor: gpu.frequency.governor,
+		availableFrequencies: gpu.frequency.availableFrequencies,
+		pollingIntervalMs: gpu.frequency.pollingIntervalMs,
+		transitionStats: gpu.transitionStats ?? null,
+		totalTransitions: gpu.totalTransitions ?? null
+	});
+
+	rows.storageSummary.push({
+		...reading,
+		totalBytesRead: storage.totalBytesRead,
+		totalBytesWritten: storage.totalBytesWritten,
+		totalIoTimeMs: storage.totalIoTimeMs
+	});
+
+	rows.processSummary.push({
+		...reading,
+		total: processes.summary.total,
+		running: processes.summary.running,
+		sleeping: processes.summary.sleeping,
+		zombie: processes.summary.zombie,
+		stopped: processes.summary.stopped,
+		totalCpuTime: processes.totalCpuTime,
+		contextSwitches: processes.contextSwitches,
+		processesCreated: processes.processesCreated
+	});
+
+	for (const proc of processes.processes) {
+		rows.processes.push({
+			...reading,
+			pid: proc.pid,
+			name: proc.name,
+			state: proc.state,
+			ppid: proc.ppid,
+			pgrp: proc.pgrp,
+			session: proc.session,
+			userTimeMs: proc.userTimeMs,
+			systemTimeMs: proc.systemTimeMs,
+			totalCpuTimeMs: proc.totalCpuTimeMs,
+			cpuPercent: proc.cpuPercent ?? null,
+			vsize: proc.vsize,
+			rss: proc.rss,
+			rssLimit: clampToBigint(proc.rssLimit),
+			memoryPercent: proc.memoryPercent,
+			numThreads: proc.numThreads,
+			nice: proc.nice,
+			priority: proc.priority,
+			startTime: proc.startTime,
+			cmdline: proc.cmdline,
+			oomScore: proc.oomScore,
+			readBytes: proc.readBytes ?? null,
+			writeBytes: proc.writeBytes ?? null
+		});
+	}
+
+	for (const device of storage.devices) {
+		storageDevices.push({ reading, device, parentIndex: null });
+	}
+}
+
+/**
+ * Collect low-frequency rows
+ */
+function collectLowFrequencyRows(
+	rows: RowSets,
+	reading: ReadingRef,
+	data: LowFrequencyTelemetry
+): void {
+	const { sensors, system } = data;
+
+	rows.sensors.push({
+		...reading,
+		illuminanceRaw: sensors.ambientLight.illuminanceRaw,
+		illuminanceScale: sensors.ambientLight.illuminanceScale,
+		illuminanceLux: sensors.ambientLight.illuminanceLux,
+		proximityRaw: sensors.proximity.proximityRaw,
+		proximityScale: sensors.proximity.proximityScale,
+		nearLevel: sensors.proximity.nearLevel,
+		isNear: sensors.proximity.isNear,
+		accelRawX: sensors.accelerometer.raw.x,
+		accelRawY: sensors.accelerometer.raw.y,
+		accelRawZ: sensors.accelerometer.raw.z,
+		accelScale: sensors.accelerometer.scale,
+		accelX: sensors.accelerometer.acceleration.x,
+		accelY: sensors.accelerometer.acceleration.y,
+		accelZ: sensors.accelerometer.acceleration.z,
+		accelMagnitude: sensors.accelerometer.magnitude,
+		gyroRawX: sensors.gyroscope.raw.x,
+		gyroRawY: sensors.gyroscope.raw.y,
+		gyroRawZ: sensors.gyroscope.raw.z,
+		gyroScale: sensors.gyroscope.scale,
+		gyroX: sensors.gyroscope.angularVelocity.x,
+		gyroY: sensors.gyroscope.angularVelocity.y,
+		gyroZ: sensors.gyroscope.angularVelocity.z,
+		gyroMagnitude: sensors.gyroscope.magnitude,
+		magRawX: sensors.magnetometer.raw.x,
+		magRawY: sensors.magnetometer.raw.y,
+		magRawZ: sensors.magnetometer.raw.z,
+		magScale: sensors.magnetometer.scale,
+		magX: sensors.magnetometer.magneticField.x,
+		magY: sensors.magnetometer.magneticField.y,
+		magZ: sensors.magnetometer.magneticField.z,
+		magHeading: sensors.magnetometer.heading,
+		adcChannels: sensors.adcChannels
+	});
+
+	rows.display.push({
+		...reading,
+		brightness: system.display.brightness,
+		maxBrightness: system.display.maxBrightness,
+		brightnessPercent: system.display.brightnessPercent,
+		power: system.display.power
+	});
+
+	rows.systemWakeup.push({
+		...reading,
+		wakeupCount: system.wakeupCount
+	});
+
+	for (const led of system.leds) {
+		rows.leds.push({
+			...reading,
+			name: led.name,
+			brightness: led.brightness,
+			maxBrightness: led.maxBrightness,
+			trigger: led.trigger
+		});
+	}
+
+	for (const rf of system.rfkill) {
+		rows.rfKill.push({
+			...reading,
+			type: rf.type,
+			name: rf.name,
+			softBlocked: rf.softBlocked,
+			hardBlocked: rf.hardBlocked
+		});
+	}
+}
+
+/**
+ * Split rows into INSERT-sized chunks, respecting the bind parameter limit
+ */
+function chunkRows<T extends object>(rows: T[], maxRowsPerInsert: number): T[][] {
+	if (rows.length === 0) return [];
+	const columns = Math.max(1, Object.keys(rows[0]).length);
+	const size = Math.max(
+		1,
+		Math.min(maxRowsPerInsert, Math.floor(MAX_BIND_PARAMETERS / columns))
+	);
+	const chunks: T[][] = [];
+	for (let i = 0; i < rows.length; i += size) {
+		chunks.push(rows.slice(i, i + size));
+	}
+	return chunks;
+}
+
+/**
+ * Insert rows into a table with as few statements as possible
+ */
+export async function insertRows<T extends PgTable>(
+	tx: DbExecutor,
+	table: T,
+	rows: Insert<T>[],
+	maxRowsPerInsert = DEFAULT_MAX_ROWS_PER_INSERT
+): Promise<void> {
+	for (const chunk of chunkRows(rows, maxRowsPerInsert)) {
+		await tx.insert(table).values(chunk);
+	}
+}
+
+/**
+ * Upsert the given devices and return their database ids. `touch` updates
+ * their last-seen time.
+ */
+export async function resolveDevices(
+	tx: DbExecutor,
+	ids: string[],
+	touch = true
+): Promise<Map<string, number>> {
+	const deviceIds = [...new Set(ids)];
+
+	const devices = await tx
+		.insert(schema.devices)
+		.values(deviceIds.map((deviceId) => ({ deviceId, name: deviceId })))
+		.onConflictDoUpdate({
+			target: schema.devices.deviceId,
+			set: { lastSeenAt: touch ? sql`now()` : sql`${schema.devices.lastSeenAt}` }
+		})
+		.returning({ id: schema.devices.id, deviceId: schema.devices.deviceId });
+
+	return new Map(devices.map((d) => [d.deviceId, d.id]));
+}
+
+/**
+ * Insert block devices level by level so each partition can reference the id
+ * of its parent row: all top-level devices of the batch in one statement, then
+ * all their partitions, and so on.
+ */
+async function insertStorageDevices(
+	tx: DbExecutor,
+	pending: PendingStorageDevice[],
+	maxRowsPerInsert: number
+): Promise<void> {
+	let level = pending;
+	let parentIds: number[] = [];
+
+	while (level.length > 0) {
+		const rows: Insert<typeof schema.storageDeviceReadings>[] = level.map(
+			({ reading, device, parentIndex }) => ({
+				...reading,
+				parentDeviceId: parentIndex === null ? null : parentIds[parentIndex],
+				name: device.name,
+				type: device.type,
+				size: device.size,
+				bytesRead: device.bytesRead,
+				bytesWritten: device.bytesWritten,
+				readsCompleted: device.stats.readsCompleted,
+				readsMerged: device.stats.readsMerged,
+				sectorsRead: device.stats.sectorsRead,
+				readTimeMs: device.stats.readTimeMs,
+				writesCompleted: device.stats.writesCompleted,
+				writesMerged: device.stats.writesMerged,
+				sectorsWritten: device.stats.sectorsWritten,
+				writeTimeMs: device.stats.writeTimeMs,
+				iosInProgress: device.stats.iosInProgress,
+				ioTimeMs: device.stats.ioTimeMs,
+				weightedIoTimeMs: device.stats.weightedIoTimeMs
+			})
+		);
+
+		// RETURNING yields rows in VALUES order, so ids line up with `level`
+		const ids: number[] = [];
+		for (const chunk of chunkRows(rows, maxRowsPerInsert)) {
+			const inserted = await tx
+				.insert(schema.storageDeviceReadings)
+				.values(chunk)
+				.returning({ id: schema.storageDeviceReadings.id });
+			ids.push(...inserted.map((r) => r.id));
+		}
+
+		const next: PendingStorageDevice[] = [];
+		level.forEach(({ reading, device }, index) => {
+			for (const partition of device.partitions ?? []) {
+				next.push({ reading, device: partition, parentIndex: index });
+			}
+		});
+
+		parentIds = ids;
+		level = next;
+	}
+}
+
+type ReadingSource = (typeof schema.readingSourceEnum.enumValues)[number];
+
+function naturalKey(
+	deviceId: number,
+	timestampMs: number,
+	frequency: string,
+	source: ReadingSource
+): string {
+	return `${deviceId}|${timestampMs}|${frequency}|${source}`;
+}
+
+function idempotencyKey(deviceId: number, key: string): string {
+	return `${deviceId}|${key}`;
+}
+
+export type ReadingInsert = Omit<Insert<typeof schema.telemetryReadings>, 'id'>;
+
+export interface CreatedReading {
+	id: number;
+	deviceId: number;
+	timestampMs: number;
+	frequency: string;
+	source: ReadingSource;
+	idempotencyKey: string | null;
+}
+
+/**
+ * Insert readings whose keys are not taken yet. Client and OTLP readings
+ * (`source`) have separate natural keys. The keys are claimed in
+ * telemetry_reading_keys first, with ids drawn from the readings sequence;
+ * ON CONFLICT skips taken keys, waiting for a concurrent transaction holding
+ * one to finish. Only readings that claimed their keys are inserted. Rows are
+ * sorted by key so concurrent batches lock them in the same order.
+ */
+export async function insertNewReadings(
+	tx: DbExecutor,
+	rows: ReadingInsert[],
+	maxRowsPerInsert = DEFAULT_MAX_ROWS_PER_INSERT
+): Promise<CreatedReading[]> {
+	if (rows.length === 0) return [];
+
+	const ids = await tx.execute<{ id: number }>(
+		sql`SELECT nextval('telemetry_readings_id_seq')::int AS id FROM generate_series(1, ${rows.length})`
+	);
+	const sorted = rows
+		.map((row, index) => ({ ...row, id: ids[index].id, source: row.source ?? 'client' }))
+		.sort(
+			(a, b) =>
+				a.deviceId - b.deviceId ||
+				a.timestampMs - b.timestampMs ||
+				a.frequency.localeCompare(b.frequency) ||
+				a.source.localeCompare(b.source)
+		);
+
+	const claimed = new Set<number>();
+	for (const chunk of chunkRows(sorted, maxRowsPerInsert)) {
+		const keys = await tx
+			.insert(schema.telemetryReadingKeys)
+			.values(
+				chunk.map((row) => ({
+					readingId: row.id,
+					timestamp: row.timestamp,
+					deviceId: row.deviceId,
+					timestampMs: row.timestampMs,
+					frequency: row.frequency,
+					source: row.source,
+					idempotencyKey: row.idempotencyKey ?? null
+				}))
+			)
+			.onConflictDoNothing()
+			.returning({ readingId: schema.telemetryReadingKeys.readingId });
+		keys.forEach((key) => claimed.add(key.readingId));
+	}
+
+	const created = sorted.filter((row) => claimed.has(row.id));
+	await insertRows(tx, schema.telemetryReadings, created, maxRowsPerInsert);
+	return created.map((row) => ({
+		id: row.id,
+		deviceId: row.deviceId,
+		timestampMs: row.timestampMs,
+		frequency: row.frequency,
+		source: row.source,
+		idempotencyKey: row.idempotencyKey ?? null
+	}));
+}
+
+/**
+ * Insert the main reading records, skipping payloads that were stored before.
+ *
+ * A payload is a duplicate when its device already has a client reading with
+ * the same (timestampMs, frequency) or the same idempotency key. Duplicates resolve to
+ * the original reading id, including repeats inside the batch itself.
+ */
+async function insertReadings(
+	tx: DbExecutor,
+	payloads: TelemetryPayload[],
+	clocks: ReadingClock[],
+	deviceIds: Map<string, number>,
+	maxRowsPerInsert: number
+): Promise<TelemetryInsertResult[]> {
+	const byNaturalKey = new Map<string, number>();
+	const byIdempotencyKey = new Map<string, number>();
+	const remember = (reading: CreatedReading) => {
+		byNaturalKey.set(
+			naturalKey(reading.deviceId, reading.timestampMs, reading.frequency, reading.source),
+			reading.id
+		);
+		if (reading.idempotencyKey) {
+			byIdempotencyKey.set(idempotencyKey(reading.deviceId, reading.idempotencyKey), reading.id);
+		}
+	};
+	const lookup = (payload: TelemetryPayload): number | undefined => {
+		const deviceId = deviceIds.get(payload.deviceId)!;
+		return (
+			byNaturalKey.get(naturalKey(deviceId, payload.timestampMs, payload.frequency, 'client')) ??
+			(payload.idempotencyKey
+				? byIdempotencyKey.get(idempotencyKey(deviceId, payload.idempotencyKey))
+				: undefined)
+		);
+	};
+
+	// Only the first occurrence of a key inside the batch is inserted
+	const seen = new Set<string>();
+	const rows: ReadingInsert[] = [];
+	payloads.forEach((payload, index) => {
+		const deviceId = deviceIds.get(payload.deviceId)!;
+		const keys = [naturalKey(deviceId, payload.timestampMs, payload.frequency, 'client')];
+		if (payload.idempotencyKey) keys.push(idempotencyKey(deviceId, payload.idempotencyKey));
+		if (keys.some((key) => seen.has(key))) return;
+		keys.forEach((key) => seen.add(key));
+
+		const clock = clocks[index];
+		rows.push({
+			deviceId,
+			timestamp: clock.timestamp,
+			timestampMs: payload.timestampMs,
+			frequency: payload.frequency,
+			idempotencyKey: payload.idempotencyKey ?? null,
+			schemaVersion: payload.schemaVersion ?? LEGACY_SCHEMA_VERSION,
+			receivedAt: clock.receivedAt,
+			clockSuspect: clock.suspect,
+			clockOffsetMs: clock.offsetMs
+		});
+	});
+
+	const inserted = new Set<number>();
+	for (const reading of await insertNewReadings(tx, rows, maxRowsPerInsert)) {
+		inserted.add(reading.id);
+		remember(reading);
+	}
+
+	// Payloads whose keys were taken, by earlier uploads or concurrent ones
+	const missing = payloads.filter((payload) => lookup(payload) === undefined);
+	if (missing.length > 0) {
+		const keys = schema.telemetryReadingKeys;
+		const idempotencyKeys = [
+			...new Set(missing.flatMap((p) => (p.idempotencyKey ? [p.idempotencyKey] : [])))
+		];
+		const stored = await tx
+			.select({
+				id: keys.readingId,
+				deviceId: keys.deviceId,
+				timestampMs: keys.timestampMs,
+				frequency: keys.frequency,
+				source: keys.source,
+				idempotencyKey: keys.idempotencyKey
+			})
+			.from(keys)
+			.where(
+				and(
+					eq(keys.source, 'client'),
+					inArray(keys.deviceId, [...new Set(missing.map((p) => deviceIds.get(p.deviceId)!))]),
+					or(
+						inArray(keys.timestampMs, [...new Set(missing.map((p) => p.timestampMs))]),
+						idempotencyKeys.length > 0 ? inArray(keys.idempotencyKey, idempotencyKeys) : undefined
+					)
+				)
+			);
+		stored.forEach(remember);
+	}
+
+	// A reading created by this batch counts as new for its first payload only
+	const claimed = new Set<number>();
+	return payloads.map((payload, index) => {
+		const readingId = lookup(payload);
+		if (readingId === undefined) {
+			throw new Error(`Reading for ${payload.deviceId} at ${payload.timestampMs} was not stored`);
+		}
+		const duplicate = !inserted.has(readingId) || claimed.has(readingId);
+		claimed.add(readingId);
+		return {
+			readingId,
+			deviceId: deviceIds.get(payload.deviceId)!,
+			duplicate,
+			timestamp: duplicate ? undefined : clocks[index].timestamp
+		};
+	});
+}
+
+/**
+ * Record one clock skew sample per device that had new readings in the batch.
+ * Re-sent uploads would only contribute stale timestamps.
+ */
+async function insertClockSkewSamples(
+	tx: DbExecutor,
+	samples: ClockSkewSample[],
+	payloads: TelemetryPayload[],
+	readings: TelemetryInsertResult[],
+	deviceIds: Map<string, number>
+): Promise<void> {
+	const updated = new Set(
+		payloads.filter((_, index) => !readings[index].duplicate).map((payload) => payload.deviceId)
+	);
+	const rows = samples
+		.filter((sample) => updated.has(sample.deviceId))
+		.map(({ deviceId, ...sample }) => ({ ...sample, deviceId: deviceIds.get(deviceId)! }));
+	if (rows.length > 0) {
+		await tx.insert(schema.deviceClockSkew).values(rows);
+	}
+}
+
+/**
+ * Archive the payloads of new readings, compressed, as they are about to be stored
+ */
+async function insertArchive(
+	tx: DbExecutor,
+	payloads: TelemetryPayload[],
+	readings: TelemetryInsertResult[],
+	clocks: ReadingClock[],
+	maxRowsPerInsert: number
+): Promise<void> {
+	const rows: Insert<typeof schema.telemetryArchive>[] = [];
+	payloads.forEach((payload, index) => {
+		if (readings[index].duplicate) return;
+		const document = Buffer.from(JSON.stringify(payload));
+		rows.push({
+			deviceId: readings[index].deviceId,
+			timestampMs: payload.timestampMs,
+			frequency: payload.frequency,
+			documentVersion: CURRENT_SCHEMA_VERSION,
+			receivedAt: clocks[index].receivedAt,
+			size: document.length,
+			payload: gzipSync(document)
+		});
+	});
+
+	for (const chunk of chunkRows(rows, maxRowsPerInsert)) {
+		await tx.insert(schema.telemetryArchive).values(chunk).onConflictDoNothing();
+	}
+}
+
+/**
+ * Write a batch of validated payloads using grouped multi-row inserts.
+ * Results are returned in payload order. Callers are expected to pass a
+ * transaction so the batch is stored completely or not at all.
+ */
+export async function writeTelemetryBatch(
+	tx: DbExecutor,
+	payloads: TelemetryPayload[],
+	options: BulkWriteOptions = {}
+): Promise<TelemetryInsertResult[]> {
+	if (payloads.length === 0) return [];
+
+	const maxRowsPerInsert = options.maxRowsPerInsert ?? DEFAULT_MAX_ROWS_PER_INSERT;
+
+	const deviceIds = await resolveDevices(
+		tx,
+		payloads.map((p) => p.deviceId),
+		!options.reprocess
+	);
+	const clocks = assessClocks(payloads, options.clock);
+	const readings = await insertReadings(tx, payloads, clocks.readings, deviceIds, maxRowsPerInsert);
+	const rates = await deriveCounterRates(tx, payloads, readings);
+	if (!options.reprocess) {
+		await insertClockSkewSamples(tx, clocks.samples, payloads, readings, deviceIds);
+		await insertArchive(tx, payloads, readings, clocks.readings, maxRowsPerInsert);
+		await updateRollups(tx, payloads, readings, rates);
+		await updateBootSessions(tx, payloads, readings);
+	}
+
+	// Group child rows of every payload per table
+	const rows = emptyRowSets();
+	const storageDevices: PendingStorageDevice[] = [];
+
+	payloads.forEach((payload, index) => {
+		const { readingId, duplicate, timestamp } = readings[index];
+		// Duplicates already have their child rows
+		if (duplicate || !timestamp) return;
+		const reading = { readingId, readingTimestamp: timestamp };
+		switch (payload.frequency) {
+			case 'high':
+				collectHighFrequencyRows(rows, reading, payload.data as HighFrequencyTelemetry);
+				break;
+			case 'medium':
+				collectMediumFrequencyRows(
+					rows,
+					storageDevices,
+					reading,
+					payload.data as MediumFrequencyTelemetry
+				);
+				break;
+			case 'low':
+				collectLowFrequencyRows(rows, reading, payload.data as LowFrequencyTelemetry);
+				break;
+		}
+	});
+
+	// Process rows carry the id of their process identity
+	await trackProcesses(tx, payloads, readings, rows.processes);
+
+	// One pass per table
+	await insertRows(tx, schema.batteryReadings, rows.battery, maxRowsPerInsert);
+	await insertRows(tx, schema.usbInputReadings, rows.usbInput, maxRowsPerInsert);
+	await insertRows(tx, schema.usbPdReadings, rows.usbPd, maxRowsPerInsert);
+	await insertRows(tx, schema.typeCPortReadings, rows.typeCPort, maxRowsPerInsert);
+	await insertRows(tx, schema.thermalZoneReadings, rows.thermalZones, maxRowsPerInsert);
+	await insertRows(tx, schema.coolingDeviceReadings, rows.coolingDevices, maxRowsPerInsert);
+	await insertRows(tx, schema.thermalSummaryReadings, rows.thermalSummary, maxRowsPerInsert);
+	await insertRows(tx, schema.cpuFrequencyReadings, rows.cpuFrequencies, maxRowsPerInsert);
+	await insertRows(tx, schema.cpuTimeReadings, rows.cpuTimes, maxRowsPerInsert);
+	await insertRows(tx, schema.cpuLoadReadings, rows.cpuLoad, maxRowsPerInsert);
+	await insertRows(tx, schema.memoryReadings, rows.memory, maxRowsPerInsert);
+	await insertRows(tx, schema.networkInterfaceReadings, rows.networkInterfaces, maxRowsPerInsert);
+	await insertRows(tx, schema.networkSummaryReadings, rows.networkSummary, maxRowsPerInsert);
+	await insertRows(tx, schema.cpuFrequencyStats, rows.cpuFrequencyStats, maxRowsPerInsert);
+	await insertRows(tx, schema.cpuIdleStats, rows.cpuIdleStats, maxRowsPerInsert);
+	await insertRows(tx, schema.gpuReadings, rows.gpu, maxRowsPerInsert);
+	await insertRows(tx, schema.storageSummaryReadings, rows.storageSummary, maxRowsPerInsert);
+	await insertRows(tx, schema.processReadings, rows.processes, maxRowsPerInsert);
+	await insertRows(tx, schema.processSummaryReadings, rows.processSummary, maxRowsPerInsert);
+	await insertRows(tx, schema.sensorReadings, rows.sensors, maxRowsPerInsert);
+	await insertRows(tx, schema.displayReadings, rows.display, maxRowsPerInsert);
+	await insertRows(tx, schema.ledReadings, rows.leds, maxRowsPerInsert);
+	await insertRows(tx, schema.rfKillReadings, rows.rfKill, maxRowsPerInsert);
+	await insertRows(tx, schema.systemWakeupReadings, rows.systemWakeup, maxRowsPerInsert);
+
+	await insertStorageDevices(tx, storageDevices, maxRowsPerInsert);
+
+	return readings;
+}
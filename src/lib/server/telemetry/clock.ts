@@ -0,0 +1,196 @@
+/**
+ * Device clock checks - spots implausible payload timestamps and estimates
+ * how far device clocks are off.
+ *
+ * PinePhones without network keep booting with a wrong clock (often 1970 or
+ * the build date) until NTP catches up. Timestamps are judged per upload:
+ *
+ * - a timestamp is implausible when it lies in the future (beyond the
+ *   tolerance) or before `minValidTimeMs`
+ * - high-frequency readings carry the uptime, so an implausible one is placed
+ *   relative to the newest plausible reading of the same boot
+ *   (anchor time - uptime difference); without a plausible reading the
+ *   upload's receive time is used as anchor
+ * - medium/low-frequency readings borrow the correction of the nearest
+ *   corrected high-frequency reading
+ * - otherwise a clock that is ahead by more than the tolerance is moved back
+ *   by the measured skew; anything left is only flagged
+ *
+ * The skew is measured from the newest reading of an upload. Clients buffer
+ * readings while offline, so an upload whose newest reading is older than
+ * `sampleWindowMs` says nothing about the clock and gets no skew.
+ *
+ * Pure functions only, so the bulk pipeline can use it without app config.
+ */
+
+import type { HighFrequencyTelemetry, TelemetryPayload } from './types';
+
+export interface ClockOptions {
+	/** Server time the upload arrived (default: now) */
+	receivedAt?: Date;
+	/** Allowed difference between device and server clocks */
+	toleranceMs?: number;
+	/** Timestamps before this are implausible */
+	minValidTimeMs?: number;
+	/** Correct implausible timestamps when possible; when false they are only flagged */
+	correct?: boolean;
+	/** Oldest the newest reading of an upload may be on arrival to measure skew */
+	sampleWindowMs?: number;
+}
+
+export interface ReadingClock {
+	/** Timestamp to store; corrected when `offsetMs` is set */
+	timestamp: Date;
+	receivedAt: Date;
+	suspect: boolean;
+	/** Device time minus corrected time */
+	offsetMs: number | null;
+}
+
+export interface ClockSkewSample {
+	deviceId: string;
+	receivedAt: Date;
+	/** Newest device timestamp in the upload */
+	deviceTimestampMs: number;
+	/** Null when the newest reading was older than the sample window (a buffered upload) */
+	skewMs: number | null;
+	uptime: number | null;
+	bootEpochMs: number | null;
+	readings: number;
+	suspectReadings: number;
+	correctedReadings: number;
+}
+
+export interface ClockAssessment {
+	/** One entry per payload, in payload order */
+	readings: ReadingClock[];
+	/** One entry per device in the upload */
+	samples: ClockSkewSample[];
+}
+
+export const DEFAULT_CLOCK_TOLERANCE_MS = 5 * 60 * 1000;
+export const DEFAULT_MIN_VALID_TIME_MS = Date.UTC(2020, 0, 1);
+export const DEFAULT_SKEW_SAMPLE_WINDOW_MS = 2 * 60 * 1000;
+
+interface Entry {
+	index: number;
+	timestampMs: number;
+	/** Seconds since boot, for high-frequency readings */
+	uptime: number | null;
+	offsetMs: number | null;
+}
+
+/**
+ * Assess the timestamps of one upload
+ */
+export function assessClocks(
+	payloads: TelemetryPayload[],
+	options: ClockOptions = {}
+): ClockAssessment {
+	const receivedAt = options.receivedAt ?? new Date();
+	const now = receivedAt.getTime();
+	const tolerance = options.toleranceMs ?? DEFAULT_CLOCK_TOLERANCE_MS;
+	const minValid = options.minValidTimeMs ?? DEFAULT_MIN_VALID_TIME_MS;
+	const correct = options.correct ?? true;
+	const sampleWindow = options.sampleWindowMs ?? DEFAULT_SKEW_SAMPLE_WINDOW_MS;
+
+	const plausible = (timestampMs: number) =>
+		timestampMs >= minValid && timestampMs <= now + tolerance;
+
+	const readings: ReadingClock[] = payloads.map((payload) => ({
+		timestamp: new Date(payload.timestamp),
+		receivedAt,
+		suspect: !plausible(payload.timestampMs),
+		offsetMs: null
+	}));
+
+	const byDevice = new Map<string, Entry[]>();
+	payloads.forEach((payload, index) => {
+		const entries = byDevice.get(payload.deviceId) ?? [];
+		const uptime =
+			payload.frequency === 'high' ? (payload.data as HighFrequencyTelemetry).cpu.uptime : null;
+		entries.push({ index, timestampMs: payload.timestampMs, uptime, offsetMs: null });
+		byDevice.set(payload.deviceId, entries);
+	});
+
+	const samples: ClockSkewSample[] = [];
+
+	for (const [deviceId, entries] of byDevice) {
+		const newest = entries.reduce((a, b) => (b.timestampMs > a.timestampMs ? b : a));
+		// A clock ahead always shows; one behind looks like a buffered upload beyond the window
+		const skewMs = newest.timestampMs - now >= -sampleWindow ? newest.timestampMs - now : null;
+		const highFrequency = entries.filter((e) => e.uptime !== null);
+		const newestHigh = highFrequency.reduce<Entry | null>(
+			(a, b) => (!a || b.timestampMs > a.timestampMs ? b : a),
+			null
+		);
+
+		// Reference point for uptime-based placement
+		const plausibleHigh = highFrequency.filter((e) => plausible(e.timestampMs));
+		const anchor = plausibleHigh.length
+			? plausibleHigh.reduce((a, b) => (b.timestampMs > a.timestampMs ? b : a))
+			: highFrequency.reduce<Entry | null>((a, b) => (!a || b.uptime! > a.uptime! ? b : a), null);
+		const anchorTime = anchor && plausible(anchor.timestampMs) ? anchor.timestampMs : now;
+
+		const isSuspect = (e: Entry) => readings[e.index].suspect;
+
+		// High-frequency readings of the anchor's boot (uptime not above the anchor's)
+		for (const entry of highFrequency.filter(isSuspect)) {
+			if (anchor && entry.uptime! <= anchor.uptime!) {
+				const actual = anchorTime - (anchor.uptime! - entry.uptime!) * 1000;
+				entry.offsetMs = Math.round(entry.timestampMs - actual);
+			}
+		}
+
+		const correctedHigh = highFrequency.filter((e) => e.offsetMs !== null);
+		for (const entry of entries.filter((e) => e.uptime === null && isSuspect(e))) {
+			const nearest = correctedHigh.reduce<Entry | null>(
+				(a, b) =>
+					!a ||
+					Math.abs(b.timestampMs - entry.timestampMs) < Math.abs(a.timestampMs - entry.timestampMs)
+						? b
+						: a,
+				null
+			);
+			if (nearest) entry.offsetMs = nearest.offsetMs;
+		}
+
+		if (skewMs !== null && skewMs > tolerance) {
+			for (const entry of entries.filter((e) => isSuspect(e) && e.offsetMs === null)) {
+				entry.offsetMs = skewMs;
+			}
+		}
+
+		let suspectReadings = 0;
+		let correctedReadings = 0;
+		for (const entry of entries) {
+			const reading = readings[entry.index];
+			if (!reading.suspect) continue;
+			suspectReadings++;
+
+			// A correction that still lands outside the plausible range is not trusted
+			if (!correct || entry.offsetMs === null || !plausible(entry.timestampMs - entry.offsetMs)) {
+				continue;
+			}
+			reading.offsetMs = entry.offsetMs;
+			reading.timestamp = new Date(entry.timestampMs - entry.offsetMs);
+			correctedReadings++;
+		}
+
+		samples.push({
+			deviceId,
+			receivedAt,
+			deviceTimestampMs: newest.timestampMs,
+			skewMs,
+			uptime: newestHigh?.uptime ?? null,
+			bootEpochMs: newestHigh
+				? Math.round(newestHigh.timestampMs - newestHigh.uptime! * 1000)
+				: null,
+			readings: entries.length,
+			suspectReadings,
+			correctedReadings
+		});
+	}
+
+	return { readings, samples };
+}
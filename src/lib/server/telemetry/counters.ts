@@ -0,0 +1,285 @@
+/**
+ * Counter rates - the cumulative counters of new readings (CPU jiffies,
+ * network and disk bytes, context switches, ...) with their increase since
+ * the previous sample, stored in counter_rates in the transaction that stores
+ * the readings and turned into rate metrics for the rollups.
+ *
+ * Each counter is compared with its previous sample of the device, taken from
+ * the batch or counter_rates. A counter starts over when the device reboots:
+ * a high-frequency reading whose uptime is shorter than the interval, or a
+ * medium-frequency reading whose process creation counter went down, marks a
+ * reset. A reset counts the new value as the increase, as Prometheus does.
+ * A counter that goes down otherwise wrapped around at 32 bits if it was in
+ * their upper half, and is taken as reset if not. Intervals longer than
+ * MAX_INTERVAL_MS of the frequency yield no increase.
+ *
+ * Like ./bulk this module only depends on the schema.
+ */
+
+import * as schema from '../db/schema';
+import { and, desc, eq, gte, inArray, lt } from 'drizzle-orm';
+import type { DbExecutor } from '../db';
+import type { TelemetryInsertResult } from './bulk';
+import type {
+	HighFrequencyTelemetry,
+	LowFrequencyTelemetry,
+	MediumFrequencyTelemetry,
+	TelemetryFrequency,
+	TelemetryPayload
+} from './types';
+
+/** Rate metrics derived from the counters, summed over interfaces and disks */
+export const COUNTER_METRICS = [
+	'cpu_busy_percent',
+	'cpu_iowait_percent',
+	'network_rx_bytes_per_second',
+	'network_tx_bytes_per_second',
+	'network_carrier_changes_per_second',
+	'storage_read_bytes_per_second',
+	'storage_write_bytes_per_second',
+	'context_switches_per_second',
+	'processes_created_per_second',
+	'wakeups_per_second'
+] as const;
+
+export type CounterMetric = (typeof COUNTER_METRICS)[number];
+
+/** A rate metric of a new reading */
+export interface CounterSample {
+	deviceId: number;
+	metric: CounterMetric;
+	time: number;
+	value: number;
+}
+
+/** Longest interval between two samples of a counter that still yields an increase */
+const MAX_INTERVAL_MS: Record<TelemetryFrequency, number> = {
+	high: 60 * 60 * 1000,
+	medium: 60 * 60 * 1000,
+	low: 24 * 60 * 60 * 1000
+};
+
+const WRAP = 2 ** 32;
+
+/** Counter rows per insert, well below the bind parameter limit */
+const ROWS_PER_INSERT = 2000;
+
+/** Bytes per sector in /proc/diskstats, whatever the device's block size */
+const SECTOR_BYTES = 512;
+
+type CounterRow = typeof schema.counterRates.$inferInsert;
+
+interface CounterValue {
+	counter: string;
+	instance: string;
+	value: number;
+}
+
+interface Reading {
+	readingId: number;
+	deviceId: number;
+	frequency: TelemetryFrequency;
+	time: Date;
+	/** Uptime of high-frequency readings */
+	uptimeMs: number | null;
+	values: CounterValue[];
+}
+
+/**
+ * The counters of a payload. Loopback interfaces and loop and zram devices
+ * are left out, as their traffic is no network or disk IO.
+ */
+function counterValues(payload: TelemetryPayload): CounterValue[] {
+	const values: CounterValue[] = [];
+	const add = (counter: string, value: number, instance = '') => {
+		if (Number.isFinite(value)) values.push({ counter, instance, value });
+	};
+
+	if (payload.frequency === 'high') {
+		const { cpu, network } = payload.data as HighFrequencyTelemetry;
+		const times = cpu.cpuTimes.find((entry) => entry.cpu === 'cpu');
+		if (times) {
+			const busy = times.user + times.nice + times.system + times.irq + times.softirq + times.steal;
+			add('cpu_busy_jiffies', busy);
+			add('cpu_iowait_jiffies', times.iowait);
+			add('cpu_total_jiffies', busy + times.idle + times.iowait);
+		}
+		for (const iface of network.interfaces) {
+			if (iface.type === 'loopback') continue;
+			add('network_rx_bytes', iface.stats.rxBytes, iface.name);
+			add('network_tx_bytes', iface.stats.txBytes, iface.name);
+			add('network_carrier_changes', iface.carrierChanges, iface.name);
+		}
+	} else if (payload.frequency === 'medium') {
+		const { storage, processes } = payload.data as MediumFrequencyTelemetry;
+		for (const device of storage.devices) {
+			if (device.type === 'loop' || device.type === 'zram') continue;
+			add('storage_read_bytes', device.stats.sectorsRead * SECTOR_BYTES, device.name);
+			add('storage_write_bytes', device.stats.sectorsWritten * SECTOR_BYTES, device.name);
+		}
+		add('context_switches', processes.contextSwitches);
+		add('processes_created', processes.processesCreated);
+	} else {
+		const { system } = payload.data as LowFrequencyTelemetry;
+		add('wakeups', system.wakeupCount);
+	}
+	return values;
+}
+
+function seriesKey(counter: string, instance: string): string {
+	return `${counter}|${instance}`;
+}
+
+/** Latest stored sample of each counter of a device before `before`, within the interval limit */
+async function previousSamples(
+	tx: DbExecutor,
+	deviceId: number,
+	frequency: TelemetryFrequency,
+	counters: string[],
+	before: Date
+): Promise<Map<string, { value: number; time: Date }>> {
+	const rates = schema.counterRates;
+	const rows = await tx
+		.selectDistinctOn([rates.counter, rates.instance], {
+			counter: rates.counter,
+			instance: rates.instance,
+			value: rates.value,
+			time: rates.readingTimestamp
+		})
+		.from(rates)
+		.where(
+			and(
+				eq(rates.deviceId, deviceId),
+				inArray(rates.counter, counters),
+				lt(rates.readingTimestamp, before),
+				gte(rates.readingTimestamp, new Date(before.getTime() - MAX_INTERVAL_MS[frequency]))
+			)
+		)
+		.orderBy(rates.counter, rates.instance, desc(rates.readingTimestamp));
+
+	return new Map(rows.map((row) => [seriesKey(row.counter, row.instance), row]));
+}
+
+/** Rate metrics of the counter rows of one reading */
+function readingSamples(reading: Reading, rows: CounterRow[]): CounterSample[] {
+	const perSecond = new Map<string, number>();
+	const deltas = new Map<string, number>();
+	for (const row of rows) {
+		if (row.delta == null || !row.intervalMs) continue;
+		deltas.set(row.counter, (deltas.get(row.counter) ?? 0) + row.delta);
+		perSecond.set(
+			row.counter,
+			(perSecond.get(row.counter) ?? 0) + row.delta / (row.intervalMs / 1000)
+		);
+	}
+
+	const samples: CounterSample[] = [];
+	const push = (metric: CounterMetric, value: number) =>
+		samples.push({ deviceId: reading.deviceId, metric, time: reading.time.getTime(), value });
+
+	const total = deltas.get('cpu_total_jiffies');
+	if (total) {
+		const busy = deltas.get('cpu_busy_jiffies');
+		const iowait = deltas.get('cpu_iowait_jiffies');
+		if (busy != null) push('cpu_busy_percent', (busy / total) * 100);
+		if (iowait != null) push('cpu_iowait_percent', (iowait / total) * 100);
+	}
+	for (const [counter, rate] of perSecond) {
+		const metric = `${counter}_per_second`;
+		if ((COUNTER_METRICS as readonly string[]).includes(metric)) {
+			push(metric as CounterMetric, rate);
+		}
+	}
+	return samples;
+}
+
+/**
+ * Store the counters of the new readings of a batch with their increase and
+ * return the rate metrics. `readings` are the insert results in payload
+ * order; duplicates are skipped.
+ */
+export async function deriveCounterRates(
+	tx: DbExecutor,
+	payloads: TelemetryPayload[],
+	readings: TelemetryInsertResult[]
+): Promise<CounterSample[]> {
+	const groups = new Map<string, Reading[]>();
+	payloads.forEach((payload, index) => {
+		const { readingId, deviceId, duplicate, timestamp } = readings[index];
+		if (duplicate || !timestamp) return;
+		const values = counterValues(payload);
+		if (values.length === 0) return;
+		const uptime =
+			payload.frequency === 'high' ? (payload.data as HighFrequencyTelemetry).cpu.uptime : NaN;
+		const key = `${deviceId}|${payload.frequency}`;
+		groups.set(key, [
+			...(groups.get(key) ?? []),
+			{
+				readingId,
+				deviceId,
+				frequency: payload.frequency,
+				time: timestamp,
+				uptimeMs: Number.isFinite(uptime) ? uptime * 1000 : null,
+				values
+			}
+		]);
+	});
+
+	const rows: CounterRow[] = [];
+	const samples: CounterSample[] = [];
+	for (const group of groups.values()) {
+		group.sort((a, b) => a.time.getTime() - b.time.getTime());
+		const { deviceId, frequency } = group[0];
+		const counters = [...new Set(group.flatMap((reading) => reading.values.map((v) => v.counter)))];
+		const previous = await previousSamples(tx, deviceId, frequency, counters, group[0].time);
+
+		for (const reading of group) {
+			const created = reading.values.find((v) => v.counter === 'processes_created');
+			const createdBefore = previous.get(seriesKey('processes_created', ''));
+			const rebooted = !!created && !!createdBefore && created.value < createdBefore.value;
+
+			const readingRows: CounterRow[] = [];
+			for (const { counter, instance, value } of reading.values) {
+				const key = seriesKey(counter, instance);
+				const before = previous.get(key);
+				previous.set(key, { value, time: reading.time });
+
+				const row: CounterRow = {
+					readingId: reading.readingId,
+					readingTimestamp: reading.time,
+					deviceId,
+					counter,
+					instance,
+					value,
+					delta: null,
+					intervalMs: null,
+					reset: false
+				};
+				readingRows.push(row);
+
+				const interval = before ? reading.time.getTime() - before.time.getTime() : 0;
+				if (!before || interval <= 0 || interval > MAX_INTERVAL_MS[frequency]) continue;
+
+				const reset =
+					rebooted ||
+					(reading.uptimeMs != null && reading.uptimeMs < interval) ||
+					(value < before.value && (before.value >= WRAP || before.value < WRAP / 2));
+				row.intervalMs = interval;
+				row.reset = reset;
+				row.delta = reset
+					? value
+					: value >= before.value
+						? value - before.value
+						: value + WRAP - before.value;
+			}
+
+			rows.push(...readingRows);
+			samples.push(...readingSamples(reading, readingRows));
+		}
+	}
+
+	for (let i = 0; i < rows.length; i += ROWS_PER_INSERT) {
+		await tx.insert(schema.counterRates).values(rows.slice(i, i + ROWS_PER_INSERT));
+	}
+	return samples;
+}
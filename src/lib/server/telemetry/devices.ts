@@ -0,0 +1,358 @@
+/**
+ * Device inventory - listing, renaming, tagging, archiving and deleting
+ * devices, and the metadata clients report about themselves (hardware
+ * revision, OS, kernel, client and modem firmware versions) or admins set.
+ *
+ * Every change of a metadata field is kept in device_metadata_changes with
+ * its source, so e.g. a kernel update shows up as one change. Reports that
+ * repeat the current values change nothing, so clients can send their
+ * metadata on every start.
+ */
+
+import { db, type DbExecutor } from '../db';
+import * as schema from '../db/schema';
+import { and, asc, countDistinct, desc, eq, inArray, isNull, notInArray, sql } from 'drizzle-orm';
+import type {
+	DeletedDevice,
+	Device,
+	DeviceTag,
+	DeviceMetadata,
+	DeviceMetadataChange,
+	DeviceMetadataField,
+	DeviceMetadataUpdate,
+	MetadataSource
+} from './types';
+
+export const DEVICE_METADATA_FIELDS = [
+	'hardwareRevision',
+	'os',
+	'kernelVersion',
+	'clientVersion',
+	'modemFirmware',
+	'owner'
+] as const satisfies readonly DeviceMetadataField[];
+
+/** Fields clients may not report */
+const ADMIN_ONLY_FIELDS: DeviceMetadataField[] = ['owner'];
+
+const MAX_VALUE_LENGTH = 255;
+
+/** Letters, digits and `.`, `_`, `:`, `-`, e.g. `mainline-6.x` or `rig:usb-c` */
+const TAG_PATTERN = /^[A-Za-z0-9][\w.:-]{0,63}$/;
+
+/** Most tags per device */
+const MAX_TAGS = 20;
+
+export type MetadataParseResult =
+	{ ok: true; metadata: Partial<DeviceMetadata> } | { ok: false; error: string };
+
+export type TagsParseResult = { ok: true; tags: string[] } | { ok: false; error: string };
+
+/** Name, description and archive state; fields left out stay as they are */
+export interface DeviceUpdate {
+	name?: string | null;
+	description?: string | null;
+	archived?: boolean;
+}
+
+type DeviceRow = typeof schema.devices.$inferSelect;
+
+function toDevice(row: DeviceRow, tags: string[]): Device {
+	return {
+		deviceId: row.deviceId,
+		name: row.name,
+		description: row.description,
+		tags,
+		metadata: {
+			hardwareRevision: row.hardwareRevision,
+			os: row.os,
+			kernelVersion: row.kernelVersion,
+			clientVersion: row.clientVersion,
+			modemFirmware: row.modemFirmware,
+			owner: row.owner
+		},
+		createdAt: row.createdAt,
+		lastSeenAt: row.lastSeenAt,
+		archivedAt: row.archivedAt
+	};
+}
+
+/** Tags of a device, sorted */
+async function tagsOf(executor: DbExecutor, id: number): Promise<string[]> {
+	const rows = await executor
+		.select({ tag: schema.deviceTags.tag })
+		.from(schema.deviceTags)
+		.where(eq(schema.deviceTags.deviceId, id))
+		.orderBy(asc(schema.deviceTags.tag));
+	return rows.map((row) => row.tag);
+}
+
+function toMetadataChange(
+	row: typeof schema.deviceMetadataChanges.$inferSelect
+): DeviceMetadataChange {
+	return {
+		id: row.id,
+		field: row.field as DeviceMetadataField,
+		previousValue: row.previousValue,
+		value: row.value,
+		source: row.source,
+		changedAt: row.changedAt
+	};
+}
+
+/**
+ * Check a metadata report: an object of known fields with strings of up to
+ * 255 characters, or null to clear a field. Blank strings clear it as well.
+ */
+export function parseDeviceMetadata(value: unknown, source: MetadataSource): MetadataParseResult {
+	if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+		return { ok: false, error: 'Expected an object of metadata fields' };
+	}
+
+	const metadata: Partial<DeviceMetadata> = {};
+	for (const [field, entry] of Object.entries(value)) {
+		if (!(DEVICE_METADATA_FIELDS as readonly string[]).includes(field)) {
+			return {
+				ok: false,
+				error: `Unknown metadata field ${field}; expected ${DEVICE_METADATA_FIELDS.join(', ')}`
+			};
+		}
+		if (source === 'client' && ADMIN_ONLY_FIELDS.includes(field as DeviceMetadataField)) {
+			return { ok: false, error: `${field} can only be set by admins` };
+		}
+		if (entry !== null && typeof entry !== 'string') {
+			return { ok: false, error: `${field} must be a string or null` };
+		}
+		const trimmed = entry?.trim() || null;
+		if (trimmed && trimmed.length > MAX_VALUE_LENGTH) {
+			return { ok: false, error: `${field} is longer than ${MAX_VALUE_LENGTH} characters` };
+		}
+		metadata[field as DeviceMetadataField] = trimmed;
+	}
+	return { ok: true, metadata };
+}
+
+/**
+ * Check a tag list: an array of up to 20 tags, duplicates dropped
+ */
+export function parseTags(value: unknown): TagsParseResult {
+	if (!Array.isArray(value)) return { ok: false, error: 'Expected an array of tags' };
+
+	const tags = new Set<string>();
+	for (const entry of value) {
+		const tag = typeof entry === 'string' ? entry.trim() : '';
+		if (!TAG_PATTERN.test(tag)) {
+			return {
+				ok: false,
+				error: `Invalid tag ${JSON.stringify(entry)}; tags are up to 64 letters, digits, '.', '_', ':' or '-'`
+			};
+		}
+		tags.add(tag);
+	}
+	if (tags.size > MAX_TAGS) return { ok: false, error: `A device has at most ${MAX_TAGS} tags` };
+	return { ok: true, tags: [...tags].sort() };
+}
+
+/**
+ * Devices by latest upload, without archived ones unless `archived` is set,
+ * optionally only those tagged `tag`
+ */
+export async function listDevices(
+	options: { archived?: boolean; tag?: string } = {}
+): Promise<Device[]> {
+	const tagged = options.tag
+		? db
+				.select({ id: schema.deviceTags.deviceId })
+				.from(schema.deviceTags)
+				.where(eq(schema.deviceTags.tag, options.tag))
+		: null;
+	const rows = await db.query.devices.findMany({
+		where: and(
+			options.archived ? undefined : isNull(schema.devices.archivedAt),
+			tagged ? inArray(schema.devices.id, tagged) : undefined
+		),
+		with: { tags: { columns: { tag: true }, orderBy: [asc(schema.deviceTags.tag)] } },
+		orderBy: [desc(schema.devices.lastSeenAt)]
+	});
+	return rows.map((row) =>
+		toDevice(
+			row,
+			row.tags.map((entry) => entry.tag)
+		)
+	);
+}
+
+/**
+ * Tags in use with their number of devices, by name
+ */
+export async function listTags(): Promise<DeviceTag[]> {
+	const tags = schema.deviceTags;
+	return db
+		.select({ tag: tags.tag, devices: countDistinct(tags.deviceId) })
+		.from(tags)
+		.innerJoin(schema.devices, eq(schema.devices.id, tags.deviceId))
+		.where(isNull(schema.devices.archivedAt))
+		.groupBy(tags.tag)
+		.orderBy(asc(tags.tag));
+}
+
+/**
+ * Replace the tags of a device; returns the device, or null when unknown
+ */
+export async function setDeviceTags(deviceId: string, tags: string[]): Promise<Device | null> {
+	return db.transaction(async (tx) => {
+		const [device] = await tx
+			.select()
+			.from(schema.devices)
+			.where(eq(schema.devices.deviceId, deviceId))
+			.for('update');
+		if (!device) return null;
+
+		await tx
+			.delete(schema.deviceTags)
+			.where(
+				and(
+					eq(schema.deviceTags.deviceId, device.id),
+					tags.length > 0 ? notInArray(schema.deviceTags.tag, tags) : undefined
+				)
+			);
+		if (tags.length > 0) {
+			// Tags the device already had keep their creation time
+			await tx
+				.insert(schema.deviceTags)
+				.values(tags.map((tag) => ({ deviceId: device.id, tag })))
+				.onConflictDoNothing();
+		}
+		return toDevice(device, await tagsOf(tx, device.id));
+	});
+}
+
+/**
+ * A device, archived or not; null when unknown
+ */
+export async function getDevice(deviceId: string): Promise<Device | null> {
+	const row = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	return row ? toDevice(row, await tagsOf(db, row.id)) : null;
+}
+
+/**
+ * Rename, describe, archive or unarchive a device. Archiving keeps the time
+ * it was first archived. Returns null for an unknown device.
+ */
+export async function updateDevice(deviceId: string, update: DeviceUpdate): Promise<Device | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const archivedAt =
+		update.archived === undefined
+			? device.archivedAt
+			: update.archived
+				? (device.archivedAt ?? new Date())
+				: null;
+	const [row] = await db
+		.update(schema.devices)
+		.set({
+			name: update.name === undefined ? device.name : update.name,
+			description: update.description === undefined ? device.description : update.description,
+			archivedAt
+		})
+		.where(eq(schema.devices.id, device.id))
+		.returning();
+	return toDevice(row, await tagsOf(db, row.id));
+}
+
+/**
+ * Apply metadata reported by a client or set by an admin and record the
+ * fields that changed. Returns null for an unknown device.
+ */
+export async function updateDeviceMetadata(
+	deviceId: string,
+	metadata: Partial<DeviceMetadata>,
+	source: MetadataSource
+): Promise<DeviceMetadataUpdate | null> {
+	return db.transaction(async (tx) => {
+		const [device] = await tx
+			.select()
+			.from(schema.devices)
+			.where(eq(schema.devices.deviceId, deviceId))
+			.for('update');
+		if (!device) return null;
+
+		const changed = (Object.keys(metadata) as DeviceMetadataField[]).filter(
+			(field) => (metadata[field] ?? null) !== device[field]
+		);
+		const tags = await tagsOf(tx, device.id);
+		if (changed.length === 0) return { device: toDevice(device, tags), changes: [] };
+
+		const [row] = await tx
+			.update(schema.devices)
+			.set(Object.fromEntries(changed.map((field) => [field, metadata[field] ?? null])))
+			.where(eq(schema.devices.id, device.id))
+			.returning();
+		const changes = await tx
+			.insert(schema.deviceMetadataChanges)
+			.values(
+				changed.map((field) => ({
+					deviceId: device.id,
+					field,
+					previousValue: device[field],
+					value: metadata[field] ?? null,
+					source
+				}))
+			)
+			.returning();
+
+		return { device: toDevice(row, tags), changes: changes.map(toMetadataChange) };
+	});
+}
+
+/**
+ * Metadata changes of a device, latest first, optionally of one field;
+ * null for an unknown device
+ */
+export async function listMetadataChanges(
+	deviceId: string,
+	options: { field?: DeviceMetadataField; limit?: number } = {}
+): Promise<DeviceMetadataChange[] | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const changes = schema.deviceMetadataChanges;
+	const rows = await db
+		.select()
+		.from(changes)
+		.where(
+			and(
+				eq(changes.deviceId, device.id),
+				options.field ? eq(changes.field, options.field) : undefined
+			)
+		)
+		.orderBy(desc(changes.changedAt), desc(changes.id))
+		.limit(options.limit ?? 100);
+	return rows.map(toMetadataChange);
+}
+
+/**
+ * Delete a device with all its data: readings, rollups, boots, processes,
+ * archived payloads, credentials, tags and metadata changes. Uploads still
+ * waiting in the ingestion spool register the device again when they are stored.
+ * Returns null for an unknown device.
+ */
+export async function deleteDevice(deviceId: string): Promise<DeletedDevice | null> {
+	return db.transaction(async (tx) => {
+		const [device] = await tx
+			.select({ id: schema.devices.id })
+			.from(schema.devices)
+			.where(eq(schema.devices.deviceId, deviceId))
+			.for('update');
+		if (!device) return null;
+
+		const [{ readings }] = await tx
+			.select({ readings: sql<number>`count(*)::int` })
+			.from(schema.telemetryReadings)
+			.where(eq(schema.telemetryReadings.deviceId, device.id));
+		// Everything else references the device or its readings and cascades
+		await tx.delete(schema.devices).where(eq(schema.devices.id, device.id));
+		return { deviceId, readings };
+	});
+}
@@ -0,0 +1,185 @@
+/**
+ * Fleet aggregates - daily figures of groups of devices, to compare e.g.
+ * kernel branches side by side. A group is every device carrying a tag, or
+ * the whole fleet; archived devices are left out.
+ *
+ * The figures come from the rollups, so they cover ranges whose raw readings
+ * were pruned. Battery drain is taken between consecutive hour buckets of a
+ * device that discharged throughout (see `battery_discharging`), as the drop
+ * of the last capacity over the time between the last samples, and assigned
+ * to the day of the later bucket. A capacity that went up in between means
+ * the device was charged unseen, so that hour is skipped. The median and
+ * 95th percentile are taken over these device-hours.
+ */
+
+import { db } from '../db';
+import * as schema from '../db/schema';
+import { and, gte, inArray, isNull, lt } from 'drizzle-orm';
+import { ROLLUP_RESOLUTION_MS } from './rollups';
+import type { FleetComparison, FleetDay, FleetGroup } from './types';
+
+const HOUR_MS = ROLLUP_RESOLUTION_MS['1h'];
+const DAY_MS = ROLLUP_RESOLUTION_MS['1d'];
+
+/** Hourly drain between samples further apart than this is not trusted */
+const MAX_DRAIN_INTERVAL_MS = 2 * HOUR_MS;
+
+interface HourBucket {
+	start: number;
+	last: number;
+	lastAt: number;
+	discharging: boolean;
+}
+
+/** The value at fraction `p` of sorted values, interpolated like percentile_cont */
+function percentile(sorted: number[], p: number): number | null {
+	if (sorted.length === 0) return null;
+	const index = (sorted.length - 1) * p;
+	const lower = Math.floor(index);
+	const upper = Math.ceil(index);
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/** Hourly drain samples of one device by day start, in %/hour */
+function drainByDay(buckets: HourBucket[]): Map<number, number[]> {
+	const days = new Map<number, number[]>();
+	buckets.sort((a, b) => a.start - b.start);
+	for (let i = 1; i < buckets.length; i++) {
+		const [previous, current] = [buckets[i - 1], buckets[i]];
+		const interval = current.lastAt - previous.lastAt;
+		if (
+			!previous.discharging ||
+			!current.discharging ||
+			current.start - previous.start !== HOUR_MS ||
+			interval <= 0 ||
+			interval > MAX_DRAIN_INTERVAL_MS ||
+			current.last > previous.last
+		) {
+			continue;
+		}
+		const day = Math.floor(current.start / DAY_MS) * DAY_MS;
+		days.set(day, [
+			...(days.get(day) ?? []),
+			(previous.last - current.last) / (interval / HOUR_MS)
+		]);
+	}
+	return days;
+}
+
+/**
+ * Daily battery drain, peak CPU temperature and memory use of each group in
+ * `from`..`until`, by UTC day. `tags` are the groups; without tags the whole
+ * fleet is one group. Tags nobody carries give groups without devices.
+ */
+export async function getFleetComparison(
+	tags: string[],
+	from: Date,
+	until: Date
+): Promise<FleetComparison> {
+	const devices = await db.query.devices.findMany({
+		where: isNull(schema.devices.archivedAt),
+		columns: { id: true, deviceId: true },
+		with: { tags: { columns: { tag: true } } }
+	});
+	const members: { tag: string | null; ids: number[] }[] =
+		tags.length > 0
+			? tags.map((tag) => ({
+					tag,
+					ids: devices
+						.filter((device) => device.tags.some((entry) => entry.tag === tag))
+						.map((device) => device.id)
+				}))
+			: [{ tag: null, ids: devices.map((device) => device.id) }];
+	const ids = [...new Set(members.flatMap((group) => group.ids))];
+
+	const firstDay = Math.floor(from.getTime() / DAY_MS) * DAY_MS;
+	const rollups = schema.telemetryRollups;
+	const rows =
+		ids.length === 0
+			? []
+			: await db
+					.select()
+					.from(rollups)
+					.where(
+						and(
+							inArray(rollups.deviceId, ids),
+							inArray(rollups.resolution, ['1h', '1d']),
+							inArray(rollups.metric, [
+								'battery_capacity',
+								'battery_discharging',
+								'thermal_cpu',
+								'memory_used_percent'
+							]),
+							// The hour before the first day tells the drain of its first hour
+							gte(rollups.bucketStart, new Date(firstDay - HOUR_MS)),
+							lt(rollups.bucketStart, until)
+						)
+					);
+
+	// Hour buckets per device, and the day buckets per device and day
+	const hours = new Map<number, Map<number, HourBucket>>();
+	const daily = new Map<string, typeof rows>();
+	for (const row of rows) {
+		const start = row.bucketStart.getTime();
+		if (row.resolution === '1d') {
+			const key = `${row.deviceId}|${start}`;
+			daily.set(key, [...(daily.get(key) ?? []), row]);
+			continue;
+		}
+		const buckets = hours.get(row.deviceId) ?? new Map<number, HourBucket>();
+		hours.set(row.deviceId, buckets);
+		const bucket = buckets.get(start) ?? { start, last: NaN, lastAt: 0, discharging: false };
+		buckets.set(start, bucket);
+		if (row.metric === 'battery_capacity') {
+			bucket.last = row.last;
+			bucket.lastAt = row.lastAt.getTime();
+		} else if (row.metric === 'battery_discharging') {
+			bucket.discharging = row.min === 1;
+		}
+	}
+	const drains = new Map<number, Map<number, number[]>>();
+	for (const [deviceId, buckets] of hours) {
+		drains.set(
+			deviceId,
+			drainByDay([...buckets.values()].filter((bucket) => Number.isFinite(bucket.last)))
+		);
+	}
+
+	const groups: FleetGroup[] = members.map(({ tag, ids: groupIds }) => {
+		const days: FleetDay[] = [];
+		for (let day = firstDay; day < until.getTime(); day += DAY_MS) {
+			const drain = groupIds.flatMap((id) => drains.get(id)?.get(day) ?? []).sort((a, b) => a - b);
+			let reporting = 0;
+			let peakCpuTemp: number | null = null;
+			let memorySum = 0;
+			let memoryCount = 0;
+			for (const id of groupIds) {
+				const dayRows = daily.get(`${id}|${day}`) ?? [];
+				if (dayRows.length > 0) reporting++;
+				for (const row of dayRows) {
+					if (row.metric === 'thermal_cpu') {
+						peakCpuTemp = Math.max(peakCpuTemp ?? row.max, row.max);
+					} else if (row.metric === 'memory_used_percent') {
+						memorySum += row.sum;
+						memoryCount += row.count;
+					}
+				}
+			}
+			days.push({
+				date: new Date(day),
+				devices: reporting,
+				drainMedian: percentile(drain, 0.5),
+				drainP95: percentile(drain, 0.95),
+				drainHours: drain.length,
+				peakCpuTemp,
+				avgMemoryUsedPercent: memoryCount > 0 ? memorySum / memoryCount : null
+			});
+		}
+		const deviceIds = devices
+			.filter((device) => groupIds.includes(device.id))
+			.map((device) => device.deviceId);
+		return { tag, deviceIds, days };
+	});
+
+	return { from, until, groups };
+}
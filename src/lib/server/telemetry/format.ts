@@ -0,0 +1,97 @@
+/**
+ * Body formats for ingestion: JSON, CBOR and MessagePack.
+ *
+ * Binary payloads decode into the same TelemetryPayload shape as JSON, and
+ * acknowledgements are encoded in the format the client sent.
+ */
+
+import { json } from '@sveltejs/kit';
+import { Decoder as CborDecoder, Encoder as CborEncoder } from 'cbor-x';
+import { Packr } from 'msgpackr';
+
+export type BodyFormat = 'json' | 'cbor' | 'msgpack';
+
+const CONTENT_TYPES: Record<string, BodyFormat> = {
+	'application/json': 'json',
+	'application/cbor': 'cbor',
+	'application/msgpack': 'msgpack',
+	'application/x-msgpack': 'msgpack',
+	'application/vnd.msgpack': 'msgpack'
+};
+
+const MEDIA_TYPES: Record<BodyFormat, string> = {
+	json: 'application/json',
+	cbor: 'application/cbor',
+	msgpack: 'application/msgpack'
+};
+
+export const SUPPORTED_CONTENT_TYPES = Object.keys(CONTENT_TYPES);
+
+// Plain maps and arrays only; record/structure extensions are not negotiated
+const cbor = new CborEncoder({ useRecords: false, mapsAsObjects: true });
+const msgpack = new Packr({ useRecords: false, mapsAsObjects: true, int64AsType: 'number' });
+const cborDecoder = new CborDecoder({ useRecords: false, mapsAsObjects: true });
+
+/**
+ * Determine the body format from Content-Type. Requests without one are
+ * treated as JSON; unknown types return null.
+ */
+export function requestFormat(request: Request): BodyFormat | null {
+	const contentType = request.headers.get('content-type');
+	if (!contentType) return 'json';
+	const mediaType = contentType.split(';')[0].trim().toLowerCase();
+	return CONTENT_TYPES[mediaType] ?? null;
+}
+
+/**
+ * Binary formats carry types JSON cannot: 64-bit integers (RLIM_INFINITY in
+ * rssLimit) arrive as bigint and timestamps as Date. Map them onto what the
+ * JSON path would have produced.
+ */
+function normalize(value: unknown): unknown {
+	if (typeof value === 'bigint') return Number(value);
+	if (value instanceof Date) return value.toISOString();
+	if (Array.isArray(value)) return value.map(normalize);
+	if (value !== null && typeof value === 'object' && !(value instanceof Uint8Array)) {
+		const result: Record<string, unknown> = {};
+		for (const [key, entry] of Object.entries(value)) {
+			result[key] = normalize(entry);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Decode a request body. Throws when the bytes are not valid for the format.
+ */
+export function decodeBody(bytes: Uint8Array, format: BodyFormat): unknown {
+	switch (format) {
+		case 'json':
+			return JSON.parse(Buffer.from(bytes).toString('utf8'));
+		case 'cbor':
+			return normalize(cborDecoder.decode(bytes));
+		case 'msgpack':
+			return normalize(msgpack.unpack(bytes));
+	}
+}
+
+/**
+ * Encode a response body in the given format
+ */
+export function encodeResponse(
+	body: unknown,
+	status: number,
+	format: BodyFormat,
+	headers: Record<string, string> = {}
+): Response {
+	if (format === 'json') return json(body, { status, headers });
+
+	// Round-trip through JSON so Dates and undefined fields match the JSON API
+	const plain = JSON.parse(JSON.stringify(body));
+	const bytes = format === 'cbor' ? cbor.encode(plain) : msgpack.pack(plain);
+	return new Response(new Uint8Array(bytes), {
+		status,
+		headers: { ...headers, 'content-type': MEDIA_TYPES[format] }
+	});
+}
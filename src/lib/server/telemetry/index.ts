@@ -1,3 +1,20 @@
 export * from './service';
 export * from './types';
 
+export * from './validation';
+export * from './versions';
+export * from './request';
+export * from './stats';
+export * from './format';
+export * from './stream';
+export * from './clock';
+export * from './ratelimit';
+export * from './spool';
+export * from './live';
+export * from './otlp';
+export * from './prometheus';
+export * from './retention';
+export * from './rollups';
+export * from './partitions';
+export * from './devices';
+export * from './fleet';
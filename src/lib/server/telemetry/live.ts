@@ -0,0 +1,89 @@
+/**
+ * Live readings - pushes newly stored high-frequency readings to dashboard
+ * subscribers (GET /api/dashboard/stream) once their transaction committed.
+ *
+ * Subscriptions are in memory and per process; readings stored by another
+ * server process are not seen.
+ */
+
+import type { TelemetryInsertResult } from './bulk';
+import type { HighFrequencyTelemetry, LiveReading, TelemetryPayload } from './types';
+
+type LiveListener = (reading: LiveReading) => void;
+
+/** Listeners by client-side device id */
+const listeners = new Map<string, Set<LiveListener>>();
+
+/**
+ * Call `listener` with every new high-frequency reading of a device.
+ * Returns the function that ends the subscription.
+ */
+export function subscribeLiveReadings(deviceId: string, listener: LiveListener): () => void {
+	const subscribers = listeners.get(deviceId) ?? new Set();
+	subscribers.add(listener);
+	listeners.set(deviceId, subscribers);
+
+	return () => {
+		subscribers.delete(listener);
+		if (subscribers.size === 0 && listeners.get(deviceId) === subscribers) {
+			listeners.delete(deviceId);
+		}
+	};
+}
+
+function toLiveReading(payload: TelemetryPayload, result: TelemetryInsertResult): LiveReading {
+	const { power, thermal, cpu, memory } = payload.data as HighFrequencyTelemetry;
+	return {
+		deviceId: payload.deviceId,
+		readingId: result.readingId,
+		timestamp: (result.timestamp ?? new Date(payload.timestampMs)).toISOString(),
+		battery: {
+			capacity: power.battery.capacity,
+			voltage: power.battery.voltage,
+			current: power.battery.current,
+			temperature: power.battery.temperature,
+			status: power.battery.status,
+			health: power.battery.health
+		},
+		thermal: {
+			cpuTemp: thermal.cpuTemp,
+			gpuTemp: thermal.gpuTemp,
+			batteryTemp: thermal.batteryTemp
+		},
+		cpuLoad: {
+			load1: cpu.loadAverage.load1,
+			load5: cpu.loadAverage.load5,
+			load15: cpu.loadAverage.load15,
+			uptime: cpu.uptime
+		},
+		memory: {
+			usedPercent: memory.usedPercent,
+			swapUsedPercent: memory.swapUsedPercent,
+			available: memory.available,
+			total: memory.total
+		}
+	};
+}
+
+/**
+ * Notify subscribers of the new high-frequency readings among committed
+ * payloads. `results` are the insert results in payload order.
+ */
+export function publishLiveReadings(
+	payloads: TelemetryPayload[],
+	results: TelemetryInsertResult[]
+): void {
+	payloads.forEach((payload, i) => {
+		const subscribers = listeners.get(payload.deviceId);
+		if (!subscribers || payload.frequency !== 'high' || results[i].duplicate) return;
+
+		const reading = toLiveReading(payload, results[i]);
+		for (const listener of subscribers) {
+			try {
+				listener(reading);
+			} catch (error) {
+				console.error('Error delivering live reading:', error);
+			}
+		}
+	});
+}
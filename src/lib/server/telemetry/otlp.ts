@@ -0,0 +1,1016 @@
+/**
+ * OTLP metrics ingestion - decodes OTLP/HTTP ExportMetricsServiceRequest
+ * bodies (protobuf or JSON) from generic collectors and stores them next to
+ * the readings of ppp-telemetry-client devices.
+ *
+ * - the device is named by the first resource attribute in
+ *   OTLP_DEVICE_ATTRIBUTES, or by the bearer token the collector sends
+ * - data points are grouped into one reading per device and timestamp,
+ *   marked with source `otlp`
+ * - well-known metrics (battery, thermal zones, CPU frequency, memory,
+ *   network interfaces) are mapped onto the reading tables; columns the
+ *   collector does not report stay null
+ * - battery and memory also go into the rollups, so their history shows up
+ *   next to that of client readings
+ * - every data point is also kept as reported in otlp_metric_points
+ *
+ * A collector reports some columns of a few reading tables at best, so OTLP
+ * readings get no counter rates, boot sessions, live updates or clock checks,
+ * which all work on the complete payloads of ppp-telemetry-client.
+ */
+
+import { db } from '../db';
+import * as schema from '../db/schema';
+import { envString } from '../config';
+import { insertNewReadings, insertRows, resolveDevices, type ReadingRef } from './bulk';
+import { upsertRollups, type RollupMetric, type RollupSample } from './rollups';
+import {
+	readFields,
+	asString,
+	asBytes,
+	asInt64,
+	asUint64,
+	asSint,
+	asDouble,
+	asBool,
+	asPacked64,
+	asPackedVarint,
+	bytesField,
+	varintField,
+	message
+} from './protobuf';
+
+export type OtlpFormat = 'protobuf' | 'json';
+
+export type AttributeValue =
+	string | number | boolean | null | AttributeValue[] | { [key: string]: AttributeValue };
+
+export type Attributes = Record<string, AttributeValue>;
+
+export type OtlpMetricKind = (typeof schema.otlpMetricKindEnum.enumValues)[number];
+
+export interface OtlpDataPoint {
+	name: string;
+	unit: string;
+	kind: OtlpMetricKind;
+	/** Sums only */
+	monotonic: boolean | null;
+	scope: string | null;
+	/** Null when the exporter left it unset */
+	timeMs: number | null;
+	startTimeMs: number | null;
+	/** Gauges and sums */
+	value: number | null;
+	/** Histograms and summaries */
+	count: number | null;
+	sum: number | null;
+	attributes: Attributes;
+	/** Histogram buckets or summary quantiles */
+	details: Record<string, unknown> | null;
+}
+
+export interface OtlpResourceMetrics {
+	attributes: Attributes;
+	points: OtlpDataPoint[];
+}
+
+export type OtlpDecodeResult =
+	{ ok: true; resources: OtlpResourceMetrics[] } | { ok: false; error: string };
+
+/** google.rpc.Code values used in error responses */
+const RPC_CODES: Record<number, number> = {
+	400: 3, // INVALID_ARGUMENT
+	401: 16, // UNAUTHENTICATED
+	403: 7, // PERMISSION_DENIED
+	413: 3,
+	415: 3,
+	429: 8, // RESOURCE_EXHAUSTED
+	500: 13 // INTERNAL
+};
+
+const CONTENT_TYPES: Record<OtlpFormat, string> = {
+	protobuf: 'application/x-protobuf',
+	json: 'application/json'
+};
+
+/** Data point flag: the point marks a gap and has no value */
+const FLAG_NO_RECORDED_VALUE = 1n;
+
+/**
+ * Resource attributes that name the device, in order of preference
+ */
+function deviceAttributes(): string[] {
+	return (envString('OTLP_DEVICE_ATTRIBUTES') ?? 'device.id,host.id,host.name,service.instance.id')
+		.split(',')
+		.map((name) => name.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Body format of an OTLP/HTTP request, or null when unsupported
+ */
+export function otlpFormat(request: Request): OtlpFormat | null {
+	const type = (request.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+	if (type === 'application/x-protobuf' || type === 'application/protobuf') return 'protobuf';
+	if (type === 'application/json') return 'json';
+	return null;
+}
+
+function nanosToMs(nanos: bigint): number | null {
+	return nanos > 0n ? Number(nanos / 1_000_000n) : null;
+}
+
+function emptyPoint(
+	name: string,
+	unit: string,
+	kind: OtlpMetricKind,
+	monotonic: boolean | null,
+	scope: string | null
+): OtlpDataPoint {
+	return {
+		name,
+		unit,
+		kind,
+		monotonic,
+		scope,
+		timeMs: null,
+		startTimeMs: null,
+		value: null,
+		count: null,
+		sum: null,
+		attributes: {},
+		details: null
+	};
+}
+
+// ============================================================================
+// Protobuf
+// ============================================================================
+
+function protoAnyValue(bytes: Uint8Array): AttributeValue {
+	for (const f of readFields(bytes)) {
+		switch (f.field) {
+			case 1:
+				return asString(f);
+			case 2:
+				return asBool(f);
+			case 3:
+				return Number(asInt64(f));
+			case 4:
+				return asDouble(f);
+			case 5:
+				return [...readFields(asBytes(f))]
+					.filter((v) => v.field === 1)
+					.map((v) => protoAnyValue(asBytes(v)));
+			case 6:
+				return protoAttributes(
+					[...readFields(asBytes(f))].filter((v) => v.field === 1).map((v) => asBytes(v))
+				);
+			case 7:
+				return Buffer.from(asBytes(f)).toString('base64');
+		}
+	}
+	return null;
+}
+
+/** Decode repeated KeyValue messages */
+function protoAttributes(keyValues: Uint8Array[]): Attributes {
+	const attributes: Attributes = {};
+	for (const bytes of keyValues) {
+		let key = '';
+		let value: AttributeValue = null;
+		for (const f of readFields(bytes)) {
+			if (f.field === 1) key = asString(f);
+			else if (f.field === 2) value = protoAnyValue(asBytes(f));
+		}
+		attributes[key] = value;
+	}
+	return attributes;
+}
+
+function protoBuckets(bytes: Uint8Array): { offset: number; bucketCounts: number[] } {
+	const buckets = { offset: 0, bucketCounts: [] as number[] };
+	for (const f of readFields(bytes)) {
+		if (f.field === 1) buckets.offset = asSint(f);
+		else if (f.field === 2) buckets.bucketCounts.push(...asPackedVarint(f).map(Number));
+	}
+	return buckets;
+}
+
+/**
+ * Decode one data point. Field numbers differ per point type, so they are
+ * looked up in `layout`.
+ */
+function protoPoint(point: OtlpDataPoint, bytes: Uint8Array): OtlpDataPoint | null {
+	const attributes: Uint8Array[] = [];
+	const details: Record<string, unknown> = {};
+	let flags = 0n;
+
+	const layout = {
+		gauge: { attributes: 7, flags: 8 },
+		sum: { attributes: 7, flags: 8 },
+		histogram: { attributes: 9, flags: 10 },
+		exponential_histogram: { attributes: 1, flags: 10 },
+		summary: { attributes: 7, flags: 8 }
+	}[point.kind];
+
+	for (const f of readFields(bytes)) {
+		if (f.field === layout.attributes) {
+			attributes.push(asBytes(f));
+			continue;
+		}
+		if (f.field === layout.flags) {
+			flags = asUint64(f);
+			continue;
+		}
+		if (f.field === 2) {
+			point.startTimeMs = nanosToMs(asUint64(f));
+			continue;
+		}
+		if (f.field === 3) {
+			point.timeMs = nanosToMs(asUint64(f));
+			continue;
+		}
+
+		if (point.kind === 'gauge' || point.kind === 'sum') {
+			if (f.field === 4) point.value = asDouble(f);
+			else if (f.field === 6) point.value = Number(asInt64(f));
+			continue;
+		}
+
+		// Histograms and summaries share count (4) and sum (5)
+		if (f.field === 4) point.count = Number(asUint64(f));
+		else if (f.field === 5) point.sum = asDouble(f);
+		else if (point.kind === 'histogram') {
+			if (f.field === 6) {
+				const counts = (details.bucketCounts ??= []) as number[];
+				counts.push(...asPacked64(f, (v) => Number(v.getBigUint64(0, true))));
+			} else if (f.field === 7) {
+				const bounds = (details.explicitBounds ??= []) as number[];
+				bounds.push(...asPacked64(f, (v) => v.getFloat64(0, true)));
+			} else if (f.field === 11) details.min = asDouble(f);
+			else if (f.field === 12) details.max = asDouble(f);
+		} else if (point.kind === 'exponential_histogram') {
+			if (f.field === 6) details.scale = asSint(f);
+			else if (f.field === 7) details.zeroCount = Number(asUint64(f));
+			else if (f.field === 8) details.positive = protoBuckets(asBytes(f));
+			else if (f.field === 9) details.negative = protoBuckets(asBytes(f));
+			else if (f.field === 12) details.min = asDouble(f);
+			else if (f.field === 13) details.max = asDouble(f);
+			else if (f.field === 14) details.zeroThreshold = asDouble(f);
+		} else if (f.field === 6) {
+			const quantile = { quantile: 0, value: 0 };
+			for (const q of readFields(asBytes(f))) {
+				if (q.field === 1) quantile.quantile = asDouble(q);
+				else if (q.field === 2) quantile.value = asDouble(q);
+			}
+			((details.quantileValues ??= []) as unknown[]).push(quantile);
+		}
+	}
+
+	if (flags & FLAG_NO_RECORDED_VALUE) return null;
+	point.attributes = protoAttributes(attributes);
+	if (Object.keys(details).length > 0) point.details = details;
+	return point;
+}
+
+function protoMetric(bytes: Uint8Array, scope: string | null): OtlpDataPoint[] {
+	let name = '';
+	let unit = '';
+	let data: { kind: OtlpMetricKind; bytes: Uint8Array } | null = null;
+
+	for (const f of readFields(bytes)) {
+		if (f.field === 1) name = asString(f);
+		else if (f.field === 3) unit = asString(f);
+		else if (f.field === 5) data = { kind: 'gauge', bytes: asBytes(f) };
+		else if (f.field === 7) data = { kind: 'sum', bytes: asBytes(f) };
+		else if (f.field === 9) data = { kind: 'histogram', bytes: asBytes(f) };
+		else if (f.field === 10) data = { kind: 'exponential_histogram', bytes: asBytes(f) };
+		else if (f.field === 11) data = { kind: 'summary', bytes: asBytes(f) };
+	}
+	if (!data) return [];
+
+	const fields = [...readFields(data.bytes)];
+	const monotonic = data.kind === 'sum' ? fields.some((f) => f.field === 3 && asBool(f)) : null;
+
+	const points: OtlpDataPoint[] = [];
+	for (const f of fields) {
+		if (f.field !== 1) continue;
+		const point = protoPoint(emptyPoint(name, unit, data.kind, monotonic, scope), asBytes(f));
+		if (point) points.push(point);
+	}
+	return points;
+}
+
+function decodeProtobuf(bytes: Uint8Array): OtlpResourceMetrics[] {
+	const resources: OtlpResourceMetrics[] = [];
+
+	for (const rm of readFields(bytes)) {
+		if (rm.field !== 1) continue;
+		const resource: OtlpResourceMetrics = { attributes: {}, points: [] };
+
+		for (const f of readFields(asBytes(rm))) {
+			if (f.field === 1) {
+				resource.attributes = protoAttributes(
+					[...readFields(asBytes(f))].filter((a) => a.field === 1).map((a) => asBytes(a))
+				);
+			} else if (f.field === 2) {
+				let scope: string | null = null;
+				const metrics: Uint8Array[] = [];
+				for (const s of readFields(asBytes(f))) {
+					if (s.field === 1) {
+						for (const n of readFields(asBytes(s))) {
+							if (n.field === 1) scope = asString(n) || null;
+						}
+					} else if (s.field === 2) {
+						metrics.push(asBytes(s));
+					}
+				}
+				for (const metric of metrics) resource.points.push(...protoMetric(metric, scope));
+			}
+		}
+		resources.push(resource);
+	}
+
+	return resources;
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+function obj(value: unknown): JsonObject {
+	return value !== null && typeof value === 'object' && !Array.isArray(value)
+		? (value as JsonObject)
+		: {};
+}
+
+function list(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [];
+}
+
+/** int64 values are strings in OTLP JSON; doubles may be numbers or strings */
+function num(value: unknown): number | null {
+	if (typeof value === 'number') return value;
+	if (typeof value === 'string' && value.trim() !== '') {
+		const parsed = Number(value);
+		return Number.isNaN(parsed) ? null : parsed;
+	}
+	return null;
+}
+
+function jsonNanos(value: unknown): number | null {
+	if (typeof value === 'string' && /^\d+$/.test(value)) return nanosToMs(BigInt(value));
+	if (typeof value === 'number' && value > 0) return Math.floor(value / 1e6);
+	return null;
+}
+
+function jsonAnyValue(value: unknown): AttributeValue {
+	const v = obj(value);
+	if ('stringValue' in v) return String(v.stringValue);
+	if ('boolValue' in v) return Boolean(v.boolValue);
+	if ('intValue' in v) return num(v.intValue);
+	if ('doubleValue' in v) return num(v.doubleValue);
+	if ('arrayValue' in v) return list(obj(v.arrayValue).values).map(jsonAnyValue);
+	if ('kvlistValue' in v) return jsonAttributes(obj(v.kvlistValue).values);
+	if ('bytesValue' in v) return String(v.bytesValue);
+	return null;
+}
+
+function jsonAttributes(value: unknown): Attributes {
+	const attributes: Attributes = {};
+	for (const kv of list(value)) {
+		attributes[String(obj(kv).key ?? '')] = jsonAnyValue(obj(kv).value);
+	}
+	return attributes;
+}
+
+function jsonPoint(point: OtlpDataPoint, value: unknown): OtlpDataPoint | null {
+	const p = obj(value);
+	if (BigInt(num(p.flags) ?? 0) & FLAG_NO_RECORDED_VALUE) return null;
+
+	point.attributes = jsonAttributes(p.attributes);
+	point.startTimeMs = jsonNanos(p.startTimeUnixNano);
+	point.timeMs = jsonNanos(p.timeUnixNano);
+
+	if (point.kind === 'gauge' || point.kind === 'sum') {
+		point.value = num(p.asDouble) ?? num(p.asInt);
+		return point;
+	}
+
+	point.count = num(p.count);
+	point.sum = num(p.sum);
+	const details: Record<string, unknown> = {};
+	if (point.kind === 'histogram') {
+		details.bucketCounts = list(p.bucketCounts).map(num);
+		details.explicitBounds = list(p.explicitBounds).map(num);
+	} else if (point.kind === 'exponential_histogram') {
+		details.scale = num(p.scale);
+		details.zeroCount = num(p.zeroCount);
+		for (const side of ['positive', 'negative'] as const) {
+			if (side in p) {
+				details[side] = {
+					offset: num(obj(p[side]).offset) ?? 0,
+					bucketCounts: list(obj(p[side]).bucketCounts).map(num)
+				};
+			}
+		}
+		if ('zeroThreshold' in p) details.zeroThreshold = num(p.zeroThreshold);
+	} else {
+		details.quantileValues = list(p.quantileValues).map((q) => ({
+			quantile: num(obj(q).quantile) ?? 0,
+			value: num(obj(q).value) ?? 0
+		}));
+	}
+	if ('min' in p) details.min = num(p.min);
+	if ('max' in p) details.max = num(p.max);
+	point.details = details;
+	return point;
+}
+
+const JSON_KINDS: Record<string, OtlpMetricKind> = {
+	gauge: 'gauge',
+	sum: 'sum',
+	histogram: 'histogram',
+	exponentialHistogram: 'exponential_histogram',
+	summary: 'summary'
+};
+
+function decodeJson(bytes: Uint8Array): OtlpResourceMetrics[] {
+	const body = obj(JSON.parse(Buffer.from(bytes).toString('utf8')));
+
+	return list(body.resourceMetrics).map((rm) => {
+		const resource: OtlpResourceMetrics = {
+			attributes: jsonAttributes(obj(obj(rm).resource).attributes),
+			points: []
+		};
+
+		for (const sm of list(obj(rm).scopeMetrics)) {
+			const scope = String(obj(obj(sm).scope).name ?? '') || null;
+			for (const m of list(obj(sm).metrics)) {
+				const metric = obj(m);
+				const key = Object.keys(JSON_KINDS).find((k) => k in metric);
+				if (!key) continue;
+
+				const kind = JSON_KINDS[key];
+				const data = obj(metric[key]);
+				const monotonic = kind === 'sum' ? Boolean(data.isMonotonic) : null;
+				for (const dp of list(data.dataPoints)) {
+					const point = jsonPoint(
+						emptyPoint(
+							String(metric.name ?? ''),
+							String(metric.unit ?? ''),
+							kind,
+							monotonic,
+							scope
+						),
+						dp
+					);
+					if (point) resource.points.push(point);
+				}
+			}
+		}
+		return resource;
+	});
+}
+
+/**
+ * Decode an ExportMetricsServiceRequest body
+ */
+export function decodeOtlpMetrics(bytes: Uint8Array, format: OtlpFormat): OtlpDecodeResult {
+	try {
+		return {
+			ok: true,
+			resources: format === 'protobuf' ? decodeProtobuf(bytes) : decodeJson(bytes)
+		};
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : 'malformed body';
+		return { ok: false, error: `Invalid OTLP ${format} body: ${reason}` };
+	}
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+type Insert<T extends { $inferInsert: unknown }> = T['$inferInsert'];
+
+type BatteryField = 'capacity' | 'voltage' | 'current' | 'temperature';
+
+type CpuFrequencyField =
+	'currentFreq' | 'minFreq' | 'maxFreq' | 'hardwareMinFreq' | 'hardwareMaxFreq';
+
+type MemoryColumn = keyof Omit<
+	Insert<typeof schema.memoryReadings>,
+	'id' | 'readingId' | 'readingTimestamp' | 'usedPercent' | 'swapUsedPercent'
+>;
+
+type InterfaceCounter =
+	| 'rxBytes'
+	| 'txBytes'
+	| 'rxPackets'
+	| 'txPackets'
+	| 'rxErrors'
+	| 'txErrors'
+	| 'rxDropped'
+	| 'txDropped'
+	| 'rxFifo'
+	| 'txFifo'
+	| 'rxFrame'
+	| 'txCarrier'
+	| 'collisions';
+
+/** Data points of one device at one timestamp */
+export interface OtlpReading {
+	deviceId: string;
+	timeMs: number;
+	/** Battery gauges as reported */
+	battery: Partial<Record<BatteryField, number>>;
+	/** Thermal zones by zone number */
+	zones: Map<number, { type: string; temperature: number }>;
+	/** Frequencies in kHz by logical CPU */
+	cpus: Map<number, Partial<Record<CpuFrequencyField, number>>>;
+	/** Memory gauges as reported; `used` from collectors that report it instead of `available` */
+	memory: Partial<Record<MemoryColumn | 'used', number>>;
+	/** Counters by interface name */
+	interfaces: Map<string, Partial<Record<InterfaceCounter, number>>>;
+	points: OtlpDataPoint[];
+}
+
+type Mapper = (reading: OtlpReading, point: OtlpDataPoint, value: number) => boolean;
+
+/** First of the given attributes that is set, as a string */
+function attribute(point: OtlpDataPoint, ...names: string[]): string | undefined {
+	for (const name of names) {
+		const value = point.attributes[name];
+		if (typeof value === 'string' || typeof value === 'number') return String(value);
+	}
+	return undefined;
+}
+
+/** Trailing number of an attribute such as `cpu3` or `thermal_zone1` */
+function trailingNumber(value: string | undefined): number | undefined {
+	const digits = /(\d+)$/.exec(value ?? '');
+	return digits ? Number(digits[1]) : undefined;
+}
+
+function celsius(value: number, unit: string): number {
+	if (unit === 'mCel') return value / 1000;
+	if (unit === 'K') return value - 273.15;
+	return value;
+}
+
+/** The reading tables store frequencies in kHz, like cpufreq in sysfs */
+function kiloHertz(value: number, unit: string): number {
+	const factor: Record<string, number> = { kHz: 1, MHz: 1e3, GHz: 1e6 };
+	return Math.round(value * (factor[unit] ?? 1e-3));
+}
+
+function battery(field: BatteryField, scale = 1): Mapper {
+	return (reading, point, value) => {
+		// Only the battery among the power supplies (node_exporter labels them)
+		const supply = attribute(point, 'power_supply');
+		if (supply !== undefined && !/bat/i.test(supply)) return false;
+		reading.battery[field] = value * scale;
+		return true;
+	};
+}
+
+// Zones without a number are left to otlp_metric_points
+const thermalZone: Mapper = (reading, point, value) => {
+	const id = attribute(point, 'zone', 'hw.id', 'thermal_zone');
+	const zone = trailingNumber(id);
+	if (zone === undefined) return false;
+	const type = attribute(point, 'type', 'hw.name', 'hw.sensor_location') ?? id!;
+	reading.zones.set(zone, { type, temperature: celsius(value, point.unit) });
+	return true;
+};
+
+function cpuFrequency(field: CpuFrequencyField): Mapper {
+	return (reading, point, value) => {
+		const cpu = trailingNumber(attribute(point, 'cpu.logical_number', 'cpu'));
+		if (cpu === undefined) return false;
+		const entry = reading.cpus.get(cpu) ?? {};
+		entry[field] = kiloHertz(value, point.unit);
+		reading.cpus.set(cpu, entry);
+		return true;
+	};
+}
+
+function memory(field: MemoryColumn | 'used', accumulate = false): Mapper {
+	return (reading, _point, value) => {
+		reading.memory[field] = (accumulate ? (reading.memory[field] ?? 0) : 0) + Math.round(value);
+		return true;
+	};
+}
+
+const MEMORY_STATES: Record<string, MemoryColumn | 'used'> = {
+	used: 'used',
+	free: 'free',
+	cached: 'cached',
+	buffered: 'buffers',
+	slab_reclaimable: 'sReclaimable',
+	slab_unreclaimable: 'sUnreclaim'
+};
+
+const memoryUsage: Mapper = (reading, point, value) => {
+	const field = MEMORY_STATES[attribute(point, 'system.memory.state', 'state') ?? ''];
+	return field ? memory(field)(reading, point, value) : false;
+};
+
+// Swap, summed over paging devices
+const pagingUsage: Mapper = (reading, point, value) => {
+	const state = attribute(point, 'system.paging.state', 'state');
+	if (state === 'used') return memory('swapUsed', true)(reading, point, value);
+	if (state === 'free') return memory('swapFree', true)(reading, point, value);
+	return false;
+};
+
+/** hostmetrics reports both directions in one metric, node_exporter one metric per direction */
+function networkInterface(rx: InterfaceCounter, tx: InterfaceCounter | null): Mapper {
+	return (reading, point, value) => {
+		const name = attribute(point, 'network.interface.name', 'device', 'interface');
+		if (!name) return false;
+		let field = rx;
+		if (tx) {
+			const direction = attribute(point, 'network.io.direction', 'direction');
+			if (direction !== 'receive' && direction !== 'transmit') return false;
+			field = direction === 'receive' ? rx : tx;
+		}
+		const entry = reading.interfaces.get(name) ?? {};
+		entry[field] = Math.round(value);
+		reading.interfaces.set(name, entry);
+		return true;
+	};
+}
+
+/** Names from the OpenTelemetry semantic conventions, hostmetrics and node_exporter */
+const MAPPERS: Record<string, Mapper> = {
+	// Battery
+	'hw.battery.charge': (reading, point, value) =>
+		battery('capacity', point.unit === '%' ? 1 : 100)(reading, point, value),
+	'battery.capacity': battery('capacity'),
+	node_power_supply_capacity: battery('capacity'),
+	node_power_supply_voltage_volt: battery('voltage'),
+	node_power_supply_current_ampere: battery('current'),
+	node_power_supply_temp_celsius: battery('temperature'),
+	// Thermal zones
+	node_thermal_zone_temp: thermalZone,
+	'hw.temperature': thermalZone,
+	// CPU frequency
+	'system.cpu.frequency': cpuFrequency('currentFreq'),
+	node_cpu_scaling_frequency_hertz: cpuFrequency('currentFreq'),
+	node_cpu_scaling_frequency_min_hertz: cpuFrequency('minFreq'),
+	node_cpu_scaling_frequency_max_hertz: cpuFrequency('maxFreq'),
+	node_cpu_frequency_min_hertz: cpuFrequency('hardwareMinFreq'),
+	node_cpu_frequency_max_hertz: cpuFrequency('hardwareMaxFreq'),
+	// Memory
+	'system.memory.usage': memoryUsage,
+	'system.memory.limit': memory('total'),
+	'system.linux.memory.available': memory('available'),
+	'system.paging.usage': pagingUsage,
+	node_memory_MemTotal_bytes: memory('total'),
+	node_memory_MemFree_bytes: memory('free'),
+	node_memory_MemAvailable_bytes: memory('available'),
+	node_memory_Buffers_bytes: memory('buffers'),
+	node_memory_Cached_bytes: memory('cached'),
+	node_memory_SwapTotal_bytes: memory('swapTotal'),
+	node_memory_SwapFree_bytes: memory('swapFree'),
+	node_memory_Active_bytes: memory('active'),
+	node_memory_Inactive_bytes: memory('inactive'),
+	node_memory_Active_anon_bytes: memory('activeAnon'),
+	node_memory_Inactive_anon_bytes: memory('inactiveAnon'),
+	node_memory_Active_file_bytes: memory('activeFile'),
+	node_memory_Inactive_file_bytes: memory('inactiveFile'),
+	node_memory_Dirty_bytes: memory('dirty'),
+	node_memory_Writeback_bytes: memory('writeback'),
+	node_memory_AnonPages_bytes: memory('anonPages'),
+	node_memory_Mapped_bytes: memory('mapped'),
+	node_memory_Shmem_bytes: memory('shmem'),
+	node_memory_Slab_bytes: memory('slab'),
+	node_memory_SReclaimable_bytes: memory('sReclaimable'),
+	node_memory_SUnreclaim_bytes: memory('sUnreclaim'),
+	// Network interfaces
+	'system.network.io': networkInterface('rxBytes', 'txBytes'),
+	'system.network.packets': networkInterface('rxPackets', 'txPackets'),
+	'system.network.errors': networkInterface('rxErrors', 'txErrors'),
+	'system.network.dropped': networkInterface('rxDropped', 'txDropped'),
+	node_network_receive_bytes_total: networkInterface('rxBytes', null),
+	node_network_transmit_bytes_total: networkInterface('txBytes', null),
+	node_network_receive_packets_total: networkInterface('rxPackets', null),
+	node_network_transmit_packets_total: networkInterface('txPackets', null),
+	node_network_receive_errs_total: networkInterface('rxErrors', null),
+	node_network_transmit_errs_total: networkInterface('txErrors', null),
+	node_network_receive_drop_total: networkInterface('rxDropped', null),
+	node_network_transmit_drop_total: networkInterface('txDropped', null),
+	node_network_receive_fifo_total: networkInterface('rxFifo', null),
+	node_network_transmit_fifo_total: networkInterface('txFifo', null),
+	node_network_receive_frame_total: networkInterface('rxFrame', null),
+	node_network_transmit_carrier_total: networkInterface('txCarrier', null),
+	node_network_transmit_colls_total: networkInterface('collisions', null)
+};
+
+export interface OtlpGrouping {
+	readings: OtlpReading[];
+	/** Points of resources that could not be attributed to a device */
+	rejected: number;
+	errors: string[];
+}
+
+/**
+ * Attribute data points to devices and group them into readings.
+ *
+ * Resources without a device attribute belong to `fallbackDeviceId` (the
+ * device of the bearer token) or are rejected.
+ */
+export function groupOtlpReadings(
+	resources: OtlpResourceMetrics[],
+	fallbackDeviceId: string | null,
+	receivedAt: Date
+): OtlpGrouping {
+	const names = deviceAttributes();
+	const readings = new Map<string, OtlpReading>();
+	const errors = new Set<string>();
+	let rejected = 0;
+
+	for (const resource of resources) {
+		const named = names
+			.map((name) => resource.attributes[name])
+			.find((value) => typeof value === 'string' && value.trim() !== '') as string | undefined;
+		const deviceId = named?.trim() ?? fallbackDeviceId;
+
+		if (!deviceId || deviceId.length > 255) {
+			rejected += resource.points.length;
+			errors.add(
+				deviceId
+					? 'Device id exceeds 255 characters'
+					: `Resource has none of the device attributes ${names.join(', ')}`
+			);
+			continue;
+		}
+
+		for (const point of resource.points) {
+			const timeMs = point.timeMs ?? receivedAt.getTime();
+			const key = `${deviceId}|${timeMs}`;
+			let reading = readings.get(key);
+			if (!reading) {
+				reading = {
+					deviceId,
+					timeMs,
+					battery: {},
+					zones: new Map(),
+					cpus: new Map(),
+					memory: {},
+					interfaces: new Map(),
+					points: []
+				};
+				readings.set(key, reading);
+			}
+			reading.points.push(point);
+
+			const mapper = MAPPERS[point.name];
+			if (mapper && point.value !== null && Number.isFinite(point.value)) {
+				mapper(reading, point, point.value);
+			}
+		}
+	}
+
+	return { readings: [...readings.values()], rejected, errors: [...errors] };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Memory row of a reading, with what the collector reported and what follows
+ * from it; null without a total
+ */
+function memoryRow(
+	reading: ReadingRef,
+	m: OtlpReading['memory']
+): Insert<typeof schema.memoryReadings> | null {
+	// hostmetrics reports usage by state instead of a total and available memory
+	const total =
+		m.total ??
+		(m.used !== undefined && m.free !== undefined
+			? m.used +
+				m.free +
+				(m.buffers ?? 0) +
+				(m.cached ?? 0) +
+				(m.sReclaimable ?? 0) +
+				(m.sUnreclaim ?? 0)
+			: undefined);
+	if (total === undefined) return null;
+
+	const available =
+		m.available ??
+		(m.free !== undefined
+			? m.free + (m.buffers ?? 0) + (m.cached ?? 0) + (m.sReclaimable ?? 0)
+			: undefined);
+	const swapTotal =
+		m.swapTotal ??
+		(m.swapUsed !== undefined && m.swapFree !== undefined ? m.swapUsed + m.swapFree : undefined);
+	const swapUsed =
+		m.swapUsed ??
+		(swapTotal !== undefined && m.swapFree !== undefined ? swapTotal - m.swapFree : undefined);
+	const slab =
+		m.slab ??
+		(m.sReclaimable !== undefined && m.sUnreclaim !== undefined
+			? m.sReclaimable + m.sUnreclaim
+			: undefined);
+
+	const columns = { ...m };
+	delete columns.used;
+	return {
+		...reading,
+		...columns,
+		total,
+		available,
+		swapTotal,
+		swapUsed,
+		slab,
+		usedPercent: total > 0 && available !== undefined ? ((total - available) / total) * 100 : null,
+		swapUsedPercent: swapTotal && swapUsed !== undefined ? (swapUsed / swapTotal) * 100 : null
+	};
+}
+
+/** Rollup values of the battery and memory of a reading, where reported */
+function rollupValues(
+	b: OtlpReading['battery'],
+	memory: Insert<typeof schema.memoryReadings> | null
+): [RollupMetric, number][] {
+	const values: [RollupMetric, number | null | undefined][] = [
+		['battery_capacity', b.capacity],
+		['battery_voltage', b.voltage],
+		['battery_current', b.current],
+		['battery_temperature', b.temperature],
+		['memory_total', memory?.total],
+		['memory_available', memory?.available],
+		['memory_used_percent', memory?.usedPercent],
+		['swap_used_percent', memory?.swapUsedPercent]
+	];
+	return values.filter(
+		(entry): entry is [RollupMetric, number] =>
+			typeof entry[1] === 'number' && Number.isFinite(entry[1])
+	);
+}
+
+export interface OtlpStoreResult {
+	/** Readings created */
+	readings: number;
+	/** Points stored in otlp_metric_points */
+	points: number;
+	/** Points of readings that were already stored (retried exports) */
+	duplicates: number;
+}
+
+/**
+ * Store grouped OTLP readings in one transaction: the well-known metrics in
+ * the reading tables and the rollups, and every data point as reported in
+ * otlp_metric_points. Reading table columns the collector did not report stay
+ * null. A reading whose device and timestamp is already stored is skipped, so
+ * retried exports are not counted twice.
+ */
+export async function storeOtlpReadings(
+	readings: OtlpReading[],
+	receivedAt: Date
+): Promise<OtlpStoreResult> {
+	const result: OtlpStoreResult = { readings: 0, points: 0, duplicates: 0 };
+	if (readings.length === 0) return result;
+
+	await db.transaction(async (tx) => {
+		const deviceIds = await resolveDevices(
+			tx,
+			readings.map((r) => r.deviceId)
+		);
+
+		const created = await insertNewReadings(
+			tx,
+			readings.map((r) => ({
+				deviceId: deviceIds.get(r.deviceId)!,
+				timestamp: new Date(r.timeMs),
+				timestampMs: r.timeMs,
+				frequency: 'high' as const,
+				source: 'otlp' as const,
+				receivedAt
+			}))
+		);
+		const readingIds = new Map(created.map((r) => [`${r.deviceId}|${r.timestampMs}`, r.id]));
+
+		const battery: Insert<typeof schema.batteryReadings>[] = [];
+		const zones: Insert<typeof schema.thermalZoneReadings>[] = [];
+		const cpus: Insert<typeof schema.cpuFrequencyReadings>[] = [];
+		const memory: Insert<typeof schema.memoryReadings>[] = [];
+		const interfaces: Insert<typeof schema.networkInterfaceReadings>[] = [];
+		const points: Insert<typeof schema.otlpMetricPoints>[] = [];
+		const samples: RollupSample[] = [];
+
+		for (const reading of readings) {
+			const deviceId = deviceIds.get(reading.deviceId)!;
+			const readingId = readingIds.get(`${deviceId}|${reading.timeMs}`);
+			if (readingId === undefined) {
+				result.duplicates += reading.points.length;
+				continue;
+			}
+			const ref = { readingId, readingTimestamp: new Date(reading.timeMs) };
+			result.readings++;
+			result.points += reading.points.length;
+
+			const b = reading.battery;
+			if (b.capacity !== undefined) {
+				battery.push({ ...ref, ...b, capacity: Math.round(b.capacity) });
+			}
+			for (const [zone, z] of reading.zones) {
+				zones.push({ ...ref, zone, type: z.type.slice(0, 100), temperature: z.temperature });
+			}
+			for (const [cpu, f] of reading.cpus) {
+				if (f.currentFreq === undefined) continue;
+				cpus.push({ ...ref, ...f, cpu, currentFreq: f.currentFreq });
+			}
+			const memoryValues = memoryRow(ref, reading.memory);
+			if (memoryValues) memory.push(memoryValues);
+			for (const [name, counters] of reading.interfaces) {
+				interfaces.push({ ...ref, ...counters, name: name.slice(0, 100) });
+			}
+
+			for (const point of reading.points) {
+				points.push({
+					...ref,
+					name: point.name.slice(0, 255),
+					unit: point.unit ? point.unit.slice(0, 64) : null,
+					kind: point.kind,
+					monotonic: point.monotonic,
+					scope: point.scope?.slice(0, 255) ?? null,
+					startTimestamp: point.startTimeMs === null ? null : new Date(point.startTimeMs),
+					value: point.value,
+					count: point.count,
+					sum: point.sum,
+					attributes: Object.keys(point.attributes).length > 0 ? point.attributes : null,
+					details: point.details
+				});
+			}
+			for (const [metric, value] of rollupValues(b, memoryValues)) {
+				samples.push({ deviceId, metric, time: reading.timeMs, value });
+			}
+		}
+
+		await insertRows(tx, schema.batteryReadings, battery);
+		await insertRows(tx, schema.thermalZoneReadings, zones);
+		await insertRows(tx, schema.cpuFrequencyReadings, cpus);
+		await insertRows(tx, schema.memoryReadings, memory);
+		await insertRows(tx, schema.networkInterfaceReadings, interfaces);
+		await insertRows(tx, schema.otlpMetricPoints, points);
+		await upsertRollups(tx, samples);
+	});
+
+	return result;
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+/**
+ * ExportMetricsServiceResponse, reporting rejected points as partial success
+ */
+export function otlpExportResponse(
+	format: OtlpFormat,
+	rejected: number,
+	errorMessage: string
+): Response {
+	const partial = rejected > 0 || errorMessage !== '';
+	let body: BodyInit;
+	if (format === 'json') {
+		body = JSON.stringify(
+			partial ? { partialSuccess: { rejectedDataPoints: String(rejected), errorMessage } } : {}
+		);
+	} else {
+		body = partial
+			? message(bytesField(1, message(varintField(1, rejected), bytesField(2, errorMessage))))
+			: new Uint8Array();
+	}
+	return new Response(body, { status: 200, headers: { 'content-type': CONTENT_TYPES[format] } });
+}
+
+/**
+ * Error response as a google.rpc.Status, as OTLP/HTTP clients expect
+ */
+export function otlpErrorResponse(
+	format: OtlpFormat,
+	status: number,
+	error: string,
+	headers: Record<string, string> = {}
+): Response {
+	const code = RPC_CODES[status] ?? 2; // UNKNOWN
+	const body: BodyInit =
+		format === 'json'
+			? JSON.stringify({ code, message: error })
+			: message(varintField(1, code), bytesField(2, error));
+	return new Response(body, {
+		status,
+		headers: { 'content-type': CONTENT_TYPES[format], ...headers }
+	});
+}
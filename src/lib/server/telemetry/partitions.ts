@@ -0,0 +1,356 @@
+/**
+ * Partition maintenance - telemetry_readings and its child tables are
+ * partitioned by month of the sample time (see drizzle/0001_partition_readings.sql).
+ *
+ * Every table has one partition per UTC month, named `<table>_yYYYYmMM`, and a
+ * `<table>_default` partition for rows outside all months. A background job
+ * creates the partitions of the current month and PARTITION_MONTHS_AHEAD
+ * months ahead, at startup and once a day. A month whose rows already went to
+ * the default partitions is left alone and reported, since the partition
+ * could not be created over them.
+ *
+ * Detaching a month takes its partitions out of the tables but keeps them as
+ * plain tables, e.g. to dump them before dropping; dropping removes them
+ * without touching the remaining rows. Retention drops whole months this way.
+ */
+
+import { and, getTableName, gte, is, lt, sql } from 'drizzle-orm';
+import { PgTable } from 'drizzle-orm/pg-core';
+import { db, type DbExecutor } from '../db';
+import * as schema from '../db/schema';
+import { envNumber } from '../config';
+
+/** Partitioned tables by SQL name, child tables before the readings they reference */
+export const PARTITIONED_TABLES: string[] = [
+	...(Object.values(schema) as unknown[])
+		.filter((value): value is PgTable => is(value, PgTable) && 'readingTimestamp' in value)
+		.map((table) => getTableName(table)),
+	'telemetry_readings'
+];
+
+export interface Partition {
+	table: string;
+	name: string;
+	/** YYYY-MM, or null for the default partition */
+	month: string | null;
+	/** Row count estimate from the planner statistics; null until the table was analyzed */
+	estimatedRows: number | null;
+}
+
+export interface PartitionMonth {
+	month: string;
+	from: string;
+	until: string;
+	/** Tables with a partition for the month (all of PARTITIONED_TABLES normally) */
+	tables: number;
+	estimatedReadings: number | null;
+}
+
+export interface PartitionRun {
+	at: string;
+	/** Months whose partitions were created */
+	created: string[];
+	/** Months that could not be created because the default partitions hold rows of them */
+	skipped: string[];
+}
+
+export interface PartitionStatus {
+	/** False on databases that were set up without the partitioning migration */
+	partitioned: boolean;
+	monthsAhead: number;
+	months: PartitionMonth[];
+	/** Estimated readings outside every month partition */
+	defaultReadings: number | null;
+	lastRun: PartitionRun | null;
+	lastError: string | null;
+	nextRunAt: string | null;
+}
+
+export interface DetachResult {
+	month: string;
+	/** Partitions that were detached (and dropped) */
+	partitions: string[];
+	dropped: boolean;
+}
+
+const RUN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+const PARTITION_PATTERN = /^(.+)_y(\d{4})m(\d{2})$/;
+
+function monthsAhead(): number {
+	return Math.max(0, Math.floor(envNumber('PARTITION_MONTHS_AHEAD', 3)));
+}
+
+/**
+ * First and last instant (exclusive) of a UTC month given as YYYY-MM, or null
+ * when the month is malformed
+ */
+export function monthRange(month: string): { from: Date; until: Date } | null {
+	const match = MONTH_PATTERN.exec(month);
+	if (!match) return null;
+	const [year, index] = [Number(match[1]), Number(match[2]) - 1];
+	if (index < 0 || index > 11) return null;
+	return {
+		from: new Date(Date.UTC(year, index, 1)),
+		until: new Date(Date.UTC(year, index + 1, 1))
+	};
+}
+
+function monthOf(date: Date): string {
+	return date.toISOString().slice(0, 7);
+}
+
+function partitionName(table: string, month: string): string {
+	return `${table}_y${month.replace('-', 'm')}`;
+}
+
+function partitionKey(table: string): string {
+	return table === 'telemetry_readings' ? 'timestamp' : 'reading_timestamp';
+}
+
+/**
+ * Whether telemetry_readings is a partitioned table
+ */
+export async function isPartitioned(): Promise<boolean> {
+	const [row] = await db.execute<{ partitioned: boolean }>(sql`
+		SELECT EXISTS (
+			SELECT 1 FROM pg_partitioned_table WHERE partrelid = to_regclass('telemetry_readings')
+		) AS partitioned
+	`);
+	return row.partitioned;
+}
+
+/**
+ * The partitions of the partitioned tables
+ */
+export async function listPartitions(): Promise<Partition[]> {
+	const rows = await db.execute<{ table: string; name: string; rows: number }>(sql`
+		SELECT parent.relname AS table, child.relname AS name, child.reltuples::float8 AS rows
+		FROM pg_inherits
+		JOIN pg_class parent ON parent.oid = pg_inherits.inhparent
+		JOIN pg_class child ON child.oid = pg_inherits.inhrelid
+		WHERE parent.relkind = 'p' AND parent.relnamespace = current_schema()::regnamespace
+		ORDER BY child.relname
+	`);
+
+	return rows
+		.filter((row) => PARTITIONED_TABLES.includes(row.table))
+		.map((row) => {
+			const match = PARTITION_PATTERN.exec(row.name);
+			return {
+				table: row.table,
+				name: row.name,
+				month: match && match[1] === row.table ? `${match[2]}-${match[3]}` : null,
+				estimatedRows: row.rows < 0 ? null : row.rows
+			};
+		});
+}
+
+/** Whether a table's default partition holds rows of the given month */
+async function defaultHoldsMonth(tx: DbExecutor, table: string, month: string): Promise<boolean> {
+	const { from, until } = monthRange(month)!;
+	const key = sql.identifier(partitionKey(table));
+	const [row] = await tx.execute<{ taken: boolean }>(sql`
+		SELECT EXISTS (
+			SELECT 1 FROM ${sql.identifier(`${table}_default`)}
+			WHERE ${key} >= ${from.toISOString()}::timestamptz AND ${key} < ${until.toISOString()}::timestamptz
+		) AS taken
+	`);
+	return row.taken;
+}
+
+/**
+ * Create the partitions of the current month and PARTITION_MONTHS_AHEAD months
+ * ahead that do not exist yet. Does nothing on unpartitioned databases.
+ */
+export async function createPartitions(now = new Date()): Promise<PartitionRun> {
+	const run: PartitionRun = { at: now.toISOString(), created: [], skipped: [] };
+	if (!(await isPartitioned())) return run;
+
+	const existing = new Set((await listPartitions()).map((partition) => partition.name));
+	for (let offset = 0; offset <= monthsAhead(); offset++) {
+		const month = monthOf(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1)));
+		const missing = PARTITIONED_TABLES.filter(
+			(table) => !existing.has(partitionName(table, month))
+		);
+		if (missing.length === 0) continue;
+
+		const { from, until } = monthRange(month)!;
+		const created = await db.transaction(async (tx) => {
+			for (const table of missing) {
+				if (existing.has(`${table}_default`) && (await defaultHoldsMonth(tx, table, month))) {
+					return false;
+				}
+			}
+			for (const table of missing) {
+				await tx.execute(sql`
+					CREATE TABLE IF NOT EXISTS ${sql.identifier(partitionName(table, month))}
+					PARTITION OF ${sql.identifier(table)}
+					FOR VALUES FROM (${sql.raw(`'${from.toISOString()}'`)}) TO (${sql.raw(`'${until.toISOString()}'`)})
+				`);
+			}
+			return true;
+		});
+		(created ? run.created : run.skipped).push(month);
+	}
+	return run;
+}
+
+/**
+ * Detach the partitions of a month, child tables first, and drop them with
+ * `drop`. Detached child partitions lose their foreign key to the readings so
+ * the readings partition can follow; the month's reading keys are deleted. `tables` limits this to some tables.
+ * Returns null when the month has no partitions.
+ */
+export async function detachPartitions(
+	month: string,
+	options: { drop?: boolean; tables?: string[] } = {}
+): Promise<DetachResult | null> {
+	const existing = new Set((await listPartitions()).map((partition) => partition.name));
+	const partitions = PARTITIONED_TABLES.filter(
+		(table) => !options.tables || options.tables.includes(table)
+	)
+		.map((table) => ({ table, name: partitionName(table, month) }))
+		.filter(({ name }) => existing.has(name));
+	if (partitions.length === 0) return null;
+
+	const { from, until } = monthRange(month)!;
+	await db.transaction(async (tx) => {
+		for (const { table, name } of partitions) {
+			if (table === 'telemetry_readings') {
+				// Keys reference the readings and are not partitioned
+				const keys = schema.telemetryReadingKeys;
+				await tx.delete(keys).where(and(gte(keys.timestamp, from), lt(keys.timestamp, until)));
+			}
+			await tx.execute(
+				sql`ALTER TABLE ${sql.identifier(table)} DETACH PARTITION ${sql.identifier(name)}`
+			);
+			if (options.drop) {
+				await tx.execute(sql`DROP TABLE ${sql.identifier(name)}`);
+				continue;
+			}
+			const foreignKeys = await tx.execute<{ name: string }>(sql`
+				SELECT conname AS name FROM pg_constraint
+				WHERE conrelid = to_regclass(${name}) AND contype = 'f'
+					AND confrelid = to_regclass('telemetry_readings')
+			`);
+			for (const foreignKey of foreignKeys) {
+				await tx.execute(
+					sql`ALTER TABLE ${sql.identifier(name)} DROP CONSTRAINT ${sql.identifier(foreignKey.name)}`
+				);
+			}
+		}
+	});
+
+	return { month, partitions: partitions.map(({ name }) => name), dropped: options.drop ?? false };
+}
+
+let running = false;
+let maintaining: Promise<PartitionRun> | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let nextRunAt: Date | null = null;
+let lastRun: PartitionRun | null = null;
+let lastError: string | null = null;
+
+/**
+ * Create the partitions ahead now, once at a time. The job and the admin API
+ * both go through here.
+ */
+export async function maintainPartitions(): Promise<PartitionRun> {
+	if (maintaining) return maintaining;
+	maintaining = createPartitions();
+	try {
+		const run = await maintaining;
+		lastRun = run;
+		lastError = null;
+		if (run.created.length > 0) console.log(`Created partitions for ${run.created.join(', ')}`);
+		if (run.skipped.length > 0) {
+			console.warn(
+				`Partitions for ${run.skipped.join(', ')} not created: the default partitions hold rows of these months`
+			);
+		}
+		return run;
+	} catch (error) {
+		lastError = error instanceof Error ? error.message : 'Unknown error';
+		throw error;
+	} finally {
+		maintaining = null;
+	}
+}
+
+function schedule(delayMs: number): void {
+	if (!running) return;
+	if (timer) clearTimeout(timer);
+	nextRunAt = new Date(Date.now() + delayMs);
+	timer = setTimeout(runJob, delayMs);
+}
+
+async function runJob(): Promise<void> {
+	timer = null;
+	nextRunAt = null;
+	try {
+		await maintainPartitions();
+	} catch (error) {
+		console.error('Partition job failed:', error);
+	}
+	schedule(RUN_INTERVAL_MS);
+}
+
+/**
+ * Start creating partitions ahead in the background, right away and then daily
+ */
+export function startPartitionJob(): void {
+	if (running) return;
+	running = true;
+	schedule(0);
+}
+
+/**
+ * Stop the background job after the current run
+ */
+export async function stopPartitionJob(): Promise<void> {
+	running = false;
+	if (timer) clearTimeout(timer);
+	timer = null;
+	nextRunAt = null;
+	await maintaining?.catch(() => {});
+}
+
+/**
+ * Partitions per month and job state, for the admin API
+ */
+export async function getPartitionStatus(): Promise<PartitionStatus> {
+	const partitioned = await isPartitioned();
+	const partitions = partitioned ? await listPartitions() : [];
+
+	const months = new Map<string, PartitionMonth>();
+	for (const partition of partitions) {
+		if (!partition.month) continue;
+		const { from, until } = monthRange(partition.month)!;
+		const entry = months.get(partition.month) ?? {
+			month: partition.month,
+			from: from.toISOString(),
+			until: until.toISOString(),
+			tables: 0,
+			estimatedReadings: null
+		};
+		entry.tables++;
+		if (partition.table === 'telemetry_readings') entry.estimatedReadings = partition.estimatedRows;
+		months.set(partition.month, entry);
+	}
+
+	const readingsDefault = partitions.find(
+		(partition) => partition.table === 'telemetry_readings' && partition.month === null
+	);
+	return {
+		partitioned,
+		monthsAhead: monthsAhead(),
+		months: [...months.values()].sort((a, b) => a.month.localeCompare(b.month)),
+		defaultReadings: readingsDefault?.estimatedRows ?? null,
+		lastRun,
+		lastError,
+		nextRunAt: nextRunAt?.toISOString() ?? null
+	};
+}
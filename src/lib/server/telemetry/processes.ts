@@ -0,0 +1,242 @@
+/**
+ * Process identities - links the process rows of medium-frequency snapshots
+ * to one device_processes row per process and derives CPU % from CPU time
+ * deltas where the client sent none.
+ *
+ * A process is identified by pid, start time and name within a boot. A
+ * snapshot belongs to the boot session (./boots) in effect at its time, so a
+ * new boot session starts a new process boot. Devices without uptime readings
+ * have no sessions; for them, and while the readings of a new boot have not
+ * arrived yet, the kernel's process creation counter going backwards starts a
+ * new boot. Snapshots older than the latest one of their device (late uploads,
+ * archive rebuilds) are only linked to processes already known.
+ *
+ * Like ./bulk this module only depends on the schema.
+ */
+
+import * as schema from '../db/schema';
+import { and, desc, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import type { DbExecutor } from '../db';
+import type { TelemetryInsertResult } from './bulk';
+import type { MediumFrequencyTelemetry, TelemetryPayload } from './types';
+
+/** Longest gap between two snapshots of a process that still yields a CPU % */
+const MAX_CPU_GAP_MS = 15 * 60 * 1000;
+
+type ProcessRow = typeof schema.processReadings.$inferInsert;
+
+interface Snapshot {
+	deviceId: number;
+	time: Date;
+	processesCreated: number;
+	rows: ProcessRow[];
+}
+
+interface Identity {
+	pid: number;
+	startTime: number;
+	name: string;
+}
+
+/** Start times are stored as real, so compare them at single precision */
+function identityKey(process: Identity): string {
+	return `${process.pid}|${Math.fround(process.startTime)}|${process.name}`;
+}
+
+/**
+ * CPU % of one core since the previous snapshot of the process, or null
+ * without a usable previous snapshot
+ */
+function cpuPercent(
+	previous: { lastSeenAt: Date; lastCpuTimeMs: number },
+	row: ProcessRow,
+	time: Date
+): number | null {
+	const elapsed = time.getTime() - previous.lastSeenAt.getTime();
+	const used = row.totalCpuTimeMs - previous.lastCpuTimeMs;
+	if (elapsed <= 0 || elapsed > MAX_CPU_GAP_MS || used < 0) return null;
+	return (used / elapsed) * 100;
+}
+
+/** Boot time of the boot session the device was in at `time`, if known */
+async function sessionBootedAt(tx: DbExecutor, deviceId: number, time: Date): Promise<Date | null> {
+	const boots = schema.bootSessions;
+	const [session] = await tx
+		.select({ bootedAt: boots.bootedAt })
+		.from(boots)
+		.where(and(eq(boots.deviceId, deviceId), lte(boots.bootedAt, time)))
+		.orderBy(desc(boots.bootedAt))
+		.limit(1);
+	return session?.bootedAt ?? null;
+}
+
+/** Link a snapshot of the device's current boot, creating new identities */
+async function trackSnapshot(tx: DbExecutor, boot: number, snapshot: Snapshot): Promise<void> {
+	const { deviceId, time, rows } = snapshot;
+	if (rows.length === 0) return;
+
+	const processes = schema.deviceProcesses;
+	const known = await tx
+		.select()
+		.from(processes)
+		.where(
+			and(
+				eq(processes.deviceId, deviceId),
+				eq(processes.boot, boot),
+				inArray(processes.pid, [...new Set(rows.map((row) => row.pid))])
+			)
+		);
+	const previous = new Map(known.map((process) => [identityKey(process), process]));
+
+	const identities = new Map<string, typeof processes.$inferInsert>();
+	for (const row of rows) {
+		const before = previous.get(identityKey(row));
+		if (row.cpuPercent == null && before) row.cpuPercent = cpuPercent(before, row, time);
+		identities.set(identityKey(row), {
+			deviceId,
+			boot,
+			pid: row.pid,
+			startTime: row.startTime,
+			name: row.name,
+			cmdline: row.cmdline,
+			firstSeenAt: time,
+			lastSeenAt: time,
+			lastCpuTimeMs: row.totalCpuTimeMs
+		});
+	}
+
+	const stored = await tx
+		.insert(processes)
+		.values([...identities.values()])
+		.onConflictDoUpdate({
+			target: [
+				processes.deviceId,
+				processes.boot,
+				processes.pid,
+				processes.startTime,
+				processes.name
+			],
+			set: {
+				cmdline: sql`excluded.cmdline`,
+				lastSeenAt: sql`excluded.last_seen_at`,
+				lastCpuTimeMs: sql`excluded.last_cpu_time_ms`
+			}
+		})
+		.returning({
+			id: processes.id,
+			pid: processes.pid,
+			startTime: processes.startTime,
+			name: processes.name
+		});
+
+	const ids = new Map(stored.map((process) => [identityKey(process), process.id]));
+	for (const row of rows) row.processId = ids.get(identityKey(row)) ?? null;
+}
+
+/** Link an older snapshot to the identities that were alive at its time */
+async function linkSnapshot(tx: DbExecutor, snapshot: Snapshot): Promise<void> {
+	const { deviceId, time, rows } = snapshot;
+	if (rows.length === 0) return;
+
+	const processes = schema.deviceProcesses;
+	const known = await tx
+		.select({
+			id: processes.id,
+			pid: processes.pid,
+			startTime: processes.startTime,
+			name: processes.name
+		})
+		.from(processes)
+		.where(
+			and(
+				eq(processes.deviceId, deviceId),
+				inArray(processes.pid, [...new Set(rows.map((row) => row.pid))]),
+				lte(processes.firstSeenAt, time),
+				gte(processes.lastSeenAt, time)
+			)
+		);
+
+	const ids = new Map(known.map((process) => [identityKey(process), process.id]));
+	for (const row of rows) row.processId = ids.get(identityKey(row)) ?? null;
+}
+
+/**
+ * Fill in `processId` (and `cpuPercent` where missing) on the process rows of
+ * a batch before they are inserted. `readings` are the insert results in
+ * payload order; `rows` are the process rows of the new readings.
+ */
+export async function trackProcesses(
+	tx: DbExecutor,
+	payloads: TelemetryPayload[],
+	readings: TelemetryInsertResult[],
+	rows: ProcessRow[]
+): Promise<void> {
+	const rowsByReading = new Map<number, ProcessRow[]>();
+	for (const row of rows) {
+		rowsByReading.set(row.readingId, [...(rowsByReading.get(row.readingId) ?? []), row]);
+	}
+
+	const snapshots = new Map<number, Snapshot[]>();
+	payloads.forEach((payload, index) => {
+		const { readingId, deviceId, duplicate, timestamp } = readings[index];
+		if (payload.frequency !== 'medium' || duplicate || !timestamp) return;
+		const { processes } = payload.data as MediumFrequencyTelemetry;
+		snapshots.set(deviceId, [
+			...(snapshots.get(deviceId) ?? []),
+			{
+				deviceId,
+				time: timestamp,
+				processesCreated: processes.processesCreated,
+				rows: rowsByReading.get(readingId) ?? []
+			}
+		]);
+	});
+
+	const state = schema.deviceProcessState;
+	for (const [deviceId, list] of snapshots) {
+		list.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+		let [latest] = await tx.select().from(state).where(eq(state.deviceId, deviceId));
+		let changed = false;
+		for (const snapshot of list) {
+			if (latest && snapshot.time <= latest.snapshotAt) {
+				await linkSnapshot(tx, snapshot);
+				continue;
+			}
+
+			let bootedAt = await sessionBootedAt(tx, deviceId, snapshot.time);
+			const sameSession = bootedAt !== null && latest?.bootedAt?.getTime() === bootedAt.getTime();
+			const newSession = bootedAt !== null && latest?.bootedAt != null && !sameSession;
+			const counterReset = !!latest && snapshot.processesCreated < latest.processesCreated;
+			// A counter reset within the same session means the new boot's
+			// session is not known yet; it is taken up by the next snapshot
+			if (counterReset && sameSession) bootedAt = null;
+
+			const boot = !latest ? 0 : newSession || counterReset ? latest.boot + 1 : latest.boot;
+			await trackSnapshot(tx, boot, snapshot);
+			latest = {
+				deviceId,
+				boot,
+				bootedAt,
+				snapshotAt: snapshot.time,
+				processesCreated: snapshot.processesCreated
+			};
+			changed = true;
+		}
+
+		if (changed) {
+			await tx
+				.insert(state)
+				.values(latest)
+				.onConflictDoUpdate({
+					target: state.deviceId,
+					set: {
+						boot: latest.boot,
+						bootedAt: latest.bootedAt,
+						snapshotAt: latest.snapshotAt,
+						processesCreated: latest.processesCreated
+					}
+				});
+		}
+	}
+}
@@ -0,0 +1,360 @@
+/**
+ * Prometheus exposition - the latest telemetry of every device in the text
+ * exposition format (version 0.0.4), for scraping at GET /metrics.
+ *
+ * Only readings received within METRICS_STALE_SECONDS are exposed. Once a
+ * device stops reporting its series disappear, so Prometheus marks them stale
+ * instead of repeating the last value forever; `ppp_device_up` drops to 0 and
+ * `ppp_device_last_seen_timestamp_seconds` keeps the time of the last upload
+ * for alerting. Archived devices are left out.
+ *
+ * Values are exposed in base units: stored frequencies (kHz) as hertz, I/O
+ * times (ms) as seconds.
+ */
+
+import { db } from '../db';
+import * as schema from '../db/schema';
+import { and, desc, eq, gte, inArray, isNull } from 'drizzle-orm';
+import { envNumber } from '../config';
+import type { TelemetryFrequency } from './types';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type MetricType = 'gauge' | 'counter';
+type Labels = Record<string, string | number>;
+
+interface MetricFamily {
+	help: string;
+	type: MetricType;
+	samples: { labels: Labels; value: number }[];
+}
+
+/** Latest fresh reading of a device at one frequency */
+interface LatestReading {
+	id: number;
+	deviceId: number;
+	timestamp: Date;
+}
+
+/** Metric families by name, rendered in the order they were first added */
+type Exposition = Map<string, MetricFamily>;
+
+function addSample(
+	out: Exposition,
+	name: string,
+	type: MetricType,
+	help: string,
+	labels: Labels,
+	value: number | null
+): void {
+	if (value === null || !Number.isFinite(value)) return;
+	let family = out.get(name);
+	if (!family) {
+		family = { help, type, samples: [] };
+		out.set(name, family);
+	}
+	family.samples.push({ labels, value });
+}
+
+function renderExposition(out: Exposition): string {
+	const lines: string[] = [];
+	for (const [name, family] of out) {
+		lines.push(`# HELP ${name} ${family.help}`);
+		lines.push(`# TYPE ${name} ${family.type}`);
+		for (const { labels, value } of family.samples) {
+			lines.push(`${name}${formatLabels(labels)} ${value}`);
+		}
+	}
+	return lines.join('\n') + '\n';
+}
+
+function escapeLabelValue(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+	const pairs = Object.entries(labels).map(
+		([name, value]) => `${name}="${escapeLabelValue(String(value))}"`
+	);
+	return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/** Seconds after which a device's readings are no longer exposed */
+function staleSeconds(): number {
+	return Math.max(1, envNumber('METRICS_STALE_SECONDS', 300));
+}
+
+/**
+ * Latest client reading per device at a frequency, among readings received
+ * since `cutoff`
+ */
+async function latestReadings(frequency: TelemetryFrequency, cutoff: Date) {
+	const readings = schema.telemetryReadings;
+	return db
+		.selectDistinctOn([readings.deviceId], {
+			id: readings.id,
+			deviceId: readings.deviceId,
+			timestamp: readings.timestamp
+		})
+		.from(readings)
+		.where(
+			and(
+				eq(readings.frequency, frequency),
+				eq(readings.source, 'client'),
+				gte(readings.receivedAt, cutoff)
+			)
+		)
+		.orderBy(readings.deviceId, desc(readings.timestamp));
+}
+
+function byReading(latest: LatestReading[], names: Map<number, string>): Map<number, string> {
+	return new Map(latest.map((r) => [r.id, names.get(r.deviceId) ?? String(r.deviceId)]));
+}
+
+async function addHighFrequencyMetrics(
+	out: Exposition,
+	latest: LatestReading[],
+	names: Map<number, string>
+): Promise<void> {
+	if (latest.length === 0) return;
+	const device = byReading(latest, names);
+	const ids = [...device.keys()];
+
+	const battery = await db
+		.select()
+		.from(schema.batteryReadings)
+		.where(inArray(schema.batteryReadings.readingId, ids));
+	const zones = await db
+		.select()
+		.from(schema.thermalZoneReadings)
+		.where(inArray(schema.thermalZoneReadings.readingId, ids));
+	const frequencies = await db
+		.select()
+		.from(schema.cpuFrequencyReadings)
+		.where(inArray(schema.cpuFrequencyReadings.readingId, ids));
+	const load = await db
+		.select()
+		.from(schema.cpuLoadReadings)
+		.where(inArray(schema.cpuLoadReadings.readingId, ids));
+	const memory = await db
+		.select()
+		.from(schema.memoryReadings)
+		.where(inArray(schema.memoryReadings.readingId, ids));
+	const interfaces = await db
+		.select()
+		.from(schema.networkInterfaceReadings)
+		.where(inArray(schema.networkInterfaceReadings.readingId, ids));
+
+	for (const b of battery) {
+		const labels = { device_id: device.get(b.readingId)! };
+		addSample(
+			out,
+			'ppp_battery_capacity_percent',
+			'gauge',
+			'Battery charge level.',
+			labels,
+			b.capacity
+		);
+		addSample(out, 'ppp_battery_voltage_volts', 'gauge', 'Battery voltage.', labels, b.voltage);
+		addSample(out, 'ppp_battery_current_amperes', 'gauge', 'Battery current.', labels, b.current);
+		addSample(
+			out,
+			'ppp_battery_temperature_celsius',
+			'gauge',
+			'Battery temperature.',
+			labels,
+			b.temperature
+		);
+	}
+
+	for (const z of zones) {
+		addSample(
+			out,
+			'ppp_thermal_zone_temperature_celsius',
+			'gauge',
+			'Thermal zone temperature.',
+			{ device_id: device.get(z.readingId)!, zone: z.zone, type: z.type },
+			z.temperature
+		);
+	}
+
+	for (const f of frequencies) {
+		const labels = { device_id: device.get(f.readingId)!, cpu: f.cpu };
+		addSample(
+			out,
+			'ppp_cpu_frequency_hertz',
+			'gauge',
+			'Current CPU frequency.',
+			labels,
+			f.currentFreq * 1000
+		);
+		addSample(
+			out,
+			'ppp_cpu_frequency_min_hertz',
+			'gauge',
+			'Minimum CPU frequency allowed by the governor.',
+			labels,
+			f.minFreq === null ? null : f.minFreq * 1000
+		);
+		addSample(
+			out,
+			'ppp_cpu_frequency_max_hertz',
+			'gauge',
+			'Maximum CPU frequency allowed by the governor.',
+			labels,
+			f.maxFreq === null ? null : f.maxFreq * 1000
+		);
+	}
+
+	for (const l of load) {
+		const labels = { device_id: device.get(l.readingId)! };
+		addSample(out, 'ppp_load1', 'gauge', '1m load average.', labels, l.load1);
+		addSample(out, 'ppp_load5', 'gauge', '5m load average.', labels, l.load5);
+		addSample(out, 'ppp_load15', 'gauge', '15m load average.', labels, l.load15);
+		addSample(out, 'ppp_uptime_seconds', 'gauge', 'Time since boot.', labels, l.uptime);
+	}
+
+	for (const m of memory) {
+		const labels = { device_id: device.get(m.readingId)! };
+		const memoryBytes: [string, string, number | null][] = [
+			['total', 'Total usable memory.', m.total],
+			['free', 'Unused memory.', m.free],
+			['available', 'Memory available for new allocations.', m.available],
+			['buffers', 'Memory in buffers.', m.buffers],
+			['cached', 'Memory in the page cache.', m.cached],
+			['swap_total', 'Total swap space.', m.swapTotal],
+			['swap_free', 'Unused swap space.', m.swapFree]
+		];
+		for (const [name, help, value] of memoryBytes) {
+			addSample(out, `ppp_memory_${name}_bytes`, 'gauge', help, labels, value);
+		}
+	}
+
+	for (const i of interfaces) {
+		const labels = { device_id: device.get(i.readingId)!, interface: i.name };
+		addSample(
+			out,
+			'ppp_network_up',
+			'gauge',
+			'Whether the interface has a carrier.',
+			labels,
+			i.carrier === null ? null : Number(i.carrier)
+		);
+		const counters: [string, string, number | null][] = [
+			['receive_bytes', 'Bytes received.', i.rxBytes],
+			['transmit_bytes', 'Bytes transmitted.', i.txBytes],
+			['receive_packets', 'Packets received.', i.rxPackets],
+			['transmit_packets', 'Packets transmitted.', i.txPackets],
+			['receive_errs', 'Receive errors.', i.rxErrors],
+			['transmit_errs', 'Transmit errors.', i.txErrors],
+			['receive_drop', 'Received packets dropped.', i.rxDropped],
+			['transmit_drop', 'Transmitted packets dropped.', i.txDropped]
+		];
+		for (const [name, help, value] of counters) {
+			addSample(out, `ppp_network_${name}_total`, 'counter', help, labels, value);
+		}
+	}
+}
+
+async function addMediumFrequencyMetrics(
+	out: Exposition,
+	latest: LatestReading[],
+	names: Map<number, string>
+): Promise<void> {
+	if (latest.length === 0) return;
+	const device = byReading(latest, names);
+
+	const storage = await db
+		.select()
+		.from(schema.storageDeviceReadings)
+		.where(inArray(schema.storageDeviceReadings.readingId, [...device.keys()]));
+
+	for (const s of storage) {
+		const labels = { device_id: device.get(s.readingId)!, device: s.name };
+		addSample(out, 'ppp_storage_size_bytes', 'gauge', 'Block device size.', labels, s.size);
+		const counters: [string, string, number][] = [
+			['read_bytes', 'Bytes read.', s.bytesRead],
+			['written_bytes', 'Bytes written.', s.bytesWritten],
+			['reads_completed', 'Reads completed.', s.readsCompleted],
+			['writes_completed', 'Writes completed.', s.writesCompleted],
+			['read_time_seconds', 'Time spent reading.', s.readTimeMs / 1000],
+			['write_time_seconds', 'Time spent writing.', s.writeTimeMs / 1000],
+			['io_time_seconds', 'Time spent doing I/O.', s.ioTimeMs / 1000]
+		];
+		for (const [name, help, value] of counters) {
+			addSample(out, `ppp_storage_${name}_total`, 'counter', help, labels, value);
+		}
+	}
+}
+
+/**
+ * Render the latest telemetry of all devices in the Prometheus text format
+ */
+export async function renderPrometheusMetrics(now = new Date()): Promise<string> {
+	const staleMs = staleSeconds() * 1000;
+	const cutoff = new Date(now.getTime() - staleMs);
+
+	const devices = await db.select().from(schema.devices).where(isNull(schema.devices.archivedAt));
+	const names = new Map(devices.map((d) => [d.id, d.deviceId]));
+	// Archived devices are left out
+	const high = (await latestReadings('high', cutoff)).filter((r) => names.has(r.deviceId));
+	const medium = (await latestReadings('medium', cutoff)).filter((r) => names.has(r.deviceId));
+
+	const out: Exposition = new Map();
+	const fresh = new Set([...high, ...medium].map((r) => r.deviceId));
+	for (const d of devices) {
+		const labels = { device_id: d.deviceId };
+		addSample(
+			out,
+			'ppp_device_up',
+			'gauge',
+			`Whether the device uploaded readings in the last ${staleMs / 1000} seconds.`,
+			labels,
+			fresh.has(d.id) ? 1 : 0
+		);
+		addSample(
+			out,
+			'ppp_device_last_seen_timestamp_seconds',
+			'gauge',
+			'Time of the last upload from the device.',
+			labels,
+			d.lastSeenAt.getTime() / 1000
+		);
+		addSample(
+			out,
+			'ppp_device_info',
+			'gauge',
+			'Device metadata reported by the client or set by admins, as labels.',
+			{
+				...labels,
+				hardware_revision: d.hardwareRevision ?? '',
+				os: d.os ?? '',
+				kernel_version: d.kernelVersion ?? '',
+				client_version: d.clientVersion ?? '',
+				modem_firmware: d.modemFirmware ?? ''
+			},
+			1
+		);
+	}
+
+	for (const [frequency, latest] of [
+		['high', high],
+		['medium', medium]
+	] as const) {
+		for (const r of latest) {
+			addSample(
+				out,
+				'ppp_reading_timestamp_seconds',
+				'gauge',
+				'Sample time of the exposed reading.',
+				{ device_id: names.get(r.deviceId) ?? String(r.deviceId), frequency },
+				r.timestamp.getTime() / 1000
+			);
+		}
+	}
+
+	await addHighFrequencyMetrics(out, high, names);
+	await addMediumFrequencyMetrics(out, medium, names);
+
+	return renderExposition(out);
+}
@@ -0,0 +1,187 @@
+/**
+ * Minimal protobuf wire format reader and writer, enough to decode OTLP
+ * requests and encode their responses without generated code.
+ *
+ * Messages are read as a flat sequence of fields; callers interpret each
+ * field by number, as the .proto definition describes it.
+ */
+
+export type ProtoField =
+	| { field: number; wire: 0; value: bigint }
+	| { field: number; wire: 1; value: DataView }
+	| { field: number; wire: 2; value: Uint8Array }
+	| { field: number; wire: 5; value: DataView };
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+function truncated(): never {
+	throw new Error('Truncated protobuf message');
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [bigint, number] {
+	let value = 0n;
+	let shift = 0n;
+	for (let pos = offset; pos < bytes.length && shift < 70n; pos++) {
+		const byte = bytes[pos];
+		value |= BigInt(byte & 0x7f) << shift;
+		if ((byte & 0x80) === 0) return [BigInt.asUintN(64, value), pos + 1];
+		shift += 7n;
+	}
+	return truncated();
+}
+
+function view(bytes: Uint8Array, offset: number, length: number): DataView {
+	if (offset + length > bytes.length) truncated();
+	return new DataView(bytes.buffer, bytes.byteOffset + offset, length);
+}
+
+/**
+ * Iterate over the fields of a message. Throws on malformed input.
+ */
+export function* readFields(bytes: Uint8Array): Generator<ProtoField> {
+	let offset = 0;
+	while (offset < bytes.length) {
+		const [key, next] = readVarint(bytes, offset);
+		offset = next;
+		const field = Number(key >> 3n);
+		const wire = Number(key & 7n);
+
+		switch (wire) {
+			case 0: {
+				const [value, end] = readVarint(bytes, offset);
+				offset = end;
+				yield { field, wire, value };
+				break;
+			}
+			case 1:
+				yield { field, wire, value: view(bytes, offset, 8) };
+				offset += 8;
+				break;
+			case 2: {
+				const [length, start] = readVarint(bytes, offset);
+				const end = start + Number(length);
+				if (end > bytes.length) truncated();
+				yield { field, wire, value: bytes.subarray(start, end) };
+				offset = end;
+				break;
+			}
+			case 5:
+				yield { field, wire, value: view(bytes, offset, 4) };
+				offset += 4;
+				break;
+			default:
+				throw new Error(`Unsupported protobuf wire type ${wire}`);
+		}
+	}
+}
+
+export function asString(field: ProtoField): string {
+	return field.wire === 2 ? textDecoder.decode(field.value) : '';
+}
+
+export function asBytes(field: ProtoField): Uint8Array {
+	return field.wire === 2 ? field.value : new Uint8Array();
+}
+
+/** varint (u)int32/(u)int64/bool/enum, fixed64 or sfixed64 as a signed 64-bit integer */
+export function asInt64(field: ProtoField): bigint {
+	if (field.wire === 0) return BigInt.asIntN(64, field.value);
+	if (field.wire === 1) return field.value.getBigInt64(0, true);
+	if (field.wire === 5) return BigInt(field.value.getInt32(0, true));
+	return 0n;
+}
+
+/** fixed64 as an unsigned 64-bit integer */
+export function asUint64(field: ProtoField): bigint {
+	if (field.wire === 0) return field.value;
+	if (field.wire === 1) return field.value.getBigUint64(0, true);
+	if (field.wire === 5) return BigInt(field.value.getUint32(0, true));
+	return 0n;
+}
+
+/** Zigzag-encoded sint32/sint64 */
+export function asSint(field: ProtoField): number {
+	if (field.wire !== 0) return 0;
+	return Number((field.value >> 1n) ^ -(field.value & 1n));
+}
+
+export function asDouble(field: ProtoField): number {
+	if (field.wire === 1) return field.value.getFloat64(0, true);
+	if (field.wire === 5) return field.value.getFloat32(0, true);
+	return 0;
+}
+
+export function asBool(field: ProtoField): boolean {
+	return field.wire === 0 && field.value !== 0n;
+}
+
+/**
+ * Values of a repeated 8-byte field, which may be sent packed or one per field
+ */
+export function asPacked64<T>(field: ProtoField, read: (view: DataView) => T): T[] {
+	if (field.wire === 1) return [read(field.value)];
+	if (field.wire !== 2) return [];
+	if (field.value.length % 8 !== 0) truncated();
+	const values: T[] = [];
+	for (let offset = 0; offset < field.value.length; offset += 8) {
+		values.push(read(view(field.value, offset, 8)));
+	}
+	return values;
+}
+
+/**
+ * Values of a repeated varint field, which may be sent packed or one per field
+ */
+export function asPackedVarint(field: ProtoField): bigint[] {
+	if (field.wire === 0) return [field.value];
+	if (field.wire !== 2) return [];
+	const values: bigint[] = [];
+	for (let offset = 0; offset < field.value.length;) {
+		const [value, next] = readVarint(field.value, offset);
+		values.push(value);
+		offset = next;
+	}
+	return values;
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function varint(value: bigint): number[] {
+	const out: number[] = [];
+	let rest = BigInt.asUintN(64, value);
+	while (rest >= 0x80n) {
+		out.push(Number(rest & 0x7fn) | 0x80);
+		rest >>= 7n;
+	}
+	out.push(Number(rest));
+	return out;
+}
+
+/** Encode a varint field (int32/int64/enum/bool) */
+export function varintField(field: number, value: bigint | number): Uint8Array {
+	return Uint8Array.from([...varint(BigInt(field << 3)), ...varint(BigInt(value))]);
+}
+
+/** Encode a length-delimited field (string, bytes or embedded message) */
+export function bytesField(field: number, value: string | Uint8Array): Uint8Array {
+	const bytes = typeof value === 'string' ? textEncoder.encode(value) : value;
+	const header = [...varint(BigInt((field << 3) | 2)), ...varint(BigInt(bytes.length))];
+	const out = new Uint8Array(header.length + bytes.length);
+	out.set(header);
+	out.set(bytes, header.length);
+	return out;
+}
+
+/** Concatenate encoded fields into a message */
+export function message(...fields: Uint8Array[]): Uint8Array<ArrayBuffer> {
+	const out = new Uint8Array(fields.reduce((sum, f) => sum + f.length, 0));
+	let offset = 0;
+	for (const f of fields) {
+		out.set(f, offset);
+		offset += f.length;
+	}
+	return out;
+}
@@ -0,0 +1,211 @@
+/**
+ * Ingestion rate limits - token buckets per device and for the whole server,
+ * with separate payload and byte budgets per telemetry frequency.
+ *
+ * Buckets hold `rate * RATE_LIMIT_BURST_SECONDS` tokens. A request is admitted
+ * when every bucket it touches has enough tokens, or is full; the latter lets
+ * an offline buffer larger than the burst through once, after which the
+ * device has to wait for the debt to refill.
+ *
+ * State is in memory and per process.
+ */
+
+import { envFlag, envNumber, envString } from '../config';
+import type { BackpressureHint, TelemetryFrequency } from './types';
+
+/** One payload to be admitted */
+export interface RateLimitItem {
+	deviceId: string;
+	frequency: TelemetryFrequency;
+	/** Share of the decoded request body */
+	bytes: number;
+}
+
+export type RateLimitResult =
+	| { ok: true; backpressure: BackpressureHint }
+	| { ok: false; retryAfterSeconds: number; error: string };
+
+type Rates = Record<TelemetryFrequency, number>;
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+	/** When the bucket is back at capacity and can be forgotten */
+	fullAt: number;
+}
+
+interface Demand {
+	key: string;
+	/** Tokens per second */
+	rate: number;
+	capacity: number;
+	cost: number;
+	label: string;
+}
+
+const FREQUENCIES: TelemetryFrequency[] = ['high', 'medium', 'low'];
+
+/** Refilled buckets are dropped beyond this many */
+const MAX_BUCKETS = 10000;
+
+const buckets = new Map<string, Bucket>();
+
+/**
+ * Parse a per-frequency setting such as `high=5,medium=1,low=1`.
+ * Missing or zero entries mean unlimited.
+ */
+function envRates(name: string, fallback: string): Rates {
+	const rates: Rates = { high: 0, medium: 0, low: 0 };
+	for (const part of (envString(name) ?? fallback).split(',')) {
+		const [frequency, value] = part.split('=').map((s) => s.trim());
+		const rate = Number(value);
+		if (FREQUENCIES.includes(frequency as TelemetryFrequency) && Number.isFinite(rate)) {
+			rates[frequency as TelemetryFrequency] = Math.max(0, rate);
+		}
+	}
+	return rates;
+}
+
+function limits() {
+	return {
+		burstSeconds: Math.max(1, envNumber('RATE_LIMIT_BURST_SECONDS', 60)),
+		devicePayloads: envRates('RATE_LIMIT_DEVICE_PAYLOADS', 'high=5,medium=1,low=1'),
+		deviceBytes: envRates('RATE_LIMIT_DEVICE_BYTES', 'high=1048576,medium=1048576,low=1048576'),
+		globalPayloads: envRates('RATE_LIMIT_GLOBAL_PAYLOADS', ''),
+		globalBytes: envRates('RATE_LIMIT_GLOBAL_BYTES', '')
+	};
+}
+
+/** Tokens in a bucket after refilling up to `now` */
+function available(demand: Demand, now: number): number {
+	const bucket = buckets.get(demand.key);
+	if (!bucket) return demand.capacity;
+	return Math.min(demand.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * demand.rate);
+}
+
+/**
+ * Buckets touched by a request, with the tokens each needs
+ */
+function demandsFor(items: RateLimitItem[]): Demand[] {
+	const config = limits();
+	const demands = new Map<string, Demand>();
+
+	const add = (key: string, rate: number, cost: number, label: string) => {
+		if (rate <= 0 || cost <= 0) return;
+		const demand = demands.get(key);
+		if (demand) demand.cost += cost;
+		else demands.set(key, { key, rate, capacity: rate * config.burstSeconds, cost, label });
+	};
+
+	for (const item of items) {
+		const { deviceId, frequency, bytes } = item;
+		add(
+			`device:${deviceId}:${frequency}:payloads`,
+			config.devicePayloads[frequency],
+			1,
+			`${frequency}-frequency payloads for device ${deviceId}`
+		);
+		add(
+			`device:${deviceId}:${frequency}:bytes`,
+			config.deviceBytes[frequency],
+			bytes,
+			`${frequency}-frequency bytes for device ${deviceId}`
+		);
+		add(
+			`global:${frequency}:payloads`,
+			config.globalPayloads[frequency],
+			1,
+			`${frequency}-frequency payloads`
+		);
+		add(
+			`global:${frequency}:bytes`,
+			config.globalBytes[frequency],
+			bytes,
+			`${frequency}-frequency bytes`
+		);
+	}
+
+	return [...demands.values()];
+}
+
+function prune(now: number): void {
+	if (buckets.size <= MAX_BUCKETS) return;
+	for (const [key, bucket] of buckets) {
+		if (bucket.fullAt <= now) buckets.delete(key);
+	}
+}
+
+/**
+ * Admit a request's payloads, consuming from every bucket it touches, or
+ * report how long to wait when any budget is exhausted.
+ */
+export function checkRateLimit(items: RateLimitItem[], now = Date.now()): RateLimitResult {
+	if (!envFlag('RATE_LIMIT_ENABLED', true)) {
+		return { ok: true, backpressure: { load: 0, delayMs: 0 } };
+	}
+
+	const demands = demandsFor(items);
+	const tokens = demands.map((demand) => available(demand, now));
+
+	let waitSeconds = 0;
+	let exhausted: Demand | null = null;
+	for (let i = 0; i < demands.length; i++) {
+		const needed = Math.min(demands[i].cost, demands[i].capacity);
+		const wait = (needed - tokens[i]) / demands[i].rate;
+		if (wait > waitSeconds) {
+			waitSeconds = wait;
+			exhausted = demands[i];
+		}
+	}
+
+	if (exhausted) {
+		return {
+			ok: false,
+			retryAfterSeconds: Math.max(1, Math.ceil(waitSeconds)),
+			error: `Rate limit exceeded for ${exhausted.label}`
+		};
+	}
+
+	// Admitted: take the tokens, possibly going into debt
+	let load = 0;
+	let delayMs = 0;
+	demands.forEach((demand, i) => {
+		const left = tokens[i] - demand.cost;
+		const fullAt = now + ((demand.capacity - left) / demand.rate) * 1000;
+		buckets.set(demand.key, { tokens: left, updatedAt: now, fullAt });
+
+		load = Math.max(load, Math.min(1, 1 - left / demand.capacity));
+		// Well-behaved clients keep every budget at least half full
+		const half = demand.capacity / 2;
+		if (left < half) delayMs = Math.max(delayMs, ((half - left) / demand.rate) * 1000);
+	});
+	prune(now);
+
+	return {
+		ok: true,
+		backpressure: { load: Math.round(load * 100) / 100, delayMs: Math.ceil(delayMs) }
+	};
+}
+
+/**
+ * Wait until the payloads fit the rate limits, for streaming uploads that
+ * apply backpressure by reading more slowly instead of rejecting
+ */
+export async function waitForRateLimit(items: RateLimitItem[]): Promise<BackpressureHint> {
+	for (;;) {
+		const result = checkRateLimit(items);
+		if (result.ok) return result.backpressure;
+		await new Promise((resolve) => setTimeout(resolve, result.retryAfterSeconds * 1000));
+	}
+}
+
+/**
+ * Split a decoded body size across its payloads, for budgets in bytes
+ */
+export function rateLimitItems(
+	payloads: { deviceId: string; frequency: TelemetryFrequency }[],
+	bodyBytes: number
+): RateLimitItem[] {
+	const share = payloads.length > 0 ? bodyBytes / payloads.length : 0;
+	return payloads.map((p) => ({ deviceId: p.deviceId, frequency: p.frequency, bytes: share }));
+}
@@ -0,0 +1,261 @@
+/**
+ * Reading request bodies, including Content-Encoding handling for ingestion
+ */
+
+import zlib from 'node:zlib';
+import { Readable, pipeline, type Transform } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { promisify } from 'node:util';
+import { envNumber } from '../config';
+import { recordRequestBody } from './stats';
+
+export interface RequestBody {
+	/** Decoded body bytes */
+	bytes: Buffer;
+	/** Body bytes as sent, still encoded; what request signatures cover */
+	raw: Buffer;
+	/** Content-Encoding the body was sent with (`identity` when none) */
+	encoding: string;
+	compressedBytes: number;
+}
+
+export type ReadBodyResult =
+	| { ok: true; body: RequestBody }
+	| { ok: false; status: 413 | 415 | 400; error: string };
+
+const gunzip = promisify(zlib.gunzip);
+const inflate = promisify(zlib.inflate);
+const inflateRaw = promisify(zlib.inflateRaw);
+// zstd is only available on newer runtimes (Node >= 22.15)
+const zstdDecompress = typeof zlib.zstdDecompress === 'function' ? promisify(zlib.zstdDecompress) : null;
+
+export const SUPPORTED_ENCODINGS = ['identity', 'gzip', 'deflate', ...(zstdDecompress ? ['zstd'] : [])];
+
+/** Upper bound for a decoded body; protects against decompression bombs */
+function maxBodyBytes(): number {
+	return envNumber('MAX_DECOMPRESSED_BODY_BYTES', 32 * 1024 * 1024);
+}
+
+/** Upper bound for the body of the device and admin endpoints */
+function maxApiBodyBytes(): number {
+	return envNumber('MAX_API_BODY_BYTES', 64 * 1024);
+}
+
+/** Upper bound for a decoded streamed body */
+function maxStreamBytes(): number {
+	return envNumber('STREAM_MAX_BODY_BYTES', 1024 * 1024 * 1024);
+}
+
+async function decode(raw: Buffer, encoding: string, limit: number): Promise<Buffer | null> {
+	const options = { maxOutputLength: limit };
+	switch (encoding) {
+		case 'identity':
+			return raw;
+		case 'gzip':
+		case 'x-gzip':
+			return gunzip(raw, options);
+		case 'deflate':
+			// HTTP "deflate" is zlib-wrapped, but some clients send raw deflate
+			try {
+				return await inflate(raw, options);
+			} catch (error) {
+				if (isTooLarge(error)) throw error;
+				return inflateRaw(raw, options);
+			}
+		case 'zstd':
+			return zstdDecompress ? zstdDecompress(raw, { maxOutputLength: limit }) : null;
+		default:
+			return null;
+	}
+}
+
+function isTooLarge(error: unknown): boolean {
+	return (
+		error instanceof RangeError ||
+		(error as NodeJS.ErrnoException | null)?.code === 'ERR_BUFFER_TOO_LARGE'
+	);
+}
+
+/**
+ * Read a body of up to `limit` bytes, stopping as soon as it turns out larger;
+ * null when it is
+ */
+async function readLimited(request: Request, limit: number): Promise<Buffer | null> {
+	if (Number(request.headers.get('content-length')) > limit) return null;
+	if (!request.body) return Buffer.alloc(0);
+
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+	const reader = request.body.getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		length += value.length;
+		if (length > limit) {
+			await reader.cancel();
+			return null;
+		}
+		chunks.push(value);
+	}
+	return Buffer.concat(chunks, length);
+}
+
+/**
+ * Read and decode a request body according to its Content-Encoding, and
+ * record compressed vs. decompressed sizes in the ingestion stats.
+ *
+ * Both the body as sent and the decoded body are limited to
+ * MAX_DECOMPRESSED_BODY_BYTES. adapter-node applies its BODY_SIZE_LIMIT to the
+ * body as sent before that, so it should be at least as large (see .env.example).
+ */
+export async function readRequestBody(request: Request): Promise<ReadBodyResult> {
+	const encoding = (request.headers.get('content-encoding') ?? 'identity').trim().toLowerCase();
+	if (encoding.includes(',')) {
+		return { ok: false, status: 415, error: 'Stacked content encodings are not supported' };
+	}
+
+	const limit = maxBodyBytes();
+	const raw = await readLimited(request, limit);
+	if (!raw) {
+		return { ok: false, status: 413, error: `Request body exceeds ${limit} bytes` };
+	}
+
+	let bytes: Buffer | null;
+	try {
+		bytes = await decode(raw, encoding, limit);
+	} catch (error) {
+		if (isTooLarge(error)) {
+			return { ok: false, status: 413, error: `Decompressed body exceeds ${limit} bytes` };
+		}
+		return { ok: false, status: 400, error: `Body is not valid ${encoding} data` };
+	}
+
+	if (!bytes) {
+		return {
+			ok: false,
+			status: 415,
+			error: `Unsupported Content-Encoding: ${encoding}. Supported: ${SUPPORTED_ENCODINGS.join(', ')}`
+		};
+	}
+
+	recordRequestBody(encoding, raw.length, bytes.length);
+	return { ok: true, body: { bytes, raw, encoding, compressedBytes: raw.length } };
+}
+
+export type ReadTextResult = { ok: true; text: string } | { ok: false; status: 413; error: string };
+
+/**
+ * Read the body of a device or admin endpoint (enrollment, credentials,
+ * metadata, tags) as text, up to MAX_API_BODY_BYTES. BODY_SIZE_LIMIT is lifted
+ * for the ingestion endpoints, so these bodies are bounded here instead, before
+ * authentication looks at them.
+ */
+export async function readRequestText(request: Request): Promise<ReadTextResult> {
+	const limit = maxApiBodyBytes();
+	const raw = await readLimited(request, limit);
+	if (!raw) {
+		return { ok: false, status: 413, error: `Request body exceeds ${limit} bytes` };
+	}
+	return { ok: true, text: raw.toString('utf8') };
+}
+
+/** JSON body of a device or admin endpoint; value is null when it is not valid JSON */
+export type ReadJsonResult =
+	| { ok: true; value: unknown }
+	| { ok: false; status: 413; error: string };
+
+export async function readRequestJson(request: Request): Promise<ReadJsonResult> {
+	const read = await readRequestText(request);
+	if (!read.ok) return read;
+	try {
+		return { ok: true, value: JSON.parse(read.text) };
+	} catch {
+		return { ok: true, value: null };
+	}
+}
+
+export interface RequestBodyStream {
+	/** Decoded body chunks */
+	chunks: AsyncIterable<Buffer>;
+	encoding: string;
+	/** Record the bytes read so far in the ingestion stats; call once the stream is done */
+	finish(): void;
+}
+
+export type OpenBodyResult =
+	| { ok: true; body: RequestBodyStream }
+	| { ok: false; status: 400 | 415; error: string };
+
+function createDecompressor(encoding: string): Transform | null {
+	switch (encoding) {
+		case 'gzip':
+		case 'x-gzip':
+			return zlib.createGunzip();
+		case 'deflate':
+			// Streams cannot fall back to raw deflate after the fact, so only zlib-wrapped data works
+			return zlib.createInflate();
+		case 'zstd':
+			return typeof zlib.createZstdDecompress === 'function' ? zlib.createZstdDecompress() : null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Open a request body as a stream of decoded chunks, for bodies too large to
+ * buffer. Callers bound what they keep in memory themselves; reading fails
+ * once the decoded body exceeds STREAM_MAX_BODY_BYTES.
+ */
+export function openRequestStream(request: Request): OpenBodyResult {
+	const encoding = (request.headers.get('content-encoding') ?? 'identity').trim().toLowerCase();
+	if (encoding.includes(',')) {
+		return { ok: false, status: 415, error: 'Stacked content encodings are not supported' };
+	}
+	if (!request.body) {
+		return { ok: false, status: 400, error: 'Request body is empty' };
+	}
+
+	const decompressor = encoding === 'identity' ? null : createDecompressor(encoding);
+	if (encoding !== 'identity' && !decompressor) {
+		return {
+			ok: false,
+			status: 415,
+			error: `Unsupported Content-Encoding: ${encoding}. Supported: ${SUPPORTED_ENCODINGS.join(', ')}`
+		};
+	}
+
+	let compressedBytes = 0;
+	let decompressedBytes = 0;
+	const raw = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>);
+
+	async function* counted(source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+		for await (const chunk of source) {
+			compressedBytes += chunk.length;
+			yield chunk;
+		}
+	}
+	const decoded: Readable = decompressor
+		? pipeline(Readable.from(counted(raw)), decompressor, () => {})
+		: Readable.from(counted(raw));
+
+	const limit = maxStreamBytes();
+	async function* chunks(): AsyncGenerator<Buffer> {
+		for await (const chunk of decoded) {
+			decompressedBytes += chunk.length;
+			if (decompressedBytes > limit) {
+				decoded.destroy();
+				throw new Error(`Request body exceeds ${limit} bytes`);
+			}
+			yield chunk;
+		}
+	}
+
+	return {
+		ok: true,
+		body: {
+			chunks: chunks(),
+			encoding,
+			finish: () => recordRequestBody(encoding, compressedBytes, decompressedBytes)
+		}
+	};
+}
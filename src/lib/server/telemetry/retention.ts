@@ -0,0 +1,392 @@
+/**
+ * Retention - prunes telemetry older than its configured age.
+ *
+ * Readings are kept per frequency (RETENTION_DAYS, e.g. `high=14,medium=30,low=365`);
+ * deleting a reading removes its child rows by cascade, and archived payloads
+ * of the same frequency age out with it. RETENTION_TABLE_DAYS keeps single
+ * tables shorter, e.g. `process_readings=7`: rows of child tables are deleted
+ * by the age of their reading, `telemetry_archive` (by when the payload
+ * arrived), `device_clock_skew` and `device_processes` (by when the process
+ * was last seen) by their own timestamps. Rollups are kept per resolution (RETENTION_ROLLUP_DAYS,
+ * e.g. `1m=30,1h=365`; day buckets are kept unless listed).
+ *
+ * On partitioned databases (see ./partitions) months that lie entirely past
+ * retention are dropped as whole partitions first: all reading tables once
+ * every frequency has expired, single child tables past their own rule.
+ * Remaining rows are deleted in chunks of RETENTION_CHUNK_SIZE with a short
+ * pause in between, so a large backlog never holds long locks on telemetry_readings.
+ * With RETENTION_ENABLED=true a background job prunes every
+ * RETENTION_INTERVAL_MINUTES; the admin API can report and prune on demand.
+ */
+
+import { and, count, eq, getTableName, inArray, is, lt, sql, type SQL } from 'drizzle-orm';
+import { PgTable, type PgColumn } from 'drizzle-orm/pg-core';
+import { db } from '../db';
+import * as schema from '../db/schema';
+import { envFlag, envNumber, envString } from '../config';
+import { detachPartitions, isPartitioned, listPartitions, monthRange } from './partitions';
+import type { RollupResolution, TelemetryFrequency } from './types';
+
+/** One thing that is pruned: a table, or the readings of one frequency */
+export interface RetentionRule {
+	table: string;
+	/** Only for telemetry_readings and the archive defaults */
+	frequency?: TelemetryFrequency;
+	/** Only for telemetry_rollups */
+	resolution?: RollupResolution;
+	days: number;
+}
+
+export interface RetentionRuleResult extends RetentionRule {
+	/** Rows older than this are removed */
+	olderThan: string;
+	/** Rows removed, or that would be removed in a dry run (cascaded child rows not included) */
+	rows: number;
+}
+
+/** A month partition dropped, or that would be dropped in a dry run */
+export interface RetentionPartitionResult {
+	/** telemetry_readings for a whole month including its child rows */
+	table: string;
+	month: string;
+	/** Rows in the partition */
+	rows: number;
+}
+
+export interface RetentionReport {
+	dryRun: boolean;
+	startedAt: string;
+	finishedAt: string;
+	partitions: RetentionPartitionResult[];
+	rules: RetentionRuleResult[];
+	totalRows: number;
+}
+
+export interface RetentionStatus {
+	/** Whether the background job prunes on its own */
+	enabled: boolean;
+	intervalMinutes: number;
+	chunkSize: number;
+	rules: RetentionRule[];
+	/** Setting entries that were ignored, e.g. unknown table names */
+	ignored: string[];
+	pruning: boolean;
+	lastRun: RetentionReport | null;
+	lastError: string | null;
+	nextRunAt: string | null;
+}
+
+const FREQUENCIES: TelemetryFrequency[] = ['high', 'medium', 'low'];
+
+const RESOLUTIONS: RollupResolution[] = ['1m', '1h', '1d'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ChildTable = PgTable & { id: PgColumn; readingTimestamp: PgColumn };
+
+/** Tables whose rows belong to a reading, by SQL name */
+const CHILD_TABLES = new Map<string, ChildTable>(
+	(Object.values(schema) as unknown[])
+		.filter(
+			(value): value is ChildTable =>
+				is(value, PgTable) && 'readingTimestamp' in value && 'id' in value
+		)
+		.map((table) => [getTableName(table), table])
+);
+
+const OWN_TIME_TABLES = ['telemetry_archive', 'device_clock_skew', 'device_processes'];
+
+/**
+ * Parse `name=days` pairs. Entries without a positive number of days are left
+ * out, meaning the data is kept.
+ */
+function envDays(name: string, fallback: string): { days: Map<string, number>; ignored: string[] } {
+	const days = new Map<string, number>();
+	const ignored: string[] = [];
+	for (const part of (envString(name) ?? fallback).split(',')) {
+		if (!part.trim()) continue;
+		const [key, value] = part.split('=').map((s) => s.trim());
+		const parsed = Number(value);
+		if (!key || !Number.isFinite(parsed)) ignored.push(`${name}: ${part.trim()}`);
+		else if (parsed > 0) days.set(key, parsed);
+	}
+	return { days, ignored };
+}
+
+function chunkSize(): number {
+	return Math.max(1, envNumber('RETENTION_CHUNK_SIZE', 500));
+}
+
+function chunkPauseMs(): number {
+	return Math.max(0, envNumber('RETENTION_CHUNK_PAUSE_MS', 100));
+}
+
+function intervalMinutes(): number {
+	return Math.max(1, envNumber('RETENTION_INTERVAL_MINUTES', 60));
+}
+
+/**
+ * The configured rules, table rules first so that the shorter-lived child rows
+ * are gone before their readings cascade
+ */
+export function retentionRules(): { rules: RetentionRule[]; ignored: string[] } {
+	const readings = envDays('RETENTION_DAYS', 'high=14,medium=30,low=365');
+	const tables = envDays('RETENTION_TABLE_DAYS', 'process_readings=7,device_processes=7');
+	const rollups = envDays('RETENTION_ROLLUP_DAYS', '1m=30,1h=365');
+	const ignored = [...readings.ignored, ...tables.ignored, ...rollups.ignored];
+
+	const rules: RetentionRule[] = [];
+	for (const [table, days] of tables.days) {
+		if (CHILD_TABLES.has(table) || OWN_TIME_TABLES.includes(table)) rules.push({ table, days });
+		else ignored.push(`RETENTION_TABLE_DAYS: unknown table ${table}`);
+	}
+	for (const [frequency, days] of readings.days) {
+		if (!FREQUENCIES.includes(frequency as TelemetryFrequency)) {
+			ignored.push(`RETENTION_DAYS: unknown frequency ${frequency}`);
+			continue;
+		}
+		rules.push({ table: 'telemetry_readings', frequency: frequency as TelemetryFrequency, days });
+		// Archived payloads would otherwise bring pruned readings back on reprocessing
+		if (!tables.days.has('telemetry_archive')) {
+			rules.push({ table: 'telemetry_archive', frequency: frequency as TelemetryFrequency, days });
+		}
+	}
+	for (const [resolution, days] of rollups.days) {
+		if (RESOLUTIONS.includes(resolution as RollupResolution)) {
+			rules.push({ table: 'telemetry_rollups', resolution: resolution as RollupResolution, days });
+		} else {
+			ignored.push(`RETENTION_ROLLUP_DAYS: unknown resolution ${resolution}`);
+		}
+	}
+	return { rules, ignored };
+}
+
+/**
+ * The rows a rule covers: the table to delete from, its id column and the
+ * condition selecting rows older than `cutoff`
+ */
+function ruleTarget(
+	rule: RetentionRule,
+	cutoff: Date
+): { table: PgTable; id: PgColumn; where: SQL | undefined } {
+	const readings = schema.telemetryReadings;
+	if (rule.table === 'telemetry_readings') {
+		return {
+			table: readings,
+			id: readings.id,
+			where: and(eq(readings.frequency, rule.frequency!), lt(readings.timestamp, cutoff))
+		};
+	}
+	if (rule.table === 'telemetry_archive') {
+		const archive = schema.telemetryArchive;
+		return {
+			table: archive,
+			id: archive.id,
+			where: and(
+				rule.frequency ? eq(archive.frequency, rule.frequency) : undefined,
+				// Device clocks can be far off; the server time is indexed and trustworthy
+				lt(archive.receivedAt, cutoff)
+			)
+		};
+	}
+	if (rule.table === 'device_clock_skew') {
+		const skew = schema.deviceClockSkew;
+		return { table: skew, id: skew.id, where: lt(skew.receivedAt, cutoff) };
+	}
+	if (rule.table === 'device_processes') {
+		const processes = schema.deviceProcesses;
+		return { table: processes, id: processes.id, where: lt(processes.lastSeenAt, cutoff) };
+	}
+	if (rule.table === 'telemetry_rollups') {
+		const rollups = schema.telemetryRollups;
+		return {
+			table: rollups,
+			id: rollups.id,
+			where: and(eq(rollups.resolution, rule.resolution!), lt(rollups.bucketStart, cutoff))
+		};
+	}
+	const child = CHILD_TABLES.get(rule.table)!;
+	return { table: child, id: child.id, where: lt(child.readingTimestamp, cutoff) };
+}
+
+/** Ids of up to `limit` rows a rule covers */
+function selectIds(target: ReturnType<typeof ruleTarget>, limit: number) {
+	return db.select({ id: target.id }).from(target.table).where(target.where).limit(limit);
+}
+
+async function countRows(target: ReturnType<typeof ruleTarget>): Promise<number> {
+	const [result] = await db.select({ rows: count() }).from(target.table).where(target.where);
+	return result.rows;
+}
+
+/** Delete the rows a rule covers, one chunk per statement */
+async function deleteRows(target: ReturnType<typeof ruleTarget>): Promise<number> {
+	const limit = chunkSize();
+	let deleted = 0;
+	for (;;) {
+		const ids = (await selectIds(target, limit)).map((row) => row.id as number);
+		if (ids.length === 0) break;
+		await db.delete(target.table).where(inArray(target.id, ids));
+		deleted += ids.length;
+		if (ids.length < limit) break;
+		await new Promise((resolve) => setTimeout(resolve, chunkPauseMs()));
+	}
+	return deleted;
+}
+
+/**
+ * Drop the month partitions that lie entirely before the cutoff of their rules.
+ * A whole month goes once it is past the retention of every frequency.
+ */
+async function prunePartitions(
+	rules: RetentionRule[],
+	now: Date,
+	dryRun: boolean
+): Promise<RetentionPartitionResult[]> {
+	const cutoff = (rule: RetentionRule) => now.getTime() - rule.days * DAY_MS;
+	const readingRules = rules.filter((rule) => rule.table === 'telemetry_readings');
+	const readingsCutoff = FREQUENCIES.every((f) => readingRules.some((r) => r.frequency === f))
+		? Math.min(...readingRules.map(cutoff))
+		: null;
+	const expired = (month: string, before: number | null) =>
+		before !== null && monthRange(month)!.until.getTime() <= before;
+	const partitionRows = async (name: string) => {
+		const [result] = await db.execute<{ rows: number }>(
+			sql`SELECT count(*)::int AS rows FROM ${sql.identifier(name)}`
+		);
+		return result.rows;
+	};
+
+	const results: RetentionPartitionResult[] = [];
+	const partitions = await listPartitions();
+	for (const { table, name, month } of partitions) {
+		if (table !== 'telemetry_readings' || !month || !expired(month, readingsCutoff)) continue;
+		results.push({ table, month, rows: await partitionRows(name) });
+		if (!dryRun) await detachPartitions(month, { drop: true });
+	}
+	for (const rule of rules.filter((rule) => CHILD_TABLES.has(rule.table))) {
+		for (const { table, name, month } of partitions) {
+			if (table !== rule.table || !month || !expired(month, cutoff(rule))) continue;
+			if (expired(month, readingsCutoff)) continue;
+			results.push({ table, month, rows: await partitionRows(name) });
+			if (!dryRun) await detachPartitions(month, { drop: true, tables: [table] });
+		}
+	}
+	return results;
+}
+
+let pruning: Promise<RetentionReport> | null = null;
+let lastRun: RetentionReport | null = null;
+let lastError: string | null = null;
+
+async function prune(dryRun: boolean, now: Date): Promise<RetentionReport> {
+	const startedAt = new Date();
+	const { rules } = retentionRules();
+	const partitions = (await isPartitioned()) ? await prunePartitions(rules, now, dryRun) : [];
+	const results: RetentionRuleResult[] = [];
+	for (const rule of rules) {
+		const cutoff = new Date(now.getTime() - rule.days * DAY_MS);
+		const target = ruleTarget(rule, cutoff);
+		const rows = dryRun ? await countRows(target) : await deleteRows(target);
+		results.push({ ...rule, olderThan: cutoff.toISOString(), rows });
+	}
+
+	return {
+		dryRun,
+		startedAt: startedAt.toISOString(),
+		finishedAt: new Date().toISOString(),
+		partitions,
+		rules: results,
+		totalRows: [...partitions, ...results].reduce((sum, r) => sum + r.rows, 0)
+	};
+}
+
+/**
+ * Apply the retention rules once. A dry run only counts the rows that would
+ * be removed. Returns null when a pruning run is already in progress.
+ */
+export async function runRetention(
+	options: { dryRun?: boolean; now?: Date } = {}
+): Promise<RetentionReport | null> {
+	const now = options.now ?? new Date();
+	if (options.dryRun) return prune(true, now);
+	if (pruning) return null;
+
+	pruning = prune(false, now);
+	try {
+		const report = await pruning;
+		lastRun = report;
+		lastError = null;
+		if (report.totalRows > 0) {
+			console.log(`Retention removed ${report.totalRows} rows`);
+		}
+		return report;
+	} catch (error) {
+		lastError = error instanceof Error ? error.message : 'Unknown error';
+		throw error;
+	} finally {
+		pruning = null;
+	}
+}
+
+let running = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let nextRunAt: Date | null = null;
+
+function schedule(delayMs: number): void {
+	if (!running) return;
+	if (timer) clearTimeout(timer);
+	nextRunAt = new Date(Date.now() + delayMs);
+	timer = setTimeout(runJob, delayMs);
+}
+
+async function runJob(): Promise<void> {
+	timer = null;
+	nextRunAt = null;
+	try {
+		await runRetention();
+	} catch (error) {
+		console.error('Retention job failed:', error);
+	}
+	schedule(intervalMinutes() * 60 * 1000);
+}
+
+/**
+ * Start pruning in the background (no-op unless RETENTION_ENABLED=true).
+ * The first run waits a minute so it does not compete with startup.
+ */
+export function startRetentionJob(): void {
+	if (running || !envFlag('RETENTION_ENABLED', false)) return;
+	running = true;
+	console.log(`Retention job started (every ${intervalMinutes()} minutes)`);
+	schedule(60 * 1000);
+}
+
+/**
+ * Stop the background job after the current run
+ */
+export async function stopRetentionJob(): Promise<void> {
+	running = false;
+	if (timer) clearTimeout(timer);
+	timer = null;
+	nextRunAt = null;
+	await pruning?.catch(() => {});
+}
+
+/**
+ * Rules, job state and the last run, for the admin API
+ */
+export function getRetentionStatus(): RetentionStatus {
+	const { rules, ignored } = retentionRules();
+	return {
+		enabled: running,
+		intervalMinutes: intervalMinutes(),
+		chunkSize: chunkSize(),
+		rules,
+		ignored,
+		pruning: pruning !== null,
+		lastRun,
+		lastError,
+		nextRunAt: nextRunAt?.toISOString() ?? null
+	};
+}
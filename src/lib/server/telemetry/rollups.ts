@@ -0,0 +1,221 @@
+/**
+ * Time-bucket rollups - count/sum/min/max/last of key metrics per device at
+ * 1-minute, 1-hour and 1-day resolution, updated in the transaction that
+ * stores the readings.
+ *
+ * The network and storage byte counters are rolled up as they are; their
+ * rates and the other counter metrics come from ./counters.
+ *
+ * Like ./bulk this module only depends on the schema.
+ */
+
+import * as schema from '../db/schema';
+import { sql } from 'drizzle-orm';
+import type { DbExecutor } from '../db';
+import type { TelemetryInsertResult } from './bulk';
+import { COUNTER_METRICS, type CounterMetric, type CounterSample } from './counters';
+import type {
+	HighFrequencyTelemetry,
+	MediumFrequencyTelemetry,
+	RollupResolution,
+	TelemetryPayload
+} from './types';
+
+/** Bucket length per resolution; day buckets start at midnight UTC */
+export const ROLLUP_RESOLUTION_MS: Record<RollupResolution, number> = {
+	'1m': 60 * 1000,
+	'1h': 60 * 60 * 1000,
+	'1d': 24 * 60 * 60 * 1000
+};
+
+export const ROLLUP_GAUGES = [
+	'battery_capacity',
+	'battery_voltage',
+	'battery_current',
+	'battery_temperature',
+	'battery_discharging',
+	'thermal_cpu',
+	'thermal_gpu',
+	'thermal_battery',
+	'load1',
+	'load5',
+	'load15',
+	'uptime',
+	'memory_used_percent',
+	'swap_used_percent',
+	'memory_available',
+	'memory_total'
+] as const;
+
+export const ROLLUP_COUNTERS = [
+	'network_rx_bytes',
+	'network_tx_bytes',
+	'storage_read_bytes',
+	'storage_write_bytes'
+] as const;
+
+type RollupGauge = (typeof ROLLUP_GAUGES)[number];
+type RollupCounter = (typeof ROLLUP_COUNTERS)[number];
+
+export type RollupMetric = RollupGauge | RollupCounter | CounterMetric;
+
+export const ROLLUP_METRICS: RollupMetric[] = [
+	...ROLLUP_GAUGES,
+	...ROLLUP_COUNTERS,
+	...COUNTER_METRICS
+];
+
+/** Most buckets a history query returns per metric */
+const MAX_HISTORY_BUCKETS = 1500;
+
+/** Rollup rows per upsert, well below the bind parameter limit */
+const ROWS_PER_UPSERT = 2000;
+
+/**
+ * The finest resolution that covers `from`..`until` in at most
+ * MAX_HISTORY_BUCKETS buckets; day buckets for anything longer
+ */
+export function pickRollupResolution(from: Date, until: Date): RollupResolution {
+	const span = until.getTime() - from.getTime();
+	const resolutions = Object.keys(ROLLUP_RESOLUTION_MS) as RollupResolution[];
+	return resolutions.find((r) => span / ROLLUP_RESOLUTION_MS[r] <= MAX_HISTORY_BUCKETS) ?? '1d';
+}
+
+/** A metric value of a new reading */
+export interface RollupSample {
+	deviceId: number;
+	metric: RollupMetric;
+	time: number;
+	value: number;
+}
+
+type RollupRow = typeof schema.telemetryRollups.$inferInsert;
+
+function metricValues(payload: TelemetryPayload): [RollupMetric, number][] {
+	if (payload.frequency === 'high') {
+		const { power, thermal, cpu, memory, network } = payload.data as HighFrequencyTelemetry;
+		return [
+			['battery_capacity', power.battery.capacity],
+			['battery_voltage', power.battery.voltage],
+			['battery_current', power.battery.current],
+			['battery_temperature', power.battery.temperature],
+			// 1 while discharging, so a bucket's min tells whether it discharged throughout
+			['battery_discharging', power.battery.status === 'Discharging' ? 1 : 0],
+			['thermal_cpu', thermal.cpuTemp],
+			['thermal_gpu', thermal.gpuTemp],
+			['thermal_battery', thermal.batteryTemp],
+			['load1', cpu.loadAverage.load1],
+			['load5', cpu.loadAverage.load5],
+			['load15', cpu.loadAverage.load15],
+			['uptime', cpu.uptime],
+			['memory_used_percent', memory.usedPercent],
+			['swap_used_percent', memory.swapUsedPercent],
+			['memory_available', memory.available],
+			['memory_total', memory.total],
+			['network_rx_bytes', network.totalRxBytes],
+			['network_tx_bytes', network.totalTxBytes]
+		];
+	}
+	if (payload.frequency === 'medium') {
+		const { storage } = payload.data as MediumFrequencyTelemetry;
+		return [
+			['storage_read_bytes', storage.totalBytesRead],
+			['storage_write_bytes', storage.totalBytesWritten]
+		];
+	}
+	return [];
+}
+
+/** One row per device, metric, resolution and bucket */
+function aggregate(samples: RollupSample[]): RollupRow[] {
+	const rows = new Map<string, RollupRow>();
+	for (const sample of samples) {
+		for (const [resolution, length] of Object.entries(ROLLUP_RESOLUTION_MS)) {
+			const bucketStart = Math.floor(sample.time / length) * length;
+			const key = `${sample.deviceId}|${sample.metric}|${resolution}|${bucketStart}`;
+			const row = rows.get(key);
+			if (!row) {
+				rows.set(key, {
+					deviceId: sample.deviceId,
+					resolution: resolution as RollupResolution,
+					bucketStart: new Date(bucketStart),
+					metric: sample.metric,
+					count: 1,
+					sum: sample.value,
+					min: sample.value,
+					max: sample.value,
+					last: sample.value,
+					lastAt: new Date(sample.time)
+				});
+				continue;
+			}
+			row.count += 1;
+			row.sum += sample.value;
+			row.min = Math.min(row.min, sample.value);
+			row.max = Math.max(row.max, sample.value);
+			if (sample.time >= row.lastAt.getTime()) {
+				row.last = sample.value;
+				row.lastAt = new Date(sample.time);
+			}
+		}
+	}
+	return [...rows.values()];
+}
+
+/**
+ * Fold the new readings of a batch and their counter rates into the rollups.
+ * `readings` are the insert results in payload order; duplicates are skipped.
+ */
+export async function updateRollups(
+	tx: DbExecutor,
+	payloads: TelemetryPayload[],
+	readings: TelemetryInsertResult[],
+	rates: CounterSample[]
+): Promise<void> {
+	const samples: RollupSample[] = [];
+	payloads.forEach((payload, index) => {
+		const { deviceId, duplicate, timestamp } = readings[index];
+		if (duplicate || !timestamp) return;
+		for (const [metric, value] of metricValues(payload)) {
+			if (Number.isFinite(value)) {
+				samples.push({ deviceId, metric, time: timestamp.getTime(), value });
+			}
+		}
+	});
+	samples.push(...rates);
+	await upsertRollups(tx, samples);
+}
+
+/**
+ * Fold metric samples of new readings into the rollups
+ */
+export async function upsertRollups(tx: DbExecutor, samples: RollupSample[]): Promise<void> {
+	if (samples.length === 0) return;
+
+	// Concurrent batches upsert in the same order, so they cannot deadlock on each other's rows
+	const rows = aggregate(samples).sort(
+		(a, b) =>
+			a.deviceId - b.deviceId ||
+			a.metric.localeCompare(b.metric) ||
+			a.resolution.localeCompare(b.resolution) ||
+			a.bucketStart.getTime() - b.bucketStart.getTime()
+	);
+
+	const rollups = schema.telemetryRollups;
+	for (let i = 0; i < rows.length; i += ROWS_PER_UPSERT) {
+		await tx
+			.insert(rollups)
+			.values(rows.slice(i, i + ROWS_PER_UPSERT))
+			.onConflictDoUpdate({
+				target: [rollups.deviceId, rollups.metric, rollups.resolution, rollups.bucketStart],
+				set: {
+					count: sql`${rollups.count} + excluded.count`,
+					sum: sql`${rollups.sum} + excluded.sum`,
+					min: sql`least(${rollups.min}, excluded.min)`,
+					max: sql`greatest(${rollups.max}, excluded.max)`,
+					last: sql`case when excluded.last_at >= ${rollups.lastAt} then excluded.last else ${rollups.last} end`,
+					lastAt: sql`greatest(${rollups.lastAt}, excluded.last_at)`
+				}
+			});
+	}
+}
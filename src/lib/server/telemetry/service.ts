@@ -4,560 +4,381 @@
 
 import { db } from '../db';
 import * as schema from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { and, asc, desc, eq, gte, ilike, inArray, lt } from 'drizzle-orm';
+import { envFlag, envNumber, envString } from '../config';
+import { writeTelemetryBatch, type TelemetryInsertResult } from './bulk';
+import { DEFAULT_MIN_VALID_TIME_MS, type ClockOptions } from './clock';
+import { publishLiveReadings } from './live';
+import { ROLLUP_RESOLUTION_MS, pickRollupResolution } from './rollups';
 import type {
-	TelemetryPayload,
-	TelemetryFrequency,
-	HighFrequencyTelemetry,
-	MediumFrequencyTelemetry,
-	LowFrequencyTelemetry,
-	BlockDeviceTelemetry
+	BootComparison,
+	BootMetricPoint,
+	BootSession,
+	ClockSkewHistory,
+	MetricHistory,
+	MetricHistoryPoint,
+	ProcessHistory,
+	ProcessIdentity,
+	RollupResolution,
+	TelemetryPayload
 } from './types';
 
-export interface TelemetryInsertResult {
-	readingId: number;
-	deviceId: number;
+export type { TelemetryInsertResult } from './bulk';
+
+/**
+ * Clock check settings for an upload received at `receivedAt`
+ */
+function clockOptions(receivedAt: Date): ClockOptions {
+	const minValid = Date.parse(envString('CLOCK_MIN_VALID_TIME') ?? '');
+	return {
+		receivedAt,
+		toleranceMs: envNumber('CLOCK_SKEW_TOLERANCE_SECONDS', 300) * 1000,
+		minValidTimeMs: Number.isNaN(minValid) ? DEFAULT_MIN_VALID_TIME_MS : minValid,
+		correct: envFlag('CLOCK_CORRECTION', true),
+		sampleWindowMs: envNumber('CLOCK_SKEW_SAMPLE_WINDOW_SECONDS', 120) * 1000
+	};
 }
 
 /**
- * Get or create a device by deviceId
+ * Process a single telemetry payload.
+ * The reading and its child rows are committed together or not at all.
  */
-async function getOrCreateDevice(deviceId: string): Promise<number> {
-	// Try to find existing device
-	const existing = await db.query.devices.findFirst({
-		where: eq(schema.devices.deviceId, deviceId)
-	});
+export async function processTelemetryPayload(
+	payload: TelemetryPayload,
+	receivedAt = new Date()
+): Promise<TelemetryInsertResult> {
+	const [result] = await db.transaction((tx) =>
+		writeTelemetryBatch(tx, [payload], { clock: clockOptions(receivedAt) })
+	);
+	publishLiveReadings([payload], [result]);
+	return result;
+}
 
-	if (existing) {
-		// Update last seen timestamp
-		await db
-			.update(schema.devices)
-			.set({ lastSeenAt: new Date() })
-			.where(eq(schema.devices.id, existing.id));
-		return existing.id;
-	}
+export interface BatchOptions {
+	/** Fail the whole batch instead of retrying payloads one by one */
+	atomic?: boolean;
+	/** When the payloads arrived, if not now (e.g. drained from the spool) */
+	receivedAt?: Date;
+}
 
-	// Create new device
-	const [newDevice] = await db
-		.insert(schema.devices)
-		.values({ deviceId, name: deviceId })
-		.returning({ id: schema.devices.id });
+export type BatchPayloadOutcome =
+	| { status: 'stored' | 'duplicate'; result: TelemetryInsertResult }
+	| { status: 'failed'; error: string };
 
-	return newDevice.id;
+function toOutcome(result: TelemetryInsertResult): BatchPayloadOutcome {
+	return { status: result.duplicate ? 'duplicate' : 'stored', result };
 }
 
-/**
- * Create the main telemetry reading record
- */
-async function createReading(
-	deviceDbId: number,
-	timestamp: Date,
-	timestampMs: number,
-	frequency: TelemetryFrequency
-): Promise<number> {
-	const [reading] = await db
-		.insert(schema.telemetryReadings)
-		.values({
-			deviceId: deviceDbId,
-			timestamp,
-			timestampMs,
-			frequency
-		})
-		.returning({ id: schema.telemetryReadings.id });
-
-	return reading.id;
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : 'Internal server error';
 }
 
 /**
- * Insert high-frequency telemetry data
+ * Process multiple telemetry payloads in batch, returning one outcome per
+ * payload in input order.
+ *
+ * The batch is first written in one transaction with grouped multi-row inserts.
+ * If that fails and `atomic` is not set, payloads are retried one transaction
+ * each so a single bad payload cannot hold back the rest. In atomic mode every
+ * payload is reported as failed.
  */
-async function insertHighFrequencyData(
-	readingId: number,
-	data: HighFrequencyTelemetry
-): Promise<void> {
-	const { power, thermal, cpu, memory, network } = data;
-
-	// Power telemetry
-	await Promise.all([
-		// Battery
-		db.insert(schema.batteryReadings).values({
-			readingId,
-			capacity: power.battery.capacity,
-			status: power.battery.status,
-			voltage: power.battery.voltage,
-			current: power.battery.current,
-			temperature: power.battery.temperature,
-			chargeFull: power.battery.chargeFull,
-			chargeFullDesign: power.battery.chargeFullDesign,
-			health: power.battery.health,
-			present: power.battery.present,
-			chargeType: power.battery.chargeType,
-			energyFullDesign: power.battery.energyFullDesign
-		}),
-
-		// USB Input
-		db.insert(schema.usbInputReadings).values({
-			readingId,
-			present: power.usbInput.present,
-			health: power.usbInput.health,
-			inputCurrentLimit: power.usbInput.inputCurrentLimit,
-			inputVoltageLimit: power.usbInput.inputVoltageLimit
-		}),
-
-		// USB PD
-		db.insert(schema.usbPdReadings).values({
-			readingId,
-			online: power.usbCPd.online,
-			voltage: power.usbCPd.voltage,
-			voltageMin: power.usbCPd.voltageMin,
-			voltageMax: power.usbCPd.voltageMax,
-			current: power.usbCPd.current,
-			currentMax: power.usbCPd.currentMax,
-			usbType: power.usbCPd.usbType
-		}),
-
-		// Type-C Port
-		db.insert(schema.typeCPortReadings).values({
-			readingId,
-			dataRole: power.typeCPort.dataRole,
-			powerRole: power.typeCPort.powerRole,
-			orientation: power.typeCPort.orientation,
-			powerOperationMode: power.typeCPort.powerOperationMode,
-			vconnSource: power.typeCPort.vconnSource
-		}),
-
-		// Thermal zones
-		...thermal.zones.map((zone) =>
-			db.insert(schema.thermalZoneReadings).values({
-				readingId,
-				zone: zone.zone,
-				type: zone.type,
-				temperature: zone.temperature,
-				tripPoints: zone.tripPoints ?? null
-			})
-		),
-
-		// Cooling devices
-		...thermal.coolingDevices.map((device) =>
-			db.insert(schema.coolingDeviceReadings).values({
-				readingId,
-				deviceIndex: device.index,
-				type: device.type,
-				currentState: device.currentState,
-				maxState: device.maxState
-			})
-		),
-
-		// Thermal summary
-		db.insert(schema.thermalSummaryReadings).values({
-			readingId,
-			batteryTemp: thermal.batteryTemp,
-			cpuTemp: thermal.cpuTemp,
-			gpuTemp: thermal.gpuTemp
-		}),
-
-		// CPU frequencies
-		...cpu.frequencies.map((freq) =>
-			db.insert(schema.cpuFrequencyReadings).values({
-				readingId,
-				cpu: freq.cpu,
-				currentFreq: freq.currentFreq,
-				minFreq: freq.minFreq,
-				maxFreq: freq.maxFreq,
-				hardwareMinFreq: freq.hardwareMinFreq,
-				hardwareMaxFreq: freq.hardwareMaxFreq,
-				governor: freq.governor
-			})
-		),
+export async function processTelemetryBatch(
+	payloads: TelemetryPayload[],
+	options: BatchOptions = {}
+): Promise<BatchPayloadOutcome[]> {
+	const receivedAt = options.receivedAt ?? new Date();
+	try {
+		const results = await db.transaction((tx) =>
+			writeTelemetryBatch(tx, payloads, { clock: clockOptions(receivedAt) })
+		);
+		publishLiveReadings(payloads, results);
+		return results.map(toOutcome);
+	} catch (error) {
+		if (options.atomic || payloads.length === 1) {
+			console.error('Error storing telemetry batch:', error);
+			return payloads.map(() => ({ status: 'failed', error: errorMessage(error) }));
+		}
+		console.warn('Bulk batch insert failed, retrying payloads individually:', error);
+	}
 
-		// CPU times
-		...cpu.cpuTimes.map((time) =>
-			db.insert(schema.cpuTimeReadings).values({
-				readingId,
-				cpu: time.cpu,
-				user: time.user,
-				nice: time.nice,
-				system: time.system,
-				idle: time.idle,
-				iowait: time.iowait,
-				irq: time.irq,
-				softirq: time.softirq,
-				steal: time.steal
-			})
-		),
+	const outcomes: BatchPayloadOutcome[] = [];
 
-		// CPU load
-		db.insert(schema.cpuLoadReadings).values({
-			readingId,
-			load1: cpu.loadAverage.load1,
-			load5: cpu.loadAverage.load5,
-			load15: cpu.loadAverage.load15,
-			runningProcesses: cpu.loadAverage.runningProcesses,
-			totalProcesses: cpu.loadAverage.totalProcesses,
-			uptime: cpu.uptime,
-			idleTime: cpu.idleTime,
-			onlineCpus: cpu.onlineCpus,
-			offlineCpus: cpu.offlineCpus
-		}),
-
-		// Memory
-		db.insert(schema.memoryReadings).values({
-			readingId,
-			total: memory.total,
-			free: memory.free,
-			available: memory.available,
-			buffers: memory.buffers,
-			cached: memory.cached,
-			swapTotal: memory.swapTotal,
-			swapFree: memory.swapFree,
-			swapUsed: memory.swapUsed,
-			active: memory.active,
-			inactive: memory.inactive,
-			activeAnon: memory.activeAnon,
-			inactiveAnon: memory.inactiveAnon,
-			activeFile: memory.activeFile,
-			inactiveFile: memory.inactiveFile,
-			dirty: memory.dirty,
-			writeback: memory.writeback,
-			anonPages: memory.anonPages,
-			mapped: memory.mapped,
-			shmem: memory.shmem,
-			slab: memory.slab,
-			sReclaimable: memory.sReclaimable,
-			sUnreclaim: memory.sUnreclaim,
-			usedPercent: memory.usedPercent,
-			swapUsedPercent: memory.swapUsedPercent
-		}),
-
-		// Network interfaces
-		...network.interfaces.map((iface) =>
-			db.insert(schema.networkInterfaceReadings).values({
-				readingId,
-				name: iface.name,
-				address: iface.address,
-				carrier: iface.carrier,
-				carrierChanges: iface.carrierChanges,
-				operstate: iface.operstate,
-				mtu: iface.mtu,
-				type: iface.type,
-				rxBytes: iface.stats.rxBytes,
-				txBytes: iface.stats.txBytes,
-				rxPackets: iface.stats.rxPackets,
-				txPackets: iface.stats.txPackets,
-				rxErrors: iface.stats.rxErrors,
-				txErrors: iface.stats.txErrors,
-				rxDropped: iface.stats.rxDropped,
-				txDropped: iface.stats.txDropped,
-				rxFifo: iface.stats.rxFifo,
-				txFifo: iface.stats.txFifo,
-				rxFrame: iface.stats.rxFrame,
-				txCarrier: iface.stats.txCarrier,
-				collisions: iface.stats.collisions
-			})
-		),
+	for (const payload of payloads) {
+		try {
+			outcomes.push(toOutcome(await processTelemetryPayload(payload, receivedAt)));
+		} catch (error) {
+			console.error(`Error storing telemetry payload from ${payload.deviceId}:`, error);
+			outcomes.push({ status: 'failed', error: errorMessage(error) });
+		}
+	}
 
-		// Network summary
-		db.insert(schema.networkSummaryReadings).values({
-			readingId,
-			totalRxBytes: network.totalRxBytes,
-			totalTxBytes: network.totalTxBytes,
-			wifiSignalStrength: network.wifi?.signalStrength ?? null,
-			wifiLinkQuality: network.wifi?.linkQuality ?? null,
-			wifiNoiseLevel: network.wifi?.noiseLevel ?? null,
-			wifiSsid: network.wifi?.ssid ?? null,
-			wifiFrequency: network.wifi?.frequency ?? null,
-			wifiBitrate: network.wifi?.bitrate ?? null
-		})
-	]);
+	return outcomes;
 }
 
 /**
- * Insert storage device recursively (for partitions)
+ * Clock skew samples of a device over the last `hours`, or null for an
+ * unknown device
  */
-async function insertStorageDevice(
-	readingId: number,
-	device: BlockDeviceTelemetry,
-	parentDeviceId: number | null = null
-): Promise<void> {
-	const [inserted] = await db
-		.insert(schema.storageDeviceReadings)
-		.values({
-			readingId,
-			parentDeviceId,
-			name: device.name,
-			type: device.type,
-			size: device.size,
-			bytesRead: device.bytesRead,
-			bytesWritten: device.bytesWritten,
-			readsCompleted: device.stats.readsCompleted,
-			readsMerged: device.stats.readsMerged,
-			sectorsRead: device.stats.sectorsRead,
-			readTimeMs: device.stats.readTimeMs,
-			writesCompleted: device.stats.writesCompleted,
-			writesMerged: device.stats.writesMerged,
-			sectorsWritten: device.stats.sectorsWritten,
-			writeTimeMs: device.stats.writeTimeMs,
-			iosInProgress: device.stats.iosInProgress,
-			ioTimeMs: device.stats.ioTimeMs,
-			weightedIoTimeMs: device.stats.weightedIoTimeMs
-		})
-		.returning({ id: schema.storageDeviceReadings.id });
+export async function getClockSkewHistory(
+	deviceId: string,
+	hours = 24 * 7,
+	limit = 1000
+): Promise<ClockSkewHistory | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+	const rows = await db.query.deviceClockSkew.findMany({
+		where: and(
+			eq(schema.deviceClockSkew.deviceId, device.id),
+			gte(schema.deviceClockSkew.receivedAt, since)
+		),
+		orderBy: [desc(schema.deviceClockSkew.receivedAt)],
+		limit,
+		columns: { id: false, deviceId: false }
+	});
 
-	// Insert partitions recursively
-	if (device.partitions) {
-		for (const partition of device.partitions) {
-			await insertStorageDevice(readingId, partition, inserted.id);
-		}
-	}
+	return { deviceId, latest: rows[0] ?? null, samples: rows.reverse() };
 }
 
 /**
- * Insert medium-frequency telemetry data
+ * Rolled-up history of a device's metrics between `from` and `until`, at
+ * `resolution` or the one picked for the range. The bucket containing `from`
+ * is included. Returns null for an unknown device.
  */
-async function insertMediumFrequencyData(
-	readingId: number,
-	data: MediumFrequencyTelemetry
-): Promise<void> {
-	const { cpuStats, gpu, storage, processes } = data;
-
-	// CPU frequency stats
-	const cpuFreqStatsInserts =
-		cpuStats.frequencyStats?.map((stat) =>
-			db.insert(schema.cpuFrequencyStats).values({
-				readingId,
-				cpu: stat.cpu,
-				timeInState: stat.timeInState,
-				totalTransitions: stat.totalTransitions
-			})
-		) ?? [];
-
-	// CPU idle stats
-	const cpuIdleStatsInserts =
-		cpuStats.idleStats?.map((stat) =>
-			db.insert(schema.cpuIdleStats).values({
-				readingId,
-				cpu: stat.cpu,
-				states: stat.states
-			})
-		) ?? [];
-
-	// Process readings
-	// Linux reports RLIM_INFINITY as ~18446744073709551615 (2^64 - 1) for unlimited rss_limit
-	// JavaScript can't precisely represent integers > Number.MAX_SAFE_INTEGER (9007199254740991)
-	// Use MAX_SAFE_INTEGER as the cap since it fits in PostgreSQL bigint and is safely representable
-	const clampToBigint = (value: number): number => {
-		return value > Number.MAX_SAFE_INTEGER ? Number.MAX_SAFE_INTEGER : value;
-	};
-
-	const processInserts = processes.processes.map((proc) =>
-		db.insert(schema.processReadings).values({
-			readingId,
-			pid: proc.pid,
-			name: proc.name,
-			state: proc.state,
-			ppid: proc.ppid,
-			pgrp: proc.pgrp,
-			session: proc.session,
-			userTimeMs: proc.userTimeMs,
-			systemTimeMs: proc.systemTimeMs,
-			totalCpuTimeMs: proc.totalCpuTimeMs,
-			cpuPercent: proc.cpuPercent ?? null,
-			vsize: proc.vsize,
-			rss: proc.rss,
-			rssLimit: clampToBigint(proc.rssLimit),
-			memoryPercent: proc.memoryPercent,
-			numThreads: proc.numThreads,
-			nice: proc.nice,
-			priority: proc.priority,
-			startTime: proc.startTime,
-			cmdline: proc.cmdline,
-			oomScore: proc.oomScore,
-			readBytes: proc.readBytes ?? null,
-			writeBytes: proc.writeBytes ?? null
+export async function getMetricHistory(
+	deviceId: string,
+	metrics: string[],
+	from: Date,
+	until: Date,
+	resolution?: RollupResolution
+): Promise<MetricHistory | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const chosen = resolution ?? pickRollupResolution(from, until);
+	const length = ROLLUP_RESOLUTION_MS[chosen];
+	const rollups = schema.telemetryRollups;
+	const rows = await db
+		.select({
+			metric: rollups.metric,
+			bucketStart: rollups.bucketStart,
+			count: rollups.count,
+			sum: rollups.sum,
+			min: rollups.min,
+			max: rollups.max,
+			last: rollups.last
 		})
+		.from(rollups)
+		.where(
+			and(
+				eq(rollups.deviceId, device.id),
+				eq(rollups.resolution, chosen),
+				inArray(rollups.metric, metrics),
+				gte(rollups.bucketStart, new Date(Math.floor(from.getTime() / length) * length)),
+				lt(rollups.bucketStart, until)
+			)
+		)
+		.orderBy(asc(rollups.bucketStart));
+
+	const points: Record<string, MetricHistoryPoint[]> = Object.fromEntries(
+		metrics.map((metric) => [metric, []])
 	);
-
-	await Promise.all([
-		...cpuFreqStatsInserts,
-		...cpuIdleStatsInserts,
-
-		// GPU
-		db.insert(schema.gpuReadings).values({
-			readingId,
-			currentFreq: gpu.frequency.currentFreq,
-			targetFreq: gpu.frequency.targetFreq,
-			minFreq: gpu.frequency.minFreq,
-			maxFreq: gpu.frequency.maxFreq,
-			governor: gpu.frequency.governor,
-			availableFrequencies: gpu.frequency.availableFrequencies,
-			pollingIntervalMs: gpu.frequency.pollingIntervalMs,
-			transitionStats: gpu.transitionStats ?? null,
-			totalTransitions: gpu.totalTransitions ?? null
-		}),
-
-		// Storage summary
-		db.insert(schema.storageSummaryReadings).values({
-			readingId,
-			totalBytesRead: storage.totalBytesRead,
-			totalBytesWritten: storage.totalBytesWritten,
-			totalIoTimeMs: storage.totalIoTimeMs
-		}),
-
-		// Process summary
-		db.insert(schema.processSummaryReadings).values({
-			readingId,
-			total: processes.summary.total,
-			running: processes.summary.running,
-			sleeping: processes.summary.sleeping,
-			zombie: processes.summary.zombie,
-			stopped: processes.summary.stopped,
-			totalCpuTime: processes.totalCpuTime,
-			contextSwitches: processes.contextSwitches,
-			processesCreated: processes.processesCreated
-		}),
-
-		...processInserts
-	]);
-
-	// Insert storage devices (recursive, so done separately)
-	for (const device of storage.devices) {
-		await insertStorageDevice(readingId, device);
+	for (const row of rows) {
+		points[row.metric].push({
+			timestamp: row.bucketStart,
+			count: row.count,
+			avg: row.sum / row.count,
+			min: row.min,
+			max: row.max,
+			last: row.last
+		});
 	}
+
+	return { deviceId, resolution: chosen, from, until, metrics: points };
 }
 
 /**
- * Insert low-frequency telemetry data
+ * Processes of a device seen in the last `hours`, most recently seen first,
+ * optionally filtered by name (case-insensitive substring); null for an
+ * unknown device
  */
-async function insertLowFrequencyData(
-	readingId: number,
-	data: LowFrequencyTelemetry
-): Promise<void> {
-	const { sensors, system } = data;
-
-	// LED readings
-	const ledInserts = system.leds.map((led) =>
-		db.insert(schema.ledReadings).values({
-			readingId,
-			name: led.name,
-			brightness: led.brightness,
-			maxBrightness: led.maxBrightness,
-			trigger: led.trigger
+export async function listDeviceProcesses(
+	deviceId: string,
+	options: { hours?: number; name?: string; limit?: number } = {}
+): Promise<ProcessIdentity[] | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const processes = schema.deviceProcesses;
+	const since = new Date(Date.now() - (options.hours ?? 24) * 60 * 60 * 1000);
+	return db
+		.select({
+			id: processes.id,
+			boot: processes.boot,
+			pid: processes.pid,
+			name: processes.name,
+			cmdline: processes.cmdline,
+			startTime: processes.startTime,
+			firstSeenAt: processes.firstSeenAt,
+			lastSeenAt: processes.lastSeenAt
 		})
-	);
+		.from(processes)
+		.where(
+			and(
+				eq(processes.deviceId, device.id),
+				gte(processes.lastSeenAt, since),
+				options.name ? ilike(processes.name, `%${options.name}%`) : undefined
+			)
+		)
+		.orderBy(desc(processes.lastSeenAt))
+		.limit(options.limit ?? 200);
+}
 
-	// RF Kill readings
-	const rfKillInserts = system.rfkill.map((rf) =>
-		db.insert(schema.rfKillReadings).values({
-			readingId,
-			type: rf.type,
-			name: rf.name,
-			softBlocked: rf.softBlocked,
-			hardBlocked: rf.hardBlocked
+/**
+ * CPU, memory, thread and IO samples of one process over the last `hours`
+ * of its life; null for an unknown device or process
+ */
+export async function getProcessHistory(
+	deviceId: string,
+	processId: number,
+	hours?: number
+): Promise<ProcessHistory | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const process = await db.query.deviceProcesses.findFirst({
+		where: and(
+			eq(schema.deviceProcesses.id, processId),
+			eq(schema.deviceProcesses.deviceId, device.id)
+		),
+		columns: { deviceId: false, lastCpuTimeMs: false }
+	});
+	if (!process) return null;
+
+	const rows = schema.processReadings;
+	const readings = schema.telemetryReadings;
+	const samples = await db
+		.select({
+			timestamp: readings.timestamp,
+			state: rows.state,
+			cpuPercent: rows.cpuPercent,
+			rss: rows.rss,
+			memoryPercent: rows.memoryPercent,
+			numThreads: rows.numThreads,
+			readBytes: rows.readBytes,
+			writeBytes: rows.writeBytes
 		})
-	);
+		.from(rows)
+		.innerJoin(readings, eq(readings.id, rows.readingId))
+		.where(
+			and(
+				eq(rows.processId, process.id),
+				hours
+					? gte(readings.timestamp, new Date(process.lastSeenAt.getTime() - hours * 60 * 60 * 1000))
+					: undefined
+			)
+		)
+		.orderBy(asc(readings.timestamp));
+
+	return { deviceId, process, samples };
+}
 
-	await Promise.all([
-		// Sensors
-		db.insert(schema.sensorReadings).values({
-			readingId,
-			illuminanceRaw: sensors.ambientLight.illuminanceRaw,
-			illuminanceScale: sensors.ambientLight.illuminanceScale,
-			illuminanceLux: sensors.ambientLight.illuminanceLux,
-			proximityRaw: sensors.proximity.proximityRaw,
-			proximityScale: sensors.proximity.proximityScale,
-			nearLevel: sensors.proximity.nearLevel,
-			isNear: sensors.proximity.isNear,
-			accelRawX: sensors.accelerometer.raw.x,
-			accelRawY: sensors.accelerometer.raw.y,
-			accelRawZ: sensors.accelerometer.raw.z,
-			accelScale: sensors.accelerometer.scale,
-			accelX: sensors.accelerometer.acceleration.x,
-			accelY: sensors.accelerometer.acceleration.y,
-			accelZ: sensors.accelerometer.acceleration.z,
-			accelMagnitude: sensors.accelerometer.magnitude,
-			gyroRawX: sensors.gyroscope.raw.x,
-			gyroRawY: sensors.gyroscope.raw.y,
-			gyroRawZ: sensors.gyroscope.raw.z,
-			gyroScale: sensors.gyroscope.scale,
-			gyroX: sensors.gyroscope.angularVelocity.x,
-			gyroY: sensors.gyroscope.angularVelocity.y,
-			gyroZ: sensors.gyroscope.angularVelocity.z,
-			gyroMagnitude: sensors.gyroscope.magnitude,
-			magRawX: sensors.magnetometer.raw.x,
-			magRawY: sensors.magnetometer.raw.y,
-			magRawZ: sensors.magnetometer.raw.z,
-			magScale: sensors.magnetometer.scale,
-			magX: sensors.magnetometer.magneticField.x,
-			magY: sensors.magnetometer.magneticField.y,
-			magZ: sensors.magnetometer.magneticField.z,
-			magHeading: sensors.magnetometer.heading,
-			adcChannels: sensors.adcChannels
-		}),
-
-		// Display
-		db.insert(schema.displayReadings).values({
-			readingId,
-			brightness: system.display.brightness,
-			maxBrightness: system.display.maxBrightness,
-			brightnessPercent: system.display.brightnessPercent,
-			power: system.display.power
-		}),
-
-		// System wakeup
-		db.insert(schema.systemWakeupReadings).values({
-			readingId,
-			wakeupCount: system.wakeupCount
-		}),
-
-		...ledInserts,
-		...rfKillInserts
-	]);
+function toBootSession(row: typeof schema.bootSessions.$inferSelect): BootSession {
+	return {
+		id: row.id,
+		bootedAt: row.bootedAt,
+		firstReadingAt: row.firstReadingAt,
+		lastReadingAt: row.lastReadingAt,
+		durationSeconds: (row.lastReadingAt.getTime() - row.bootedAt.getTime()) / 1000,
+		readings: row.readings,
+		firstBatteryCapacity: row.firstBatteryCapacity,
+		lastBatteryCapacity: row.lastBatteryCapacity,
+		lastBatteryStatus: row.lastBatteryStatus,
+		// Every boot but the latest gets an end reason
+		current: row.endReason === null,
+		endReason: row.endReason
+	};
 }
 
 /**
- * Process a single telemetry payload
+ * Boot sessions of a device, latest first; null for an unknown device
  */
-export async function processTelemetryPayload(
-	payload: TelemetryPayload
-): Promise<TelemetryInsertResult> {
-	// Get or create device
-	const deviceDbId = await getOrCreateDevice(payload.deviceId);
-
-	// Parse timestamp
-	const timestamp = new Date(payload.timestamp);
-
-	// Create main reading record
-	const readingId = await createReading(deviceDbId, timestamp, payload.timestampMs, payload.frequency);
-
-	// Insert frequency-specific data
-	switch (payload.frequency) {
-		case 'high':
-			await insertHighFrequencyData(readingId, payload.data as HighFrequencyTelemetry);
-			break;
-		case 'medium':
-			await insertMediumFrequencyData(readingId, payload.data as MediumFrequencyTelemetry);
-			break;
-		case 'low':
-			await insertLowFrequencyData(readingId, payload.data as LowFrequencyTelemetry);
-			break;
-	}
-
-	return { readingId, deviceId: deviceDbId };
+export async function listBootSessions(
+	deviceId: string,
+	limit = 50
+): Promise<BootSession[] | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const rows = await db
+		.select()
+		.from(schema.bootSessions)
+		.where(eq(schema.bootSessions.deviceId, device.id))
+		.orderBy(desc(schema.bootSessions.bootedAt))
+		.limit(limit);
+	return rows.map(toBootSession);
 }
 
 /**
- * Process multiple telemetry payloads in batch
+ * Boot sessions of a device by id, in the order asked for; null for an
+ * unknown device or when any of the sessions is not the device's
  */
-export async function processTelemetryBatch(
-	payloads: TelemetryPayload[]
-): Promise<TelemetryInsertResult[]> {
-	const results: TelemetryInsertResult[] = [];
+export async function getBootSessions(
+	deviceId: string,
+	bootIds: number[]
+): Promise<BootSession[] | null> {
+	const device = await db.query.devices.findFirst({ where: eq(schema.devices.deviceId, deviceId) });
+	if (!device) return null;
+
+	const rows = await db
+		.select()
+		.from(schema.bootSessions)
+		.where(
+			and(eq(schema.bootSessions.deviceId, device.id), inArray(schema.bootSessions.id, bootIds))
+		);
+	const sessions = new Map(rows.map((row) => [row.id, toBootSession(row)]));
+	if (bootIds.some((id) => !sessions.has(id))) return null;
+	return bootIds.map((id) => sessions.get(id)!);
+}
 
-	for (const payload of payloads) {
-		const result = await processTelemetryPayload(payload);
-		results.push(result);
+/**
+ * Rolled-up history of metrics for several boots of a device, each placed by
+ * time since its boot so they can be overlaid. All boots use `resolution` or
+ * the one picked for the longest boot. Returns null for an unknown device or
+ * boot.
+ */
+export async function compareBoots(
+	deviceId: string,
+	bootIds: number[],
+	metrics: string[],
+	resolution?: RollupResolution
+): Promise<BootComparison | null> {
+	const sessions = await getBootSessions(deviceId, bootIds);
+	if (!sessions) return null;
+
+	const longest = Math.max(...sessions.map((session) => session.durationSeconds)) * 1000;
+	const chosen = resolution ?? pickRollupResolution(new Date(0), new Date(longest));
+
+	const boots: BootComparison['boots'] = [];
+	for (const session of sessions) {
+		const history = (await getMetricHistory(
+			deviceId,
+			metrics,
+			session.bootedAt,
+			new Date(session.lastReadingAt.getTime() + 1),
+			chosen
+		))!;
+		const bootedAt = session.bootedAt.getTime();
+		const points: Record<string, BootMetricPoint[]> = {};
+		for (const [metric, list] of Object.entries(history.metrics)) {
+			points[metric] = list.map((point) => ({
+				...point,
+				offsetSeconds: Math.max(0, (point.timestamp.getTime() - bootedAt) / 1000)
+			}));
+		}
+		boots.push({ session, metrics: points });
 	}
 
-	return results;
+	return { deviceId, resolution: chosen, boots };
 }
-
@@ -0,0 +1,365 @@
+/**
+ * Durable ingestion spool for INGEST_MODE=async.
+ *
+ * Validated uploads are written to SPOOL_DIR as one file each (fsynced and
+ * renamed into place, so a crash never leaves a partial entry) and
+ * acknowledged right away. A background worker drains the files into the
+ * database in arrival order:
+ *
+ * - payloads of an upload that could not be stored stay in its file and are
+ *   retried with exponential backoff
+ * - while an upload of a device is waiting for a retry, later uploads touching
+ *   the same device wait as well, so each device's readings arrive in order
+ * - retries while the database is unreachable do not count as attempts; after
+ *   SPOOL_MAX_ATTEMPTS failed attempts against a healthy database the upload
+ *   is moved to `dead/` for inspection
+ */
+
+import { mkdir, open, readFile, readdir, rename, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+import { envNumber, envString } from '../config';
+import { processTelemetryBatch, type BatchOptions } from './service';
+import type { TelemetryPayload } from './types';
+
+export type IngestMode = 'sync' | 'async';
+
+interface SpoolEntry {
+	id: string;
+	receivedAt: string;
+	/** Store all payloads in one transaction (see BatchOptions) */
+	atomic?: boolean;
+	attempts: number;
+	lastError?: string;
+	payloads: TelemetryPayload[];
+}
+
+export interface SpoolStatus {
+	/** Uploads waiting to be stored */
+	depth: number;
+	/** Payloads in those uploads */
+	payloads: number;
+	/** Age of the oldest waiting upload, in seconds */
+	lagSeconds: number;
+	/** Uploads given up on, kept in `dead/` */
+	deadLetters: number;
+	lastDrainAt: string | null;
+	lastError: string | null;
+	workerRunning: boolean;
+}
+
+/**
+ * How uploads are stored: `sync` writes to the database before responding,
+ * `async` acknowledges once the upload is in the spool
+ */
+export function ingestMode(): IngestMode {
+	return envString('INGEST_MODE') === 'async' ? 'async' : 'sync';
+}
+
+function spoolDir(): string {
+	return path.resolve(envString('SPOOL_DIR') ?? 'data/spool');
+}
+
+function maxAttempts(): number {
+	return envNumber('SPOOL_MAX_ATTEMPTS', 10);
+}
+
+function pollIntervalMs(): number {
+	return envNumber('SPOOL_POLL_INTERVAL_MS', 1000);
+}
+
+const PENDING = 'pending';
+const DEAD = 'dead';
+
+let sequence = 0;
+
+/**
+ * File names sort in arrival order and carry the payload count (renamed when
+ * some payloads were stored), so the queue status can be computed from a
+ * directory listing:
+ * `<receivedAt ms>-<sequence>-<payload count>.json`
+ */
+function entryFileName(receivedAt: Date, count: number): string {
+	sequence = (sequence + 1) % 1_000_000;
+	const time = receivedAt.getTime().toString().padStart(15, '0');
+	return `${time}-${process.pid}${sequence.toString().padStart(6, '0')}-${count}.json`;
+}
+
+function parseFileName(name: string): { receivedAtMs: number; count: number } | null {
+	const match = /^(\d+)-\d+-(\d+)\.json$/.exec(name);
+	return match ? { receivedAtMs: Number(match[1]), count: Number(match[2]) } : null;
+}
+
+/** The file name of an entry after its payload count changed; it keeps its place */
+function withCount(name: string, count: number): string {
+	return name.replace(/-\d+\.json$/, `-${count}.json`);
+}
+
+async function ensureDirs(): Promise<void> {
+	await mkdir(path.join(spoolDir(), PENDING), { recursive: true });
+	await mkdir(path.join(spoolDir(), DEAD), { recursive: true });
+}
+
+/** Write a file durably: temp file, fsync, atomic rename, fsync directory */
+async function writeDurably(file: string, contents: string): Promise<void> {
+	const temp = `${file}.tmp`;
+	const handle = await open(temp, 'w');
+	try {
+		await handle.writeFile(contents);
+		await handle.sync();
+	} finally {
+		await handle.close();
+	}
+	await rename(temp, file);
+
+	const dir = await open(path.dirname(file), 'r');
+	try {
+		await dir.sync();
+	} finally {
+		await dir.close();
+	}
+}
+
+/**
+ * Append an upload to the spool. Resolves once it is on disk; returns the
+ * spool entry id.
+ */
+export async function spoolPayloads(
+	payloads: TelemetryPayload[],
+	options: BatchOptions = {}
+): Promise<string> {
+	await ensureDirs();
+	const receivedAt = options.receivedAt ?? new Date();
+	const name = entryFileName(receivedAt, payloads.length);
+	const entry: SpoolEntry = {
+		id: name.replace(/\.json$/, ''),
+		receivedAt: receivedAt.toISOString(),
+		atomic: options.atomic,
+		attempts: 0,
+		payloads
+	};
+	await writeDurably(path.join(spoolDir(), PENDING, name), JSON.stringify(entry));
+	wakeSpoolWorker();
+	return entry.id;
+}
+
+async function listEntries(dir: string): Promise<string[]> {
+	try {
+		return (await readdir(path.join(spoolDir(), dir))).filter((n) => parseFileName(n)).sort();
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+		throw error;
+	}
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+let running = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let draining: Promise<void> | null = null;
+let lastDrainAt: Date | null = null;
+let lastError: string | null = null;
+/** The last pass stopped because the database was down */
+let outage = false;
+/** Earliest next attempt per entry file, for backoff */
+const retryAt = new Map<string, number>();
+/** Devices per entry file, so waiting entries are not re-read every pass */
+const devicesOf = new Map<string, string[]>();
+
+async function databaseReachable(): Promise<boolean> {
+	try {
+		await db.execute(sql`SELECT 1`);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function backoffMs(attempts: number): number {
+	return Math.min(5 * 60 * 1000, 1000 * 2 ** attempts);
+}
+
+type DrainResult = 'done' | 'retry' | 'outage';
+
+/**
+ * Store one spooled upload
+ */
+async function drainEntry(name: string, entry: SpoolEntry): Promise<DrainResult> {
+	const file = path.join(spoolDir(), PENDING, name);
+
+	const outcomes = await processTelemetryBatch(entry.payloads, {
+		atomic: entry.atomic,
+		receivedAt: new Date(entry.receivedAt)
+	});
+	const failed = entry.payloads.filter((_, i) => outcomes[i].status === 'failed');
+	if (failed.length === 0) {
+		await rm(file);
+		return 'done';
+	}
+
+	const error = outcomes.find((o) => o.status === 'failed');
+	lastError = error?.status === 'failed' ? error.error : 'Unknown error';
+
+	// An outage is not the upload's fault; try again unchanged
+	if (failed.length === entry.payloads.length && !(await databaseReachable())) {
+		return 'outage';
+	}
+
+	const remaining: SpoolEntry = {
+		...entry,
+		attempts: entry.attempts + 1,
+		lastError,
+		payloads: failed
+	};
+
+	// The file name carries the payload count, so the entry is renamed as it shrinks
+	const renamed = withCount(name, failed.length);
+
+	if (remaining.attempts >= maxAttempts()) {
+		console.error(`Giving up on spooled upload ${entry.id} after ${remaining.attempts} attempts`);
+		await writeDurably(path.join(spoolDir(), DEAD, renamed), JSON.stringify(remaining));
+		await rm(file);
+		return 'done';
+	}
+
+	// Written before the old file goes, so a crash in between stores payloads twice at worst,
+	// which ingestion deduplicates
+	await writeDurably(path.join(spoolDir(), PENDING, renamed), JSON.stringify(remaining));
+	if (renamed !== name) {
+		await rm(file);
+		retryAt.delete(name);
+		devicesOf.delete(name);
+	}
+	retryAt.set(renamed, Date.now() + backoffMs(remaining.attempts));
+	return 'retry';
+}
+
+/**
+ * Drain the spool once, oldest upload first. Uploads of a device wait while
+ * an earlier upload touching that device is waiting for a retry.
+ */
+export async function drainSpool(): Promise<void> {
+	if (outage && !(await databaseReachable())) return;
+	outage = false;
+
+	const names = await listEntries(PENDING);
+	const blocked = new Set<string>();
+
+	for (const name of names) {
+		const file = path.join(spoolDir(), PENDING, name);
+
+		let entry: SpoolEntry | null = null;
+		let devices = devicesOf.get(name);
+		if (!devices) {
+			try {
+				entry = JSON.parse(await readFile(file, 'utf8')) as SpoolEntry;
+			} catch (error) {
+				console.error(`Unreadable spool entry ${name}, moving it aside:`, error);
+				await rename(file, path.join(spoolDir(), DEAD, name));
+				continue;
+			}
+			devices = [...new Set(entry.payloads.map((p) => p.deviceId))];
+			devicesOf.set(name, devices);
+		}
+
+		const ready = (retryAt.get(name) ?? 0) <= Date.now();
+		if (!ready || devices.some((d) => blocked.has(d))) {
+			devices.forEach((d) => blocked.add(d));
+			continue;
+		}
+
+		entry ??= JSON.parse(await readFile(file, 'utf8')) as SpoolEntry;
+		let result: DrainResult;
+		try {
+			result = await drainEntry(name, entry);
+		} catch (error) {
+			console.error(`Error draining spool entry ${name}:`, error);
+			lastError = error instanceof Error ? error.message : 'Unknown error';
+			retryAt.set(name, Date.now() + backoffMs(entry.attempts + 1));
+			result = 'retry';
+		}
+
+		if (result === 'outage') {
+			outage = true;
+			break;
+		}
+		if (result === 'retry') {
+			devices.forEach((d) => blocked.add(d));
+		} else {
+			retryAt.delete(name);
+			devicesOf.delete(name);
+		}
+	}
+
+	lastDrainAt = new Date();
+}
+
+function schedule(delayMs: number): void {
+	if (!running) return;
+	if (timer) clearTimeout(timer);
+	timer = setTimeout(runWorker, delayMs);
+}
+
+async function runWorker(): Promise<void> {
+	timer = null;
+	if (draining) return;
+	draining = drainSpool()
+		.catch((error) => {
+			console.error('Spool worker failed:', error);
+			lastError = error instanceof Error ? error.message : 'Unknown error';
+		})
+		.finally(() => {
+			draining = null;
+			schedule(pollIntervalMs());
+		});
+}
+
+/**
+ * Start draining the spool in the background (no-op unless INGEST_MODE=async)
+ */
+export async function startSpoolWorker(): Promise<void> {
+	if (running || ingestMode() !== 'async') return;
+	await ensureDirs();
+	running = true;
+	console.log(`Telemetry spool worker started (${spoolDir()})`);
+	schedule(0);
+}
+
+/**
+ * Stop the background worker after the current drain pass
+ */
+export async function stopSpoolWorker(): Promise<void> {
+	running = false;
+	if (timer) clearTimeout(timer);
+	timer = null;
+	await draining;
+}
+
+/**
+ * Drain soon, e.g. right after an upload was spooled
+ */
+export function wakeSpoolWorker(): void {
+	if (running && !draining) schedule(0);
+}
+
+/**
+ * Queue depth and lag, for the health endpoint
+ */
+export async function getSpoolStatus(): Promise<SpoolStatus> {
+	const pending = (await listEntries(PENDING)).map((name) => parseFileName(name)!);
+	const dead = await listEntries(DEAD);
+	const oldest = pending.length > 0 ? pending[0].receivedAtMs : null;
+
+	return {
+		depth: pending.length,
+		payloads: pending.reduce((sum, entry) => sum + entry.count, 0),
+		lagSeconds: oldest === null ? 0 : Math.max(0, Math.round((Date.now() - oldest) / 1000)),
+		deadLetters: dead.length,
+		lastDrainAt: lastDrainAt?.toISOString() ?? null,
+		lastError,
+		workerRunning: running
+	};
+}
@@ -0,0 +1,99 @@
+/**
+ * Ingestion statistics. Request body sizes are kept in memory and reset when
+ * the process restarts; payloads per schema version are counted from the
+ * stored readings.
+ */
+
+import { count, eq } from 'drizzle-orm';
+import { db } from '../db';
+import * as schema from '../db/schema';
+import { CURRENT_SCHEMA_VERSION, supportedSchemaVersions } from './versions';
+
+export interface EncodingStats {
+	requests: number;
+	/** Bytes as received on the wire */
+	compressedBytes: number;
+	/** Bytes after Content-Encoding was removed */
+	decompressedBytes: number;
+}
+
+export interface IngestionStats {
+	since: string;
+	requests: number;
+	compressedBytes: number;
+	decompressedBytes: number;
+	/** compressedBytes / decompressedBytes over all requests */
+	compressionRatio: number | null;
+	byEncoding: Record<string, EncodingStats>;
+	schemaVersions: {
+		current: number;
+		supported: number[];
+		/** Stored client readings per version their payload was sent with */
+		ingested: Record<string, number>;
+	};
+}
+
+const startedAt = new Date();
+const byEncoding = new Map<string, EncodingStats>();
+
+/**
+ * Record the size of one ingestion request body
+ */
+export function recordRequestBody(
+	encoding: string,
+	compressedBytes: number,
+	decompressedBytes: number
+): void {
+	let stats = byEncoding.get(encoding);
+	if (!stats) {
+		stats = { requests: 0, compressedBytes: 0, decompressedBytes: 0 };
+		byEncoding.set(encoding, stats);
+	}
+	stats.requests++;
+	stats.compressedBytes += compressedBytes;
+	stats.decompressedBytes += decompressedBytes;
+}
+
+/**
+ * Stored client readings per schema version. OTLP readings have no payload
+ * version and are left out.
+ */
+async function readingsBySchemaVersion(): Promise<Record<string, number>> {
+	const readings = schema.telemetryReadings;
+	const rows = await db
+		.select({ version: readings.schemaVersion, readings: count() })
+		.from(readings)
+		.where(eq(readings.source, 'client'))
+		.groupBy(readings.schemaVersion)
+		.orderBy(readings.schemaVersion);
+	return Object.fromEntries(rows.map((row) => [row.version, row.readings]));
+}
+
+/**
+ * Snapshot of the request statistics collected since startup, and the
+ * payloads stored per schema version
+ */
+export async function getIngestionStats(): Promise<IngestionStats> {
+	let requests = 0;
+	let compressedBytes = 0;
+	let decompressedBytes = 0;
+	for (const stats of byEncoding.values()) {
+		requests += stats.requests;
+		compressedBytes += stats.compressedBytes;
+		decompressedBytes += stats.decompressedBytes;
+	}
+
+	return {
+		since: startedAt.toISOString(),
+		requests,
+		compressedBytes,
+		decompressedBytes,
+		compressionRatio: decompressedBytes > 0 ? compressedBytes / decompressedBytes : null,
+		byEncoding: Object.fromEntries(byEncoding),
+		schemaVersions: {
+			current: CURRENT_SCHEMA_VERSION,
+			supported: supportedSchemaVersions(),
+			ingested: await readingsBySchemaVersion()
+		}
+	};
+}
@@ -0,0 +1,208 @@
+/**
+ * NDJSON ingestion - parses newline-delimited payloads from a body stream and
+ * stores them in small batches, so arbitrarily large uploads use bounded memory
+ */
+
+import { envNumber } from '../config';
+import { processTelemetryBatch } from './service';
+import { waitForRateLimit } from './ratelimit';
+import { formatValidationIssues, validateTelemetryPayload } from './validation';
+import type { StreamLineAck, StreamSummary, TelemetryPayload } from './types';
+
+export interface NdjsonOptions {
+	/**
+	 * Check that the request may write the given device ids.
+	 * Returns null when allowed, or the reason to reject those lines.
+	 */
+	authorize?: (deviceIds: string[]) => Promise<string | null>;
+}
+
+export type NdjsonLine = { line: number; text: string } | { line: number; error: string };
+
+/** Payloads stored per transaction */
+function flushSize(): number {
+	return Math.max(1, envNumber('STREAM_BATCH_SIZE', 200));
+}
+
+/** Longest accepted line; longer lines are rejected without being buffered */
+function maxLineBytes(): number {
+	return envNumber('STREAM_MAX_LINE_BYTES', 1024 * 1024);
+}
+
+/**
+ * Split a byte stream into lines. Blank lines are skipped but still counted.
+ * Only the current line is held in memory.
+ */
+export async function* readLines(
+	chunks: AsyncIterable<Buffer>,
+	startLine = 1,
+	maxBytes = maxLineBytes()
+): AsyncGenerator<NdjsonLine> {
+	let line = startLine;
+	let parts: Buffer[] = [];
+	let length = 0;
+	let oversized = false;
+
+	function* finishLine(): Generator<NdjsonLine> {
+		if (oversized) {
+			yield { line, error: `Line exceeds ${maxBytes} bytes` };
+		} else if (length > 0) {
+			const text = Buffer.concat(parts, length).toString('utf8').trim();
+			if (text) yield { line, text };
+		}
+		line++;
+		parts = [];
+		length = 0;
+		oversized = false;
+	}
+
+	for await (const chunk of chunks) {
+		let start = 0;
+		while (start < chunk.length) {
+			const newline = chunk.indexOf(0x0a, start);
+			const end = newline === -1 ? chunk.length : newline;
+
+			if (!oversized) {
+				if (length + end - start > maxBytes) {
+					oversized = true;
+					parts = [];
+				} else if (end > start) {
+					parts.push(chunk.subarray(start, end));
+				}
+			}
+			length += end - start;
+
+			if (newline === -1) break;
+			yield* finishLine();
+			start = newline + 1;
+		}
+	}
+
+	if (length > 0 || oversized) yield* finishLine();
+}
+
+/**
+ * Parse, validate and store NDJSON lines, yielding one acknowledgement per
+ * non-blank line in line order, followed by a summary.
+ *
+ * Lines are stored in batches of STREAM_BATCH_SIZE; acknowledgements for a
+ * batch are yielded once it has been committed, so a client that loses the
+ * connection can resume after the last acknowledged line.
+ */
+export async function* ingestNdjson(
+	lines: AsyncIterable<NdjsonLine>,
+	options: NdjsonOptions = {}
+): AsyncGenerator<StreamLineAck | StreamSummary> {
+	const size = flushSize();
+	const summary: StreamSummary = {
+		done: true,
+		received: 0,
+		stored: 0,
+		duplicate: 0,
+		invalid: 0,
+		failed: 0,
+		lastLine: null
+	};
+
+	// Acks in line order; entries with a payload are filled in when stored
+	let pending: { ack: StreamLineAck; payload?: TelemetryPayload; bytes?: number }[] = [];
+
+	async function flush(): Promise<StreamLineAck[]> {
+		const batch = pending;
+		pending = [];
+
+		const toStore = batch.filter((entry) => entry.payload);
+		if (toStore.length > 0) {
+			const denied = options.authorize
+				? await options.authorize(toStore.map((entry) => entry.payload!.deviceId))
+				: null;
+
+			if (denied) {
+				for (const entry of toStore) {
+					entry.ack.status = 'invalid';
+					entry.ack.error = denied;
+				}
+			} else {
+				// Over the rate limits, the upload is slowed down rather than rejected
+				await waitForRateLimit(
+					toStore.map((entry) => ({
+						deviceId: entry.payload!.deviceId,
+						frequency: entry.payload!.frequency,
+						bytes: entry.bytes!
+					}))
+				);
+				const outcomes = await processTelemetryBatch(toStore.map((entry) => entry.payload!));
+				outcomes.forEach((outcome, i) => {
+					const ack = toStore[i].ack;
+					ack.status = outcome.status;
+					if (outcome.status === 'failed') ack.error = outcome.error;
+					else ack.id = outcome.result.readingId.toString();
+				});
+			}
+		}
+
+		for (const { ack } of batch) {
+			summary[ack.status]++;
+			summary.lastLine = ack.line;
+		}
+		return batch.map((entry) => entry.ack);
+	}
+
+	try {
+		for await (const entry of lines) {
+			summary.received++;
+
+			if ('error' in entry) {
+				pending.push({
+					ack: { line: entry.line, status: 'invalid', error: entry.error }
+				});
+			} else {
+				let value: unknown;
+				try {
+					value = JSON.parse(entry.text);
+				} catch {
+					value = undefined;
+				}
+
+				if (value === undefined) {
+					pending.push({
+						ack: {
+							line: entry.line,
+							status: 'invalid',
+							error: 'Line is not valid JSON'
+						}
+					});
+				} else {
+					const validation = validateTelemetryPayload(value);
+					pending.push(
+						validation.success
+							? {
+									ack: { line: entry.line, status: 'stored' },
+									payload: validation.value,
+									bytes: Buffer.byteLength(entry.text)
+								}
+							: {
+									ack: {
+										line: entry.line,
+										status: 'invalid',
+										error: 'Invalid telemetry payload',
+										errors: formatValidationIssues(validation.issues)
+									}
+								}
+					);
+				}
+			}
+
+			if (pending.length >= size) yield* await flush();
+		}
+
+		if (pending.length > 0) yield* await flush();
+	} catch (error) {
+		// The body stream broke off (client disconnect, corrupt compression);
+		// everything acknowledged so far is stored
+		console.error('Error reading telemetry stream:', error);
+		summary.error = error instanceof Error ? error.message : 'Failed to read request body';
+	}
+
+	yield summary;
+}
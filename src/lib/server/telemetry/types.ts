@@ -500,16 +500,37 @@ export interface LowFrequencyTelemetry {
 }
 
 export interface TelemetryPayload {
+	/**
+	 * Payload structure version (see ./versions); unversioned payloads are version 0.
+	 * Older versions are upgraded to the current structure during validation but
+	 * keep the version they were sent with.
+	 */
+	schemaVersion?: number;
 	deviceId: string;
 	timestamp: string;
 	timestampMs: number;
 	frequency: TelemetryFrequency;
+	/** Optional client-chosen key; a retried payload with the same key is not stored again */
+	idempotencyKey?: string;
 	data: HighFrequencyTelemetry | MediumFrequencyTelemetry | LowFrequencyTelemetry;
 }
 
+/** Tells clients to slow down before they hit the rate limits */
+export interface BackpressureHint {
+	/** Use of the tightest rate limit budget, from 0 (idle) to 1 (exhausted) */
+	load: number;
+	/** Suggested wait before the next upload; 0 when there is no pressure */
+	delayMs: number;
+}
+
 export interface TelemetryAck {
 	received: boolean;
 	id: string;
+	/** True when the payload had already been stored; `id` is the original reading */
+	duplicate?: boolean;
+	/** Accepted into the ingestion spool (INGEST_MODE=async); `id` is the spool entry */
+	queued?: boolean;
+	backpressure?: BackpressureHint;
 	timestamp: string;
 }
 
@@ -517,10 +538,301 @@ export interface BatchTelemetryPayload {
 	payloads: TelemetryPayload[];
 }
 
+/**
+ * Outcome of one batch entry. Clients can drop `stored` and `duplicate`
+ * entries from their offline buffer, retry `failed` ones and discard `invalid` ones.
+ */
+export type BatchItemStatus = 'stored' | 'duplicate' | 'queued' | 'invalid' | 'failed';
+
+export interface BatchItemResult {
+	index: number;
+	status: BatchItemStatus;
+	/** Reading id for stored and duplicate entries */
+	id?: string;
+	/** Why the entry was rejected, for invalid and failed entries */
+	error?: string;
+	/** Field-level problems of invalid entries, formatted as `path: reason` */
+	errors?: string[];
+}
+
+export interface BatchAck {
+	received: number;
+	stored: number;
+	duplicate: number;
+	/** Entries accepted into the ingestion spool (INGEST_MODE=async) */
+	queued: number;
+	invalid: number;
+	failed: number;
+	/** Reading ids of stored and duplicate entries, in payload order */
+	ids: string[];
+	/** One `Payload <index>: <reason>` line per rejected entry */
+	errors: string[];
+	items: BatchItemResult[];
+	/** Spool entry holding the queued entries */
+	spoolId?: string;
+	backpressure?: BackpressureHint;
+}
+
+/** Acknowledgement of one NDJSON line on the streaming endpoint */
+export interface StreamLineAck {
+	/** Line number in the upload (1-based, offset by `startLine`) */
+	line: number;
+	/** Streaming uploads are always stored synchronously */
+	status: Exclude<BatchItemStatus, 'queued'>;
+	id?: string;
+	error?: string;
+	errors?: string[];
+}
+
+/** Last line of a streaming response */
+export interface StreamSummary {
+	done: true;
+	/** Non-blank lines read, including any that were not acknowledged */
+	received: number;
+	stored: number;
+	duplicate: number;
+	invalid: number;
+	failed: number;
+	/** Highest acknowledged line; resume uploads after it */
+	lastLine: number | null;
+	/** Set when the upload broke off before the end of the body */
+	error?: string;
+}
+
+export interface ClockSkewEntry {
+	receivedAt: Date;
+	/** Newest device timestamp in the upload */
+	deviceTimestampMs: number;
+	/**
+	 * Device clock minus server clock; negative values include the upload delay.
+	 * Null for uploads of buffered readings.
+	 */
+	skewMs: number | null;
+	uptime: number | null;
+	/** Boot time according to the device clock */
+	bootEpochMs: number | null;
+	readings: number;
+	suspectReadings: number;
+	correctedReadings: number;
+}
+
+/**
+ * A newly stored high-frequency reading as pushed to live dashboards
+ * (GET /api/dashboard/stream); fields match the dashboard time series
+ */
+export interface LiveReading {
+	deviceId: string;
+	readingId: number;
+	/** Sample time, corrected when the device clock was off */
+	timestamp: string;
+	battery: {
+		capacity: number;
+		voltage: number;
+		current: number;
+		temperature: number;
+		status: BatteryStatus;
+		health: BatteryHealth;
+	};
+	thermal: { cpuTemp: number; gpuTemp: number; batteryTemp: number };
+	cpuLoad: { load1: number; load5: number; load15: number; uptime: number };
+	memory: { usedPercent: number; swapUsedPercent: number; available: number; total: number };
+}
+
+export interface ClockSkewHistory {
+	deviceId: string;
+	latest: ClockSkewEntry | null;
+	/** Oldest first */
+	samples: ClockSkewEntry[];
+}
+
+/** A process of a device, tracked across snapshots within one boot */
+export interface ProcessIdentity {
+	id: number;
+	boot: number;
+	pid: number;
+	name: string;
+	cmdline: string;
+	/** Seconds since boot */
+	startTime: number;
+	firstSeenAt: Date;
+	lastSeenAt: Date;
+}
+
+export interface ProcessSample {
+	timestamp: Date;
+	state: string;
+	/** Sent by the client or derived from the CPU time since the previous snapshot */
+	cpuPercent: number | null;
+	rss: number;
+	memoryPercent: number;
+	numThreads: number;
+	readBytes: number | null;
+	writeBytes: number | null;
+}
+
+export interface ProcessHistory {
+	deviceId: string;
+	process: ProcessIdentity;
+	/** Oldest first */
+	samples: ProcessSample[];
+}
+
+/** Device metadata reported by the client or set by admins; null when unknown */
+export interface DeviceMetadata {
+	hardwareRevision: string | null;
+	/** OS or distribution, e.g. "postmarketOS v24.06" */
+	os: string | null;
+	kernelVersion: string | null;
+	clientVersion: string | null;
+	modemFirmware: string | null;
+	/** Only set by admins */
+	owner: string | null;
+}
+
+export type DeviceMetadataField = keyof DeviceMetadata;
+
+export type MetadataSource = 'client' | 'admin';
+
+/** A device of the inventory */
+export interface Device {
+	deviceId: string;
+	name: string | null;
+	description: string | null;
+	metadata: DeviceMetadata;
+	/** Sorted; each tag groups the devices carrying it */
+	tags: string[];
+	createdAt: Date;
+	lastSeenAt: Date;
+	/** Archived devices keep their data but are hidden from listings */
+	archivedAt: Date | null;
+}
+
+export interface DeviceMetadataChange {
+	id: number;
+	field: DeviceMetadataField;
+	/** Null when the field was not set */
+	previousValue: string | null;
+	/** Null when the field was cleared */
+	value: string | null;
+	source: MetadataSource;
+	changedAt: Date;
+}
+
+export interface DeviceMetadataUpdate {
+	device: Device;
+	/** The fields that changed; empty when nothing did */
+	changes: DeviceMetadataChange[];
+}
+
+export interface DeviceTag {
+	tag: string;
+	/** Devices carrying the tag, not counting archived ones */
+	devices: number;
+}
+
+/** Daily figures of a group of devices, from the rollups */
+export interface FleetDay {
+	/** Day start (UTC) */
+	date: Date;
+	/** Devices with rolled-up readings that day */
+	devices: number;
+	/** Battery drain in %/hour over the hours spent discharging; null without such hours */
+	drainMedian: number | null;
+	drainP95: number | null;
+	/** Device-hours the drain figures are based on */
+	drainHours: number;
+	/** Highest CPU temperature of any device */
+	peakCpuTemp: number | null;
+	/** Average memory use over all readings of the group */
+	avgMemoryUsedPercent: number | null;
+}
+
+export interface FleetGroup {
+	/** Null for the whole fleet */
+	tag: string | null;
+	deviceIds: string[];
+	/** Every day of the range, oldest first */
+	days: FleetDay[];
+}
+
+export interface FleetComparison {
+	from: Date;
+	until: Date;
+	groups: FleetGroup[];
+}
+
+export interface DeletedDevice {
+	deviceId: string;
+	/** Readings deleted with the device */
+	readings: number;
+}
+
+/** Why a boot ended: ran out of battery, restarted within minutes, or was shut down */
+export type BootEndReason = 'battery' | 'restart' | 'shutdown';
+
+/** A boot of a device, from its boot time to its last reading */
+export interface BootSession {
+	id: number;
+	bootedAt: Date;
+	firstReadingAt: Date;
+	lastReadingAt: Date;
+	/** From boot to the last reading */
+	durationSeconds: number;
+	readings: number;
+	firstBatteryCapacity: number | null;
+	lastBatteryCapacity: number | null;
+	lastBatteryStatus: BatteryStatus | null;
+	/** The device's latest boot, which may still be running */
+	current: boolean;
+	/** Inferred once a later boot was seen; null for the current boot */
+	endReason: BootEndReason | null;
+}
+
+export type RollupResolution = '1m' | '1h' | '1d';
+
+/** One time bucket of a rolled-up metric */
+export interface MetricHistoryPoint {
+	/** Bucket start */
+	timestamp: Date;
+	count: number;
+	avg: number;
+	min: number;
+	max: number;
+	/** Latest value in the bucket */
+	last: number;
+}
+
+export interface MetricHistory {
+	deviceId: string;
+	resolution: RollupResolution;
+	from: Date;
+	until: Date;
+	/** Points per metric, oldest first; metrics without data are empty */
+	metrics: Record<string, MetricHistoryPoint[]>;
+}
+
+/** A rolled-up bucket of a boot, placed by time since the boot */
+export interface BootMetricPoint extends MetricHistoryPoint {
+	/** Bucket start in seconds since boot (0 for the bucket the boot falls in) */
+	offsetSeconds: number;
+}
+
+export interface BootComparison {
+	deviceId: string;
+	resolution: RollupResolution;
+	boots: {
+		session: BootSession;
+		/** Points per metric, oldest first */
+		metrics: Record<string, BootMetricPoint[]>;
+	}[];
+}
+
 export interface ApiResponse<T = unknown> {
 	success: boolean;
 	data?: T;
 	error?: string;
+	/** Field-level problems, formatted as `path: reason` */
+	errors?: string[];
 	timestamp: string;
 }
 
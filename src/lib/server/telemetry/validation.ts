@@ -0,0 +1,727 @@
+/**
+ * Runtime validation for incoming telemetry payloads.
+ *
+ * Each schema below is typed against its interface in ./types, so adding or
+ * renaming a field there is a compile error here until the validator follows.
+ */
+
+import type {
+	TelemetryPayload,
+	TelemetryFrequency,
+	BatteryTelemetry,
+	UsbInputTelemetry,
+	UsbCPdTelemetry,
+	TypeCPortTelemetry,
+	PowerTelemetry,
+	TripPoint,
+	ThermalZoneTelemetry,
+	CoolingDeviceTelemetry,
+	ThermalTelemetry,
+	CpuFrequencyTelemetry,
+	CpuTimeTelemetry,
+	LoadAverage,
+	CpuTimeInState,
+	CpuFrequencyStats,
+	CpuIdleStateTelemetry,
+	CpuIdleTelemetry,
+	MemoryTelemetry,
+	NetworkInterfaceStats,
+	NetworkInterfaceTelemetry,
+	WifiTelemetry,
+	NetworkTelemetry,
+	GpuFrequencyTelemetry,
+	GpuTransitionStats,
+	GpuTelemetry,
+	BlockDeviceStats,
+	BlockDeviceTelemetry,
+	StorageTelemetry,
+	ProcessTelemetry,
+	ProcessSummary,
+	ProcessesTelemetry,
+	Vector3D,
+	AmbientLightTelemetry,
+	ProximityTelemetry,
+	AccelerometerTelemetry,
+	GyroscopeTelemetry,
+	MagnetometerTelemetry,
+	AdcChannelTelemetry,
+	SensorsTelemetry,
+	DisplayTelemetry,
+	LedTelemetry,
+	RfKillTelemetry,
+	SystemTelemetry,
+	HighFrequencyTelemetry,
+	MediumFrequencyTelemetry,
+	LowFrequencyTelemetry
+} from './types';
+import { upgradePayload } from './versions';
+
+export interface ValidationIssue {
+	path: string;
+	message: string;
+}
+
+export type ValidationResult<T> =
+	| { success: true; value: T }
+	| { success: false; issues: ValidationIssue[] };
+
+/**
+ * A schema checks a value and appends any problems to `issues`.
+ * The type parameter only exists to tie the schema to its interface.
+ */
+interface Schema<T> {
+	check(value: unknown, path: string, issues: ValidationIssue[]): void;
+	readonly optional?: boolean;
+	/** Phantom field, never set at runtime */
+	readonly _type?: T;
+}
+
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+function join(path: string, key: string | number): string {
+	if (typeof key === 'number') return `${path}[${key}]`;
+	return path ? `${path}.${key}` : key;
+}
+
+// ============================================================================
+// Primitive schemas
+// ============================================================================
+
+const number: Schema<number> = {
+	check(value, path, issues) {
+		if (typeof value !== 'number' || !Number.isFinite(value)) {
+			issues.push({ path, message: `expected number, got ${describe(value)}` });
+		}
+	}
+};
+
+const string: Schema<string> = {
+	check(value, path, issues) {
+		if (typeof value !== 'string') {
+			issues.push({ path, message: `expected string, got ${describe(value)}` });
+		}
+	}
+};
+
+const boolean: Schema<boolean> = {
+	check(value, path, issues) {
+		if (typeof value !== 'boolean') {
+			issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+		}
+	}
+};
+
+function oneOf<const T extends string>(...values: T[]): Schema<T> {
+	return {
+		check(value, path, issues) {
+			if (!values.includes(value as T)) {
+				issues.push({ path, message: `expected one of ${values.join('|')}` });
+			}
+		}
+	};
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+	return {
+		optional: true,
+		check(value, path, issues) {
+			if (value !== undefined) schema.check(value, path, issues);
+		}
+	};
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+	return {
+		check(value, path, issues) {
+			if (!Array.isArray(value)) {
+				issues.push({ path, message: `expected array, got ${describe(value)}` });
+				return;
+			}
+			value.forEach((entry, i) => item.check(entry, join(path, i), issues));
+		}
+	};
+}
+
+/** Every key of T must be described, optional keys with optional() */
+function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+	return {
+		check(value, path, issues) {
+			if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+				issues.push({ path, message: `expected object, got ${describe(value)}` });
+				return;
+			}
+			const record = value as Record<string, unknown>;
+			for (const key of Object.keys(shape) as (keyof T & string)[]) {
+				const field = shape[key] as Schema<unknown>;
+				if (record[key] === undefined && !field.optional) {
+					issues.push({ path: join(path, key), message: 'is required' });
+					continue;
+				}
+				field.check(record[key], join(path, key), issues);
+			}
+		}
+	};
+}
+
+/** Recursive schemas (storage partitions) need late binding */
+function lazy<T>(factory: () => Schema<T>): Schema<T> {
+	return {
+		check(value, path, issues) {
+			factory().check(value, path, issues);
+		}
+	};
+}
+
+// ============================================================================
+// Enums and Literals
+// ============================================================================
+
+const frequency = oneOf<TelemetryFrequency>('high', 'medium', 'low');
+const batteryStatus = oneOf('Charging', 'Discharging', 'Full', 'Not charging', 'Unknown');
+const batteryHealth = oneOf('Good', 'Overheat', 'Dead', 'Over voltage', 'Failure', 'Unknown');
+const chargeType = oneOf('Fast', 'Trickle', 'Standard', 'Unknown');
+const usbType = oneOf(
+	'Unknown',
+	'SDP',
+	'DCP',
+	'CDP',
+	'ACA',
+	'C',
+	'PD',
+	'PD_DRP',
+	'PD_PPS',
+	'BrickID'
+);
+const dataRole = oneOf('host', 'device', '[host]', '[device]');
+const powerRole = oneOf('source', 'sink', '[source]', '[sink]');
+const powerOperationMode = oneOf('default', '1.5A', '3.0A', 'usb_power_delivery');
+const networkInterfaceType = oneOf('wifi', 'cellular', 'usb', 'loopback', 'other');
+const blockDeviceType = oneOf('emmc', 'sdcard', 'zram', 'loop', 'other');
+const tripPointType = oneOf('passive', 'active', 'critical', 'hot');
+const rfKillType = oneOf('bluetooth', 'wifi', 'wwan');
+
+// ============================================================================
+// Battery & Power
+// ============================================================================
+
+const battery = object<BatteryTelemetry>({
+	capacity: number,
+	status: batteryStatus,
+	voltage: number,
+	current: number,
+	temperature: number,
+	chargeFull: number,
+	chargeFullDesign: number,
+	health: batteryHealth,
+	present: boolean,
+	chargeType: chargeType,
+	energyFullDesign: number
+});
+
+const usbInput = object<UsbInputTelemetry>({
+	present: boolean,
+	health: batteryHealth,
+	inputCurrentLimit: number,
+	inputVoltageLimit: number
+});
+
+const usbCPd = object<UsbCPdTelemetry>({
+	online: boolean,
+	voltage: number,
+	voltageMin: number,
+	voltageMax: number,
+	current: number,
+	currentMax: number,
+	usbType: usbType
+});
+
+const typeCPort = object<TypeCPortTelemetry>({
+	dataRole: dataRole,
+	powerRole: powerRole,
+	orientation: string,
+	powerOperationMode: powerOperationMode,
+	vconnSource: boolean
+});
+
+const power = object<PowerTelemetry>({
+	battery,
+	usbInput,
+	usbCPd,
+	typeCPort
+});
+
+// ============================================================================
+// Thermal
+// ============================================================================
+
+const tripPoint = object<TripPoint>({
+	index: number,
+	temperature: number,
+	type: tripPointType
+});
+
+const thermalZone = object<ThermalZoneTelemetry>({
+	zone: number,
+	type: string,
+	temperature: number,
+	tripPoints: optional(array(tripPoint))
+});
+
+const coolingDevice = object<CoolingDeviceTelemetry>({
+	index: number,
+	type: string,
+	currentState: number,
+	maxState: number
+});
+
+const thermal = object<ThermalTelemetry>({
+	zones: array(thermalZone),
+	coolingDevices: array(coolingDevice),
+	batteryTemp: number,
+	cpuTemp: number,
+	gpuTemp: number
+});
+
+// ============================================================================
+// CPU
+// ============================================================================
+
+const cpuFrequency = object<CpuFrequencyTelemetry>({
+	cpu: number,
+	currentFreq: number,
+	minFreq: number,
+	maxFreq: number,
+	hardwareMinFreq: number,
+	hardwareMaxFreq: number,
+	governor: string
+});
+
+const cpuTime = object<CpuTimeTelemetry>({
+	cpu: string,
+	user: number,
+	nice: number,
+	system: number,
+	idle: number,
+	iowait: number,
+	irq: number,
+	softirq: number,
+	steal: number
+});
+
+const loadAverage = object<LoadAverage>({
+	load1: number,
+	load5: number,
+	load15: number,
+	runningProcesses: number,
+	totalProcesses: number
+});
+
+const cpuTimeInState = object<CpuTimeInState>({
+	frequency: number,
+	timeMs: number
+});
+
+const cpuFrequencyStats = object<CpuFrequencyStats>({
+	cpu: number,
+	timeInState: array(cpuTimeInState),
+	totalTransitions: number
+});
+
+const cpuIdleState = object<CpuIdleStateTelemetry>({
+	index: number,
+	name: string,
+	description: string,
+	usage: number,
+	timeUs: number,
+	latencyUs: number
+});
+
+const cpuIdle = object<CpuIdleTelemetry>({
+	cpu: number,
+	states: array(cpuIdleState)
+});
+
+// ============================================================================
+// Memory
+// ============================================================================
+
+const memory = object<MemoryTelemetry>({
+	total: number,
+	free: number,
+	available: number,
+	buffers: number,
+	cached: number,
+	swapTotal: number,
+	swapFree: number,
+	swapUsed: number,
+	active: number,
+	inactive: number,
+	activeAnon: number,
+	inactiveAnon: number,
+	activeFile: number,
+	inactiveFile: number,
+	dirty: number,
+	writeback: number,
+	anonPages: number,
+	mapped: number,
+	shmem: number,
+	slab: number,
+	sReclaimable: number,
+	sUnreclaim: number,
+	usedPercent: number,
+	swapUsedPercent: number
+});
+
+// ============================================================================
+// Network
+// ============================================================================
+
+const networkInterfaceStats = object<NetworkInterfaceStats>({
+	rxBytes: number,
+	txBytes: number,
+	rxPackets: number,
+	txPackets: number,
+	rxErrors: number,
+	txErrors: number,
+	rxDropped: number,
+	txDropped: number,
+	rxFifo: number,
+	txFifo: number,
+	rxFrame: number,
+	txCarrier: number,
+	collisions: number
+});
+
+const networkInterface = object<NetworkInterfaceTelemetry>({
+	name: string,
+	address: string,
+	carrier: boolean,
+	carrierChanges: number,
+	// OperationalState | string: unknown kernel states are passed through
+	operstate: string,
+	mtu: number,
+	stats: networkInterfaceStats,
+	type: networkInterfaceType
+});
+
+const wifi = object<WifiTelemetry>({
+	signalStrength: optional(number),
+	linkQuality: optional(number),
+	noiseLevel: optional(number),
+	ssid: optional(string),
+	frequency: optional(number),
+	bitrate: optional(number)
+});
+
+const network = object<NetworkTelemetry>({
+	interfaces: array(networkInterface),
+	wifi: optional(wifi),
+	totalRxBytes: number,
+	totalTxBytes: number
+});
+
+// ============================================================================
+// GPU
+// ============================================================================
+
+const gpuFrequency = object<GpuFrequencyTelemetry>({
+	currentFreq: number,
+	targetFreq: number,
+	minFreq: number,
+	maxFreq: number,
+	governor: string,
+	availableFrequencies: array(number),
+	pollingIntervalMs: number
+});
+
+const gpuTransition = object<GpuTransitionStats>({
+	fromFreq: number,
+	toFreq: number,
+	count: number
+});
+
+const gpu = object<GpuTelemetry>({
+	frequency: gpuFrequency,
+	transitionStats: optional(array(gpuTransition)),
+	totalTransitions: optional(number)
+});
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const blockDeviceStats = object<BlockDeviceStats>({
+	readsCompleted: number,
+	readsMerged: number,
+	sectorsRead: number,
+	readTimeMs: number,
+	writesCompleted: number,
+	writesMerged: number,
+	sectorsWritten: number,
+	writeTimeMs: number,
+	iosInProgress: number,
+	ioTimeMs: number,
+	weightedIoTimeMs: number
+});
+
+const blockDevice: Schema<BlockDeviceTelemetry> = object<BlockDeviceTelemetry>({
+	name: string,
+	type: blockDeviceType,
+	size: number,
+	stats: blockDeviceStats,
+	bytesRead: number,
+	bytesWritten: number,
+	partitions: optional(array(lazy(() => blockDevice)))
+});
+
+const storage = object<StorageTelemetry>({
+	devices: array(blockDevice),
+	totalBytesRead: number,
+	totalBytesWritten: number,
+	totalIoTimeMs: number
+});
+
+// ============================================================================
+// Processes
+// ============================================================================
+
+const processEntry = object<ProcessTelemetry>({
+	pid: number,
+	name: string,
+	// ProcessState | string: kernels may report states outside the known set
+	state: string,
+	ppid: number,
+	pgrp: number,
+	session: number,
+	userTimeMs: number,
+	systemTimeMs: number,
+	totalCpuTimeMs: number,
+	cpuPercent: optional(number),
+	vsize: number,
+	rss: number,
+	rssLimit: number,
+	memoryPercent: number,
+	numThreads: number,
+	nice: number,
+	priority: number,
+	startTime: number,
+	cmdline: string,
+	oomScore: number,
+	readBytes: optional(number),
+	writeBytes: optional(number)
+});
+
+const processSummary = object<ProcessSummary>({
+	total: number,
+	running: number,
+	sleeping: number,
+	zombie: number,
+	stopped: number
+});
+
+const processes = object<ProcessesTelemetry>({
+	processes: array(processEntry),
+	summary: processSummary,
+	totalCpuTime: number,
+	contextSwitches: number,
+	processesCreated: number
+});
+
+// ============================================================================
+// Sensors
+// ============================================================================
+
+const vector3D = object<Vector3D>({ x: number, y: number, z: number });
+
+const ambientLight = object<AmbientLightTelemetry>({
+	illuminanceRaw: number,
+	illuminanceScale: number,
+	illuminanceLux: number
+});
+
+const proximity = object<ProximityTelemetry>({
+	proximityRaw: number,
+	proximityScale: number,
+	nearLevel: number,
+	isNear: boolean
+});
+
+const accelerometer = object<AccelerometerTelemetry>({
+	raw: vector3D,
+	scale: number,
+	acceleration: vector3D,
+	magnitude: number
+});
+
+const gyroscope = object<GyroscopeTelemetry>({
+	raw: vector3D,
+	scale: number,
+	angularVelocity: vector3D,
+	magnitude: number
+});
+
+const magnetometer = object<MagnetometerTelemetry>({
+	raw: vector3D,
+	scale: number,
+	magneticField: vector3D,
+	heading: number
+});
+
+const adcChannel = object<AdcChannelTelemetry>({
+	channel: number,
+	raw: number,
+	scale: number,
+	voltage: number
+});
+
+const sensors = object<SensorsTelemetry>({
+	ambientLight,
+	proximity,
+	accelerometer,
+	gyroscope,
+	magnetometer,
+	adcChannels: array(adcChannel)
+});
+
+// ============================================================================
+// System
+// ============================================================================
+
+const display = object<DisplayTelemetry>({
+	brightness: number,
+	maxBrightness: number,
+	brightnessPercent: number,
+	power: boolean
+});
+
+const led = object<LedTelemetry>({
+	name: string,
+	brightness: number,
+	maxBrightness: number,
+	trigger: string
+});
+
+const rfKill = object<RfKillTelemetry>({
+	type: rfKillType,
+	name: string,
+	softBlocked: boolean,
+	hardBlocked: boolean
+});
+
+const system = object<SystemTelemetry>({
+	display,
+	leds: array(led),
+	rfkill: array(rfKill),
+	wakeupCount: number
+});
+
+// ============================================================================
+// Payloads
+// ============================================================================
+
+const highFrequencyData = object<HighFrequencyTelemetry>({
+	power,
+	thermal,
+	cpu: object<HighFrequencyTelemetry['cpu']>({
+		frequencies: array(cpuFrequency),
+		cpuTimes: array(cpuTime),
+		loadAverage,
+		uptime: number,
+		idleTime: number,
+		onlineCpus: array(number),
+		offlineCpus: array(number)
+	}),
+	memory,
+	network
+});
+
+const mediumFrequencyData = object<MediumFrequencyTelemetry>({
+	cpuStats: object<MediumFrequencyTelemetry['cpuStats']>({
+		frequencyStats: optional(array(cpuFrequencyStats)),
+		idleStats: optional(array(cpuIdle))
+	}),
+	gpu,
+	storage,
+	processes
+});
+
+const lowFrequencyData = object<LowFrequencyTelemetry>({
+	sensors,
+	system
+});
+
+const dataSchemas: Record<TelemetryFrequency, Schema<TelemetryPayload['data']>> = {
+	high: highFrequencyData,
+	medium: mediumFrequencyData,
+	low: lowFrequencyData
+};
+
+const timestampString: Schema<string> = {
+	check(value, path, issues) {
+		string.check(value, path, issues);
+		if (typeof value === 'string' && Number.isNaN(Date.parse(value))) {
+			issues.push({ path, message: 'expected an ISO 8601 timestamp' });
+		}
+	}
+};
+
+const envelope = object<Omit<TelemetryPayload, 'data'>>({
+	schemaVersion: optional(number),
+	deviceId: string,
+	timestamp: timestampString,
+	timestampMs: number,
+	frequency,
+	idempotencyKey: optional(string)
+});
+
+/**
+ * Validate an untrusted value against TelemetryPayload, using the `data`
+ * schema that matches its `frequency`. Payloads with an older `schemaVersion`
+ * are upgraded to the current structure first.
+ */
+export function validateTelemetryPayload(
+	input: unknown,
+	path = ''
+): ValidationResult<TelemetryPayload> {
+	const upgrade = upgradePayload(input);
+	if (!upgrade.ok) {
+		return {
+			success: false,
+			issues: [{ path: join(path, 'schemaVersion'), message: upgrade.error }]
+		};
+	}
+	const value = upgrade.value;
+
+	const issues: ValidationIssue[] = [];
+
+	envelope.check(value, path, issues);
+
+	if (issues.length === 0) {
+		const record = value as Record<string, unknown>;
+		if (typeof record.deviceId === 'string' && record.deviceId.trim() === '') {
+			issues.push({ path: join(path, 'deviceId'), message: 'must not be empty' });
+		}
+		const dataPath = join(path, 'data');
+		if (record.data === undefined) {
+			issues.push({ path: dataPath, message: 'is required' });
+		} else {
+			dataSchemas[record.frequency as TelemetryFrequency].check(record.data, dataPath, issues);
+		}
+	}
+
+	if (issues.length > 0) {
+		return { success: false, issues };
+	}
+	return { success: true, value: value as TelemetryPayload };
+}
+
+/**
+ * Format issues as `path: reason` strings for API error responses
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string[] {
+	return issues.map((issue) => `${issue.path || '(root)'}: ${issue.message}`);
+}
@@ -0,0 +1,88 @@
+/**
+ * Payload schema versions and the upgraders that bring older client payloads
+ * into the current TelemetryPayload structure.
+ *
+ * When the client structures change: bump CURRENT_SCHEMA_VERSION, update
+ * ./types and ./validation to the new shape, and register an upgrader from the
+ * previous version here. Upgraders run before validation, so they only need to
+ * reshape what changed and can leave everything else untouched.
+ *
+ * Payloads without a `schemaVersion` come from clients written before versions
+ * existed and are version 0.
+ */
+
+/** Version of the structures in ./types */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+/** Version of payloads that carry no `schemaVersion` */
+export const LEGACY_SCHEMA_VERSION = 0;
+
+/** Oldest version that can still be upgraded; older payloads are rejected */
+export const MIN_SCHEMA_VERSION = LEGACY_SCHEMA_VERSION;
+
+/** Raw payload object, as decoded from the request body */
+export type RawPayload = Record<string, unknown>;
+
+/** Transforms a payload of version N into version N + 1 */
+export type PayloadUpgrader = (payload: RawPayload) => RawPayload;
+
+/**
+ * Upgraders keyed by the version they upgrade from.
+ * Every version from MIN_SCHEMA_VERSION up to CURRENT_SCHEMA_VERSION - 1 needs one.
+ */
+const upgraders: Record<number, PayloadUpgrader> = {
+	// The unversioned ingestion API only required `timestamp`; derive the
+	// milliseconds from it for clients that did not send them
+	0: (payload) => {
+		if (payload.timestampMs !== undefined || typeof payload.timestamp !== 'string') {
+			return payload;
+		}
+		const timestampMs = Date.parse(payload.timestamp);
+		return Number.isNaN(timestampMs) ? payload : { ...payload, timestampMs };
+	}
+};
+
+export type UpgradeResult = { ok: true; value: unknown } | { ok: false; error: string };
+
+/**
+ * Upgrade a decoded payload to the current structure. Values that are not
+ * objects are passed through for validation to report.
+ */
+export function upgradePayload(value: unknown): UpgradeResult {
+	if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+		return { ok: true, value };
+	}
+
+	const payload = value as RawPayload;
+	const version = payload.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+	if (typeof version !== 'number' || !Number.isInteger(version)) {
+		return { ok: false, error: 'expected an integer schema version' };
+	}
+	if (version < MIN_SCHEMA_VERSION || version > CURRENT_SCHEMA_VERSION) {
+		return {
+			ok: false,
+			error: `schema version ${version} is not supported; this server accepts versions ${MIN_SCHEMA_VERSION} to ${CURRENT_SCHEMA_VERSION}`
+		};
+	}
+
+	let upgraded = payload;
+	for (let from = version; from < CURRENT_SCHEMA_VERSION; from++) {
+		const upgrade = upgraders[from];
+		if (!upgrade) {
+			return { ok: false, error: `no upgrade path from schema version ${from}` };
+		}
+		upgraded = upgrade(upgraded);
+	}
+
+	// Keep the version the client sent, for auditing and per-version counts
+	return { ok: true, value: { ...upgraded, schemaVersion: version } };
+}
+
+/**
+ * Versions this server accepts, oldest first
+ */
+export function supportedSchemaVersions(): number[] {
+	const versions: number[] = [];
+	for (let v = MIN_SCHEMA_VERSION; v <= CURRENT_SCHEMA_VERSION; v++) versions.push(v);
+	return versions;
+}
@@ -1,7 +1,40 @@
 import { json, type RequestHandler } from '@sveltejs/kit';
 import { db } from '$lib/server/db';
 import * as schema from '$lib/server/db/schema';
-import { desc, eq, and, gte, sql } from 'drizzle-orm';
+import { asc, desc, eq, and, gte, isNull, lte, sql } from 'drizzle-orm';
+import {
+	getBootSessions,
+	getMetricHistory,
+	listBootSessions,
+	pickRollupResolution,
+	type BootSession,
+	type MetricHistory,
+	type RollupResolution
+} from '$lib/server/telemetry';
+
+/** Ranges up to this many hours are drawn from raw readings, longer ones from rollups */
+const RAW_MAX_HOURS = 1;
+
+/** Boots of the selected device offered for scoping the dashboard */
+const DASHBOARD_BOOTS = 20;
+
+const ROLLUP_SERIES_METRICS = [
+	'battery_capacity',
+	'battery_voltage',
+	'battery_current',
+	'battery_temperature',
+	'thermal_cpu',
+	'thermal_gpu',
+	'thermal_battery',
+	'load1',
+	'load5',
+	'load15',
+	'uptime',
+	'memory_used_percent',
+	'swap_used_percent',
+	'memory_available',
+	'memory_total'
+];
 
 export interface DashboardData {
 	devices: DeviceInfo[];
@@ -14,6 +47,12 @@ export interface DashboardData {
 	systemInfo: SystemInfo | null;
 	networkStats: NetworkStats | null;
 	gpuInfo: GpuInfo | null;
+	/** Where the time series come from: raw readings or bucket averages of a rollup */
+	resolution: 'raw' | RollupResolution;
+	/** Latest boots of the selected device */
+	boots: BootSession[];
+	/** The boot the dashboard is scoped to, if any */
+	boot: BootSession | null;
 }
 
 interface DeviceInfo {
@@ -21,16 +60,17 @@ interface DeviceInfo {
 	deviceId: string;
 	name: string | null;
 	lastSeenAt: Date;
+	tags: string[];
 }
 
 interface BatteryTimeSeries {
 	timestamp: Date;
 	capacity: number;
-	voltage: number;
-	current: number;
-	temperature: number;
-	status: string;
-	health: string;
+	voltage: number | null;
+	current: number | null;
+	temperature: number | null;
+	status: string | null;
+	health: string | null;
 }
 
 interface ThermalTimeSeries {
@@ -50,13 +90,15 @@ interface CpuLoadTimeSeries {
 
 interface MemoryTimeSeries {
 	timestamp: Date;
-	usedPercent: number;
-	swapUsedPercent: number;
-	available: number;
+	usedPercent: number | null;
+	swapUsedPercent: number | null;
+	available: number | null;
 	total: number;
 }
 
 interface TopProcess {
+	/** Process identity, for its history (null for readings stored before tracking) */
+	processId: number | null;
 	pid: number;
 	name: string;
 	cpuPercent: number | null;
@@ -76,6 +118,9 @@ interface SystemInfo {
 interface NetworkStats {
 	totalRxBytes: number;
 	totalTxBytes: number;
+	/** Throughput since the previous reading (see counter_rates); null without one */
+	rxBytesPerSecond: number | null;
+	txBytesPerSecond: number | null;
 	wifiSignal: number | null;
 	wifiSsid: string | null;
 }
@@ -87,9 +132,31 @@ interface GpuInfo {
 	maxFreq: number;
 }
 
+/**
+ * Bucket averages of a rollup, one entry per bucket of the `primary` metric
+ */
+function rollupSeries<T>(
+	history: MetricHistory,
+	primary: string,
+	build: (timestamp: Date, avg: (metric: string) => number) => T
+): T[] {
+	const averages = new Map(
+		Object.entries(history.metrics).map(([metric, points]) => [
+			metric,
+			new Map(points.map((p) => [p.timestamp.getTime(), p.avg]))
+		])
+	);
+	return history.metrics[primary].map((point) =>
+		build(point.timestamp, (metric) => averages.get(metric)?.get(point.timestamp.getTime()) ?? 0)
+	);
+}
+
 /**
  * GET /api/dashboard
- * Returns dashboard data for visualization
+ * Returns dashboard data for visualization over the last `hours`, or over a
+ * single boot with `boot` (a boot session id). Ranges longer than
+ * RAW_MAX_HOURS are served from the rollup at the resolution picked for the
+ * range.
  */
 export const GET: RequestHandler = async ({ url }) => {
 	try {
@@ -98,9 +165,12 @@ export const GET: RequestHandler = async ({ url }) => {
 		const hours = hoursParam ? parseInt(hoursParam, 10) : 24;
 		const limitParam = url.searchParams.get('limit');
 		const limit = limitParam ? parseInt(limitParam, 10) : 500;
+		const bootId = Number(url.searchParams.get('boot'));
 
-		// Get all devices
+		// Get all devices but archived ones
 		const devices = await db.query.devices.findMany({
+			where: isNull(schema.devices.archivedAt),
+			with: { tags: { columns: { tag: true }, orderBy: [asc(schema.deviceTags.tag)] } },
 			orderBy: [desc(schema.devices.lastSeenAt)]
 		});
 
@@ -117,7 +187,10 @@ export const GET: RequestHandler = async ({ url }) => {
 					topProcesses: [],
 					systemInfo: null,
 					networkStats: null,
-					gpuInfo: null
+					gpuInfo: null,
+					resolution: 'raw',
+					boots: [],
+					boot: null
 				} satisfies DashboardData
 			});
 		}
@@ -127,16 +200,33 @@ export const GET: RequestHandler = async ({ url }) => {
 			? devices.find((d) => d.deviceId === deviceIdParam) || devices[0]
 			: devices[0];
 
-		const cutoffTime = new Date(Date.now() - hours * 60 * 60 * 1000);
-
-		// Get high-frequency readings for the selected device within time range
+		const boots = (await listBootSessions(selectedDevice.deviceId, DASHBOARD_BOOTS)) ?? [];
+		const [boot] =
+			Number.isInteger(bootId) && bootId > 0
+				? ((await getBootSessions(selectedDevice.deviceId, [bootId])) ?? [])
+				: [];
+
+		// A boot that ended is shown up to its last reading
+		const now = boot && !boot.current ? new Date(boot.lastReadingAt.getTime() + 1) : new Date();
+		const cutoffTime = boot ? boot.bootedAt : new Date(now.getTime() - hours * 60 * 60 * 1000);
+		const resolution =
+			now.getTime() - cutoffTime.getTime() > RAW_MAX_HOURS * 60 * 60 * 1000
+				? pickRollupResolution(cutoffTime, now)
+				: 'raw';
+
+		// Get readings for the selected device within time range; with rollups
+		// only the latest high-frequency reading is needed for the current values
 		const readings = await db.query.telemetryReadings.findMany({
 			where: and(
 				eq(schema.telemetryReadings.deviceId, selectedDevice.id),
-				gte(schema.telemetryReadings.timestamp, cutoffTime)
+				gte(schema.telemetryReadings.timestamp, cutoffTime),
+				lte(schema.telemetryReadings.timestamp, now),
+				// OTLP readings fill a few columns of a few reading tables at best
+				eq(schema.telemetryReadings.source, 'client'),
+				resolution === 'raw' ? undefined : eq(schema.telemetryReadings.frequency, 'high')
 			),
 			orderBy: [desc(schema.telemetryReadings.timestamp)],
-			limit
+			limit: resolution === 'raw' ? limit : 1
 		});
 
 		const readingIds = readings.map((r) => r.id);
@@ -220,7 +310,7 @@ export const GET: RequestHandler = async ({ url }) => {
 					timestamp: mr.reading.timestamp,
 					usedPercent: mr.usedPercent,
 					swapUsedPercent: mr.swapUsedPercent,
-					available: Number(mr.available),
+					available: mr.available,
 					total: Number(mr.total)
 				});
 			}
@@ -231,7 +321,8 @@ export const GET: RequestHandler = async ({ url }) => {
 		const latestMediumReading = await db.query.telemetryReadings.findFirst({
 			where: and(
 				eq(schema.telemetryReadings.deviceId, selectedDevice.id),
-				eq(schema.telemetryReadings.frequency, 'medium')
+				eq(schema.telemetryReadings.frequency, 'medium'),
+				lte(schema.telemetryReadings.timestamp, now)
 			),
 			orderBy: [desc(schema.telemetryReadings.timestamp)]
 		});
@@ -245,6 +336,7 @@ export const GET: RequestHandler = async ({ url }) => {
 
 			for (const p of processes) {
 				topProcesses.push({
+					processId: p.processId,
 					pid: p.pid,
 					name: p.name,
 					cpuPercent: p.cpuPercent,
@@ -267,7 +359,8 @@ export const GET: RequestHandler = async ({ url }) => {
 			const latestLowReading = await db.query.telemetryReadings.findFirst({
 				where: and(
 					eq(schema.telemetryReadings.deviceId, selectedDevice.id),
-					eq(schema.telemetryReadings.frequency, 'low')
+					eq(schema.telemetryReadings.frequency, 'low'),
+					lte(schema.telemetryReadings.timestamp, now)
 				),
 				orderBy: [desc(schema.telemetryReadings.timestamp)]
 			});
@@ -296,9 +389,29 @@ export const GET: RequestHandler = async ({ url }) => {
 				where: eq(schema.networkSummaryReadings.readingId, readings[0]?.id ?? 0)
 			});
 			if (latestNetworkReading) {
+				const rates = await db
+					.select({
+						counter: schema.counterRates.counter,
+						delta: schema.counterRates.delta,
+						intervalMs: schema.counterRates.intervalMs
+					})
+					.from(schema.counterRates)
+					.where(
+						and(
+							eq(schema.counterRates.readingId, latestNetworkReading.readingId),
+							eq(schema.counterRates.readingTimestamp, latestNetworkReading.readingTimestamp)
+						)
+					);
+				const throughput = (counter: string) => {
+					const measured = rates.filter((r) => r.counter === counter && r.delta != null);
+					if (measured.length === 0) return null;
+					return measured.reduce((sum, r) => sum + r.delta! / (r.intervalMs! / 1000), 0);
+				};
 				networkStats = {
 					totalRxBytes: Number(latestNetworkReading.totalRxBytes),
 					totalTxBytes: Number(latestNetworkReading.totalTxBytes),
+					rxBytesPerSecond: throughput('network_rx_bytes'),
+					txBytesPerSecond: throughput('network_tx_bytes'),
 					wifiSignal: latestNetworkReading.wifiSignalStrength,
 					wifiSsid: latestNetworkReading.wifiSsid
 				};
@@ -321,6 +434,64 @@ export const GET: RequestHandler = async ({ url }) => {
 			}
 		}
 
+		if (resolution !== 'raw') {
+			const history = (await getMetricHistory(
+				selectedDevice.deviceId,
+				ROLLUP_SERIES_METRICS,
+				cutoffTime,
+				now,
+				resolution
+			))!;
+			// Status and health are not rolled up; use the latest raw values
+			const { status, health } = batteryData[0] ?? { status: 'Unknown', health: 'Unknown' };
+
+			batteryData.splice(
+				0,
+				batteryData.length,
+				...rollupSeries(history, 'battery_capacity', (timestamp, avg) => ({
+					timestamp,
+					capacity: avg('battery_capacity'),
+					voltage: avg('battery_voltage'),
+					current: avg('battery_current'),
+					temperature: avg('battery_temperature'),
+					status,
+					health
+				}))
+			);
+			thermalData.splice(
+				0,
+				thermalData.length,
+				...rollupSeries(history, 'thermal_cpu', (timestamp, avg) => ({
+					timestamp,
+					cpuTemp: avg('thermal_cpu'),
+					gpuTemp: avg('thermal_gpu'),
+					batteryTemp: avg('thermal_battery')
+				}))
+			);
+			cpuLoadData.splice(
+				0,
+				cpuLoadData.length,
+				...rollupSeries(history, 'load1', (timestamp, avg) => ({
+					timestamp,
+					load1: avg('load1'),
+					load5: avg('load5'),
+					load15: avg('load15'),
+					uptime: avg('uptime')
+				}))
+			);
+			memoryData.splice(
+				0,
+				memoryData.length,
+				...rollupSeries(history, 'memory_used_percent', (timestamp, avg) => ({
+					timestamp,
+					usedPercent: avg('memory_used_percent'),
+					swapUsedPercent: avg('swap_used_percent'),
+					available: avg('memory_available'),
+					total: avg('memory_total')
+				}))
+			);
+		}
+
 		// Sort time series data chronologically
 		batteryData.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 		thermalData.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
@@ -332,13 +503,15 @@ export const GET: RequestHandler = async ({ url }) => {
 				id: d.id,
 				deviceId: d.deviceId,
 				name: d.name,
-				lastSeenAt: d.lastSeenAt
+				lastSeenAt: d.lastSeenAt,
+				tags: d.tags.map((t) => t.tag)
 			})),
 			selectedDevice: {
 				id: selectedDevice.id,
 				deviceId: selectedDevice.deviceId,
 				name: selectedDevice.name,
-				lastSeenAt: selectedDevice.lastSeenAt
+				lastSeenAt: selectedDevice.lastSeenAt,
+				tags: selectedDevice.tags.map((t) => t.tag)
 			},
 			battery: batteryData,
 			thermal: thermalData,
@@ -347,7 +520,10 @@ export const GET: RequestHandler = async ({ url }) => {
 			topProcesses,
 			systemInfo,
 			networkStats,
-			gpuInfo
+			gpuInfo,
+			resolution,
+			boots,
+			boot: boot ?? null
 		};
 
 		return json({
@@ -367,4 +543,3 @@ export const GET: RequestHandler = async ({ url }) => {
 		);
 	}
 };
-
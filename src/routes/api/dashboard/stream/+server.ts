@@ -0,0 +1,87 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { db } from '$lib/server/db';
+import * as schema from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { subscribeLiveReadings, type ApiResponse, type LiveReading } from '$lib/server/telemetry';
+
+/** Comment lines keep idle connections from being closed by proxies */
+const KEEPALIVE_MS = 15000;
+
+/**
+ * GET /api/dashboard/stream?deviceId=
+ * Server-sent events with the new high-frequency readings of a device, one
+ * `reading` event (a LiveReading as JSON) per reading as it is stored.
+ */
+export const GET: RequestHandler = async ({ url, request }) => {
+	const deviceId = url.searchParams.get('deviceId');
+	if (!deviceId) {
+		const response: ApiResponse = {
+			success: false,
+			error: 'deviceId is required',
+			timestamp: new Date().toISOString()
+		};
+		return json(response, { status: 400 });
+	}
+
+	try {
+		const device = await db.query.devices.findFirst({
+			where: eq(schema.devices.deviceId, deviceId)
+		});
+		if (!device) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const encoder = new TextEncoder();
+		let stop = () => {};
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				const send = (text: string) => {
+					try {
+						controller.enqueue(encoder.encode(text));
+					} catch {
+						stop();
+					}
+				};
+
+				const unsubscribe = subscribeLiveReadings(deviceId, (reading: LiveReading) =>
+					send(`event: reading\nid: ${reading.readingId}\ndata: ${JSON.stringify(reading)}\n\n`)
+				);
+				const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_MS);
+				stop = () => {
+					unsubscribe();
+					clearInterval(keepalive);
+				};
+				request.signal.addEventListener('abort', () => stop());
+
+				send('retry: 5000\n\n');
+			},
+			cancel() {
+				stop();
+			}
+		});
+
+		return new Response(stream, {
+			status: 200,
+			headers: {
+				'content-type': 'text/event-stream',
+				'cache-control': 'no-store',
+				'x-accel-buffering': 'no'
+			}
+		});
+	} catch (error) {
+		console.error('Error opening dashboard stream:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,36 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { listDevices, type ApiResponse, type Device } from '$lib/server/telemetry';
+
+/**
+ * GET /api/devices
+ * Returns the devices with their metadata, latest upload first.
+ *
+ * Query params:
+ * - archived: also list archived devices when `true`
+ * - tag: only devices with this tag
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const devices = await listDevices({
+			archived: url.searchParams.get('archived') === 'true',
+			tag: url.searchParams.get('tag') ?? undefined
+		});
+
+		const response: ApiResponse<Device[]> = {
+			success: true,
+			data: devices,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error listing devices:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,185 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { clearCredentialCache, requireAdmin } from '$lib/server/auth';
+import {
+	deleteDevice,
+	getDevice,
+	readRequestJson,
+	updateDevice,
+	type ApiResponse,
+	type DeletedDevice,
+	type Device,
+	type DeviceUpdate
+} from '$lib/server/telemetry';
+
+interface UpdateRequest {
+	name?: unknown;
+	description?: unknown;
+	archived?: unknown;
+}
+
+const MAX_NAME_LENGTH = 255;
+
+function badRequest(error: string) {
+	const response: ApiResponse = {
+		success: false,
+		error,
+		timestamp: new Date().toISOString()
+	};
+	return json(response, { status: 400 });
+}
+
+/**
+ * GET /api/devices/:deviceId
+ * Returns the device with its metadata, archived or not.
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	try {
+		const device = await getDevice(params.deviceId!);
+		if (!device) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<Device> = {
+			success: true,
+			data: device,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error fetching device:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
+
+/**
+ * PATCH /api/devices/:deviceId
+ * Renames, describes, archives or unarchives the device (admin only), e.g.
+ * `{ "name": "Test phone 2", "description": "Stock battery", "archived": true }`.
+ * Fields left out stay as they are; null clears the name or description.
+ * Metadata is updated through /api/devices/:deviceId/metadata.
+ */
+export const PATCH: RequestHandler = async ({ request, params }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	const read = await readRequestJson(request);
+	if (!read.ok) {
+		const response: ApiResponse = {
+			success: false,
+			error: read.error,
+			timestamp: new Date().toISOString()
+		};
+		return json(response, { status: read.status });
+	}
+	const body = read.value as UpdateRequest | null;
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		return badRequest('Expected a JSON object');
+	}
+
+	const update: DeviceUpdate = {};
+	if (body.name !== undefined) {
+		if (body.name !== null && typeof body.name !== 'string') {
+			return badRequest('name must be a string or null');
+		}
+		const name = body.name?.trim() || null;
+		if (name && name.length > MAX_NAME_LENGTH) {
+			return badRequest(`name is longer than ${MAX_NAME_LENGTH} characters`);
+		}
+		update.name = name;
+	}
+	if (body.description !== undefined) {
+		if (body.description !== null && typeof body.description !== 'string') {
+			return badRequest('description must be a string or null');
+		}
+		update.description = body.description?.trim() || null;
+	}
+	if (body.archived !== undefined) {
+		if (typeof body.archived !== 'boolean') return badRequest('archived must be a boolean');
+		update.archived = body.archived;
+	}
+	if (Object.keys(update).length === 0) {
+		return badRequest('Expected name, description or archived');
+	}
+
+	try {
+		const device = await updateDevice(params.deviceId!, update);
+		if (!device) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<Device> = {
+			success: true,
+			data: device,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error updating device:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/devices/:deviceId
+ * Deletes the device with all its data (admin only). To keep the data, archive
+ * the device instead.
+ */
+export const DELETE: RequestHandler = async ({ request, params }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	try {
+		const deleted = await deleteDevice(params.deviceId!);
+		// Its credentials went with it
+		clearCredentialCache();
+		if (!deleted) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<DeletedDevice> = {
+			success: true,
+			data: deleted,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error deleting device:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,45 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { listBootSessions, type ApiResponse, type BootSession } from '$lib/server/telemetry';
+
+/**
+ * GET /api/devices/:deviceId/boots
+ * Returns the boot sessions of the device, latest first, with their duration,
+ * battery levels and why they ended (battery, restart or shutdown) where that
+ * could be inferred.
+ *
+ * Query params:
+ * - limit: max number of boots (default: 50)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	try {
+		const limitParam = url.searchParams.get('limit');
+		const limit = limitParam ? parseInt(limitParam, 10) : 50;
+
+		const boots = await listBootSessions(params.deviceId!, limit);
+		if (!boots) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<BootSession[]> = {
+			success: true,
+			data: boots,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error listing boot sessions:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
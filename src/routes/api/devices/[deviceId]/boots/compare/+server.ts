@@ -0,0 +1,93 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	compareBoots,
+	ROLLUP_METRICS,
+	ROLLUP_RESOLUTION_MS,
+	type ApiResponse,
+	type BootComparison,
+	type RollupResolution
+} from '$lib/server/telemetry';
+
+/** Most boots one comparison covers */
+const MAX_BOOTS = 10;
+
+function badRequest(error: string) {
+	const response: ApiResponse = {
+		success: false,
+		error,
+		timestamp: new Date().toISOString()
+	};
+	return json(response, { status: 400 });
+}
+
+/**
+ * GET /api/devices/:deviceId/boots/compare
+ * Returns rolled-up metric history of several boots, each bucket placed by
+ * seconds since its boot so the boots can be overlaid
+ *
+ * Query params:
+ * - boots: comma-separated boot session ids (required, at most 10)
+ * - metrics: comma-separated metric names (default: all)
+ * - resolution: 1m, 1h, 1d or auto (default: auto, picked for the longest boot)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	try {
+		const bootIds = (url.searchParams.get('boots') ?? '')
+			.split(',')
+			.map((id) => id.trim())
+			.filter(Boolean)
+			.map(Number);
+		if (bootIds.length === 0 || bootIds.some((id) => !Number.isInteger(id))) {
+			return badRequest('boots must be a comma-separated list of boot session ids');
+		}
+		if (bootIds.length > MAX_BOOTS) {
+			return badRequest(`At most ${MAX_BOOTS} boots can be compared`);
+		}
+
+		const metricsParam = url.searchParams.get('metrics');
+		const metrics = metricsParam
+			? metricsParam
+					.split(',')
+					.map((m) => m.trim())
+					.filter(Boolean)
+			: [...ROLLUP_METRICS];
+		const unknown = metrics.filter((m) => !(ROLLUP_METRICS as string[]).includes(m));
+		if (unknown.length > 0) {
+			return badRequest(`Unknown metrics: ${unknown.join(', ')}`);
+		}
+
+		const resolutionParam = url.searchParams.get('resolution') ?? 'auto';
+		if (resolutionParam !== 'auto' && !Object.hasOwn(ROLLUP_RESOLUTION_MS, resolutionParam)) {
+			return badRequest(`resolution must be auto, ${Object.keys(ROLLUP_RESOLUTION_MS).join(', ')}`);
+		}
+		const resolution =
+			resolutionParam === 'auto' ? undefined : (resolutionParam as RollupResolution);
+
+		const comparison = await compareBoots(params.deviceId!, bootIds, metrics, resolution);
+		if (!comparison) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId} or boot`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<BootComparison> = {
+			success: true,
+			data: comparison,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error comparing boots:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,50 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	getClockSkewHistory,
+	type ApiResponse,
+	type ClockSkewHistory
+} from '$lib/server/telemetry';
+
+/**
+ * GET /api/devices/:deviceId/clock-skew
+ * Returns the device's clock skew history, one sample per upload
+ *
+ * Query params:
+ * - hours: time range to return (default: 168)
+ * - limit: max number of samples (default: 1000)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	try {
+		const hoursParam = url.searchParams.get('hours');
+		const hours = hoursParam ? parseInt(hoursParam, 10) : 24 * 7;
+		const limitParam = url.searchParams.get('limit');
+		const limit = limitParam ? parseInt(limitParam, 10) : 1000;
+
+		const history = await getClockSkewHistory(params.deviceId!, hours, limit);
+		if (!history) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<ClockSkewHistory> = {
+			success: true,
+			data: history,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error fetching clock skew history:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,41 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { listCredentials, requireAdmin, type CredentialInfo } from '$lib/server/auth';
+import type { ApiResponse } from '$lib/server/telemetry';
+
+/**
+ * GET /api/devices/:deviceId/credentials
+ * Lists a device's credentials (admin only). Tokens are never returned.
+ */
+export const GET: RequestHandler = async ({ request, params }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	try {
+		const credentials = await listCredentials(params.deviceId!);
+		if (!credentials) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<CredentialInfo[]> = {
+			success: true,
+			data: credentials,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error listing device credentials:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
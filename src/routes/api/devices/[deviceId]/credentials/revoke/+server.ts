@@ -0,0 +1,58 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireAdmin, revokeCredentials } from '$lib/server/auth';
+import { readRequestJson, type ApiResponse } from '$lib/server/telemetry';
+
+interface RevokeRequest {
+	credentialId?: unknown;
+}
+
+/**
+ * POST /api/devices/:deviceId/credentials/revoke
+ * Revokes one credential (`{ "credentialId": 3 }`) or, with an empty body,
+ * every credential of the device. Admin only.
+ */
+export const POST: RequestHandler = async ({ request, params }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	try {
+		const read = await readRequestJson(request);
+		if (!read.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: read.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: read.status });
+		}
+		const body = read.value as RevokeRequest | null;
+		const credentialId = typeof body?.credentialId === 'number' ? body.credentialId : undefined;
+
+		const revoked = await revokeCredentials(params.deviceId!, credentialId);
+		if (revoked === null) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<{ revoked: number }> = {
+			success: true,
+			data: { revoked },
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error revoking device credentials:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
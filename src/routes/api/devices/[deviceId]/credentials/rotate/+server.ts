@@ -0,0 +1,68 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	authenticateDevice,
+	isAdminRequest,
+	rotateCredentials,
+	type IssuedCredential
+} from '$lib/server/auth';
+import { readRequestText, type ApiResponse } from '$lib/server/telemetry';
+
+/**
+ * POST /api/devices/:deviceId/credentials/rotate
+ * Issues a new token. Previous tokens stay valid for the rotation grace period.
+ *
+ * Callable by an admin, or by the device itself with its current token.
+ */
+export const POST: RequestHandler = async ({ request, params }) => {
+	try {
+		const deviceId = params.deviceId!;
+
+		if (!isAdminRequest(request)) {
+			const read = await readRequestText(request);
+			if (!read.ok) {
+				const response: ApiResponse = {
+					success: false,
+					error: read.error,
+					timestamp: new Date().toISOString()
+				};
+				return json(response, { status: read.status });
+			}
+			const auth = await authenticateDevice(request, read.text);
+			if (!auth.ok || auth.device?.deviceId !== deviceId) {
+				const response: ApiResponse = {
+					success: false,
+					error: auth.ok ? 'Device token or admin token required' : auth.error,
+					timestamp: new Date().toISOString()
+				};
+				return json(response, { status: 401 });
+			}
+		}
+
+		const credential = await rotateCredentials(deviceId);
+		if (!credential) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<IssuedCredential> = {
+			success: true,
+			data: credential,
+			timestamp: new Date().toISOString()
+		};
+		return json(response, { status: 201 });
+	} catch (error) {
+		console.error('Error rotating device credentials:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
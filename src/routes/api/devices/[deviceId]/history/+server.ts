@@ -0,0 +1,109 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	getBootSessions,
+	getMetricHistory,
+	ROLLUP_METRICS,
+	ROLLUP_RESOLUTION_MS,
+	type ApiResponse,
+	type MetricHistory,
+	type RollupResolution
+} from '$lib/server/telemetry';
+
+function badRequest(error: string) {
+	const response: ApiResponse = {
+		success: false,
+		error,
+		timestamp: new Date().toISOString()
+	};
+	return json(response, { status: 400 });
+}
+
+/**
+ * GET /api/devices/:deviceId/history
+ * Returns rolled-up metric history (count/avg/min/max/last per time bucket)
+ *
+ * Query params:
+ * - metrics: comma-separated metric names (default: all)
+ * - hours: time range up to now (default: 24), or
+ * - from, until: ISO timestamps (until defaults to now), or
+ * - boot: a boot session id, for the range of that boot
+ * - resolution: 1m, 1h, 1d or auto (default: auto, the finest resolution
+ *   that keeps the range within 1500 buckets)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	try {
+		const metricsParam = url.searchParams.get('metrics');
+		const metrics = metricsParam
+			? metricsParam
+					.split(',')
+					.map((m) => m.trim())
+					.filter(Boolean)
+			: [...ROLLUP_METRICS];
+		const unknown = metrics.filter((m) => !(ROLLUP_METRICS as string[]).includes(m));
+		if (unknown.length > 0) {
+			return badRequest(`Unknown metrics: ${unknown.join(', ')}`);
+		}
+
+		const resolutionParam = url.searchParams.get('resolution') ?? 'auto';
+		if (resolutionParam !== 'auto' && !Object.hasOwn(ROLLUP_RESOLUTION_MS, resolutionParam)) {
+			return badRequest(`resolution must be auto, ${Object.keys(ROLLUP_RESOLUTION_MS).join(', ')}`);
+		}
+		const resolution =
+			resolutionParam === 'auto' ? undefined : (resolutionParam as RollupResolution);
+
+		const untilParam = url.searchParams.get('until');
+		let until = untilParam ? new Date(untilParam) : new Date();
+		const fromParam = url.searchParams.get('from');
+		const hoursParam = url.searchParams.get('hours');
+		const hours = hoursParam ? parseFloat(hoursParam) : 24;
+		let from = fromParam ? new Date(fromParam) : new Date(until.getTime() - hours * 60 * 60 * 1000);
+
+		const bootParam = url.searchParams.get('boot');
+		if (bootParam) {
+			const bootId = Number(bootParam);
+			if (!Number.isInteger(bootId)) return badRequest('boot must be a boot session id');
+			const [boot] = (await getBootSessions(params.deviceId!, [bootId])) ?? [];
+			if (!boot) {
+				const response: ApiResponse = {
+					success: false,
+					error: `Unknown device ${params.deviceId} or boot ${bootId}`,
+					timestamp: new Date().toISOString()
+				};
+				return json(response, { status: 404 });
+			}
+			from = boot.bootedAt;
+			until = boot.current ? new Date() : new Date(boot.lastReadingAt.getTime() + 1);
+		}
+
+		if (isNaN(from.getTime()) || isNaN(until.getTime()) || from >= until) {
+			return badRequest('Invalid time range');
+		}
+
+		const history = await getMetricHistory(params.deviceId!, metrics, from, until, resolution);
+		if (!history) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<MetricHistory> = {
+			success: true,
+			data: history,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error fetching metric history:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,94 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { authenticateDevice, authorizeDevices, isAdminRequest } from '$lib/server/auth';
+import {
+	parseDeviceMetadata,
+	readRequestText,
+	updateDeviceMetadata,
+	type ApiResponse,
+	type DeviceMetadataUpdate,
+	type MetadataSource
+} from '$lib/server/telemetry';
+
+/**
+ * PATCH /api/devices/:deviceId/metadata
+ * Reports or sets metadata of the device, e.g.
+ * `{ "kernelVersion": "6.6.30", "clientVersion": "1.4.0" }`. Fields left out
+ * stay as they are; null clears a field. Returns the device and the fields
+ * that changed, which are kept in the metadata history.
+ *
+ * Callable by the device itself, authenticated like its telemetry uploads,
+ * or by an admin. Only admins can set `owner`.
+ */
+export const PATCH: RequestHandler = async ({ request, params }) => {
+	try {
+		const deviceId = params.deviceId!;
+		const read = await readRequestText(request);
+		if (!read.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: read.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: read.status });
+		}
+		const body = read.text;
+
+		let source: MetadataSource = 'admin';
+		if (!isAdminRequest(request)) {
+			const auth = await authenticateDevice(request, body);
+			const denied = auth.ok ? await authorizeDevices(auth.device, [deviceId]) : auth;
+			if (denied) {
+				const response: ApiResponse = {
+					success: false,
+					error: denied.error,
+					timestamp: new Date().toISOString()
+				};
+				return json(response, { status: denied.status });
+			}
+			source = 'client';
+		}
+
+		let value: unknown = null;
+		try {
+			value = JSON.parse(body);
+		} catch {
+			// Reported as not an object below
+		}
+		const parsed = parseDeviceMetadata(value, source);
+		if (!parsed.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: parsed.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 400 });
+		}
+
+		const result = await updateDeviceMetadata(deviceId, parsed.metadata, source);
+		if (!result) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<DeviceMetadataUpdate> = {
+			success: true,
+			data: result,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error updating device metadata:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
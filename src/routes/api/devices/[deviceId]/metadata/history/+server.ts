@@ -0,0 +1,64 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	DEVICE_METADATA_FIELDS,
+	listMetadataChanges,
+	type ApiResponse,
+	type DeviceMetadataChange,
+	type DeviceMetadataField
+} from '$lib/server/telemetry';
+
+/**
+ * GET /api/devices/:deviceId/metadata/history
+ * Returns the changes of the device's metadata, latest first, each with the
+ * previous and new value and whether the client or an admin made it.
+ *
+ * Query params:
+ * - field: only changes of this field, e.g. `kernelVersion`
+ * - limit: max number of changes (default: 100)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	try {
+		const field = url.searchParams.get('field') ?? undefined;
+		if (field && !(DEVICE_METADATA_FIELDS as readonly string[]).includes(field)) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown metadata field ${field}; expected ${DEVICE_METADATA_FIELDS.join(', ')}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 400 });
+		}
+
+		const limitParam = url.searchParams.get('limit');
+		const limit = limitParam ? parseInt(limitParam, 10) : 100;
+
+		const changes = await listMetadataChanges(params.deviceId!, {
+			field: field as DeviceMetadataField | undefined,
+			limit
+		});
+		if (!changes) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<DeviceMetadataChange[]> = {
+			success: true,
+			data: changes,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error listing device metadata changes:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
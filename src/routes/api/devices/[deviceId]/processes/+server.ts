@@ -0,0 +1,49 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { listDeviceProcesses, type ApiResponse, type ProcessIdentity } from '$lib/server/telemetry';
+
+/**
+ * GET /api/devices/:deviceId/processes
+ * Returns the processes seen on the device, most recently seen first. Each
+ * process is one instance (pid, start time and name within a boot).
+ *
+ * Query params:
+ * - hours: only processes seen in this time range (default: 24)
+ * - name: case-insensitive part of the process name
+ * - limit: max number of processes (default: 200)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	try {
+		const hoursParam = url.searchParams.get('hours');
+		const hours = hoursParam ? parseInt(hoursParam, 10) : 24;
+		const limitParam = url.searchParams.get('limit');
+		const limit = limitParam ? parseInt(limitParam, 10) : 200;
+		const name = url.searchParams.get('name') ?? undefined;
+
+		const processes = await listDeviceProcesses(params.deviceId!, { hours, name, limit });
+		if (!processes) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<ProcessIdentity[]> = {
+			success: true,
+			data: processes,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error listing device processes:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
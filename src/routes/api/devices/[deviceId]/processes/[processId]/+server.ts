@@ -0,0 +1,47 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { getProcessHistory, type ApiResponse, type ProcessHistory } from '$lib/server/telemetry';
+
+/**
+ * GET /api/devices/:deviceId/processes/:processId
+ * Returns one process with its CPU %, RSS, thread count and IO bytes per
+ * snapshot, oldest first
+ *
+ * Query params:
+ * - hours: only the last hours up to when the process was last seen (default: all)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	try {
+		const processId = parseInt(params.processId!, 10);
+		const hoursParam = url.searchParams.get('hours');
+		const hours = hoursParam ? parseInt(hoursParam, 10) : undefined;
+
+		const history = Number.isNaN(processId)
+			? null
+			: await getProcessHistory(params.deviceId!, processId, hours);
+		if (!history) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown process ${params.processId} of device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<ProcessHistory> = {
+			success: true,
+			data: history,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error fetching process history:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,73 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/auth';
+import {
+	parseTags,
+	readRequestJson,
+	setDeviceTags,
+	type ApiResponse,
+	type Device
+} from '$lib/server/telemetry';
+
+interface TagsRequest {
+	tags?: unknown;
+}
+
+/**
+ * PUT /api/devices/:deviceId/tags
+ * Replaces the tags of the device (admin only), e.g.
+ * `{ "tags": ["mainline-6.x", "rig:usb-c"] }`; an empty list removes them all.
+ * Returns the device.
+ */
+export const PUT: RequestHandler = async ({ request, params }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	try {
+		const read = await readRequestJson(request);
+		if (!read.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: read.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: read.status });
+		}
+		const body = read.value as TagsRequest | null;
+		const parsed = parseTags(body?.tags);
+		if (!parsed.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: parsed.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 400 });
+		}
+
+		const device = await setDeviceTags(params.deviceId!, parsed.tags);
+		if (!device) {
+			const response: ApiResponse = {
+				success: false,
+				error: `Unknown device ${params.deviceId}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<Device> = {
+			success: true,
+			data: device,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error setting device tags:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
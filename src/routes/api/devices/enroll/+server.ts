@@ -0,0 +1,76 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { canEnroll, enrollDevice, type IssuedCredential } from '$lib/server/auth';
+import { readRequestJson, type ApiResponse } from '$lib/server/telemetry';
+
+interface EnrollRequest {
+	deviceId?: unknown;
+	name?: unknown;
+}
+
+/**
+ * POST /api/devices/enroll
+ * Registers a device and issues its token. The token is only returned once.
+ *
+ * Requires the admin token (`Authorization: Bearer <ADMIN_TOKEN>`) or the
+ * shared enrollment secret (`X-Enrollment-Secret: <ENROLLMENT_SECRET>`).
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		if (!canEnroll(request)) {
+			const response: ApiResponse = {
+				success: false,
+				error: 'Enrollment requires the admin token or the enrollment secret',
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 401 });
+		}
+
+		const read = await readRequestJson(request);
+		if (!read.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: read.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: read.status });
+		}
+		const body = read.value as EnrollRequest | null;
+		if (!body || typeof body.deviceId !== 'string' || body.deviceId.trim() === '') {
+			const response: ApiResponse = {
+				success: false,
+				error: 'Missing deviceId',
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 400 });
+		}
+
+		const name = typeof body.name === 'string' ? body.name : undefined;
+		const result = await enrollDevice(body.deviceId, name);
+
+		if (!result.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: result.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: result.status });
+		}
+
+		const response: ApiResponse<IssuedCredential> = {
+			success: true,
+			data: result.credential,
+			timestamp: new Date().toISOString()
+		};
+		return json(response, { status: 201 });
+	} catch (error) {
+		console.error('Error enrolling device:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,69 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { getFleetComparison, type ApiResponse, type FleetComparison } from '$lib/server/telemetry';
+
+/** Longest range in days */
+const MAX_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function badRequest(error: string) {
+	const response: ApiResponse = {
+		success: false,
+		error,
+		timestamp: new Date().toISOString()
+	};
+	return json(response, { status: 400 });
+}
+
+/**
+ * GET /api/fleet
+ * Returns daily figures per device group: median and 95th percentile battery
+ * drain (%/hour while discharging), peak CPU temperature and average memory
+ * use, from the rollups. Archived devices are left out.
+ *
+ * Query params:
+ * - tags: comma-separated tags, one group each (default: the whole fleet as one group)
+ * - days: UTC days up to today (default: 7, at most 90)
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const tagsParam = url.searchParams.get('tags');
+		const tags = tagsParam
+			? [
+					...new Set(
+						tagsParam
+							.split(',')
+							.map((t) => t.trim())
+							.filter(Boolean)
+					)
+				]
+			: [];
+
+		const daysParam = url.searchParams.get('days');
+		const days = daysParam ? Number(daysParam) : 7;
+		if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+			return badRequest(`days must be a whole number from 1 to ${MAX_DAYS}`);
+		}
+
+		const until = new Date();
+		const from = new Date((Math.floor(until.getTime() / DAY_MS) - days + 1) * DAY_MS);
+		const comparison = await getFleetComparison(tags, from, until);
+
+		const response: ApiResponse<FleetComparison> = {
+			success: true,
+			data: comparison,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error aggregating fleet metrics:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
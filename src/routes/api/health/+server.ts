@@ -1,11 +1,22 @@
 import { json, type RequestHandler } from '@sveltejs/kit';
 import { db } from '$lib/server/db';
 import { sql } from 'drizzle-orm';
-import type { ApiResponse } from '$lib/server/telemetry';
+import {
+	ingestMode,
+	getSpoolStatus,
+	type ApiResponse,
+	type IngestMode,
+	type SpoolStatus
+} from '$lib/server/telemetry';
 
 interface HealthStatus {
 	status: 'healthy' | 'unhealthy';
 	database: 'connected' | 'disconnected';
+	ingestion: {
+		mode: IngestMode;
+		/** Spool queue depth and lag (async mode only) */
+		spool?: SpoolStatus;
+	};
 	uptime: number;
 	version: string;
 }
@@ -28,9 +39,20 @@ export const GET: RequestHandler = async () => {
 		dbStatus = 'disconnected';
 	}
 
+	const mode = ingestMode();
+	let spool: SpoolStatus | undefined;
+	if (mode === 'async') {
+		try {
+			spool = await getSpoolStatus();
+		} catch (error) {
+			console.error('Spool status check failed:', error);
+		}
+	}
+
 	const healthStatus: HealthStatus = {
 		status: dbStatus === 'connected' ? 'healthy' : 'unhealthy',
 		database: dbStatus,
+		ingestion: { mode, spool },
 		uptime: Math.floor((Date.now() - startTime) / 1000),
 		version: '1.0.0'
 	};
@@ -0,0 +1,66 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/auth';
+import {
+	getPartitionStatus,
+	maintainPartitions,
+	type ApiResponse,
+	type PartitionRun,
+	type PartitionStatus
+} from '$lib/server/telemetry';
+
+/**
+ * GET /api/partitions
+ * Monthly partitions of the reading tables and the state of the job that
+ * creates them ahead (admin only)
+ */
+export const GET: RequestHandler = async ({ request }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	try {
+		const response: ApiResponse<PartitionStatus> = {
+			success: true,
+			data: await getPartitionStatus(),
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error reading partitions:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/partitions
+ * Create the partitions of the current month and the months ahead now (admin only)
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	try {
+		const response: ApiResponse<PartitionRun> = {
+			success: true,
+			data: await maintainPartitions(),
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error creating partitions:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,59 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/auth';
+import {
+	detachPartitions,
+	monthRange,
+	type ApiResponse,
+	type DetachResult
+} from '$lib/server/telemetry';
+
+/**
+ * DELETE /api/partitions/:month
+ * Detach the partitions of a past month (YYYY-MM) from the reading tables,
+ * keeping them as plain tables; with `?drop=true` they are dropped (admin only)
+ */
+export const DELETE: RequestHandler = async ({ request, params, url }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	const range = monthRange(params.month!);
+	if (!range || range.until > new Date()) {
+		const response: ApiResponse = {
+			success: false,
+			error: 'month must be a past month as YYYY-MM',
+			timestamp: new Date().toISOString()
+		};
+		return json(response, { status: 400 });
+	}
+
+	try {
+		const result = await detachPartitions(params.month!, {
+			drop: url.searchParams.get('drop') === 'true'
+		});
+		if (!result) {
+			const response: ApiResponse = {
+				success: false,
+				error: `No partitions for ${params.month}`,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 404 });
+		}
+
+		const response: ApiResponse<DetachResult> = {
+			success: true,
+			data: result,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error detaching partitions:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,83 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/auth';
+import {
+	getRetentionStatus,
+	runRetention,
+	type ApiResponse,
+	type RetentionReport,
+	type RetentionStatus
+} from '$lib/server/telemetry';
+
+/**
+ * GET /api/retention
+ * Retention rules, background job state and the last pruning run (admin only).
+ * With `?dryRun=true` the response also reports how many rows would be
+ * removed right now.
+ */
+export const GET: RequestHandler = async ({ request, url }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	try {
+		const status: RetentionStatus & { report?: RetentionReport } = getRetentionStatus();
+		if (url.searchParams.get('dryRun') === 'true') {
+			status.report = (await runRetention({ dryRun: true }))!;
+		}
+
+		const response: ApiResponse<typeof status> = {
+			success: true,
+			data: status,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error reading retention status:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/retention
+ * Prune expired telemetry now (admin only); `?dryRun=true` only reports.
+ * Answers 409 while another pruning run is in progress.
+ */
+export const POST: RequestHandler = async ({ request, url }) => {
+	const denied = requireAdmin(request);
+	if (denied) return denied;
+
+	try {
+		const report = await runRetention({ dryRun: url.searchParams.get('dryRun') === 'true' });
+		if (!report) {
+			const response: ApiResponse = {
+				success: false,
+				error: 'A pruning run is already in progress',
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 409 });
+		}
+
+		const response: ApiResponse<RetentionReport> = {
+			success: true,
+			data: report,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error pruning telemetry:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -0,0 +1,30 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { listTags, type ApiResponse, type DeviceTag } from '$lib/server/telemetry';
+
+/**
+ * GET /api/tags
+ * Returns the device tags in use with their number of devices. Each tag is a
+ * group for /api/fleet.
+ */
+export const GET: RequestHandler = async () => {
+	try {
+		const tags = await listTags();
+
+		const response: ApiResponse<DeviceTag[]> = {
+			success: true,
+			data: tags,
+			timestamp: new Date().toISOString()
+		};
+		return json(response);
+	} catch (error) {
+		console.error('Error listing device tags:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -1,32 +1,147 @@
 import { json, type RequestHandler } from '@sveltejs/kit';
-import { processTelemetryPayload, type TelemetryPayload, type ApiResponse, type TelemetryAck } from '$lib/server/telemetry';
+import {
+	readRequestBody,
+	ingestMode,
+	spoolPayloads,
+	checkRateLimit,
+	rateLimitItems,
+	requestFormat,
+	decodeBody,
+	encodeResponse,
+	SUPPORTED_CONTENT_TYPES,
+	processTelemetryPayload,
+	validateTelemetryPayload,
+	formatValidationIssues,
+	type ApiResponse,
+	type TelemetryAck
+} from '$lib/server/telemetry';
+import { authenticateDevice, authorizeDevices } from '$lib/server/auth';
 
 /**
  * POST /api/telemetry
  * Receives individual telemetry payloads from devices
+ *
+ * An `Idempotency-Key` header (or `idempotencyKey` in the body) makes retries
+ * safe: a payload that was already stored is acknowledged with 200 and the
+ * original reading id instead of being inserted again.
+ *
+ * Bodies may be compressed with `Content-Encoding: gzip|deflate|zstd`, and sent
+ * as JSON, CBOR (`application/cbor`) or MessagePack (`application/msgpack`).
+ * The response uses the same format as the request.
+ *
+ * Enrolled devices authenticate with a bearer token or a body signature
+ * (see authenticateDevice).
+ *
+ * With INGEST_MODE=async the payload is written to the spool and acknowledged
+ * with 202 and `queued: true`; it is stored in the background.
+ *
+ * Devices over their rate limit get 429 with `Retry-After`; accepted payloads
+ * carry a `backpressure` hint so clients can slow down before that.
  */
 export const POST: RequestHandler = async ({ request }) => {
+	// Acks go back in the format the client sent; unknown types get JSON
+	const format = requestFormat(request);
+	if (!format) {
+		const response: ApiResponse = {
+			success: false,
+			error: `Unsupported Content-Type; use one of: ${SUPPORTED_CONTENT_TYPES.join(', ')}`,
+			timestamp: new Date().toISOString()
+		};
+		return json(response, { status: 415 });
+	}
+
 	try {
-		const payload = (await request.json()) as TelemetryPayload;
+		const read = await readRequestBody(request);
+		if (!read.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: read.error,
+				timestamp: new Date().toISOString()
+			};
+			return encodeResponse(response, read.status, format);
+		}
+		const bytes = read.body.bytes;
 
-		// Validate required fields
-		if (!payload.deviceId || !payload.timestamp || !payload.frequency || !payload.data) {
+		const auth = await authenticateDevice(request, read.body.raw);
+		if (!auth.ok) {
 			const response: ApiResponse = {
 				success: false,
-				error: 'Missing required fields: deviceId, timestamp, frequency, or data',
+				error: auth.error,
 				timestamp: new Date().toISOString()
 			};
-			return json(response, { status: 400 });
+			return encodeResponse(response, auth.status, format);
 		}
 
-		// Validate frequency
-		if (!['high', 'medium', 'low'].includes(payload.frequency)) {
+		let body: unknown;
+		try {
+			body = decodeBody(bytes, format);
+		} catch {
 			const response: ApiResponse = {
 				success: false,
-				error: `Invalid frequency: ${payload.frequency}. Must be 'high', 'medium', or 'low'`,
+				error: `Request body is not valid ${format === 'json' ? 'JSON' : format.toUpperCase()}`,
 				timestamp: new Date().toISOString()
 			};
-			return json(response, { status: 400 });
+			return encodeResponse(response, 400, format);
+		}
+
+		// Validate the full payload structure for its frequency
+		const validation = validateTelemetryPayload(body);
+		if (!validation.success) {
+			const response: ApiResponse = {
+				success: false,
+				error: 'Invalid telemetry payload',
+				errors: formatValidationIssues(validation.issues),
+				timestamp: new Date().toISOString()
+			};
+			return encodeResponse(response, 400, format);
+		}
+
+		const payload = validation.value;
+
+		const denied = await authorizeDevices(auth.device, [payload.deviceId]);
+		if (denied) {
+			const response: ApiResponse = {
+				success: false,
+				error: denied.error,
+				timestamp: new Date().toISOString()
+			};
+			return encodeResponse(response, denied.status, format);
+		}
+
+		const limit = checkRateLimit(rateLimitItems([payload], bytes.length));
+		if (!limit.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: limit.error,
+				timestamp: new Date().toISOString()
+			};
+			return encodeResponse(response, 429, format, {
+				'retry-after': String(limit.retryAfterSeconds)
+			});
+		}
+
+		const idempotencyKey = request.headers.get('idempotency-key');
+		if (idempotencyKey && !payload.idempotencyKey) {
+			payload.idempotencyKey = idempotencyKey;
+		}
+
+		// Accept into the spool; the worker stores it in the background
+		if (ingestMode() === 'async') {
+			const ack: TelemetryAck = {
+				received: true,
+				id: await spoolPayloads([payload]),
+				queued: true,
+				backpressure: limit.backpressure,
+				timestamp: new Date().toISOString()
+			};
+
+			const response: ApiResponse<TelemetryAck> = {
+				success: true,
+				data: ack,
+				timestamp: new Date().toISOString()
+			};
+
+			return encodeResponse(response, 202, format);
 		}
 
 		// Process the telemetry
@@ -35,6 +150,8 @@ export const POST: RequestHandler = async ({ request }) => {
 		const ack: TelemetryAck = {
 			received: true,
 			id: result.readingId.toString(),
+			duplicate: result.duplicate,
+			backpressure: limit.backpressure,
 			timestamp: new Date().toISOString()
 		};
 
@@ -44,7 +161,7 @@ export const POST: RequestHandler = async ({ request }) => {
 			timestamp: new Date().toISOString()
 		};
 
-		return json(response, { status: 201 });
+		return encodeResponse(response, result.duplicate ? 200 : 201, format);
 	} catch (error) {
 		console.error('Error processing telemetry:', error);
 
@@ -54,7 +171,6 @@ export const POST: RequestHandler = async ({ request }) => {
 			timestamp: new Date().toISOString()
 		};
 
-		return json(response, { status: 500 });
+		return encodeResponse(response, 500, format);
 	}
 };
-
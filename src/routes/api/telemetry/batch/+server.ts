@@ -1,33 +1,118 @@
 import { json, type RequestHandler } from '@sveltejs/kit';
-import { processTelemetryBatch, type TelemetryPayload, type ApiResponse, type TelemetryAck } from '$lib/server/telemetry';
+import {
+	readRequestBody,
+	ingestMode,
+	spoolPayloads,
+	checkRateLimit,
+	rateLimitItems,
+	requestFormat,
+	decodeBody,
+	encodeResponse,
+	SUPPORTED_CONTENT_TYPES,
+	processTelemetryBatch,
+	validateTelemetryPayload,
+	formatValidationIssues,
+	type TelemetryPayload,
+	type ApiResponse,
+	type BatchAck,
+	type BatchItemResult
+} from '$lib/server/telemetry';
+import { authenticateDevice, authorizeDevices } from '$lib/server/auth';
 
 interface BatchPayload {
-	payloads: TelemetryPayload[];
+	payloads: unknown[];
 }
 
-interface BatchAck {
-	received: number;
-	failed: number;
-	ids: string[];
-	errors: string[];
+/**
+ * Pick the response status for a batch:
+ * 201 when every entry was stored, 202 when every entry was accepted into the
+ * spool, 400 when every entry was invalid or an atomic batch had invalid
+ * entries, 500 when nothing was accepted because of server errors, 207
+ * otherwise.
+ */
+function batchStatus(ack: BatchAck, atomic: boolean): number {
+	const accepted = ack.stored + ack.duplicate + ack.queued;
+	if (accepted === ack.received) return ack.queued > 0 ? 202 : 201;
+	if (ack.invalid === ack.received || (atomic && ack.invalid > 0)) return 400;
+	if (accepted === 0) return 500;
+	return 207;
 }
 
 /**
  * POST /api/telemetry/batch
  * Receives batched telemetry payloads (for offline buffer flush)
+ *
+ * Bodies may be compressed with `Content-Encoding: gzip|deflate|zstd`, and sent
+ * as JSON, CBOR (`application/cbor`) or MessagePack (`application/msgpack`).
+ * The response uses the same format as the request.
+ *
+ * Every entry is reported on its own in `items`; valid entries are stored even
+ * when others are rejected, unless the batch is atomic.
+ *
+ * Batches over the rate limits of their devices are rejected as a whole with
+ * 429 and `Retry-After`.
+ *
+ * With INGEST_MODE=async, valid entries are written to the spool and reported
+ * as `queued` with 202; they are stored in the background.
+ *
+ * Query params:
+ * - atomic=true: store all payloads in a single transaction (all or nothing);
+ *   a batch with invalid entries is rejected with 400 and nothing is stored
  */
-export const POST: RequestHandler = async ({ request }) => {
+export const POST: RequestHandler = async ({ request, url }) => {
+	// Acks go back in the format the client sent; unknown types get JSON
+	const format = requestFormat(request);
+	if (!format) {
+		const response: ApiResponse = {
+			success: false,
+			error: `Unsupported Content-Type; use one of: ${SUPPORTED_CONTENT_TYPES.join(', ')}`,
+			timestamp: new Date().toISOString()
+		};
+		return json(response, { status: 415 });
+	}
+
 	try {
-		const body = (await request.json()) as BatchPayload;
+		const read = await readRequestBody(request);
+		if (!read.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: read.error,
+				timestamp: new Date().toISOString()
+			};
+			return encodeResponse(response, read.status, format);
+		}
+		const bytes = read.body.bytes;
+
+		const auth = await authenticateDevice(request, read.body.raw);
+		if (!auth.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: auth.error,
+				timestamp: new Date().toISOString()
+			};
+			return encodeResponse(response, auth.status, format);
+		}
+
+		let body: BatchPayload;
+		try {
+			body = decodeBody(bytes, format) as BatchPayload;
+		} catch {
+			const response: ApiResponse = {
+				success: false,
+				error: `Request body is not valid ${format === 'json' ? 'JSON' : format.toUpperCase()}`,
+				timestamp: new Date().toISOString()
+			};
+			return encodeResponse(response, 400, format);
+		}
 
 		// Validate payload structure
-		if (!body.payloads || !Array.isArray(body.payloads)) {
+		if (!body || !body.payloads || !Array.isArray(body.payloads)) {
 			const response: ApiResponse = {
 				success: false,
 				error: 'Missing or invalid payloads array',
 				timestamp: new Date().toISOString()
 			};
-			return json(response, { status: 400 });
+			return encodeResponse(response, 400, format);
 		}
 
 		if (body.payloads.length === 0) {
@@ -36,46 +121,113 @@ export const POST: RequestHandler = async ({ request }) => {
 				error: 'Empty payloads array',
 				timestamp: new Date().toISOString()
 			};
-			return json(response, { status: 400 });
+			return encodeResponse(response, 400, format);
 		}
 
-		// Validate each payload
-		const validationErrors: string[] = [];
+		// Validate each payload, keeping track of where the valid ones came from
+		const items: BatchItemResult[] = [];
+		const validPayloads: TelemetryPayload[] = [];
+		const validIndexes: number[] = [];
 		for (let i = 0; i < body.payloads.length; i++) {
-			const payload = body.payloads[i];
-			if (!payload.deviceId || !payload.timestamp || !payload.frequency || !payload.data) {
-				validationErrors.push(`Payload ${i}: Missing required fields`);
-			} else if (!['high', 'medium', 'low'].includes(payload.frequency)) {
-				validationErrors.push(`Payload ${i}: Invalid frequency '${payload.frequency}'`);
+			const validation = validateTelemetryPayload(body.payloads[i], `payloads[${i}]`);
+			if (validation.success) {
+				validPayloads.push(validation.value);
+				validIndexes.push(i);
+			} else {
+				items[i] = {
+					index: i,
+					status: 'invalid',
+					error: 'Invalid telemetry payload',
+					errors: formatValidationIssues(validation.issues)
+				};
 			}
 		}
 
-		if (validationErrors.length > 0) {
+		// An atomic batch is stored in full or not at all
+		const atomic = url.searchParams.get('atomic') === 'true';
+		if (atomic && validIndexes.length < body.payloads.length) {
+			for (const index of validIndexes) {
+				items[index] = {
+					index,
+					status: 'failed',
+					error: 'Not stored: the atomic batch has invalid entries'
+				};
+			}
+			validPayloads.length = 0;
+		}
+
+		// All devices in the batch must be covered by the request's credentials
+		const denied = await authorizeDevices(
+			auth.device,
+			validPayloads.map((p) => p.deviceId)
+		);
+		if (denied) {
 			const response: ApiResponse = {
 				success: false,
-				error: `Validation errors: ${validationErrors.join('; ')}`,
+				error: denied.error,
 				timestamp: new Date().toISOString()
 			};
-			return json(response, { status: 400 });
+			return encodeResponse(response, denied.status, format);
 		}
 
-		// Process all payloads
-		const results = await processTelemetryBatch(body.payloads);
+		// The whole request counts against the rate limits of its devices
+		const limit = checkRateLimit(rateLimitItems(validPayloads, bytes.length));
+		if (!limit.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: limit.error,
+				timestamp: new Date().toISOString()
+			};
+			return encodeResponse(response, 429, format, {
+				'retry-after': String(limit.retryAfterSeconds)
+			});
+		}
+
+		// Store the valid payloads, or queue them for the spool worker
+		let spoolId: string | undefined;
+		if (validPayloads.length > 0 && ingestMode() === 'async') {
+			spoolId = await spoolPayloads(validPayloads, { atomic });
+			for (const index of validIndexes) {
+				items[index] = { index, status: 'queued' };
+			}
+		} else if (validPayloads.length > 0) {
+			const outcomes = await processTelemetryBatch(validPayloads, { atomic });
+
+			outcomes.forEach((outcome, i) => {
+				const index = validIndexes[i];
+				items[index] =
+					outcome.status === 'failed'
+						? { index, status: 'failed', error: outcome.error }
+						: { index, status: outcome.status, id: outcome.result.readingId.toString() };
+			});
+		}
+
+		const count = (status: BatchItemResult['status']) =>
+			items.filter((item) => item.status === status).length;
 
 		const batchAck: BatchAck = {
-			received: results.length,
-			failed: 0,
-			ids: results.map((r) => r.readingId.toString()),
-			errors: []
+			received: items.length,
+			stored: count('stored'),
+			duplicate: count('duplicate'),
+			queued: count('queued'),
+			invalid: count('invalid'),
+			failed: count('failed'),
+			ids: items.filter((item) => item.id !== undefined).map((item) => item.id!),
+			errors: items
+				.filter((item) => item.error !== undefined)
+				.map((item) => `Payload ${item.index}: ${item.errors?.join('; ') ?? item.error}`),
+			items,
+			spoolId,
+			backpressure: limit.backpressure
 		};
 
 		const response: ApiResponse<BatchAck> = {
-			success: true,
+			success: batchAck.invalid === 0 && batchAck.failed === 0,
 			data: batchAck,
 			timestamp: new Date().toISOString()
 		};
 
-		return json(response, { status: 201 });
+		return encodeResponse(response, batchStatus(batchAck, atomic), format);
 	} catch (error) {
 		console.error('Error processing telemetry batch:', error);
 
@@ -85,7 +237,6 @@ export const POST: RequestHandler = async ({ request }) => {
 			timestamp: new Date().toISOString()
 		};
 
-		return json(response, { status: 500 });
+		return encodeResponse(response, 500, format);
 	}
 };
-
@@ -0,0 +1,16 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { getIngestionStats, type ApiResponse, type IngestionStats } from '$lib/server/telemetry';
+
+/**
+ * GET /api/telemetry/stats
+ * Ingestion statistics since the server started, and the payloads stored
+ * per schema version
+ */
+export const GET: RequestHandler = async () => {
+	const response: ApiResponse<IngestionStats> = {
+		success: true,
+		data: await getIngestionStats(),
+		timestamp: new Date().toISOString()
+	};
+	return json(response);
+};
@@ -0,0 +1,116 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	openRequestStream,
+	readLines,
+	ingestNdjson,
+	type ApiResponse
+} from '$lib/server/telemetry';
+import { authenticateDevice, authorizeDevices } from '$lib/server/auth';
+
+/**
+ * POST /api/telemetry/stream
+ * Receives newline-delimited telemetry payloads (for large offline buffer dumps)
+ *
+ * The body is read and stored incrementally, so it can be much larger than
+ * other uploads: up to STREAM_MAX_BODY_BYTES after decompression (default
+ * 1 GiB). Lines stored before the limit was hit stay stored. Run the server
+ * with BODY_SIZE_LIMIT=Infinity so adapter-node does not cut bodies off first.
+ * Devices over their rate limits are slowed down instead of rejected.
+ * Bodies may be compressed with `Content-Encoding: gzip|deflate|zstd`.
+ *
+ * The response is NDJSON as well: one `{ line, status, id | error }` object per
+ * payload line once its batch is committed, then a summary with `done: true`
+ * and the last acknowledged line. Uploads that break off can be resumed from
+ * the next line; readings that were already stored are reported as duplicates.
+ *
+ * Devices authenticate with a bearer token; body signatures cannot be checked
+ * before the body is processed and are not accepted here.
+ *
+ * Query params:
+ * - startLine: number of the first line in the body (default 1), to keep line
+ *   numbers stable across resumed uploads
+ */
+export const POST: RequestHandler = async ({ request, url }) => {
+	try {
+		if (request.headers.has('x-signature')) {
+			const response: ApiResponse = {
+				success: false,
+				error: 'Signed requests are not supported for streaming uploads; use a bearer token',
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 400 });
+		}
+
+		const startLine = Number(url.searchParams.get('startLine') ?? '1');
+		if (!Number.isInteger(startLine) || startLine < 1) {
+			const response: ApiResponse = {
+				success: false,
+				error: 'startLine must be a positive integer',
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: 400 });
+		}
+
+		const auth = await authenticateDevice(request, '');
+		if (!auth.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: auth.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: auth.status });
+		}
+
+		const opened = openRequestStream(request);
+		if (!opened.ok) {
+			const response: ApiResponse = {
+				success: false,
+				error: opened.error,
+				timestamp: new Date().toISOString()
+			};
+			return json(response, { status: opened.status });
+		}
+		const body = opened.body;
+
+		const acks = ingestNdjson(readLines(body.chunks, startLine), {
+			authorize: async (deviceIds) =>
+				(await authorizeDevices(auth.device, deviceIds))?.error ?? null
+		});
+
+		// Pull-based: the next batch is only read once the previous acks were consumed
+		const encoder = new TextEncoder();
+		const stream = new ReadableStream<Uint8Array>({
+			async pull(controller) {
+				const next = await acks.next();
+				if (next.done) {
+					body.finish();
+					controller.close();
+				} else {
+					controller.enqueue(encoder.encode(JSON.stringify(next.value) + '\n'));
+				}
+			},
+			async cancel() {
+				await acks.return(undefined);
+				body.finish();
+			}
+		});
+
+		return new Response(stream, {
+			status: 200,
+			headers: {
+				'content-type': 'application/x-ndjson',
+				'cache-control': 'no-store'
+			}
+		});
+	} catch (error) {
+		console.error('Error processing telemetry stream:', error);
+
+		const response: ApiResponse = {
+			success: false,
+			error: error instanceof Error ? error.message : 'Internal server error',
+			timestamp: new Date().toISOString()
+		};
+
+		return json(response, { status: 500 });
+	}
+};
@@ -3,10 +3,12 @@ import type { PageServerLoad } from './$types';
 export const load: PageServerLoad = async ({ fetch, url }) => {
 	const deviceId = url.searchParams.get('deviceId');
 	const hours = url.searchParams.get('hours') || '24';
+	const boot = url.searchParams.get('boot');
 
 	const queryParams = new URLSearchParams();
 	if (deviceId) queryParams.set('deviceId', deviceId);
 	queryParams.set('hours', hours);
+	if (boot) queryParams.set('boot', boot);
 	queryParams.set('limit', '1000');
 
 	const response = await fetch(`/api/dashboard?${queryParams.toString()}`);
@@ -15,7 +17,8 @@ export const load: PageServerLoad = async ({ fetch, url }) => {
 	return {
 		dashboardData: result.success ? result.data : null,
 		error: result.success ? null : result.error,
-		hours: parseInt(hours, 10)
+		hours: parseInt(hours, 10),
+		boot: boot ? parseInt(boot, 10) : null
 	};
 };
 
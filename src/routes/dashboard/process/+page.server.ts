@@ -0,0 +1,22 @@
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ fetch, url }) => {
+	const deviceId = url.searchParams.get('deviceId') || '';
+	const processId = url.searchParams.get('processId') || '';
+	const hours = url.searchParams.get('hours') || '';
+
+	const queryParams = new URLSearchParams();
+	if (hours) queryParams.set('hours', hours);
+
+	const response = await fetch(
+		`/api/devices/${encodeURIComponent(deviceId)}/processes/${encodeURIComponent(processId)}?${queryParams.toString()}`
+	);
+	const result = await response.json();
+
+	return {
+		deviceId,
+		history: result.success ? result.data : null,
+		error: result.success ? null : result.error,
+		hours: hours ? parseInt(hours, 10) : 0
+	};
+};
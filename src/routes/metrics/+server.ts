@@ -0,0 +1,30 @@
+import type { RequestHandler } from '@sveltejs/kit';
+import { renderPrometheusMetrics, PROMETHEUS_CONTENT_TYPE } from '$lib/server/telemetry';
+import { canScrapeMetrics } from '$lib/server/auth';
+
+/**
+ * GET /metrics
+ * Latest telemetry per device in the Prometheus text exposition format.
+ * Devices without readings in the last METRICS_STALE_SECONDS only report
+ * `ppp_device_up 0` and their last seen time.
+ */
+export const GET: RequestHandler = async ({ request }) => {
+	if (!canScrapeMetrics(request)) {
+		return new Response('Metrics token required\n', {
+			status: 401,
+			headers: { 'content-type': 'text/plain; charset=utf-8', 'www-authenticate': 'Bearer' }
+		});
+	}
+
+	try {
+		return new Response(await renderPrometheusMetrics(), {
+			headers: { 'content-type': PROMETHEUS_CONTENT_TYPE, 'cache-control': 'no-store' }
+		});
+	} catch (error) {
+		console.error('Error rendering Prometheus metrics:', error);
+		return new Response('Internal server error\n', {
+			status: 500,
+			headers: { 'content-type': 'text/plain; charset=utf-8' }
+		});
+	}
+};
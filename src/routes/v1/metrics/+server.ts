@@ -0,0 +1,97 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import {
+	readRequestBody,
+	checkRateLimit,
+	rateLimitItems,
+	otlpFormat,
+	decodeOtlpMetrics,
+	groupOtlpReadings,
+	storeOtlpReadings,
+	otlpExportResponse,
+	otlpErrorResponse,
+	type ApiResponse
+} from '$lib/server/telemetry';
+import { authenticateDevice, authorizeDevices } from '$lib/server/auth';
+
+/**
+ * POST /v1/metrics
+ * OTLP/HTTP metrics receiver for generic collectors (OpenTelemetry Collector,
+ * exporters speaking OTLP)
+ *
+ * Accepts ExportMetricsServiceRequest as protobuf (`application/x-protobuf`)
+ * or JSON (`application/json`), optionally gzip-compressed, and answers in
+ * the same encoding. Data points of resources without a device attribute
+ * (see OTLP_DEVICE_ATTRIBUTES) are rejected with a partial success response,
+ * unless the collector authenticates as a device with a bearer token.
+ *
+ * Errors use google.rpc.Status bodies; 429 carries `Retry-After`.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	const format = otlpFormat(request);
+	if (!format) {
+		const response: ApiResponse = {
+			success: false,
+			error: 'Unsupported Content-Type; use application/x-protobuf or application/json',
+			timestamp: new Date().toISOString()
+		};
+		return json(response, { status: 415 });
+	}
+
+	try {
+		const read = await readRequestBody(request);
+		if (!read.ok) {
+			return otlpErrorResponse(format, read.status, read.error);
+		}
+		const bytes = read.body.bytes;
+
+		const auth = await authenticateDevice(request, read.body.raw);
+		if (!auth.ok) {
+			return otlpErrorResponse(format, auth.status, auth.error);
+		}
+
+		const decoded = decodeOtlpMetrics(bytes, format);
+		if (!decoded.ok) {
+			return otlpErrorResponse(format, 400, decoded.error);
+		}
+
+		const receivedAt = new Date();
+		const grouped = groupOtlpReadings(decoded.resources, auth.device?.deviceId ?? null, receivedAt);
+		const errorMessage = grouped.errors.join('; ');
+		if (grouped.readings.length === 0) {
+			return grouped.rejected > 0
+				? otlpErrorResponse(format, 400, errorMessage)
+				: otlpExportResponse(format, 0, '');
+		}
+
+		const denied = await authorizeDevices(
+			auth.device,
+			grouped.readings.map((r) => r.deviceId)
+		);
+		if (denied) {
+			return otlpErrorResponse(format, denied.status, denied.error);
+		}
+
+		const limit = checkRateLimit(
+			rateLimitItems(
+				grouped.readings.map((r) => ({ deviceId: r.deviceId, frequency: 'high' as const })),
+				bytes.length
+			)
+		);
+		if (!limit.ok) {
+			return otlpErrorResponse(format, 429, limit.error, {
+				'retry-after': String(limit.retryAfterSeconds)
+			});
+		}
+
+		await storeOtlpReadings(grouped.readings, receivedAt);
+
+		return otlpExportResponse(format, grouped.rejected, errorMessage);
+	} catch (error) {
+		console.error('Error processing OTLP metrics:', error);
+		return otlpErrorResponse(
+			format,
+			500,
+			error instanceof Error ? error.message : 'Internal server error'
+		);
+	}
+};